@@ -0,0 +1,109 @@
+/**
+ * Express Application
+ *
+ * Middleware and routes of the Core API, without starting the server or
+ * background workers (see index.ts), so tests can run requests against it.
+ */
+
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import compression from 'compression';
+import { config } from './config/index.js';
+import { logger } from './utils/logger.js';
+import { healthRouter } from './routes/health.routes.js';
+import { authRouter } from './routes/auth.routes.js';
+import { ridesRouter } from './routes/rides.routes.js';
+import { driversRouter } from './routes/drivers.routes.js';
+import { webhooksRouter } from './routes/webhooks.routes.js';
+import { veroRouter } from './routes/vero.routes.js';
+import { payoutsRouter } from './routes/payouts.routes.js';
+import { taximeterRouter } from './routes/taximeter.routes.js';
+import { traficomRouter } from './routes/traficom.routes.js';
+import { rolesRouter } from './routes/roles.routes.js';
+import { tenantsRouter } from './routes/tenants.routes.js';
+import { pricingRouter } from './routes/pricing.routes.js';
+import { rateLimit, extractTenant } from './middleware/auth.middleware.js';
+
+// Create Express app
+export const app = express();
+
+// Security middleware
+app.use(helmet({
+  contentSecurityPolicy: config.nodeEnv === 'production',
+}));
+
+// CORS configuration
+app.use(cors({
+  origin: config.nodeEnv === 'production'
+    ? ['https://*.mobility.app', 'https://*.helsinkitaxi.fi']
+    : '*',
+  methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID'],
+  credentials: true,
+}));
+
+// Compression
+app.use(compression());
+
+// Webhooks (raw body for signature verification, so before JSON parsing)
+app.use('/webhooks', webhooksRouter);
+
+// Body parsing
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true }));
+
+// Request logging
+app.use((req, res, next) => {
+  const start = Date.now();
+  res.on('finish', () => {
+    const duration = Date.now() - start;
+    logger.debug({
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      duration: `${duration}ms`,
+      tenantId: req.tenantId,
+      userId: req.user?.userId,
+    });
+  });
+  next();
+});
+
+// Extract tenant from all requests
+app.use(extractTenant);
+
+// Rate limiting
+app.use(rateLimit);
+
+// Health routes (no auth required)
+app.use('/', healthRouter);
+
+// API routes
+app.use('/api/v1/auth', authRouter);
+app.use('/api/v1/rides', ridesRouter);
+app.use('/api/v1/drivers', driversRouter);
+app.use('/api/v1/vero', veroRouter);
+app.use('/api/v1/payouts', payoutsRouter);
+app.use('/api/v1/taximeter', taximeterRouter);
+app.use('/api/v1/traficom', traficomRouter);
+app.use('/api/v1/roles', rolesRouter);
+app.use('/api/v1/tenants', tenantsRouter);
+app.use('/api/v1/pricing', pricingRouter);
+
+// 404 handler
+app.use((_req, res) => {
+  res.status(404).json({
+    error: 'Not Found',
+    message: 'The requested resource does not exist',
+  });
+});
+
+// Error handler
+app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  logger.error({ err }, 'Unhandled error');
+  res.status(500).json({
+    error: 'Internal Server Error',
+    message: config.nodeEnv === 'development' ? err.message : 'An unexpected error occurred',
+  });
+});
@@ -5,13 +5,70 @@
  */
 
 import { drizzle } from 'drizzle-orm/node-postgres';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { getCurrentTenantId } from './tenant-context.js';
 import * as schema from './schema.js';
 
+// Tenant each pooled connection is currently scoped to (null = owner role)
+const connectionTenants = new WeakMap<PoolClient, string | null>();
+
+/**
+ * Switch a connection to the tenant of the current context, or back to the
+ * owner role outside one. Settings are session-level and only changed when
+ * the connection was last used for a different tenant.
+ */
+async function scopeConnection(client: PoolClient, tenantId: string | null): Promise<void> {
+  if ((connectionTenants.get(client) ?? null) === tenantId) return;
+
+  await client.query(
+    `SELECT set_config('role', $1, false), set_config('app.current_tenant_id', $2, false)`,
+    [tenantId ? config.database.appRole : 'none', tenantId ?? '']
+  );
+
+  connectionTenants.set(client, tenantId);
+}
+
+/**
+ * Pool whose connections are scoped to the current tenant context. Drizzle
+ * checks out connections for both single queries and transactions through
+ * connect(), so every query of a request is covered.
+ */
+class TenantScopedPool extends Pool {
+  connect(): Promise<PoolClient>;
+  connect(
+    callback: (err: Error | undefined, client: PoolClient | undefined, done: (release?: any) => void) => void
+  ): void;
+  connect(
+    callback?: (err: Error | undefined, client: PoolClient | undefined, done: (release?: any) => void) => void
+  ): Promise<PoolClient> | void {
+    const tenantId = getCurrentTenantId() ?? null;
+
+    const scoped = super.connect().then(async (client) => {
+      try {
+        await scopeConnection(client, tenantId);
+        return client;
+      } catch (err) {
+        // Discard the connection rather than reuse it in an unknown state
+        client.release(err as Error);
+        throw err;
+      }
+    });
+
+    if (!callback) {
+      return scoped;
+    }
+
+    scoped.then(
+      (client) => callback(undefined, client, (release?: any) => client.release(release)),
+      (err) => callback(err, undefined, () => undefined)
+    );
+  }
+}
+
 // Create PostgreSQL connection pool
-const pool = new Pool({
+const pool = new TenantScopedPool({
   connectionString: config.database.url,
   max: 20,
   idleTimeoutMillis: 30000,
@@ -30,9 +87,20 @@ pool.on('error', (err) => {
 // Create Drizzle instance
 export const db = drizzle(pool, { schema });
 
+// Transaction handle passed to services that take part in a caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Export schema for use in queries
 export * from './schema.js';
 
+/**
+ * Whether a query failed on the given unique index (Postgres unique_violation)
+ */
+export function isUniqueViolation(err: unknown, constraint: string): boolean {
+  const pgError = err as { code?: string; constraint?: string } | null;
+  return pgError?.code === '23505' && pgError.constraint === constraint;
+}
+
 /**
  * Test database connection
  */
@@ -0,0 +1,133 @@
+/**
+ * Location History Table
+ *
+ * driver_location_points is range-partitioned by month on recorded_at, which
+ * Drizzle can't declare, so it is created here rather than by drizzle-kit.
+ * Monthly partitions let expired history be dropped wholesale. Shared by the
+ * migration script, the location history worker (which keeps partitions
+ * ahead of time and drops expired ones) and the integration tests.
+ */
+
+import { sql } from 'drizzle-orm';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+
+const TABLE = 'driver_location_points';
+const PARTITION_NAME_PATTERN = /^driver_location_points_y(\d{4})m(\d{2})$/;
+const MONTHS_BEHIND = 1; // Late points (e.g. a stream backlog) still have a partition
+const MONTHS_AHEAD = 2;
+
+/**
+ * Range of recorded_at values that always has a partition: from the start
+ * of the previous month to the end of the month after next
+ */
+export function getLocationHistoryWindow(now: Date = new Date()): { from: Date; to: Date } {
+  const month = startOfMonth(now);
+
+  return {
+    from: addMonths(month, -MONTHS_BEHIND),
+    to: addMonths(month, MONTHS_AHEAD + 1),
+  };
+}
+
+/**
+ * Create the partitioned table and its indexes. Idempotent.
+ */
+export async function createLocationHistoryTable(
+  db: NodePgDatabase<Record<string, unknown>>
+): Promise<void> {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS ${sql.identifier(TABLE)} (
+      id uuid NOT NULL DEFAULT gen_random_uuid(),
+      tenant_id uuid NOT NULL,
+      driver_id uuid NOT NULL,
+      ride_id uuid,
+      latitude numeric(10, 7) NOT NULL,
+      longitude numeric(10, 7) NOT NULL,
+      heading numeric(5, 2),
+      speed numeric(6, 2),
+      accuracy numeric(7, 2),
+      recorded_at timestamp NOT NULL,
+      created_at timestamp NOT NULL DEFAULT now(),
+      PRIMARY KEY (id, recorded_at)
+    ) PARTITION BY RANGE (recorded_at)
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS driver_location_points_ride_idx
+      ON ${sql.identifier(TABLE)} (ride_id, recorded_at) WHERE ride_id IS NOT NULL
+  `);
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS driver_location_points_driver_idx
+      ON ${sql.identifier(TABLE)} (tenant_id, driver_id, recorded_at)
+  `);
+}
+
+/**
+ * Create the monthly partitions covering the current window (see
+ * getLocationHistoryWindow). Idempotent.
+ */
+export async function ensureLocationHistoryPartitions(
+  db: NodePgDatabase<Record<string, unknown>>,
+  now: Date = new Date()
+): Promise<void> {
+  const { from, to } = getLocationHistoryWindow(now);
+
+  for (let month = from; month < to; month = addMonths(month, 1)) {
+    const partition = sql.identifier(getPartitionName(month));
+    const start = month.toISOString();
+    const end = addMonths(month, 1).toISOString();
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS ${partition}
+        PARTITION OF ${sql.identifier(TABLE)}
+        FOR VALUES FROM (${sql.raw(`'${start}'`)}) TO (${sql.raw(`'${end}'`)})
+    `);
+  }
+}
+
+/**
+ * Drop the monthly partitions that end on or before the cutoff
+ *
+ * @returns Names of the dropped partitions
+ */
+export async function dropLocationHistoryPartitionsBefore(
+  db: NodePgDatabase<Record<string, unknown>>,
+  cutoff: Date
+): Promise<string[]> {
+  const result = await db.execute(sql`
+    SELECT child.relname AS name
+    FROM pg_inherits
+    JOIN pg_class parent ON parent.oid = pg_inherits.inhparent
+    JOIN pg_class child ON child.oid = pg_inherits.inhrelid
+    WHERE parent.relname = ${TABLE}
+  `);
+
+  const dropped: string[] = [];
+
+  for (const { name } of result.rows as Array<{ name: string }>) {
+    const match = PARTITION_NAME_PATTERN.exec(name);
+    if (!match) continue;
+
+    const month = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+
+    if (addMonths(month, 1) <= cutoff) {
+      await db.execute(sql`DROP TABLE IF EXISTS ${sql.identifier(name)}`);
+      dropped.push(name);
+    }
+  }
+
+  return dropped;
+}
+
+function getPartitionName(month: Date): string {
+  const mm = String(month.getUTCMonth() + 1).padStart(2, '0');
+  return `${TABLE}_y${month.getUTCFullYear()}m${mm}`;
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addMonths(month: Date, months: number): Date {
+  return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + months, 1));
+}
@@ -0,0 +1,49 @@
+/**
+ * Stored Phone Numbers
+ *
+ * Phone numbers are looked up in E.164 form, but rows written before phone
+ * sign-in hold them as they were entered (`040 123 4567`). The migration
+ * script rewrites those in E.164, so phone sign-in finds the existing
+ * account instead of creating a second one (riders) or refusing (drivers).
+ */
+
+import { eq, sql } from 'drizzle-orm';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { users } from './schema.js';
+import { normalizePhoneNumber } from '../utils/phone.js';
+
+/**
+ * Rewrite stored phone numbers that aren't in E.164 form. Numbers that
+ * can't be read are left as they are and reported. Idempotent.
+ *
+ * @returns the number of rows rewritten, and of numbers left as they are
+ */
+export async function normalizeStoredPhoneNumbers(
+  db: NodePgDatabase<Record<string, unknown>>,
+  log: (message: string) => void = () => undefined
+): Promise<{ normalized: number; invalid: number }> {
+  const rows = await db.select({ id: users.id, phone: users.phone })
+    .from(users)
+    .where(sql`${users.phone} !~ '^\\+[1-9][0-9]{6,14}$'`);
+
+  let normalized = 0;
+  let invalid = 0;
+
+  for (const row of rows) {
+    const phone = normalizePhoneNumber(row.phone);
+
+    if (!phone) {
+      log(`  User ${row.id}: phone number "${row.phone}" is not valid, left as it is`);
+      invalid++;
+      continue;
+    }
+
+    await db.update(users)
+      .set({ phone })
+      .where(eq(users.id, row.id));
+
+    normalized++;
+  }
+
+  return { normalized, invalid };
+}
@@ -0,0 +1,73 @@
+/**
+ * Redis Connection
+ *
+ * Shared ioredis client for caching, distributed locks and pub/sub
+ * messaging with the location-service.
+ */
+
+import { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+const redisOptions = {
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password || undefined,
+  lazyConnect: true,
+  maxRetriesPerRequest: 3,
+};
+
+// Command client
+export const redis = new Redis(redisOptions);
+
+redis.on('error', (err) => {
+  logger.error({ err }, 'Redis client error');
+});
+
+// Subscriber clients are kept so they can be closed on shutdown
+const subscribers: Redis[] = [];
+
+/**
+ * Build a namespaced Redis key or channel name
+ */
+export function redisKey(...parts: string[]): string {
+  return `${config.redis.keyPrefix}${parts.join(':')}`;
+}
+
+/**
+ * Create a dedicated connection for SUBSCRIBE (a subscribed
+ * connection cannot issue regular commands)
+ */
+export function createRedisSubscriber(): Redis {
+  const subscriber = new Redis(redisOptions);
+
+  subscriber.on('error', (err) => {
+    logger.error({ err }, 'Redis subscriber error');
+  });
+
+  subscribers.push(subscriber);
+  return subscriber;
+}
+
+/**
+ * Test Redis connection
+ */
+export async function connectRedis(): Promise<boolean> {
+  try {
+    await redis.connect();
+    logger.info('Redis connection successful');
+    return true;
+  } catch (err) {
+    logger.error({ err }, 'Redis connection failed');
+    return false;
+  }
+}
+
+/**
+ * Close Redis connections
+ */
+export async function closeRedis(): Promise<void> {
+  await Promise.all(subscribers.map((subscriber) => subscriber.quit()));
+  await redis.quit();
+  logger.info('Redis connections closed');
+}
@@ -0,0 +1,77 @@
+/**
+ * Row-Level Security
+ *
+ * Tenant isolation policies, enforced for connections running as the
+ * application role (see tenant-context.ts). Shared by the migration script
+ * and the integration tests.
+ */
+
+import { sql } from 'drizzle-orm';
+import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+
+// Tenant-isolated tables; each has a tenant_id column
+export const RLS_TABLES = [
+  'users',
+  'auth_sessions',
+  'roles',
+  'user_roles',
+  'pricing_config_versions',
+  'vehicles',
+  'rides',
+  'ride_offers',
+  'ride_events',
+  'driver_location_points',
+  'payments',
+  'driver_ratings',
+  'taximeter_readings',
+  'traficom_reports',
+  'driver_ledger_entries',
+  'driver_payouts',
+  'vero_reports',
+];
+
+/**
+ * Enable row-level security with a tenant isolation policy on every
+ * tenant-isolated table, and set up the application role. Idempotent.
+ *
+ * @param appRole - Role tenant-scoped connections switch to
+ * @param log - Progress output
+ */
+export async function applyRowLevelSecurity(
+  db: NodePgDatabase<Record<string, unknown>>,
+  appRole: string,
+  log: (message: string) => void = () => undefined
+): Promise<void> {
+  const role = sql.identifier(appRole);
+
+  // Application role; the connecting user must be a member to switch to it
+  const existingRole = await db.execute(sql`SELECT 1 FROM pg_roles WHERE rolname = ${appRole}`);
+
+  if (existingRole.rowCount === 0) {
+    await db.execute(sql`CREATE ROLE ${role} LOGIN`);
+  }
+
+  await db.execute(sql`GRANT ${role} TO CURRENT_USER`);
+
+  for (const table of RLS_TABLES) {
+    const tableName = sql.identifier(table);
+
+    await db.execute(sql`ALTER TABLE ${tableName} ENABLE ROW LEVEL SECURITY`);
+
+    // Rows are visible only when tenant_id matches the connection's tenant;
+    // without a tenant set, nothing is visible
+    await db.execute(sql`DROP POLICY IF EXISTS tenant_isolation_policy ON ${tableName}`);
+    await db.execute(sql`
+      CREATE POLICY tenant_isolation_policy ON ${tableName}
+        USING (tenant_id = nullif(current_setting('app.current_tenant_id', true), '')::uuid)
+        WITH CHECK (tenant_id = nullif(current_setting('app.current_tenant_id', true), '')::uuid)
+    `);
+
+    log(`  ✓ RLS enabled for ${table}`);
+  }
+
+  // Requests also touch shared tables (tenants, outbox_events, ...)
+  await db.execute(sql`GRANT USAGE ON SCHEMA public TO ${role}`);
+  await db.execute(sql`GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO ${role}`);
+  await db.execute(sql`GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public TO ${role}`);
+}
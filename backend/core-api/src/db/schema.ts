@@ -12,8 +12,13 @@
  * - rides: Ride requests and trip history
  * - ride_waypoints: Pickup/dropoff coordinates
  * - payments: Transaction records
+ * - ride_offers: Offers sent to drivers during matching
+ * - ride_events: Ride status transition history
+ * - driver_location_points: GPS history and ride traces (partitioned by month)
  * - driver_ratings: Rider ratings for drivers
  * - taximeter_readings: Finnish compliance - MID-compliant meter data
+ * - outbox_events: Kafka events pending relay (transactional outbox)
+ * - stripe_webhook_events: Processed Stripe webhook event ids
  */
 
 import {
@@ -23,6 +28,7 @@ import {
   timestamp,
   decimal,
   integer,
+  bigserial,
   boolean,
   uuid,
   pgEnum,
@@ -49,10 +55,18 @@ export const rideStatusEnum = pgEnum('ride_status', [
   'completed',
   'cancelled_by_rider',
   'cancelled_by_driver',
+  'cancelled_by_operator', // Dispatcher, admin or system
   'no_drivers_available',
 ]);
+export const rideOfferStatusEnum = pgEnum('ride_offer_status', ['pending', 'accepted', 'declined', 'expired', 'cancelled']);
 export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'processing', 'completed', 'failed', 'refunded']);
 export const paymentMethodEnum = pgEnum('payment_method', ['card', 'mobilepay', 'bank_transfer', 'cash', 'invoice']);
+export const outboxStatusEnum = pgEnum('outbox_status', ['pending', 'sent', 'failed']);
+export const ledgerAccountEnum = pgEnum('ledger_account', ['driver_payable', 'platform_clearing', 'driver_cash', 'commission', 'adjustments', 'payouts']);
+export const ledgerEntryTypeEnum = pgEnum('ledger_entry_type', ['ride_revenue', 'commission', 'tip', 'adjustment', 'cash_collected', 'refund', 'payout', 'payout_reversal']);
+export const payoutStatusEnum = pgEnum('payout_status', ['pending', 'paid', 'failed']);
+export const traficomReportStatusEnum = pgEnum('traficom_report_status', ['submitted', 'failed']);
+export const veroReportStatusEnum = pgEnum('vero_report_status', ['queued', 'accepted', 'pending', 'rejected', 'failed']);
 
 // ============================================================================
 // TENANTS (White-Label Clients)
@@ -76,28 +90,75 @@ export const tenants = pgTable('tenants', {
   timezone: varchar('timezone', { length: 50 }).default('Europe/Helsinki'),
   locale: varchar('locale', { length: 10 }).default('fi-FI'),
   
-  // Pricing configuration (stored as JSON for flexibility)
+  // Pricing configuration: the current version (see pricing_config_versions);
+  // validated by pricingConfigSchema
   pricingConfig: jsonb('pricing_config').default({
-    baseFare: 5.90,
-    perKmRate: 1.60,
-    perMinuteRate: 0.80,
+    tariffs: [
+      { code: 'standard', name: 'Standard', baseFare: 5.90, perKmRate: 1.60, perMinuteRate: 0.80 },
+    ],
+    holidays: [],
     minimumFare: 8.00,
     bookingFee: 1.00,
+    vehicleTypeMultipliers: { standard: 1.0, comfort: 1.3, xl: 1.5, accessible: 1.0, electric: 1.1 },
+    passengerSurcharges: [],
+    airportFees: [],
+    upfrontPricing: {
+      enabled: true,
+      quoteTtlSeconds: 300,
+      maxRouteDeviationPercent: 20,
+      voidOnExtraStop: true,
+    },
     surgePricingEnabled: true,
+    surgeCurve: [
+      { demandRatio: 1.0, multiplier: 1.0 },
+      { demandRatio: 1.5, multiplier: 1.2 },
+      { demandRatio: 2.0, multiplier: 1.5 },
+      { demandRatio: 3.0, multiplier: 2.0 },
+    ],
+    surgeSmoothingFactor: 0.3,
     vatRate: 0.135, // 13.5% for passenger transport in Finland
   }),
+  pricingConfigVersion: integer('pricing_config_version'), // null = not yet versioned
+  
+  // Dispatch configuration (driver offer cycle)
+  dispatchConfig: jsonb('dispatch_config').default({
+    offerTimeoutSeconds: 30,
+    maxOffersPerRide: 5,
+    scheduledLeadMinutes: 15, // Start matching this long before a scheduled pickup
+    scheduledEscalationMinutes: 10, // Escalate to dispatchers if still unmatched after this
+  }),
+  
+  // Driver payouts (commission and batched transfer cadence)
+  payoutConfig: jsonb('payout_config').default({
+    commissionPercent: 15,
+    payoutSchedule: 'weekly', // 'daily' | 'weekly'
+    payoutWeekday: 1, // Weekly payout day, 0 = Sunday
+    minimumPayoutAmount: 10.00,
+  }),
+  
+  // SMS (sign-in codes)
+  smsSenderId: varchar('sms_sender_id', { length: 11 }), // null = platform default sender
+  
+  // Driver location history kept this many days; null = platform default
+  locationHistoryRetentionDays: integer('location_history_retention_days'),
   
   // Finnish compliance
   traficomLicenseNumber: varchar('traficom_license_number', { length: 50 }),
   enableTaximeterIntegration: boolean('enable_taximeter_integration').default(true),
   veroApiEnabled: boolean('vero_api_enabled').default(false),
   
+  // Payments
+  paymentProvider: varchar('payment_provider', { length: 20 }), // null = platform default
+  
   // Stripe Connect
   stripeAccountId: varchar('stripe_account_id', { length: 50 }),
   stripeOnboardingComplete: boolean('stripe_onboarding_complete').default(false),
   
   // Status
   isActive: boolean('is_active').default(true),
+  deactivatedAt: timestamp('deactivated_at'),
+  isLive: boolean('is_live').default(true), // Tenants created through the admin API start in onboarding
+  liveAt: timestamp('live_at'),
   
   // Timestamps
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -115,8 +176,8 @@ export const users = pgTable('users', {
   tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
   
   // Authentication
-  email: varchar('email', { length: 255 }).notNull(),
-  phone: varchar('phone', { length: 20 }).notNull(),
+  email: varchar('email', { length: 255 }), // null for riders who signed up with a phone code
+  phone: varchar('phone', { length: 20 }).notNull(), // E.164
   passwordHash: varchar('password_hash', { length: 255 }),
   
   // Profile
@@ -128,6 +189,7 @@ export const users = pgTable('users', {
   // Type and status
   userType: userTypeEnum('user_type').notNull(),
   status: userStatusEnum('status').default('pending_verification'),
+  isPlatformAdmin: boolean('is_platform_admin').default(false), // Platform operator staff; manages all tenants
   
   // Driver-specific fields
   driverLicenseNumber: varchar('driver_license_number', { length: 50 }),
@@ -135,6 +197,7 @@ export const users = pgTable('users', {
   taxiDriverPermitNumber: varchar('taxi_driver_permit_number', { length: 50 }), // Finnish taxi permit
   taxiDriverPermitExpiry: timestamp('taxi_driver_permit_expiry'),
   trainingCertificateNumber: varchar('training_certificate_number', { length: 50 }), // 21hr training
+  isOnline: boolean('is_online').default(false), // Driver is taking rides
   
   // Ratings
   averageRating: decimal('average_rating', { precision: 3, scale: 2 }).default('5.00'),
@@ -144,10 +207,12 @@ export const users = pgTable('users', {
   // Stripe Connect (for drivers)
   stripeCustomerId: varchar('stripe_customer_id', { length: 50 }),
   stripeConnectAccountId: varchar('stripe_connect_account_id', { length: 50 }),
+  payoutAccounts: jsonb('payout_accounts').default({}), // Payee account ids for non-Stripe providers, by provider
   
   // Finnish compliance
   socialSecurityNumber: varchar('social_security_number', { length: 11 }), // Encrypted/hashed
   veroTaxNumber: varchar('vero_tax_number', { length: 20 }),
+  businessId: varchar('business_id', { length: 20 }), // Driver's Y-tunnus (sole trader)
   
   // Push notifications
   fcmToken: text('fcm_token'),
@@ -173,6 +238,83 @@ export const users = pgTable('users', {
   userTypeIdx: index('users_type_idx').on(table.userType),
 }));
 
+// ============================================================================
+// AUTH SESSIONS (Refresh tokens per signed-in device)
+// ============================================================================
+
+export const authSessions = pgTable('auth_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  userId: uuid('user_id').notNull().references(() => users.id),
+  
+  // Rotation: only the most recently issued refresh token is valid
+  refreshTokenId: uuid('refresh_token_id').notNull(),
+  
+  // Device
+  userAgent: text('user_agent'),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  
+  // Revocation
+  revokedAt: timestamp('revoked_at'),
+  revokedReason: varchar('revoked_reason', { length: 50 }), // logout, password_changed, suspended, token_reuse, ...
+  
+  // Timestamps
+  lastUsedAt: timestamp('last_used_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('auth_sessions_user_idx').on(table.userId),
+}));
+
+// ============================================================================
+// ROLES (Tenant-defined permission bundles for admins and dispatchers)
+// ============================================================================
+
+export const roles = pgTable('roles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  key: varchar('key', { length: 50 }).notNull(), // e.g. 'night_dispatcher'; built-in keys are reserved
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  permissions: jsonb('permissions').notNull().default([]), // Permission names, e.g. ['rides.reassign']
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantKeyIdx: uniqueIndex('roles_tenant_key_idx').on(table.tenantId, table.key),
+}));
+
+export const userRoles = pgTable('user_roles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  userId: uuid('user_id').notNull().references(() => users.id),
+  roleKey: varchar('role_key', { length: 50 }).notNull(), // Built-in role or roles.key
+  assignedById: uuid('assigned_by_id').references(() => users.id),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userRoleIdx: uniqueIndex('user_roles_user_role_idx').on(table.userId, table.roleKey),
+}));
+
+// ============================================================================
+// PRICING CONFIG VERSIONS
+// ============================================================================
+
+export const pricingConfigVersions = pgTable('pricing_config_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  version: integer('version').notNull(), // 1, 2, ... per tenant
+  config: jsonb('config').notNull(), // Immutable once written
+  createdById: uuid('created_by_id').references(() => users.id), // null = recorded from the existing config
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantVersionIdx: uniqueIndex('pricing_config_versions_tenant_version_idx').on(table.tenantId, table.version),
+}));
+
 // ============================================================================
 // VEHICLES
 // ============================================================================
@@ -202,6 +344,7 @@ export const vehicles = pgTable('vehicles', {
   taximeterModel: varchar('taximeter_model', { length: 50 }), // e.g., Mitax-400
   taximeterCalibrationDate: timestamp('taximeter_calibration_date'),
   taximeterBluetoothMac: varchar('taximeter_bluetooth_mac', { length: 17 }), // For app integration
+  taximeterPublicKey: text('taximeter_public_key'), // PEM; verifies the meter's signed receipts
   
   // Capacity
   passengerCapacity: integer('passenger_capacity').default(4),
@@ -252,9 +395,12 @@ export const rides = pgTable('rides', {
   
   // Route
   estimatedDistanceMeters: integer('estimated_distance_meters'),
-  actualDistanceMeters: integer('actual_distance_meters'),
+  actualDistanceMeters: integer('actual_distance_meters'), // From the GPS trace; the reported value if the trace is too sparse
   estimatedDurationSeconds: integer('estimated_duration_seconds'),
   actualDurationSeconds: integer('actual_duration_seconds'),
+  reportedDistanceMeters: integer('reported_distance_meters'), // Sent by the driver app on completion
+  reportedDurationSeconds: integer('reported_duration_seconds'),
+  tripMeasurementFlag: varchar('trip_measurement_flag', { length: 30 }), // 'reported_mismatch', 'insufficient_trace'
   routePolyline: text('route_polyline'), // Encoded polyline
   
   // Pricing
@@ -264,6 +410,14 @@ export const rides = pgTable('rides', {
   distanceFare: decimal('distance_fare', { precision: 10, scale: 2 }),
   timeFare: decimal('time_fare', { precision: 10, scale: 2 }),
   surgeMutiplier: decimal('surge_multiplier', { precision: 3, scale: 2 }).default('1.00'),
+  surgeZone: varchar('surge_zone', { length: 12 }), // Geohash zone the multiplier was quoted for
+  pricingConfigVersionId: uuid('pricing_config_version_id').references(() => pricingConfigVersions.id), // Pricing the ride was quoted and charged with
+  tariffCode: varchar('tariff_code', { length: 20 }), // e.g. 'day', 'night', 'weekend', 'holiday'
+  passengerSurcharge: decimal('passenger_surcharge', { precision: 10, scale: 2 }),
+  airportFee: decimal('airport_fee', { precision: 10, scale: 2 }),
+  quoteId: uuid('quote_id'), // Upfront quote the rider booked with
+  lockedFare: decimal('locked_fare', { precision: 10, scale: 2 }), // Fixed price from the quote
+  lockedFareVoidReason: varchar('locked_fare_void_reason', { length: 30 }), // 'route_deviation', 'extra_stop', 'ride_edited'
   finalFare: decimal('final_fare', { precision: 10, scale: 2 }),
   vatAmount: decimal('vat_amount', { precision: 10, scale: 2 }),
   currency: varchar('currency', { length: 3 }).default('EUR'),
@@ -279,6 +433,8 @@ export const rides = pgTable('rides', {
   // Scheduling
   scheduledPickupTime: timestamp('scheduled_pickup_time'),
   isScheduled: boolean('is_scheduled').default(false),
+  releasedAt: timestamp('released_at'), // Scheduled ride handed to driver matching
+  escalatedAt: timestamp('escalated_at'), // No driver found in time; flagged for dispatchers
   
   // Special requirements
   notes: text('notes'),
@@ -288,7 +444,7 @@ export const rides = pgTable('rides', {
   
   // Cancellation
   cancellationReason: text('cancellation_reason'),
-  cancelledBy: varchar('cancelled_by', { length: 20 }), // 'rider', 'driver', 'system'
+  cancelledBy: varchar('cancelled_by', { length: 20 }), // 'rider', 'driver', 'dispatcher', 'system'
   cancellationFee: decimal('cancellation_fee', { precision: 10, scale: 2 }),
   
   // SOS
@@ -309,8 +465,93 @@ export const rides = pgTable('rides', {
   driverIdx: index('rides_driver_idx').on(table.driverId),
   statusIdx: index('rides_status_idx').on(table.status),
   requestedAtIdx: index('rides_requested_at_idx').on(table.requestedAt),
+  scheduledPickupIdx: index('rides_scheduled_pickup_idx').on(table.status, table.scheduledPickupTime),
+  quoteIdx: uniqueIndex('rides_quote_idx').on(table.quoteId), // A quote books one ride
 }));
 
+// ============================================================================
+// RIDE OFFERS (Driver matching)
+// ============================================================================
+
+export const rideOffers = pgTable('ride_offers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  rideId: uuid('ride_id').notNull().references(() => rides.id),
+  driverId: uuid('driver_id').notNull().references(() => users.id),
+  
+  // Status
+  status: rideOfferStatusEnum('status').default('pending').notNull(),
+  
+  // Driver position when offered
+  distanceMeters: integer('distance_meters'),
+  etaSeconds: integer('eta_seconds'),
+  
+  // Response
+  declineReason: text('decline_reason'),
+  
+  // Timestamps
+  offeredAt: timestamp('offered_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  respondedAt: timestamp('responded_at'),
+}, (table) => ({
+  tenantIdx: index('ride_offers_tenant_idx').on(table.tenantId),
+  rideIdx: index('ride_offers_ride_idx').on(table.rideId),
+  driverIdx: index('ride_offers_driver_idx').on(table.driverId, table.offeredAt),
+}));
+
+// ============================================================================
+// RIDE EVENTS (Status transition history)
+// ============================================================================
+
+export const rideEvents = pgTable('ride_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  rideId: uuid('ride_id').notNull().references(() => rides.id),
+  
+  // Transition
+  fromStatus: rideStatusEnum('from_status'), // null for ride creation
+  toStatus: rideStatusEnum('to_status').notNull(),
+  
+  // Who made the change
+  actorType: varchar('actor_type', { length: 20 }).notNull(), // 'rider', 'driver', 'dispatcher', 'system'
+  actorId: uuid('actor_id'),
+  
+  // Context
+  reason: text('reason'),
+  metadata: jsonb('metadata'),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('ride_events_tenant_idx').on(table.tenantId),
+  rideIdx: index('ride_events_ride_idx').on(table.rideId, table.createdAt),
+}));
+
+// ============================================================================
+// DRIVER LOCATION POINTS (GPS history and ride traces)
+// ============================================================================
+
+// Range-partitioned by month on recorded_at, with primary key (id, recorded_at).
+// Drizzle can't declare partitioning, so the table and its indexes are created
+// by db/location-history.ts and left out of drizzle-kit push.
+export const driverLocationPoints = pgTable('driver_location_points', {
+  id: uuid('id').defaultRandom().notNull(),
+  tenantId: uuid('tenant_id').notNull(),
+  driverId: uuid('driver_id').notNull(),
+  rideId: uuid('ride_id'), // Ride the driver was on when the point was recorded
+  
+  // Position
+  latitude: decimal('latitude', { precision: 10, scale: 7 }).notNull(),
+  longitude: decimal('longitude', { precision: 10, scale: 7 }).notNull(),
+  heading: decimal('heading', { precision: 5, scale: 2 }),
+  speed: decimal('speed', { precision: 6, scale: 2 }), // m/s
+  accuracy: decimal('accuracy', { precision: 7, scale: 2 }), // meters
+  
+  // Timestamps
+  recordedAt: timestamp('recorded_at').notNull(), // Device time of the fix
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ============================================================================
 // PAYMENTS
 // ============================================================================
@@ -335,6 +576,10 @@ export const payments = pgTable('payments', {
   // Status
   status: paymentStatusEnum('status').default('pending'),
   
+  // Provider
+  provider: varchar('provider', { length: 20 }).default('stripe').notNull(),
+  providerPaymentId: varchar('provider_payment_id', { length: 100 }), // Intent/transaction id at the provider
+  
   // Stripe
   stripePaymentIntentId: varchar('stripe_payment_intent_id', { length: 100 }),
   stripeChargeId: varchar('stripe_charge_id', { length: 100 }),
@@ -347,6 +592,7 @@ export const payments = pgTable('payments', {
   // Finnish compliance
   veroReportedAt: timestamp('vero_reported_at'),
   veroReportId: varchar('vero_report_id', { length: 100 }),
+  veroReportStatus: veroReportStatusEnum('vero_report_status'),
   receiptNumber: varchar('receipt_number', { length: 50 }),
   
   // Refund
@@ -354,6 +600,16 @@ export const payments = pgTable('payments', {
   refundReason: text('refund_reason'),
   refundedAt: timestamp('refunded_at'),
   
+  // Dispute (chargeback)
+  stripeDisputeId: varchar('stripe_dispute_id', { length: 100 }),
+  disputeStatus: varchar('dispute_status', { length: 30 }),
+  disputeReason: varchar('dispute_reason', { length: 50 }),
+  disputedAt: timestamp('disputed_at'),
+  
+  // Failure
+  failureCode: varchar('failure_code', { length: 100 }),
+  failureMessage: text('failure_message'),
+  
   // Timestamps
   processedAt: timestamp('processed_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -363,6 +619,8 @@ export const payments = pgTable('payments', {
   rideIdx: index('payments_ride_idx').on(table.rideId),
   statusIdx: index('payments_status_idx').on(table.status),
   stripePaymentIntentIdx: index('payments_stripe_intent_idx').on(table.stripePaymentIntentId),
+  stripeChargeIdx: index('payments_stripe_charge_idx').on(table.stripeChargeId),
+  providerPaymentIdx: index('payments_provider_payment_idx').on(table.provider, table.providerPaymentId),
 }));
 
 // ============================================================================
@@ -446,6 +704,172 @@ export const taximeterReadings = pgTable('taximeter_readings', {
   receiptIdx: uniqueIndex('taximeter_receipt_idx').on(table.receiptNumber, table.tenantId),
 }));
 
+// ============================================================================
+// TRAFICOM REPORTS (Taximeter trip reporting)
+// ============================================================================
+
+export const traficomReports = pgTable('traficom_reports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  licenseNumber: varchar('license_number', { length: 50 }).notNull(), // Operator licence reported under
+  
+  // Period (start inclusive, end exclusive)
+  periodStart: timestamp('period_start').notNull(),
+  periodEnd: timestamp('period_end').notNull(),
+  
+  // Content
+  submission: jsonb('submission').notNull(), // TraficomSubmission as sent
+  vehicleCount: integer('vehicle_count').notNull(),
+  tripCount: integer('trip_count').notNull(),
+  
+  // Outcome
+  status: traficomReportStatusEnum('status').notNull(),
+  transport: varchar('transport', { length: 20 }).notNull(),
+  externalReportId: varchar('external_report_id', { length: 200 }), // Traficom receipt id
+  error: text('error'),
+  
+  // Timestamps
+  submittedAt: timestamp('submitted_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantPeriodIdx: index('traficom_reports_tenant_period_idx').on(table.tenantId, table.periodStart),
+}));
+
+// ============================================================================
+// DRIVER LEDGER (Double-entry earnings ledger)
+// ============================================================================
+
+export const driverLedgerEntries = pgTable('driver_ledger_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  driverId: uuid('driver_id').notNull().references(() => users.id),
+  transactionId: uuid('transaction_id').notNull(), // Groups the lines of one posting; they sum to zero
+  
+  // Line
+  account: ledgerAccountEnum('account').notNull(),
+  entryType: ledgerEntryTypeEnum('entry_type').notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Debit positive, credit negative
+  description: text('description'),
+  
+  // Source
+  rideId: uuid('ride_id').references(() => rides.id),
+  paymentId: uuid('payment_id').references(() => payments.id),
+  payoutId: uuid('payout_id').references(() => driverPayouts.id),
+  createdById: uuid('created_by_id').references(() => users.id), // Admin, for manual entries
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  driverAccountIdx: index('ledger_driver_account_idx').on(table.driverId, table.account),
+  tenantAccountIdx: index('ledger_tenant_account_idx').on(table.tenantId, table.account),
+  transactionIdx: index('ledger_transaction_idx').on(table.transactionId),
+}));
+
+// ============================================================================
+// DRIVER PAYOUTS (Batched transfers of ledger balances)
+// ============================================================================
+
+export const driverPayouts = pgTable('driver_payouts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  driverId: uuid('driver_id').notNull().references(() => users.id),
+  
+  // Amount
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).default('EUR').notNull(),
+  
+  // Transfer
+  status: payoutStatusEnum('status').default('pending').notNull(),
+  provider: varchar('provider', { length: 20 }).notNull(),
+  providerTransferId: varchar('provider_transfer_id', { length: 100 }),
+  failureReason: text('failure_reason'),
+  periodStart: timestamp('period_start').notNull(), // Payout period this batch belongs to
+  
+  // Timestamps
+  paidAt: timestamp('paid_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  driverPeriodIdx: uniqueIndex('driver_payouts_driver_period_idx').on(table.driverId, table.periodStart), // One payout per period
+  tenantIdx: index('driver_payouts_tenant_idx').on(table.tenantId),
+  statusIdx: index('driver_payouts_status_idx').on(table.status, table.createdAt),
+}));
+
+// ============================================================================
+// VERO REPORTS (Durable income reporting queue)
+// ============================================================================
+
+export const veroReports = pgTable('vero_reports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  paymentId: uuid('payment_id').notNull().references(() => payments.id),
+  driverId: uuid('driver_id').notNull().references(() => users.id),
+  
+  // Report (IncomeReport as submitted; corrected by admins on rejection)
+  report: jsonb('report').notNull(),
+  
+  // Submission
+  status: veroReportStatusEnum('status').default('queued').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  nextAttemptAt: timestamp('next_attempt_at').defaultNow().notNull(),
+  
+  // Vero response
+  veroReportId: varchar('vero_report_id', { length: 100 }),
+  veroMessage: text('vero_message'),
+  
+  // Timestamps
+  submittedAt: timestamp('submitted_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  paymentIdx: uniqueIndex('vero_reports_payment_idx').on(table.paymentId), // One report per payment
+  queuedIdx: index('vero_reports_queued_idx').on(table.status, table.nextAttemptAt),
+  tenantStatusIdx: index('vero_reports_tenant_status_idx').on(table.tenantId, table.status),
+}));
+
+// ============================================================================
+// OUTBOX EVENTS (Transactional outbox for Kafka)
+// ============================================================================
+
+export const outboxEvents = pgTable('outbox_events', {
+  id: uuid('id').primaryKey(), // Event id; consumers deduplicate on it
+  sequence: bigserial('sequence', { mode: 'number' }).notNull(), // Insertion order, also within one transaction
+  tenantId: uuid('tenant_id').notNull().references(() => tenants.id),
+  
+  // Event
+  eventType: varchar('event_type', { length: 100 }).notNull(),
+  partitionKey: varchar('partition_key', { length: 100 }).notNull(), // e.g. ride id
+  event: jsonb('event').notNull(),
+  
+  // Delivery
+  status: outboxStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  nextAttemptAt: timestamp('next_attempt_at').defaultNow().notNull(),
+  
+  // Timestamps
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  sentAt: timestamp('sent_at'),
+}, (table) => ({
+  pendingIdx: index('outbox_events_pending_idx').on(table.status, table.nextAttemptAt),
+  partitionKeyIdx: index('outbox_events_partition_key_idx').on(table.partitionKey, table.sequence),
+  sentAtIdx: index('outbox_events_sent_at_idx').on(table.sentAt),
+}));
+
+// ============================================================================
+// STRIPE WEBHOOK EVENTS (Idempotent webhook processing)
+// ============================================================================
+
+export const stripeWebhookEvents = pgTable('stripe_webhook_events', {
+  id: varchar('id', { length: 100 }).primaryKey(), // Stripe event id (evt_...)
+  type: varchar('type', { length: 100 }).notNull(),
+  stripeAccountId: varchar('stripe_account_id', { length: 50 }), // Connect account, if any
+  
+  // Timestamps
+  processedAt: timestamp('processed_at').defaultNow().notNull(),
+});
+
 // ============================================================================
 // RELATIONS
 // ============================================================================
@@ -467,6 +891,39 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   ridesAsDriver: many(rides, { relationName: 'driverRides' }),
   ratingsGiven: many(driverRatings, { relationName: 'riderRatings' }),
   ratingsReceived: many(driverRatings, { relationName: 'driverRatings' }),
+  sessions: many(authSessions),
+}));
+
+export const rolesRelations = relations(roles, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [roles.tenantId],
+    references: [tenants.id],
+  }),
+}));
+
+export const userRolesRelations = relations(userRoles, ({ one }) => ({
+  user: one(users, {
+    fields: [userRoles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const pricingConfigVersionsRelations = relations(pricingConfigVersions, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [pricingConfigVersions.tenantId],
+    references: [tenants.id],
+  }),
+  createdBy: one(users, {
+    fields: [pricingConfigVersions.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const authSessionsRelations = relations(authSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [authSessions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const vehiclesRelations = relations(vehicles, ({ one, many }) => ({
@@ -501,11 +958,43 @@ export const ridesRelations = relations(rides, ({ one, many }) => ({
     fields: [rides.vehicleId],
     references: [vehicles.id],
   }),
+  pricingConfigVersion: one(pricingConfigVersions, {
+    fields: [rides.pricingConfigVersionId],
+    references: [pricingConfigVersions.id],
+  }),
   payments: many(payments),
+  offers: many(rideOffers),
+  events: many(rideEvents),
   rating: one(driverRatings),
   taximeterReading: one(taximeterReadings),
 }));
 
+export const rideOffersRelations = relations(rideOffers, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [rideOffers.tenantId],
+    references: [tenants.id],
+  }),
+  ride: one(rides, {
+    fields: [rideOffers.rideId],
+    references: [rides.id],
+  }),
+  driver: one(users, {
+    fields: [rideOffers.driverId],
+    references: [users.id],
+  }),
+}));
+
+export const rideEventsRelations = relations(rideEvents, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [rideEvents.tenantId],
+    references: [tenants.id],
+  }),
+  ride: one(rides, {
+    fields: [rideEvents.rideId],
+    references: [rides.id],
+  }),
+}));
+
 export const paymentsRelations = relations(payments, ({ one }) => ({
   tenant: one(tenants, {
     fields: [payments.tenantId],
@@ -564,3 +1053,59 @@ export const taximeterReadingsRelations = relations(taximeterReadings, ({ one })
     references: [users.id],
   }),
 }));
+
+export const veroReportsRelations = relations(veroReports, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [veroReports.tenantId],
+    references: [tenants.id],
+  }),
+  payment: one(payments, {
+    fields: [veroReports.paymentId],
+    references: [payments.id],
+  }),
+  driver: one(users, {
+    fields: [veroReports.driverId],
+    references: [users.id],
+  }),
+}));
+
+export const driverLedgerEntriesRelations = relations(driverLedgerEntries, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [driverLedgerEntries.tenantId],
+    references: [tenants.id],
+  }),
+  driver: one(users, {
+    fields: [driverLedgerEntries.driverId],
+    references: [users.id],
+  }),
+  ride: one(rides, {
+    fields: [driverLedgerEntries.rideId],
+    references: [rides.id],
+  }),
+  payment: one(payments, {
+    fields: [driverLedgerEntries.paymentId],
+    references: [payments.id],
+  }),
+  payout: one(driverPayouts, {
+    fields: [driverLedgerEntries.payoutId],
+    references: [driverPayouts.id],
+  }),
+}));
+
+export const driverPayoutsRelations = relations(driverPayouts, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [driverPayouts.tenantId],
+    references: [tenants.id],
+  }),
+  driver: one(users, {
+    fields: [driverPayouts.driverId],
+    references: [users.id],
+  }),
+}));
+
+export const traficomReportsRelations = relations(traficomReports, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [traficomReports.tenantId],
+    references: [tenants.id],
+  }),
+}));
@@ -0,0 +1,45 @@
+/**
+ * Tenant Context
+ *
+ * Carries the tenant of the current request through async calls. Database
+ * connections checked out inside a tenant context are switched to the
+ * application role with app.current_tenant_id set, so Postgres row-level
+ * security only shows that tenant's rows, whether or not a query filters
+ * on tenant_id.
+ *
+ * Code outside a tenant context (background workers, webhooks, sign-in,
+ * platform administration) runs as the connection's owner role, which
+ * bypasses row-level security.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const tenantStorage = new AsyncLocalStorage<string>();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Run a function (and everything it awaits) scoped to a tenant
+ */
+export function runWithTenant<T>(tenantId: string, fn: () => T): T {
+  if (!UUID_PATTERN.test(tenantId)) {
+    throw new Error(`Invalid tenant id: ${tenantId}`);
+  }
+
+  return tenantStorage.run(tenantId, fn);
+}
+
+/**
+ * The tenant the current code runs for, if any
+ */
+export function getCurrentTenantId(): string | undefined {
+  return tenantStorage.getStore();
+}
+
+/**
+ * Run a function outside any tenant context, as the owner role. Only for
+ * platform operations that span tenants.
+ */
+export function runOutsideTenant<T>(fn: () => T): T {
+  return tenantStorage.exit(fn);
+}
@@ -5,97 +5,39 @@
  * Handles authentication, rides, payments, and fleet management.
  */
 
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import compression from 'compression';
 import { config } from './config/index.js';
 import { logger } from './utils/logger.js';
+import { app } from './app.js';
 import { testConnection, closePool } from './db/index.js';
-import { healthRouter } from './routes/health.routes.js';
-import { authRouter } from './routes/auth.routes.js';
-import { ridesRouter } from './routes/rides.routes.js';
-import { rateLimit, extractTenant } from './middleware/auth.middleware.js';
-
-// Create Express app
-const app = express();
-
-// Security middleware
-app.use(helmet({
-  contentSecurityPolicy: config.nodeEnv === 'production',
-}));
-
-// CORS configuration
-app.use(cors({
-  origin: config.nodeEnv === 'production'
-    ? ['https://*.mobility.app', 'https://*.helsinkitaxi.fi']
-    : '*',
-  methods: ['GET', 'POST', 'PATCH', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Tenant-ID'],
-  credentials: true,
-}));
-
-// Compression
-app.use(compression());
-
-// Body parsing
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
-
-// Request logging
-app.use((req, res, next) => {
-  const start = Date.now();
-  res.on('finish', () => {
-    const duration = Date.now() - start;
-    logger.debug({
-      method: req.method,
-      path: req.path,
-      status: res.statusCode,
-      duration: `${duration}ms`,
-      tenantId: req.tenantId,
-      userId: req.user?.userId,
-    });
-  });
-  next();
-});
-
-// Extract tenant from all requests
-app.use(extractTenant);
-
-// Rate limiting
-app.use(rateLimit);
-
-// Health routes (no auth required)
-app.use('/', healthRouter);
-
-// API routes
-app.use('/api/v1/auth', authRouter);
-app.use('/api/v1/rides', ridesRouter);
-
-// 404 handler
-app.use((_req, res) => {
-  res.status(404).json({
-    error: 'Not Found',
-    message: 'The requested resource does not exist',
-  });
-});
-
-// Error handler
-app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  logger.error({ err }, 'Unhandled error');
-  res.status(500).json({
-    error: 'Internal Server Error',
-    message: config.nodeEnv === 'development' ? err.message : 'An unexpected error occurred',
-  });
-});
+import { connectRedis, closeRedis } from './db/redis.js';
+import { rideOfferService } from './services/ride-offer.service.js';
+import { rideSchedulerService } from './services/ride-scheduler.service.js';
+import { kafkaService } from './services/kafka.service.js';
+import { outboxService } from './services/outbox.service.js';
+import { veroReportService } from './services/vero-report.service.js';
+import { driverPayoutService } from './services/driver-payout.service.js';
+import { locationHistoryService } from './services/location-history.service.js';
 
 // Graceful shutdown
 async function shutdown(signal: string): Promise<void> {
   logger.info({ signal }, 'Shutdown signal received');
 
+  // Stop background workers
+  rideSchedulerService.stop();
+  outboxService.stop();
+  veroReportService.stop();
+  driverPayoutService.stop();
+  locationHistoryService.stop();
+
   // Close database pool
   await closePool();
 
+  // Close Redis connections
+  await closeRedis();
+
+  // Close Kafka connections
+  await kafkaService.disconnect();
+
   logger.info('Shutdown complete');
   process.exit(0);
 }
@@ -114,6 +56,39 @@ async function start(): Promise<void> {
       logger.warn('Database not connected, starting anyway...');
     }
 
+    // Connect to Redis and listen for driver offer responses
+    logger.info('Connecting to Redis...');
+    const redisConnected = await connectRedis();
+
+    if (redisConnected) {
+      await rideOfferService.startListening();
+    } else {
+      logger.warn('Redis not connected, driver offers unavailable');
+    }
+
+    // Connect to Kafka; the outbox relay publishes events written by services
+    logger.info('Connecting to Kafka...');
+    let kafkaConnected = false;
+    try {
+      await kafkaService.connect();
+      kafkaConnected = true;
+    } catch {
+      logger.warn('Kafka not connected, events stay in the outbox until it is reachable');
+    }
+
+    // Background workers: scheduled ride release, outbox relay, Vero reports, driver payouts
+    if (dbConnected) {
+      rideSchedulerService.start();
+      outboxService.start();
+      veroReportService.start();
+      driverPayoutService.start();
+    }
+
+    // Location history writer drains the stream the location-service fills
+    if (dbConnected && redisConnected) {
+      locationHistoryService.start();
+    }
+
     // Start HTTP server
     app.listen(config.port, config.host, () => {
       logger.info({
@@ -131,6 +106,8 @@ async function start(): Promise<void> {
 ║  API Base:        http://${config.host}:${config.port}/api/v1               ║
 ║  Environment:     ${config.nodeEnv.padEnd(43)}║
 ║  Database:        ${dbConnected ? 'Connected'.padEnd(43) : 'Disconnected'.padEnd(43)}║
+║  Redis:           ${redisConnected ? 'Connected'.padEnd(43) : 'Disconnected'.padEnd(43)}║
+║  Kafka:           ${kafkaConnected ? 'Connected'.padEnd(43) : 'Disconnected'.padEnd(43)}║
 ╚═══════════════════════════════════════════════════════════════╝
       `);
     });
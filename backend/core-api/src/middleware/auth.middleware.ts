@@ -2,11 +2,15 @@
  * Authentication Middleware
  * 
  * Handles JWT token validation and tenant context extraction.
+ * Authenticated requests run in a tenant context, so row-level security
+ * limits their database access to the user's tenant.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { authService, TokenPayload, AuthError } from '../services/auth.service.js';
+import { permissionService, Permission } from '../services/permission.service.js';
 import { config } from '../config/index.js';
+import { runWithTenant, runOutsideTenant } from '../db/tenant-context.js';
 import { logger } from '../utils/logger.js';
 
 // Extend Express Request type
@@ -36,28 +40,32 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
 
   const token = authHeader.substring(7);
 
-  try {
-    const payload = authService.verifyAccessToken(token);
-    req.user = payload;
-    req.tenantId = payload.tenantId;
-    next();
-  } catch (err) {
-    if (err instanceof AuthError) {
+  authService.verifyAccessToken(token).then(
+    (payload) => {
+      req.user = payload;
+      req.tenantId = payload.tenantId;
+
+      // Database access for the rest of the request is limited to the tenant
+      runWithTenant(payload.tenantId, next);
+    },
+    (err) => {
+      if (err instanceof AuthError) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: err.message,
+          code: err.code,
+        });
+        return;
+      }
+
+      logger.error({ err }, 'Authentication error');
       res.status(401).json({
         error: 'Unauthorized',
-        message: err.message,
-        code: err.code,
+        message: 'Invalid token',
+        code: 'INVALID_TOKEN',
       });
-      return;
     }
-
-    logger.error({ err }, 'Authentication error');
-    res.status(401).json({
-      error: 'Unauthorized',
-      message: 'Invalid token',
-      code: 'INVALID_TOKEN',
-    });
-  }
+  ).catch(next);
 }
 
 /**
@@ -73,15 +81,15 @@ export function optionalAuthenticate(req: Request, res: Response, next: NextFunc
 
   const token = authHeader.substring(7);
 
-  try {
-    const payload = authService.verifyAccessToken(token);
-    req.user = payload;
-    req.tenantId = payload.tenantId;
-  } catch {
+  authService.verifyAccessToken(token).then(
+    (payload) => {
+      req.user = payload;
+      req.tenantId = payload.tenantId;
+      runWithTenant(payload.tenantId, next);
+    },
     // Ignore errors for optional auth
-  }
-
-  next();
+    () => next()
+  ).catch(next);
 }
 
 /**
@@ -111,6 +119,98 @@ export function requireUserType(...types: ('rider' | 'driver' | 'admin' | 'dispa
   };
 }
 
+/**
+ * Require a platform administrator
+ *
+ * Platform administrators manage every tenant, so the rest of the request
+ * runs outside the tenant context of their own account.
+ */
+export function requirePlatformAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Authentication required',
+      code: 'MISSING_TOKEN',
+    });
+    return;
+  }
+
+  if (!req.user.platformAdmin) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'This action requires a platform administrator',
+      code: 'INSUFFICIENT_PERMISSIONS',
+    });
+    return;
+  }
+
+  runOutsideTenant(next);
+}
+
+/**
+ * Require specific permission(s) of admins and dispatchers
+ *
+ * Riders and drivers pass through; combine with requireUserType to keep
+ * them out.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+        code: 'MISSING_TOKEN',
+      });
+      return;
+    }
+
+    const { userId, tenantId, userType } = req.user;
+
+    if (!permissionService.isStaff(userType)) {
+      next();
+      return;
+    }
+
+    try {
+      const allowed = await permissionService.hasPermissions(userId, tenantId, userType, permissions);
+
+      if (!allowed) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `This action requires the ${permissions.join(' and ')} permission`,
+          code: 'INSUFFICIENT_PERMISSIONS',
+        });
+        return;
+      }
+
+      next();
+    } catch (err) {
+      logger.error({ err, userId }, 'Permission check failed');
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Permission check failed',
+      });
+    }
+  };
+}
+
+/**
+ * Require permission(s) only of requests matching a condition, e.g. one
+ * status on a status update route
+ */
+export function requirePermissionIf(condition: (req: Request) => boolean, ...permissions: Permission[]) {
+  const check = requirePermission(...permissions);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!condition(req)) {
+      next();
+      return;
+    }
+
+    await check(req, res, next);
+  };
+}
+
 /**
  * Extract tenant ID from header or authenticated user
  */
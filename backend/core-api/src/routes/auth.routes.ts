@@ -4,7 +4,8 @@
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { authService, AuthError } from '../services/auth.service.js';
+import { authService, AuthError, SessionContext } from '../services/auth.service.js';
+import { OtpError } from '../services/phone-otp.service.js';
 import { authenticate, extractTenant } from '../middleware/auth.middleware.js';
 import { logger } from '../utils/logger.js';
 
@@ -27,6 +28,39 @@ const loginSchema = z.object({
   tenantId: z.string().uuid().optional(),
 });
 
+const phoneCodeRequestSchema = z.object({
+  phone: z.string().min(5).max(20),
+  tenantId: z.string().uuid().optional(),
+});
+
+const phoneLoginSchema = z.object({
+  phone: z.string().min(5).max(20),
+  code: z.string().regex(/^\d{4,8}$/),
+  userType: z.enum(['rider', 'driver']).default('rider'),
+  firstName: z.string().min(1).max(100).optional(),
+  lastName: z.string().min(1).max(100).optional(),
+  tenantId: z.string().uuid().optional(),
+});
+
+/**
+ * Device details recorded on the session
+ */
+function getSessionContext(req: Request): SessionContext {
+  return {
+    userAgent: req.get('user-agent')?.substring(0, 500),
+    ipAddress: req.ip,
+  };
+}
+
+const OTP_ERROR_STATUS: Record<string, number> = {
+  OTP_INVALID: 401,
+  OTP_EXPIRED: 401,
+  OTP_ATTEMPTS_EXCEEDED: 429,
+  OTP_RATE_LIMITED: 429,
+  SMS_SEND_FAILED: 502,
+  OTP_UNAVAILABLE: 503,
+};
+
 const refreshSchema = z.object({
   refreshToken: z.string(),
 });
@@ -55,7 +89,7 @@ authRouter.post('/register', extractTenant, async (req: Request, res: Response)
     const result = await authService.register({
       ...data,
       tenantId,
-    });
+    }, getSessionContext(req));
 
     res.status(201).json({
       success: true,
@@ -97,7 +131,7 @@ authRouter.post('/login', extractTenant, async (req: Request, res: Response) =>
     const result = await authService.login({
       ...data,
       tenantId,
-    });
+    }, getSessionContext(req));
 
     res.json({
       success: true,
@@ -131,11 +165,100 @@ authRouter.post('/login', extractTenant, async (req: Request, res: Response) =>
   }
 });
 
+// POST /auth/otp/request - Send a sign-in code by SMS
+authRouter.post('/otp/request', extractTenant, async (req: Request, res: Response) => {
+  try {
+    const data = phoneCodeRequestSchema.parse(req.body);
+    const tenantId = data.tenantId || req.tenantId!;
+
+    const result = await authService.requestPhoneCode(tenantId, data.phone);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof OtpError || err instanceof AuthError) {
+      res.status(OTP_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to send sign-in code');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to send sign-in code',
+    });
+  }
+});
+
+// POST /auth/otp/verify - Login with a sign-in code (creates new riders)
+authRouter.post('/otp/verify', extractTenant, async (req: Request, res: Response) => {
+  try {
+    const data = phoneLoginSchema.parse(req.body);
+    const tenantId = data.tenantId || req.tenantId!;
+
+    const result = await authService.loginWithPhone({
+      ...data,
+      tenantId,
+    }, getSessionContext(req));
+
+    res.status(result.isNewUser ? 201 : 200).json({
+      success: true,
+      data: result,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof OtpError) {
+      res.status(OTP_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    if (err instanceof AuthError) {
+      const status = err.code === 'USER_NOT_FOUND' ? 404 :
+                     err.code === 'ACCOUNT_SUSPENDED' ? 403 : 400;
+      res.status(status).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Phone login failed');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Phone login failed',
+    });
+  }
+});
+
 // POST /auth/refresh
 authRouter.post('/refresh', async (req: Request, res: Response) => {
   try {
     const data = refreshSchema.parse(req.body);
-    const tokens = await authService.refreshTokens(data.refreshToken);
+    const tokens = await authService.refreshTokens(data.refreshToken, getSessionContext(req));
 
     res.json({
       success: true,
@@ -165,6 +288,94 @@ authRouter.post('/refresh', async (req: Request, res: Response) => {
   }
 });
 
+// POST /auth/logout - End the current session
+authRouter.post('/logout', authenticate, async (req: Request, res: Response) => {
+  try {
+    await authService.logout(req.user!.userId, req.user!.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Logged out',
+    });
+  } catch (err) {
+    logger.error({ err }, 'Logout failed');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Logout failed',
+    });
+  }
+});
+
+// GET /auth/sessions - Devices the user is signed in on
+authRouter.get('/sessions', authenticate, async (req: Request, res: Response) => {
+  try {
+    const sessions = await authService.listSessions(
+      req.user!.userId,
+      req.user!.tenantId,
+      req.user!.sessionId
+    );
+
+    res.json({
+      success: true,
+      data: sessions,
+    });
+  } catch (err) {
+    logger.error({ err }, 'Failed to list sessions');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list sessions',
+    });
+  }
+});
+
+// DELETE /auth/sessions - Sign out every other device
+authRouter.delete('/sessions', authenticate, async (req: Request, res: Response) => {
+  try {
+    const revoked = await authService.revokeAllSessions(
+      req.user!.userId,
+      'revoked_by_user',
+      req.user!.sessionId
+    );
+
+    res.json({
+      success: true,
+      data: { revoked },
+    });
+  } catch (err) {
+    logger.error({ err }, 'Failed to revoke sessions');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to revoke sessions',
+    });
+  }
+});
+
+// DELETE /auth/sessions/:id - Sign out one device
+authRouter.delete('/sessions/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    await authService.revokeSession(req.user!.userId, req.user!.tenantId, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      res.status(404).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to revoke session');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to revoke session',
+    });
+  }
+});
+
 // GET /auth/me
 authRouter.get('/me', authenticate, async (req: Request, res: Response) => {
   try {
@@ -237,16 +448,19 @@ authRouter.post('/change-password', authenticate, async (req: Request, res: Resp
   try {
     const data = changePasswordSchema.parse(req.body);
     
-    await authService.changePassword(
+    // All sessions are signed out; this device continues with new tokens
+    const tokens = await authService.changePassword(
       req.user!.userId,
       req.user!.tenantId,
       data.currentPassword,
-      data.newPassword
+      data.newPassword,
+      getSessionContext(req)
     );
 
     res.json({
       success: true,
       message: 'Password changed successfully',
+      data: tokens,
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -0,0 +1,118 @@
+/**
+ * Drivers Routes
+ *
+ * Driver shift status: going online and offline for ride offers, and
+ * suspension by staff.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  driverAvailabilityService,
+  DriverAvailabilityError,
+} from '../services/driver-availability.service.js';
+import { LocationServiceError } from '../services/location.service.js';
+import { authService, AuthError } from '../services/auth.service.js';
+import { authenticate, requireUserType, requirePermission } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+
+export const driversRouter = Router();
+
+// Validation schemas
+const availabilitySchema = z.object({
+  online: z.boolean(),
+});
+
+const AVAILABILITY_ERROR_STATUS: Record<string, number> = {
+  DRIVER_NOT_FOUND: 404,
+  DRIVER_NOT_ACTIVE: 403,
+};
+
+// PUT /drivers/me/availability - Go online or offline (driver only)
+driversRouter.put('/me/availability', authenticate, requireUserType('driver'), async (req: Request, res: Response) => {
+  try {
+    const { online } = availabilitySchema.parse(req.body);
+
+    const available = await driverAvailabilityService.setOnline(
+      req.user!.userId,
+      req.user!.tenantId,
+      online
+    );
+
+    res.json({
+      success: true,
+      data: {
+        online,
+        available, // False while on a ride
+      },
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof DriverAvailabilityError) {
+      res.status(AVAILABILITY_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    if (err instanceof LocationServiceError) {
+      res.status(503).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to set driver availability');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to set driver availability',
+    });
+  }
+});
+
+// POST /drivers/:id/suspend - Suspend a driver and sign them out (admin/dispatcher)
+driversRouter.post('/:id/suspend', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('drivers.suspend'), async (req: Request, res: Response) => {
+  try {
+    const driverId = req.params.id;
+    const tenantId = req.user!.tenantId;
+
+    await authService.suspendUser(driverId, tenantId, 'driver');
+
+    // No more offers; a ride in progress is left for dispatchers to handle
+    await driverAvailabilityService.sync(driverId, tenantId);
+
+    logger.info({ driverId, tenantId, suspendedBy: req.user!.userId }, 'Driver suspended');
+
+    res.json({
+      success: true,
+      data: {
+        driverId,
+        status: 'suspended',
+      },
+    });
+  } catch (err) {
+    if (err instanceof AuthError && err.code === 'USER_NOT_FOUND') {
+      res.status(404).json({
+        error: 'Driver not found',
+        code: 'DRIVER_NOT_FOUND',
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to suspend driver');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to suspend driver',
+    });
+  }
+});
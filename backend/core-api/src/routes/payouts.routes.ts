@@ -0,0 +1,221 @@
+/**
+ * Payouts Routes
+ *
+ * Driver earnings balance, ledger statement and payout history, plus
+ * manual ledger entries for tenant admins.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { driverLedgerService, LedgerError } from '../services/driver-ledger.service.js';
+import { driverPayoutService } from '../services/driver-payout.service.js';
+import { authenticate, requireUserType, requirePermission } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+
+export const payoutsRouter = Router();
+
+// Validation schemas
+const paginationSchema = z.object({
+  // Admins may look at any driver of their tenant
+  driverId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const manualEntrySchema = z.object({
+  driverId: z.string().uuid(),
+  entryType: z.enum(['adjustment', 'tip']),
+  amount: z.number().refine((value) => value !== 0, 'Amount must not be zero'),
+  description: z.string().min(1).max(500),
+});
+
+const LEDGER_ERROR_STATUS: Record<string, number> = {
+  DRIVER_NOT_FOUND: 404,
+};
+
+/**
+ * Drivers see their own ledger; admins pass ?driverId=
+ */
+function resolveDriverId(req: Request, requestedDriverId?: string): string | null {
+  if (req.user!.userType === 'driver') {
+    return req.user!.userId;
+  }
+
+  return requestedDriverId || null;
+}
+
+// GET /payouts - Payout history (driver, admin)
+payoutsRouter.get('/', authenticate, requireUserType('driver', 'admin'), requirePermission('payouts.view'), async (req: Request, res: Response) => {
+  try {
+    const query = paginationSchema.parse(req.query);
+    const driverId = resolveDriverId(req, query.driverId);
+
+    if (!driverId) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'driverId is required',
+      });
+      return;
+    }
+
+    const payouts = await driverPayoutService.getPayouts(
+      driverId,
+      req.user!.tenantId,
+      query.limit,
+      query.offset
+    );
+
+    res.json({
+      success: true,
+      data: payouts,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get payouts');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get payouts',
+    });
+  }
+});
+
+// GET /payouts/balance - Current unpaid earnings (driver, admin)
+payoutsRouter.get('/balance', authenticate, requireUserType('driver', 'admin'), requirePermission('payouts.view'), async (req: Request, res: Response) => {
+  try {
+    const query = paginationSchema.parse(req.query);
+    const driverId = resolveDriverId(req, query.driverId);
+
+    if (!driverId) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'driverId is required',
+      });
+      return;
+    }
+
+    const balance = await driverLedgerService.getBalance(driverId, req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: {
+        driverId,
+        balance,
+      },
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get driver balance');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get driver balance',
+    });
+  }
+});
+
+// GET /payouts/ledger - Earnings statement (driver, admin)
+payoutsRouter.get('/ledger', authenticate, requireUserType('driver', 'admin'), requirePermission('payouts.view'), async (req: Request, res: Response) => {
+  try {
+    const query = paginationSchema.parse(req.query);
+    const driverId = resolveDriverId(req, query.driverId);
+
+    if (!driverId) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'driverId is required',
+      });
+      return;
+    }
+
+    const entries = await driverLedgerService.getStatement(
+      driverId,
+      req.user!.tenantId,
+      query.limit,
+      query.offset
+    );
+
+    res.json({
+      success: true,
+      data: entries,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get driver ledger');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get driver ledger',
+    });
+  }
+});
+
+// POST /payouts/adjustments - Credit or debit a driver (admin only)
+payoutsRouter.post('/adjustments', authenticate, requireUserType('admin'), requirePermission('payouts.adjust'), async (req: Request, res: Response) => {
+  try {
+    const data = manualEntrySchema.parse(req.body);
+
+    const transactionId = await driverLedgerService.recordManualEntry({
+      tenantId: req.user!.tenantId,
+      driverId: data.driverId,
+      entryType: data.entryType,
+      amount: data.amount,
+      description: data.description,
+      createdById: req.user!.userId,
+    });
+
+    const balance = await driverLedgerService.getBalance(data.driverId, req.user!.tenantId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        transactionId,
+        balance,
+      },
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof LedgerError) {
+      res.status(LEDGER_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to record ledger adjustment');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to record ledger adjustment',
+    });
+  }
+});
@@ -0,0 +1,160 @@
+/**
+ * Pricing Routes
+ *
+ * The tenant's pricing configuration and its version history. Publishing a
+ * config creates a new version for rides booked from then on. Every route
+ * requires the pricing.edit permission.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { pricingService, pricingConfigSchema, PricingError } from '../services/pricing.service.js';
+import { authenticate, requireUserType, requirePermission } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+
+export const pricingRouter = Router();
+
+// Validation schemas
+const listVersionsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const versionParamSchema = z.coerce.number().int().min(1);
+
+const PRICING_ERROR_STATUS: Record<string, number> = {
+  TENANT_NOT_FOUND: 404,
+  PRICING_VERSION_NOT_FOUND: 404,
+  INVALID_PRICING_CONFIG: 422,
+};
+
+// GET /pricing - Current pricing version
+pricingRouter.get('/', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('pricing.edit'), async (req: Request, res: Response) => {
+  try {
+    const version = await pricingService.getTenantCurrentVersion(req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: version,
+    });
+  } catch (err) {
+    if (err instanceof PricingError) {
+      res.status(PRICING_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get pricing');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get pricing',
+    });
+  }
+});
+
+// PUT /pricing - Publish a new pricing version
+pricingRouter.put('/', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('pricing.edit'), async (req: Request, res: Response) => {
+  try {
+    const pricingConfig = pricingConfigSchema.parse(req.body);
+
+    const version = await pricingService.publishConfig(
+      req.user!.tenantId,
+      pricingConfig,
+      req.user!.userId
+    );
+
+    res.json({
+      success: true,
+      data: version,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof PricingError) {
+      res.status(PRICING_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to publish pricing');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to publish pricing',
+    });
+  }
+});
+
+// GET /pricing/versions - Pricing version history, newest first
+pricingRouter.get('/versions', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('pricing.edit'), async (req: Request, res: Response) => {
+  try {
+    const query = listVersionsSchema.parse(req.query);
+    const versions = await pricingService.listVersions(req.user!.tenantId, query.limit, query.offset);
+
+    res.json({
+      success: true,
+      data: versions,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to list pricing versions');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list pricing versions',
+    });
+  }
+});
+
+// GET /pricing/versions/:version - A pricing version, e.g. the one a ride was charged with
+pricingRouter.get('/versions/:version', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('pricing.edit'), async (req: Request, res: Response) => {
+  try {
+    const versionNumber = versionParamSchema.parse(req.params.version);
+    const version = await pricingService.getVersion(req.user!.tenantId, versionNumber);
+
+    res.json({
+      success: true,
+      data: version,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof PricingError) {
+      res.status(PRICING_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get pricing version');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get pricing version',
+    });
+  }
+});
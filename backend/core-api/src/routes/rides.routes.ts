@@ -7,15 +7,26 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { dispatchService, DispatchError } from '../services/dispatch.service.js';
+import { QuoteError } from '../services/quote.service.js';
 import { paymentService, PaymentError } from '../services/payment.service.js';
+import { LocationServiceError } from '../services/location.service.js';
+import { rideOfferService } from '../services/ride-offer.service.js';
+import { locationHistoryService } from '../services/location-history.service.js';
+import {
+  rideLifecycleService,
+  RideLifecycleError,
+  type RideActor,
+} from '../services/ride-lifecycle.service.js';
 import { 
   authenticate, 
   requireUserType, 
+  requirePermission,
+  requirePermissionIf,
   enforceTenantIsolation 
 } from '../middleware/auth.middleware.js';
 import { logger } from '../utils/logger.js';
-import { db, rides } from '../db/index.js';
-import { eq, and, desc } from 'drizzle-orm';
+import { db, rides, tenants, payments } from '../db/index.js';
+import { eq, and, desc, asc, gt, inArray, isNotNull } from 'drizzle-orm';
 
 export const ridesRouter = Router();
 
@@ -36,6 +47,7 @@ const createRideSchema = z.object({
   requiresWheelchairAccess: z.boolean().optional(),
   numberOfPassengers: z.number().int().min(1).max(10).optional(),
   paymentMethod: z.enum(['card', 'mobilepay', 'cash']).optional(),
+  quoteToken: z.string().min(1).max(4096).optional(), // From POST /rides/estimate, locks the quoted price
 });
 
 const fareEstimateSchema = z.object({
@@ -44,27 +56,94 @@ const fareEstimateSchema = z.object({
   dropoffLatitude: z.number().min(-90).max(90),
   dropoffLongitude: z.number().min(-180).max(180),
   vehicleType: z.enum(['standard', 'comfort', 'xl', 'accessible', 'electric']).optional(),
+  scheduledPickupTime: z.string().datetime().optional(), // Quote the tariff in force then
+  numberOfPassengers: z.number().int().min(1).max(10).optional(),
 });
 
+const updateScheduledRideSchema = z.object({
+  scheduledPickupTime: z.string().datetime().optional(),
+  pickupLatitude: z.number().min(-90).max(90).optional(),
+  pickupLongitude: z.number().min(-180).max(180).optional(),
+  pickupAddress: z.string().min(1).max(500).optional(),
+  pickupPlaceId: z.string().optional(),
+  dropoffLatitude: z.number().min(-90).max(90).optional(),
+  dropoffLongitude: z.number().min(-180).max(180).optional(),
+  dropoffAddress: z.string().min(1).max(500).optional(),
+  dropoffPlaceId: z.string().optional(),
+  vehicleType: z.enum(['standard', 'comfort', 'xl', 'accessible', 'electric']).optional(),
+  notes: z.string().max(500).optional(),
+  requiresChildSeat: z.boolean().optional(),
+  requiresWheelchairAccess: z.boolean().optional(),
+  numberOfPassengers: z.number().int().min(1).max(10).optional(),
+}).refine(
+  (data) => (data.pickupLatitude === undefined) === (data.pickupLongitude === undefined)
+    && (data.dropoffLatitude === undefined) === (data.dropoffLongitude === undefined),
+  { message: 'Latitude and longitude must be changed together' }
+);
+
 const cancelRideSchema = z.object({
   reason: z.string().max(500).optional(),
 });
 
+const rideTraceSchema = z.object({
+  format: z.enum(['geojson', 'polyline']).default('geojson'),
+});
+
 const completeRideSchema = z.object({
   actualDistanceMeters: z.number().int().min(0),
   actualDurationSeconds: z.number().int().min(0),
-  taximeterFare: z.number().min(0).optional(),
+  stopsAdded: z.number().int().min(0).max(20).optional(), // Stops the rider added en route
+});
+
+const refundRideSchema = z.object({
+  amount: z.number().positive().optional(), // Defaults to what is left to refund
+  reason: z.string().max(500).optional(),
 });
 
 const updateRideStatusSchema = z.object({
   status: z.enum([
+    'searching',
     'driver_arriving',
     'arrived',
     'in_progress',
-    'completed',
   ]),
+  reason: z.string().max(500).optional(),
 });
 
+// HTTP status for each quote error code
+const QUOTE_ERROR_STATUS: Record<string, number> = {
+  QUOTE_USED: 409,
+  QUOTE_EXPIRED: 410,
+  QUOTE_MISMATCH: 422,
+};
+
+const REFUND_ERROR_STATUS: Record<string, number> = {
+  PAYMENT_NOT_FOUND: 404,
+  PAYMENT_NOT_COMPLETED: 409,
+  REFUND_EXCEEDS_PAYMENT: 422,
+};
+
+// HTTP status for each ride lifecycle error code
+const LIFECYCLE_ERROR_STATUS: Record<string, number> = {
+  RIDE_NOT_FOUND: 404,
+  NOT_RIDE_PARTICIPANT: 403,
+  INVALID_STATUS_TRANSITION: 409,
+};
+
+/**
+ * Map the authenticated user to a ride lifecycle actor.
+ * Admins act with dispatcher rights.
+ */
+function getRideActor(req: Request): RideActor {
+  const { userId, userType } = req.user!;
+
+  if (userType === 'rider' || userType === 'driver') {
+    return { type: userType, id: userId };
+  }
+
+  return { type: 'dispatcher', id: userId };
+}
+
 // POST /rides/estimate - Get fare estimate
 ridesRouter.post('/estimate', authenticate, async (req: Request, res: Response) => {
   try {
@@ -72,7 +151,7 @@ ridesRouter.post('/estimate', authenticate, async (req: Request, res: Response)
     
     // Get tenant
     const tenant = await db.query.tenants.findFirst({
-      where: eq(db.tenants.id, req.user!.tenantId),
+      where: eq(tenants.id, req.user!.tenantId),
     });
 
     if (!tenant) {
@@ -83,13 +162,19 @@ ridesRouter.post('/estimate', authenticate, async (req: Request, res: Response)
       return;
     }
 
-    const estimate = await dispatchService.calculateFare(
+    // Riders also get a quote to book at this price
+    const estimate = await dispatchService.quoteFare(
       tenant,
-      data.pickupLatitude,
-      data.pickupLongitude,
-      data.dropoffLatitude,
-      data.dropoffLongitude,
-      data.vehicleType || 'standard'
+      req.user!.userType === 'rider' ? req.user!.userId : null,
+      {
+        pickupLatitude: data.pickupLatitude,
+        pickupLongitude: data.pickupLongitude,
+        dropoffLatitude: data.dropoffLatitude,
+        dropoffLongitude: data.dropoffLongitude,
+        vehicleType: data.vehicleType || 'standard',
+        numberOfPassengers: data.numberOfPassengers ?? 1,
+        scheduledPickupTime: data.scheduledPickupTime ? new Date(data.scheduledPickupTime) : undefined,
+      }
     );
 
     res.json({
@@ -153,6 +238,14 @@ ridesRouter.post('/', authenticate, requireUserType('rider'), async (req: Reques
       return;
     }
 
+    if (err instanceof QuoteError) {
+      res.status(QUOTE_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
     logger.error({ err }, 'Failed to create ride request');
     res.status(500).json({
       error: 'Internal Server Error',
@@ -206,6 +299,180 @@ ridesRouter.get('/', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// GET /rides/nearby-drivers - Get nearby available drivers
+ridesRouter.get('/nearby-drivers', authenticate, async (req: Request, res: Response) => {
+  try {
+    const latitude = parseFloat(req.query.latitude as string);
+    const longitude = parseFloat(req.query.longitude as string);
+    const vehicleType = (req.query.vehicleType as string) || 'standard';
+
+    if (isNaN(latitude) || isNaN(longitude)) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'latitude and longitude are required',
+      });
+      return;
+    }
+
+    const drivers = await dispatchService.findNearbyDrivers(
+      req.user!.tenantId,
+      latitude,
+      longitude,
+      vehicleType
+    );
+
+    res.json({
+      success: true,
+      data: drivers,
+    });
+  } catch (err) {
+    if (err instanceof LocationServiceError) {
+      res.status(503).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to find nearby drivers');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to find nearby drivers',
+    });
+  }
+});
+
+// GET /rides/offers/stats - Offer acceptance stats (driver only)
+ridesRouter.get('/offers/stats', authenticate, requireUserType('driver'), async (req: Request, res: Response) => {
+  try {
+    const days = Math.min(parseInt(req.query.days as string) || 30, 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const stats = await rideOfferService.getDriverOfferStats(
+      req.user!.userId,
+      req.user!.tenantId,
+      since
+    );
+
+    res.json({
+      success: true,
+      data: {
+        ...stats,
+        since: since.toISOString(),
+      },
+    });
+  } catch (err) {
+    logger.error({ err }, 'Failed to get offer stats');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get offer stats',
+    });
+  }
+});
+
+// GET /rides/scheduled - Upcoming scheduled rides (rider only)
+ridesRouter.get('/scheduled', authenticate, requireUserType('rider'), async (req: Request, res: Response) => {
+  try {
+    const scheduledRides = await db.query.rides.findMany({
+      where: and(
+        eq(rides.tenantId, req.user!.tenantId),
+        eq(rides.riderId, req.user!.userId),
+        eq(rides.isScheduled, true),
+        eq(rides.status, 'requested'),
+        gt(rides.scheduledPickupTime, new Date())
+      ),
+      orderBy: asc(rides.scheduledPickupTime),
+    });
+
+    res.json({
+      success: true,
+      data: scheduledRides,
+    });
+  } catch (err) {
+    logger.error({ err }, 'Failed to get scheduled rides');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get scheduled rides',
+    });
+  }
+});
+
+// GET /rides/scheduled/escalated - Scheduled rides with no driver found (dispatcher only)
+ridesRouter.get('/scheduled/escalated', authenticate, requireUserType('dispatcher', 'admin'), requirePermission('rides.view'), async (req: Request, res: Response) => {
+  try {
+    const escalatedRides = await db.query.rides.findMany({
+      where: and(
+        eq(rides.tenantId, req.user!.tenantId),
+        isNotNull(rides.escalatedAt),
+        inArray(rides.status, ['searching', 'no_drivers_available'])
+      ),
+      orderBy: asc(rides.scheduledPickupTime),
+      with: {
+        rider: true,
+      },
+    });
+
+    res.json({
+      success: true,
+      data: escalatedRides,
+    });
+  } catch (err) {
+    logger.error({ err }, 'Failed to get escalated rides');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get escalated rides',
+    });
+  }
+});
+
+// PATCH /rides/scheduled/:id - Edit a scheduled ride before it is released (rider only)
+ridesRouter.patch('/scheduled/:id', authenticate, requireUserType('rider'), async (req: Request, res: Response) => {
+  try {
+    const data = updateScheduledRideSchema.parse(req.body);
+
+    const ride = await dispatchService.updateScheduledRide(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.userId,
+      {
+        ...data,
+        scheduledPickupTime: data.scheduledPickupTime
+          ? new Date(data.scheduledPickupTime)
+          : undefined,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: ride,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof DispatchError) {
+      const status = err.code === 'RIDE_NOT_FOUND' ? 404 : err.code === 'RIDE_NOT_EDITABLE' ? 409 : 400;
+      res.status(status).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to update scheduled ride');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update scheduled ride',
+    });
+  }
+});
+
 // GET /rides/:id - Get specific ride
 ridesRouter.get('/:id', authenticate, enforceTenantIsolation, async (req: Request, res: Response) => {
   try {
@@ -256,17 +523,120 @@ ridesRouter.get('/:id', authenticate, enforceTenantIsolation, async (req: Reques
   }
 });
 
+// GET /rides/:id/events - Get ride status history
+ridesRouter.get('/:id/events', authenticate, enforceTenantIsolation, async (req: Request, res: Response) => {
+  try {
+    const ride = await db.query.rides.findFirst({
+      where: and(
+        eq(rides.id, req.params.id),
+        eq(rides.tenantId, req.user!.tenantId)
+      ),
+      columns: { riderId: true, driverId: true },
+    });
+
+    if (!ride) {
+      res.status(404).json({
+        error: 'Ride not found',
+        code: 'RIDE_NOT_FOUND',
+      });
+      return;
+    }
+
+    // Ensure user has access to this ride
+    if (ride.riderId !== req.user!.userId && ride.driverId !== req.user!.userId) {
+      if (!['admin', 'dispatcher'].includes(req.user!.userType)) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have access to this ride',
+          code: 'ACCESS_DENIED',
+        });
+        return;
+      }
+    }
+
+    const events = await rideLifecycleService.getHistory(req.params.id, req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: events,
+    });
+  } catch (err) {
+    logger.error({ err }, 'Failed to get ride events');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get ride events',
+    });
+  }
+});
+
+// GET /rides/:id/trace - GPS trace of a ride (disputes, receipts, replay)
+ridesRouter.get('/:id/trace', authenticate, enforceTenantIsolation, async (req: Request, res: Response) => {
+  try {
+    const query = rideTraceSchema.parse(req.query);
+
+    const ride = await db.query.rides.findFirst({
+      where: and(
+        eq(rides.id, req.params.id),
+        eq(rides.tenantId, req.user!.tenantId)
+      ),
+      columns: { id: true, riderId: true, driverId: true },
+    });
+
+    if (!ride) {
+      res.status(404).json({
+        error: 'Ride not found',
+        code: 'RIDE_NOT_FOUND',
+      });
+      return;
+    }
+
+    // Ensure user has access to this ride
+    if (ride.riderId !== req.user!.userId && ride.driverId !== req.user!.userId) {
+      if (!['admin', 'dispatcher'].includes(req.user!.userType)) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'You do not have access to this ride',
+          code: 'ACCESS_DENIED',
+        });
+        return;
+      }
+    }
+
+    const points = await locationHistoryService.getRideTrace(ride.id, req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: query.format === 'polyline'
+        ? locationHistoryService.toPolyline(ride.id, points)
+        : locationHistoryService.toGeoJson(ride.id, points),
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get ride trace');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get ride trace',
+    });
+  }
+});
+
 // POST /rides/:id/cancel - Cancel a ride
-ridesRouter.post('/:id/cancel', authenticate, async (req: Request, res: Response) => {
+ridesRouter.post('/:id/cancel', authenticate, requirePermission('rides.cancel'), async (req: Request, res: Response) => {
   try {
     const data = cancelRideSchema.parse(req.body);
     
-    const cancelledBy = req.user!.userType === 'rider' ? 'rider' : 'driver';
-    
     const ride = await dispatchService.cancelRide(
       req.params.id,
       req.user!.tenantId,
-      cancelledBy,
+      getRideActor(req),
       data.reason
     );
 
@@ -292,6 +662,14 @@ ridesRouter.post('/:id/cancel', authenticate, async (req: Request, res: Response
       return;
     }
 
+    if (err instanceof RideLifecycleError) {
+      res.status(LIFECYCLE_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
     logger.error({ err }, 'Failed to cancel ride');
     res.status(500).json({
       error: 'Internal Server Error',
@@ -300,28 +678,23 @@ ridesRouter.post('/:id/cancel', authenticate, async (req: Request, res: Response
   }
 });
 
-// PATCH /rides/:id/status - Update ride status (driver only)
-ridesRouter.patch('/:id/status', authenticate, requireUserType('driver'), async (req: Request, res: Response) => {
+// PATCH /rides/:id/status - Update ride status (driver, or dispatcher override)
+// Moving a ride back to searching reassigns it, which needs rides.reassign as well
+ridesRouter.patch('/:id/status', authenticate, requireUserType('driver', 'dispatcher', 'admin'), requirePermission('rides.update_status'), requirePermissionIf((req) => req.body?.status === 'searching', 'rides.reassign'), async (req: Request, res: Response) => {
   try {
     const data = updateRideStatusSchema.parse(req.body);
-    
-    const updates: Record<string, unknown> = {};
-    
-    switch (data.status) {
-      case 'arrived':
-        updates.driverArrivedAt = new Date();
-        break;
-      case 'in_progress':
-        updates.rideStartedAt = new Date();
-        break;
-    }
 
-    const ride = await dispatchService.updateRideStatus(
-      req.params.id,
-      req.user!.tenantId,
-      data.status,
-      updates
-    );
+    // Completion goes through POST /rides/:id/complete, which prices the trip
+    const ride = data.status === 'searching'
+      ? await dispatchService.restartMatching(req.params.id, req.user!.tenantId, getRideActor(req), data.reason)
+      : await dispatchService.updateRideStatus(
+        req.params.id,
+        req.user!.tenantId,
+        data.status,
+        getRideActor(req),
+        undefined,
+        data.reason
+      );
 
     res.json({
       success: true,
@@ -345,6 +718,14 @@ ridesRouter.patch('/:id/status', authenticate, requireUserType('driver'), async
       return;
     }
 
+    if (err instanceof RideLifecycleError) {
+      res.status(LIFECYCLE_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
     logger.error({ err }, 'Failed to update ride status');
     res.status(500).json({
       error: 'Internal Server Error',
@@ -361,9 +742,10 @@ ridesRouter.post('/:id/complete', authenticate, requireUserType('driver'), async
     const ride = await dispatchService.completeRide(
       req.params.id,
       req.user!.tenantId,
+      getRideActor(req),
       data.actualDistanceMeters,
       data.actualDurationSeconds,
-      data.taximeterFare
+      data.stopsAdded
     );
 
     res.json({
@@ -388,6 +770,14 @@ ridesRouter.post('/:id/complete', authenticate, requireUserType('driver'), async
       return;
     }
 
+    if (err instanceof RideLifecycleError) {
+      res.status(LIFECYCLE_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
     logger.error({ err }, 'Failed to complete ride');
     res.status(500).json({
       error: 'Internal Server Error',
@@ -456,37 +846,63 @@ ridesRouter.post('/:id/pay', authenticate, requireUserType('rider'), async (req:
   }
 });
 
-// GET /rides/nearby-drivers - Get nearby available drivers
-ridesRouter.get('/nearby-drivers', authenticate, async (req: Request, res: Response) => {
+// POST /rides/:id/refund - Refund the ride's payment, fully or in part (admin/dispatcher)
+ridesRouter.post('/:id/refund', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('payments.refund'), async (req: Request, res: Response) => {
   try {
-    const latitude = parseFloat(req.query.latitude as string);
-    const longitude = parseFloat(req.query.longitude as string);
-    const vehicleType = (req.query.vehicleType as string) || 'standard';
+    const data = refundRideSchema.parse(req.body);
 
-    if (isNaN(latitude) || isNaN(longitude)) {
-      res.status(400).json({
-        error: 'Validation Error',
-        message: 'latitude and longitude are required',
+    const payment = await db.query.payments.findFirst({
+      where: and(
+        eq(payments.rideId, req.params.id),
+        eq(payments.tenantId, req.user!.tenantId),
+        inArray(payments.status, ['completed', 'refunded'])
+      ),
+      orderBy: [desc(payments.createdAt)],
+    });
+
+    if (!payment) {
+      res.status(404).json({
+        error: 'No completed payment for this ride',
+        code: 'PAYMENT_NOT_FOUND',
       });
       return;
     }
 
-    const drivers = await dispatchService.findNearbyDrivers(
+    const refunded = await paymentService.refundPayment(
+      payment.id,
       req.user!.tenantId,
-      latitude,
-      longitude,
-      vehicleType
+      data.amount,
+      data.reason
     );
 
+    logger.info({ rideId: req.params.id, paymentId: payment.id, refundedBy: req.user!.userId }, 'Ride payment refunded');
+
     res.json({
       success: true,
-      data: drivers,
+      data: refunded,
     });
   } catch (err) {
-    logger.error({ err }, 'Failed to find nearby drivers');
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof PaymentError) {
+      res.status(REFUND_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to refund ride payment');
     res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to find nearby drivers',
+      message: 'Failed to refund ride payment',
     });
   }
 });
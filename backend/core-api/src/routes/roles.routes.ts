@@ -0,0 +1,236 @@
+/**
+ * Roles Routes
+ *
+ * Tenant roles and their assignment to admins and dispatchers. Every route
+ * requires the roles.manage permission.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { permissionService, PermissionError, PERMISSIONS } from '../services/permission.service.js';
+import { authenticate, requireUserType, requirePermission } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+
+export const rolesRouter = Router();
+
+// Validation schemas
+const permissionsSchema = z.array(z.enum(PERMISSIONS));
+
+const createRoleSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{1,49}$/, 'Lowercase letters, digits and underscores'),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  permissions: permissionsSchema,
+});
+
+const updateRoleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  permissions: permissionsSchema.optional(),
+});
+
+const assignRolesSchema = z.object({
+  roles: z.array(z.string().min(1).max(50)),
+});
+
+const PERMISSION_ERROR_STATUS: Record<string, number> = {
+  ROLE_NOT_FOUND: 404,
+  USER_NOT_FOUND: 404,
+  ROLE_EXISTS: 409,
+  RESERVED_ROLE_KEY: 409,
+  BUILT_IN_ROLE: 409,
+  SELF_LOCKOUT: 409,
+  NOT_STAFF_USER: 422,
+};
+
+// GET /roles/permissions - Permissions roles can grant
+rolesRouter.get('/permissions', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('roles.manage'), (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: PERMISSIONS,
+  });
+});
+
+// GET /roles - Built-in and tenant roles
+rolesRouter.get('/', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('roles.manage'), async (req: Request, res: Response) => {
+  try {
+    const roles = await permissionService.listRoles(req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: roles,
+    });
+  } catch (err) {
+    logger.error({ err }, 'Failed to list roles');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list roles',
+    });
+  }
+});
+
+// POST /roles - Create a tenant role
+rolesRouter.post('/', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('roles.manage'), async (req: Request, res: Response) => {
+  try {
+    const data = createRoleSchema.parse(req.body);
+    const role = await permissionService.createRole(req.user!.tenantId, data);
+
+    res.status(201).json({
+      success: true,
+      data: role,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof PermissionError) {
+      res.status(PERMISSION_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to create role');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create role',
+    });
+  }
+});
+
+// PATCH /roles/:key - Update a tenant role
+rolesRouter.patch('/:key', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('roles.manage'), async (req: Request, res: Response) => {
+  try {
+    const updates = updateRoleSchema.parse(req.body);
+    const role = await permissionService.updateRole(req.user!.tenantId, req.params.key, updates);
+
+    res.json({
+      success: true,
+      data: role,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof PermissionError) {
+      res.status(PERMISSION_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to update role');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update role',
+    });
+  }
+});
+
+// DELETE /roles/:key - Delete a tenant role and unassign it
+rolesRouter.delete('/:key', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('roles.manage'), async (req: Request, res: Response) => {
+  try {
+    await permissionService.deleteRole(req.user!.tenantId, req.params.key);
+
+    res.json({
+      success: true,
+      message: 'Role deleted',
+    });
+  } catch (err) {
+    if (err instanceof PermissionError) {
+      res.status(PERMISSION_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to delete role');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete role',
+    });
+  }
+});
+
+// GET /roles/users/:userId - A staff user's roles
+rolesRouter.get('/users/:userId', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('roles.manage'), async (req: Request, res: Response) => {
+  try {
+    const roles = await permissionService.getUserRoles(req.params.userId, req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: roles,
+    });
+  } catch (err) {
+    if (err instanceof PermissionError) {
+      res.status(PERMISSION_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get user roles');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get user roles',
+    });
+  }
+});
+
+// PUT /roles/users/:userId - Replace a staff user's role assignments
+rolesRouter.put('/users/:userId', authenticate, requireUserType('admin', 'dispatcher'), requirePermission('roles.manage'), async (req: Request, res: Response) => {
+  try {
+    const data = assignRolesSchema.parse(req.body);
+
+    const roles = await permissionService.setUserRoles(
+      req.params.userId,
+      req.user!.tenantId,
+      data.roles,
+      req.user!.userId
+    );
+
+    res.json({
+      success: true,
+      data: roles,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof PermissionError) {
+      res.status(PERMISSION_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to assign roles');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to assign roles',
+    });
+  }
+});
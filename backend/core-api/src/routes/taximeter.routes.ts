@@ -0,0 +1,128 @@
+/**
+ * Taximeter Routes
+ *
+ * Signed meter receipt uploads from the driver app and fare reconciliation
+ * for tenant admins.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { taximeterService, TaximeterError } from '../services/taximeter.service.js';
+import { authenticate, requireUserType, requirePermission } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+
+export const taximeterRouter = Router();
+
+// Validation schemas
+const uploadReadingSchema = z.object({
+  rideId: z.string().uuid(),
+  taximeterSerialNumber: z.string().min(1).max(50),
+  receiptNumber: z.string().min(1).max(50),
+  startTime: z.string().datetime(),
+  endTime: z.string().datetime(),
+  distanceMeters: z.number().int().min(0),
+  durationSeconds: z.number().int().min(0),
+  baseFare: z.number().min(0),
+  distanceFare: z.number().min(0),
+  timeFare: z.number().min(0),
+  extras: z.number().min(0).optional(),
+  totalFare: z.number().min(0),
+  vatAmount: z.number().min(0),
+  tariffCode: z.string().max(10).optional(),
+  tariffDescription: z.string().max(100).optional(),
+  digitalSignature: z.string().min(1),
+});
+
+const reconciliationSchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  tolerancePercent: z.coerce.number().min(0).max(100).optional(),
+});
+
+const TAXIMETER_ERROR_STATUS: Record<string, number> = {
+  RIDE_NOT_FOUND: 404,
+  NOT_RIDE_DRIVER: 403,
+  INVALID_RIDE_STATUS: 409,
+  DUPLICATE_RECEIPT: 409,
+  TAXIMETER_NOT_REGISTERED: 422,
+};
+
+// POST /taximeter/readings - Upload a signed meter receipt for a ride (driver only)
+taximeterRouter.post('/readings', authenticate, requireUserType('driver'), async (req: Request, res: Response) => {
+  try {
+    const { rideId, ...receipt } = uploadReadingSchema.parse(req.body);
+
+    const reading = await taximeterService.ingestReading({
+      rideId,
+      tenantId: req.user!.tenantId,
+      driverId: req.user!.userId,
+      receipt: {
+        ...receipt,
+        startTime: new Date(receipt.startTime),
+        endTime: new Date(receipt.endTime),
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: reading,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof TaximeterError) {
+      res.status(TAXIMETER_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to upload taximeter reading');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to upload taximeter reading',
+    });
+  }
+});
+
+// GET /taximeter/reconciliation - Rides whose meter and charged fares diverge (admin only)
+taximeterRouter.get('/reconciliation', authenticate, requireUserType('admin'), requirePermission('compliance.view'), async (req: Request, res: Response) => {
+  try {
+    const query = reconciliationSchema.parse(req.query);
+
+    const report = await taximeterService.getReconciliationReport(
+      req.user!.tenantId,
+      new Date(query.from),
+      new Date(query.to),
+      query.tolerancePercent
+    );
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to build taximeter reconciliation report');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to build taximeter reconciliation report',
+    });
+  }
+});
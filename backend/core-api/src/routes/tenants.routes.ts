@@ -0,0 +1,334 @@
+/**
+ * Tenants Routes
+ *
+ * Platform administration of tenants: create and configure operators,
+ * onboard their payee account, take them live and deactivate them.
+ * Platform administrators only.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { tenantService, TenantError } from '../services/tenant.service.js';
+import { pricingConfigSchema, PricingError } from '../services/pricing.service.js';
+import { authenticate, requirePlatformAdmin } from '../middleware/auth.middleware.js';
+import { isValidBusinessId } from '../utils/business-id.js';
+import { logger } from '../utils/logger.js';
+
+export const tenantsRouter = Router();
+
+// Validation schemas
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Hex color, e.g. #003580');
+
+const tenantSettingsSchema = z.object({
+  name: z.string().min(1).max(100),
+  legalName: z.string().min(1).max(200).nullable(),
+  businessId: z.string().refine(isValidBusinessId, 'Invalid business ID (Y-tunnus)').nullable(),
+  vatNumber: z.string().regex(/^FI\d{8}$/, 'VAT number, e.g. FI12345678').nullable(),
+  primaryColor: hexColorSchema,
+  secondaryColor: hexColorSchema,
+  logoUrl: z.string().url().nullable(),
+  smsSenderId: z.string().regex(/^[A-Za-z0-9]{1,11}$/, 'Up to 11 letters and digits').nullable(),
+  locationHistoryRetentionDays: z.number().int().min(1).max(3650).nullable(),
+  defaultCurrency: z.string().regex(/^[A-Z]{3}$/, 'ISO 4217 currency code'),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown IANA time zone'),
+  locale: z.string().max(10).refine(isValidLocale, 'Invalid locale, e.g. fi-FI'),
+  traficomLicenseNumber: z.string().min(1).max(50).nullable(),
+  enableTaximeterIntegration: z.boolean(),
+  veroApiEnabled: z.boolean(),
+  paymentProvider: z.string().max(20).nullable(),
+}).partial();
+
+const createTenantSchema = tenantSettingsSchema.extend({
+  slug: z.string().regex(/^[a-z][a-z0-9_]{1,49}$/, 'Lowercase letters, digits and underscores'),
+  name: z.string().min(1).max(100),
+  pricingConfig: pricingConfigSchema.optional(),
+});
+
+const paymentOnboardingSchema = z.object({
+  email: z.string().email().optional(),
+});
+
+const listTenantsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const TENANT_ERROR_STATUS: Record<string, number> = {
+  TENANT_NOT_FOUND: 404,
+  TENANT_EXISTS: 409,
+  TENANT_INACTIVE: 409,
+  TENANT_ALREADY_LIVE: 409,
+  ONBOARDING_INCOMPLETE: 422,
+  INVALID_PRICING_CONFIG: 422,
+  INVALID_VAT_NUMBER: 422,
+  UNKNOWN_PAYMENT_PROVIDER: 422,
+  PAYMENT_PROVIDER_DISABLED: 422,
+  STRIPE_NOT_CONFIGURED: 503,
+};
+
+// GET /tenants - List tenants
+tenantsRouter.get('/', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const query = listTenantsSchema.parse(req.query);
+    const tenants = await tenantService.listTenants(query.limit, query.offset);
+
+    res.json({
+      success: true,
+      data: tenants,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to list tenants');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list tenants',
+    });
+  }
+});
+
+// POST /tenants - Create a tenant (starts in onboarding)
+tenantsRouter.post('/', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = createTenantSchema.parse(req.body);
+    const tenant = await tenantService.createTenant(data);
+
+    res.status(201).json({
+      success: true,
+      data: tenant,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof TenantError || err instanceof PricingError) {
+      res.status(TENANT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to create tenant');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create tenant',
+    });
+  }
+});
+
+// GET /tenants/:id - Get a tenant with its onboarding checklist
+tenantsRouter.get('/:id', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const tenant = await tenantService.getTenant(req.params.id);
+
+    res.json({
+      success: true,
+      data: tenant,
+    });
+  } catch (err) {
+    if (err instanceof TenantError) {
+      res.status(TENANT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get tenant');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get tenant',
+    });
+  }
+});
+
+// PATCH /tenants/:id - Update branding, locale and compliance settings
+tenantsRouter.patch('/:id', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const updates = tenantSettingsSchema.parse(req.body);
+    const tenant = await tenantService.updateTenant(req.params.id, updates);
+
+    res.json({
+      success: true,
+      data: tenant,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof TenantError) {
+      res.status(TENANT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to update tenant');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update tenant',
+    });
+  }
+});
+
+// PUT /tenants/:id/pricing - Publish a new pricing version
+tenantsRouter.put('/:id/pricing', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const pricingConfig = pricingConfigSchema.parse(req.body);
+    const tenant = await tenantService.updatePricingConfig(req.params.id, pricingConfig, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: tenant,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof TenantError || err instanceof PricingError) {
+      res.status(TENANT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to update tenant pricing');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update tenant pricing',
+    });
+  }
+});
+
+// POST /tenants/:id/payments/onboarding - Start (or resume) the operator's Stripe Connect onboarding
+tenantsRouter.post('/:id/payments/onboarding', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = paymentOnboardingSchema.parse(req.body);
+    const payee = await tenantService.startPaymentOnboarding(req.params.id, data.email);
+
+    res.json({
+      success: true,
+      data: payee,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof TenantError) {
+      res.status(TENANT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to start tenant payment onboarding');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to start payment onboarding',
+    });
+  }
+});
+
+// POST /tenants/:id/go-live - Start taking rides once onboarding is complete
+tenantsRouter.post('/:id/go-live', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const tenant = await tenantService.goLive(req.params.id);
+
+    res.json({
+      success: true,
+      data: tenant,
+    });
+  } catch (err) {
+    if (err instanceof TenantError) {
+      res.status(TENANT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to take tenant live');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to take tenant live',
+    });
+  }
+});
+
+// POST /tenants/:id/deactivate - Stop rides and sign-in, sign out all users
+tenantsRouter.post('/:id/deactivate', authenticate, requirePlatformAdmin, async (req: Request, res: Response) => {
+  try {
+    const tenant = await tenantService.deactivateTenant(req.params.id);
+
+    res.json({
+      success: true,
+      data: tenant,
+    });
+  } catch (err) {
+    if (err instanceof TenantError) {
+      res.status(TENANT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to deactivate tenant');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to deactivate tenant',
+    });
+  }
+});
@@ -0,0 +1,134 @@
+/**
+ * Traficom Routes
+ *
+ * Taximeter trip reports to Traficom for tenant admins: submit a period's
+ * trips and review past submissions.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { traficomReportService, TraficomReportError } from '../services/traficom-report.service.js';
+import { authenticate, requireUserType, requirePermission } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+
+export const traficomRouter = Router();
+
+// Validation schemas
+const createReportSchema = z.object({
+  // Whole UTC days; `to` is exclusive
+  from: z.string().date(),
+  to: z.string().date(),
+});
+
+const listReportsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const TRAFICOM_ERROR_STATUS: Record<string, number> = {
+  TENANT_NOT_FOUND: 404,
+  REPORT_NOT_FOUND: 404,
+  TRAFICOM_LICENSE_MISSING: 422,
+  NO_TRIPS_TO_REPORT: 422,
+  TRAFICOM_SUBMISSION_FAILED: 502,
+};
+
+// POST /traficom/reports - Submit a period's unreported trips (admin only)
+traficomRouter.post('/reports', authenticate, requireUserType('admin'), requirePermission('compliance.submit'), async (req: Request, res: Response) => {
+  try {
+    const data = createReportSchema.parse(req.body);
+
+    const report = await traficomReportService.createReport({
+      tenantId: req.user!.tenantId,
+      from: new Date(`${data.from}T00:00:00Z`),
+      to: new Date(`${data.to}T00:00:00Z`),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: report,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof TraficomReportError) {
+      res.status(TRAFICOM_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to create Traficom report');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create Traficom report',
+    });
+  }
+});
+
+// GET /traficom/reports - List submitted and failed reports (admin only)
+traficomRouter.get('/reports', authenticate, requireUserType('admin'), requirePermission('compliance.view'), async (req: Request, res: Response) => {
+  try {
+    const query = listReportsSchema.parse(req.query);
+
+    const reports = await traficomReportService.listReports(
+      req.user!.tenantId,
+      query.limit,
+      query.offset
+    );
+
+    res.json({
+      success: true,
+      data: reports,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to list Traficom reports');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list Traficom reports',
+    });
+  }
+});
+
+// GET /traficom/reports/:id - Get a report with its submission (admin only)
+traficomRouter.get('/reports/:id', authenticate, requireUserType('admin'), requirePermission('compliance.view'), async (req: Request, res: Response) => {
+  try {
+    const report = await traficomReportService.getReport(req.params.id, req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (err) {
+    if (err instanceof TraficomReportError) {
+      res.status(TRAFICOM_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get Traficom report');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get Traficom report',
+    });
+  }
+});
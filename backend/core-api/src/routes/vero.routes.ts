@@ -0,0 +1,142 @@
+/**
+ * Vero Routes
+ *
+ * Lets tenant admins review Vero income reports and correct and resubmit
+ * the ones Vero rejected.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { veroReportService, VeroReportError } from '../services/vero-report.service.js';
+import { authenticate, requireUserType, requirePermission } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+
+export const veroRouter = Router();
+
+// Validation schemas
+const reportStatusSchema = z.enum(['queued', 'accepted', 'pending', 'rejected', 'failed']);
+
+const listReportsSchema = z.object({
+  // Comma-separated, e.g. ?status=rejected,failed
+  status: z.string()
+    .transform((value) => value.split(','))
+    .pipe(z.array(reportStatusSchema))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+const resubmitReportSchema = z.object({
+  driverBusinessId: z.string().min(1).max(20).optional(),
+  driverTaxNumber: z.string().min(1).max(20).optional(),
+  pickupAddress: z.string().min(1).max(500).optional(),
+  dropoffAddress: z.string().min(1).max(500).optional(),
+  distanceKm: z.number().min(0).optional(),
+  durationMinutes: z.number().int().min(0).optional(),
+  taximeterReceiptNumber: z.string().min(1).max(50).optional(),
+  taximeterSerialNumber: z.string().min(1).max(50).optional(),
+});
+
+const REPORT_ERROR_STATUS: Record<string, number> = {
+  REPORT_NOT_FOUND: 404,
+  REPORT_NOT_CORRECTABLE: 409,
+};
+
+// GET /vero/reports - List income reports (admin only)
+veroRouter.get('/reports', authenticate, requireUserType('admin'), requirePermission('compliance.view'), async (req: Request, res: Response) => {
+  try {
+    const query = listReportsSchema.parse(req.query);
+
+    const reports = await veroReportService.listReports(
+      req.user!.tenantId,
+      query.status,
+      query.limit
+    );
+
+    res.json({
+      success: true,
+      data: reports,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to list Vero reports');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list Vero reports',
+    });
+  }
+});
+
+// GET /vero/reports/:id - Get an income report (admin only)
+veroRouter.get('/reports/:id', authenticate, requireUserType('admin'), requirePermission('compliance.view'), async (req: Request, res: Response) => {
+  try {
+    const report = await veroReportService.getReport(req.params.id, req.user!.tenantId);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (err) {
+    if (err instanceof VeroReportError) {
+      res.status(REPORT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to get Vero report');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get Vero report',
+    });
+  }
+});
+
+// POST /vero/reports/:id/resubmit - Correct a rejected or failed report and queue it again (admin only)
+veroRouter.post('/reports/:id/resubmit', authenticate, requireUserType('admin'), requirePermission('compliance.submit'), async (req: Request, res: Response) => {
+  try {
+    const corrections = resubmitReportSchema.parse(req.body);
+
+    const report = await veroReportService.resubmit(
+      req.params.id,
+      req.user!.tenantId,
+      corrections
+    );
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request data',
+        details: err.errors,
+      });
+      return;
+    }
+
+    if (err instanceof VeroReportError) {
+      res.status(REPORT_ERROR_STATUS[err.code] || 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    logger.error({ err }, 'Failed to resubmit Vero report');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to resubmit Vero report',
+    });
+  }
+});
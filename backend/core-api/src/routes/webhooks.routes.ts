@@ -0,0 +1,50 @@
+/**
+ * Webhook Routes
+ * 
+ * Receives callbacks from external providers. Mounted before the JSON body
+ * parser because signature verification needs the raw request body.
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { paymentService, PaymentError } from '../services/payment.service.js';
+import { logger } from '../utils/logger.js';
+
+export const webhooksRouter = Router();
+
+// POST /webhooks/stripe - Stripe events (payments, refunds, disputes, Connect accounts)
+webhooksRouter.post('/stripe', express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+  const signature = req.headers['stripe-signature'];
+
+  if (typeof signature !== 'string' || !Buffer.isBuffer(req.body)) {
+    res.status(400).json({
+      error: 'Missing Stripe signature or body',
+      code: 'INVALID_SIGNATURE',
+    });
+    return;
+  }
+
+  try {
+    const event = paymentService.constructWebhookEvent(req.body, signature);
+    const processed = await paymentService.handleWebhookEvent(event);
+
+    res.json({
+      received: true,
+      duplicate: !processed,
+    });
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      res.status(err.code === 'STRIPE_NOT_CONFIGURED' ? 503 : 400).json({
+        error: err.message,
+        code: err.code,
+      });
+      return;
+    }
+
+    // Non-2xx makes Stripe redeliver the event later
+    logger.error({ err }, 'Failed to process Stripe webhook');
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to process webhook',
+    });
+  }
+});
@@ -3,14 +3,27 @@
  * 
  * Handles user registration, login, and JWT token management.
  * Supports multi-tenant authentication with tenant isolation.
+ *
+ * Riders and drivers can also sign in with a code sent to their phone;
+ * riders without an account get one on their first verified sign-in.
+ *
+ * Every sign-in starts a session (one per device). Refresh tokens rotate:
+ * each refresh issues a new one and presenting an already-used token revokes
+ * the session, since it means the token leaked. Access tokens are checked
+ * against their session and user on every request, so signing out or
+ * suspending takes effect at once.
  */
 
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { eq, and } from 'drizzle-orm';
-import { db, users, tenants } from '../db/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, ne, gt, isNull, desc, sql, SQL } from 'drizzle-orm';
+import { db, users, tenants, authSessions } from '../db/index.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { normalizePhoneNumber } from '../utils/phone.js';
+import { phoneOtpService } from './phone-otp.service.js';
+import { sessionRevocationService } from './session-revocation.service.js';
 
 // Types
 export interface RegisterInput {
@@ -29,13 +42,56 @@ export interface LoginInput {
   password: string;
 }
 
+export interface PhoneLoginInput {
+  tenantId: string;
+  phone: string;
+  code: string;
+  userType: 'rider' | 'driver';
+  // Used when a new rider account is created
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 export interface TokenPayload {
   userId: string;
   tenantId: string;
   userType: 'rider' | 'driver' | 'admin' | 'dispatcher';
-  email: string;
+  email: string | null;
+  sessionId: string;
+  platformAdmin: boolean;
+}
+
+interface RefreshTokenPayload {
+  userId: string;
+  tenantId: string;
+  sessionId: string;
+  tokenId: string;
+  type: 'refresh';
+}
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
 }
 
+export type SessionRevokeReason =
+  | 'logout'
+  | 'revoked_by_user'
+  | 'password_changed'
+  | 'suspended'
+  | 'token_reuse'
+  | 'tenant_deactivated';
+
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
@@ -45,8 +101,9 @@ export interface AuthTokens {
 export interface UserProfile {
   id: string;
   tenantId: string;
-  email: string;
+  email: string | null;
   phone: string;
+  phoneVerified: boolean;
   firstName: string;
   lastName: string;
   userType: string;
@@ -57,14 +114,15 @@ export interface UserProfile {
 }
 
 const SALT_ROUNDS = 12;
-const ACCESS_TOKEN_EXPIRY = 24 * 60 * 60; // 24 hours in seconds
-const REFRESH_TOKEN_EXPIRY = 7 * 24 * 60 * 60; // 7 days in seconds
+const ACCESS_TOKEN_EXPIRY = 15 * 60; // 15 minutes in seconds
+const SERVICE_TOKEN_EXPIRY = 5 * 60; // 5 minutes in seconds
+const REFRESH_TOKEN_EXPIRY = 7 * 24 * 60 * 60; // 7 days in seconds, extended on every refresh
 
 export class AuthService {
   /**
    * Register a new user
    */
-  async register(input: RegisterInput): Promise<{ user: UserProfile; tokens: AuthTokens }> {
+  async register(input: RegisterInput, context: SessionContext = {}): Promise<{ user: UserProfile; tokens: AuthTokens }> {
     const { tenantId, email, phone, password, firstName, lastName, userType } = input;
 
     // Verify tenant exists
@@ -72,7 +130,7 @@ export class AuthService {
       where: eq(tenants.id, tenantId),
     });
 
-    if (!tenant) {
+    if (!tenant || !tenant.isActive) {
       throw new AuthError('Invalid tenant', 'INVALID_TENANT');
     }
 
@@ -88,6 +146,8 @@ export class AuthService {
       throw new AuthError('User with this email already exists', 'USER_EXISTS');
     }
 
+    const normalizedPhone = this.normalizePhone(phone);
+
     // Hash password
     const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
 
@@ -95,7 +155,7 @@ export class AuthService {
     const [newUser] = await db.insert(users).values({
       tenantId,
       email,
-      phone,
+      phone: normalizedPhone,
       passwordHash,
       firstName,
       lastName,
@@ -105,13 +165,7 @@ export class AuthService {
 
     logger.info({ userId: newUser.id, email, tenantId }, 'User registered');
 
-    // Generate tokens
-    const tokens = this.generateTokens({
-      userId: newUser.id,
-      tenantId,
-      userType,
-      email,
-    });
+    const tokens = await this.startSession(newUser, context);
 
     return {
       user: this.toUserProfile(newUser),
@@ -122,9 +176,11 @@ export class AuthService {
   /**
    * Login user
    */
-  async login(input: LoginInput): Promise<{ user: UserProfile; tokens: AuthTokens }> {
+  async login(input: LoginInput, context: SessionContext = {}): Promise<{ user: UserProfile; tokens: AuthTokens }> {
     const { tenantId, email, password } = input;
 
+    await this.assertTenantActive(tenantId);
+
     // Find user
     const user = await db.query.users.findFirst({
       where: and(
@@ -156,13 +212,7 @@ export class AuthService {
 
     logger.info({ userId: user.id, email, tenantId }, 'User logged in');
 
-    // Generate tokens
-    const tokens = this.generateTokens({
-      userId: user.id,
-      tenantId,
-      userType: user.userType,
-      email,
-    });
+    const tokens = await this.startSession(user, context);
 
     return {
       user: this.toUserProfile(user),
@@ -171,56 +221,312 @@ export class AuthService {
   }
 
   /**
-   * Verify access token
+   * Send a sign-in code to a phone number
+   *
+   * @returns seconds until the code expires
    */
-  verifyAccessToken(token: string): TokenPayload {
-    try {
-      const payload = jwt.verify(token, config.jwt.secret) as TokenPayload & { type: string };
-      
-      if (payload.type !== 'access') {
-        throw new AuthError('Invalid token type', 'INVALID_TOKEN');
+  async requestPhoneCode(tenantId: string, phone: string): Promise<{ phone: string; expiresIn: number }> {
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    if (!tenant || !tenant.isActive) {
+      throw new AuthError('Invalid tenant', 'INVALID_TENANT');
+    }
+
+    const normalizedPhone = this.normalizePhone(phone);
+    const expiresIn = await phoneOtpService.requestCode(tenant, normalizedPhone);
+
+    return { phone: normalizedPhone, expiresIn };
+  }
+
+  /**
+   * Login with a code sent to the user's phone, creating the account for
+   * riders signing in for the first time
+   */
+  async loginWithPhone(
+    input: PhoneLoginInput,
+    context: SessionContext = {}
+  ): Promise<{ user: UserProfile; tokens: AuthTokens; isNewUser: boolean }> {
+    const { tenantId, code, userType } = input;
+    const phone = this.normalizePhone(input.phone);
+
+    await this.assertTenantActive(tenantId);
+    await phoneOtpService.verifyCode(tenantId, phone, code);
+
+    const now = new Date();
+    let isNewUser = false;
+
+    let user = await db.query.users.findFirst({
+      where: and(
+        eq(users.phone, phone),
+        eq(users.tenantId, tenantId),
+        eq(users.userType, userType)
+      ),
+    });
+
+    if (!user) {
+      // Drivers are onboarded by the tenant, never self-created
+      if (userType !== 'rider') {
+        throw new AuthError('No driver account for this phone number', 'USER_NOT_FOUND');
       }
 
-      return payload;
-    } catch (err) {
-      if (err instanceof jwt.TokenExpiredError) {
-        throw new AuthError('Token expired', 'TOKEN_EXPIRED');
+      [user] = await db.insert(users).values({
+        tenantId,
+        phone,
+        firstName: input.firstName || '',
+        lastName: input.lastName || '',
+        userType: 'rider',
+        status: 'active',
+        phoneVerifiedAt: now,
+        lastLoginAt: now,
+      }).returning();
+      isNewUser = true;
+
+      logger.info({ userId: user.id, tenantId }, 'Rider registered by phone');
+    } else {
+      if (user.status === 'suspended') {
+        throw new AuthError('Account suspended', 'ACCOUNT_SUSPENDED');
       }
-      throw new AuthError('Invalid token', 'INVALID_TOKEN');
+
+      [user] = await db.update(users)
+        .set({
+          phoneVerifiedAt: user.phoneVerifiedAt || now,
+          // A verified phone is all a rider account needs
+          status: user.userType === 'rider' && user.status === 'pending_verification' ? 'active' : user.status,
+          lastLoginAt: now,
+        })
+        .where(eq(users.id, user.id))
+        .returning();
     }
+
+    logger.info({ userId: user.id, tenantId }, 'User logged in with phone');
+
+    const tokens = await this.startSession(user, context);
+
+    return {
+      user: this.toUserProfile(user),
+      tokens,
+      isNewUser,
+    };
   }
 
   /**
-   * Refresh tokens
+   * Verify access token, and that its session and user are still active
    */
-  async refreshTokens(refreshToken: string): Promise<AuthTokens> {
-    try {
-      const payload = jwt.verify(refreshToken, config.jwt.secret) as TokenPayload & { type: string };
-      
-      if (payload.type !== 'refresh') {
-        throw new AuthError('Invalid token type', 'INVALID_TOKEN');
-      }
+  async verifyAccessToken(token: string): Promise<TokenPayload> {
+    const payload = this.verifyAccessTokenSignature(token);
 
-      // Verify user still exists and is active
-      const user = await db.query.users.findFirst({
-        where: eq(users.id, payload.userId),
-      });
+    const [current] = await db
+      .select({ revokedAt: authSessions.revokedAt, status: users.status })
+      .from(authSessions)
+      .innerJoin(users, eq(users.id, authSessions.userId))
+      .where(and(
+        eq(authSessions.id, payload.sessionId),
+        eq(authSessions.userId, payload.userId)
+      ))
+      .limit(1);
 
-      if (!user || user.status === 'suspended') {
-        throw new AuthError('User not found or suspended', 'USER_NOT_FOUND');
-      }
+    if (!current || current.revokedAt) {
+      throw new AuthError('Session expired or revoked', 'SESSION_REVOKED');
+    }
 
-      // Generate new tokens
-      return this.generateTokens({
-        userId: user.id,
-        tenantId: user.tenantId,
-        userType: user.userType,
-        email: user.email,
-      });
-    } catch (err) {
-      if (err instanceof AuthError) throw err;
+    if (current.status === 'suspended') {
+      throw new AuthError('Account suspended', 'ACCOUNT_SUSPENDED');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Sign a short-lived token for Core API's own calls to internal services
+   * (location-service REST API)
+   */
+  generateServiceToken(): { token: string; expiresIn: number } {
+    const token = jwt.sign(
+      { type: 'service', service: 'core-api' },
+      config.jwt.secret,
+      { expiresIn: SERVICE_TOKEN_EXPIRY }
+    );
+
+    return { token, expiresIn: SERVICE_TOKEN_EXPIRY };
+  }
+
+  /**
+   * Exchange a refresh token for new tokens, rotating the session's
+   * refresh token
+   */
+  async refreshTokens(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
+    let payload: RefreshTokenPayload;
+
+    try {
+      payload = jwt.verify(refreshToken, config.jwt.secret) as RefreshTokenPayload;
+    } catch {
       throw new AuthError('Invalid refresh token', 'INVALID_TOKEN');
     }
+
+    if (payload.type !== 'refresh' || !payload.sessionId || !payload.tokenId) {
+      throw new AuthError('Invalid token type', 'INVALID_TOKEN');
+    }
+
+    const session = await db.query.authSessions.findFirst({
+      where: eq(authSessions.id, payload.sessionId),
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new AuthError('Session expired or revoked', 'SESSION_REVOKED');
+    }
+
+    // Verify user still exists and is active
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, session.userId),
+    });
+
+    if (!user || user.status === 'suspended') {
+      await this.revokeSessions(eq(authSessions.id, session.id), 'suspended');
+      throw new AuthError('User not found or suspended', 'USER_NOT_FOUND');
+    }
+
+    const tokenId = uuidv4();
+
+    // Conditional on the presented token still being current, so two
+    // refreshes with the same token can't both succeed
+    const [rotated] = await db.update(authSessions)
+      .set({
+        refreshTokenId: tokenId,
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRY * 1000),
+        ...(context.userAgent && { userAgent: context.userAgent }),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+      })
+      .where(and(
+        eq(authSessions.id, session.id),
+        eq(authSessions.refreshTokenId, payload.tokenId),
+        isNull(authSessions.revokedAt)
+      ))
+      .returning();
+
+    if (!rotated) {
+      await this.revokeSessions(eq(authSessions.id, session.id), 'token_reuse');
+      logger.warn({ userId: session.userId, sessionId: session.id }, 'Refresh token reused, session revoked');
+      throw new AuthError('Refresh token already used', 'TOKEN_REUSED');
+    }
+
+    return this.generateTokens(this.toTokenPayload(user, rotated.id), tokenId);
+  }
+
+  /**
+   * End the session an access token belongs to
+   */
+  async logout(userId: string, sessionId: string): Promise<void> {
+    await this.revokeSessions(
+      and(eq(authSessions.id, sessionId), eq(authSessions.userId, userId))!,
+      'logout'
+    );
+
+    logger.info({ userId, sessionId }, 'User logged out');
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  async listSessions(userId: string, tenantId: string, currentSessionId: string): Promise<SessionInfo[]> {
+    const sessions = await db.query.authSessions.findMany({
+      where: and(
+        eq(authSessions.userId, userId),
+        eq(authSessions.tenantId, tenantId),
+        isNull(authSessions.revokedAt),
+        gt(authSessions.expiresAt, new Date())
+      ),
+      orderBy: desc(authSessions.lastUsedAt),
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      current: session.id === currentSessionId,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt,
+    }));
+  }
+
+  /**
+   * Sign out one of the user's devices
+   */
+  async revokeSession(userId: string, tenantId: string, sessionId: string): Promise<void> {
+    const revoked = await this.revokeSessions(
+      and(
+        eq(authSessions.id, sessionId),
+        eq(authSessions.userId, userId),
+        eq(authSessions.tenantId, tenantId)
+      )!,
+      'revoked_by_user'
+    );
+
+    if (revoked === 0) {
+      throw new AuthError('Session not found', 'SESSION_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Sign out all of the user's sessions, optionally keeping one
+   *
+   * @returns the number of sessions revoked
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const revoked = await this.revokeSessions(
+      and(
+        eq(authSessions.userId, userId),
+        exceptSessionId ? ne(authSessions.id, exceptSessionId) : undefined
+      )!,
+      reason
+    );
+
+    logger.info({ userId, reason, revoked }, 'User sessions revoked');
+
+    return revoked;
+  }
+
+  /**
+   * Suspend a user and sign them out everywhere
+   *
+   * @param userType - Only suspend a user of this type
+   */
+  async suspendUser(userId: string, tenantId: string, userType?: TokenPayload['userType']): Promise<void> {
+    const [suspended] = await db.update(users)
+      .set({ status: 'suspended', isOnline: false, updatedAt: new Date() })
+      .where(and(
+        eq(users.id, userId),
+        eq(users.tenantId, tenantId),
+        userType ? eq(users.userType, userType) : undefined
+      ))
+      .returning();
+
+    if (!suspended) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    await this.revokeAllSessions(userId, 'suspended');
+    await sessionRevocationService.publishRevocation({ sessionIds: [], userIds: [userId] }, ACCESS_TOKEN_EXPIRY);
+
+    logger.info({ userId, tenantId }, 'User suspended');
+  }
+
+  /**
+   * Sign out every user of a tenant
+   */
+  async revokeTenantSessions(tenantId: string, reason: SessionRevokeReason): Promise<number> {
+    const revoked = await this.revokeSessions(eq(authSessions.tenantId, tenantId), reason);
+
+    logger.info({ tenantId, reason, revoked }, 'Tenant sessions revoked');
+
+    return revoked;
   }
 
   /**
@@ -253,9 +559,19 @@ export class AuthService {
       apnsToken: string;
     }>
   ): Promise<UserProfile> {
+    const phone = updates.phone ? this.normalizePhone(updates.phone) : undefined;
+    // A new number has to be verified again
+    const phoneUpdate = phone
+      ? {
+          phone,
+          phoneVerifiedAt: sql`case when ${users.phone} = ${phone} then ${users.phoneVerifiedAt} end`,
+        }
+      : {};
+
     const [updatedUser] = await db.update(users)
       .set({
         ...updates,
+        ...phoneUpdate,
         updatedAt: new Date(),
       })
       .where(and(
@@ -278,8 +594,9 @@ export class AuthService {
     userId: string,
     tenantId: string,
     currentPassword: string,
-    newPassword: string
-  ): Promise<void> {
+    newPassword: string,
+    context: SessionContext = {}
+  ): Promise<AuthTokens> {
     const user = await db.query.users.findFirst({
       where: and(
         eq(users.id, userId),
@@ -308,20 +625,116 @@ export class AuthService {
       .where(eq(users.id, userId));
 
     logger.info({ userId }, 'Password changed');
+
+    // Every device signs in again; the caller gets a fresh session
+    await this.revokeAllSessions(userId, 'password_changed');
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Normalize a phone number to E.164, rejecting invalid numbers
+   */
+  private normalizePhone(phone: string): string {
+    const normalized = normalizePhoneNumber(phone);
+
+    if (!normalized) {
+      throw new AuthError('Invalid phone number', 'INVALID_PHONE');
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Create a session for a signed-in user and issue its tokens
+   */
+  private async startSession(user: typeof users.$inferSelect, context: SessionContext): Promise<AuthTokens> {
+    const tokenId = uuidv4();
+
+    const [session] = await db.insert(authSessions).values({
+      tenantId: user.tenantId,
+      userId: user.id,
+      refreshTokenId: tokenId,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRY * 1000),
+    }).returning();
+
+    return this.generateTokens(this.toTokenPayload(user, session.id), tokenId);
+  }
+
+  /**
+   * Reject sign-in to deactivated (or unknown) tenants
+   */
+  private async assertTenantActive(tenantId: string): Promise<void> {
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    if (!tenant || !tenant.isActive) {
+      throw new AuthError('Invalid tenant', 'INVALID_TENANT');
+    }
+  }
+
+  /**
+   * Revoke the active sessions matching a condition, and end their
+   * location-service connections
+   *
+   * @returns the number of sessions revoked
+   */
+  private async revokeSessions(where: SQL, reason: SessionRevokeReason): Promise<number> {
+    const revoked = await db.update(authSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(where, isNull(authSessions.revokedAt)))
+      .returning({ id: authSessions.id });
+
+    await sessionRevocationService.publishRevocation(
+      { sessionIds: revoked.map((session) => session.id), userIds: [] },
+      ACCESS_TOKEN_EXPIRY
+    );
+
+    return revoked.length;
+  }
+
+  private verifyAccessTokenSignature(token: string): TokenPayload {
+    try {
+      const payload = jwt.verify(token, config.jwt.secret) as TokenPayload & { type: string };
+      
+      if (payload.type !== 'access') {
+        throw new AuthError('Invalid token type', 'INVALID_TOKEN');
+      }
+
+      return payload;
+    } catch (err) {
+      if (err instanceof jwt.TokenExpiredError) {
+        throw new AuthError('Token expired', 'TOKEN_EXPIRED');
+      }
+      throw new AuthError('Invalid token', 'INVALID_TOKEN');
+    }
   }
 
   /**
    * Generate access and refresh tokens
+   *
+   * @param refreshTokenId - The session's current refresh token id
    */
-  private generateTokens(payload: TokenPayload): AuthTokens {
+  private generateTokens(payload: TokenPayload, refreshTokenId: string): AuthTokens {
     const accessToken = jwt.sign(
       { ...payload, type: 'access' },
       config.jwt.secret,
       { expiresIn: ACCESS_TOKEN_EXPIRY }
     );
 
+    const refreshPayload: RefreshTokenPayload = {
+      userId: payload.userId,
+      tenantId: payload.tenantId,
+      sessionId: payload.sessionId,
+      tokenId: refreshTokenId,
+      type: 'refresh',
+    };
+
     const refreshToken = jwt.sign(
-      { ...payload, type: 'refresh' },
+      refreshPayload,
       config.jwt.secret,
       { expiresIn: REFRESH_TOKEN_EXPIRY }
     );
@@ -333,6 +746,17 @@ export class AuthService {
     };
   }
 
+  private toTokenPayload(user: typeof users.$inferSelect, sessionId: string): TokenPayload {
+    return {
+      userId: user.id,
+      tenantId: user.tenantId,
+      userType: user.userType,
+      email: user.email,
+      sessionId,
+      platformAdmin: user.isPlatformAdmin ?? false,
+    };
+  }
+
   /**
    * Convert database user to profile response
    */
@@ -342,6 +766,7 @@ export class AuthService {
       tenantId: user.tenantId,
       email: user.email,
       phone: user.phone,
+      phoneVerified: user.phoneVerifiedAt !== null,
       firstName: user.firstName,
       lastName: user.lastName,
       userType: user.userType,
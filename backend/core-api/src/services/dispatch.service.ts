@@ -4,20 +4,42 @@
  * Core matching algorithm for assigning drivers to ride requests.
  * 
  * Features:
- * - Proximity-based initial filtering using Haversine formula
+ * - Proximity-based initial filtering via the location-service Redis GEO index
  * - ETA-based ranking (integrates with Google Maps API)
- * - Distributed locking to prevent double-assignment
- * - Surge pricing calculation
+ * - Sequential driver offers with per-offer timeouts
+ * - Driver reservations and row locks to prevent double-assignment
+ * - Matching leases so one process at a time matches a ride, and rides
+ *   left searching by a crash can be picked up again (see ride-scheduler)
+ * - Supply/demand surge pricing (see surge.service)
+ * - Time-based tariffs from versioned tenant pricing (see pricing.service)
  * - Finnish taximeter integration support
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
-import { eq, and, sql } from 'drizzle-orm';
-import { db, rides, users, vehicles, tenants, payments } from '../db/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, sql, inArray } from 'drizzle-orm';
+import { db, rides, users, vehicles, tenants, payments, isUniqueViolation } from '../db/index.js';
+import { redis, redisKey } from '../db/redis.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { haversineDistance } from '../utils/haversine.js';
+import { locationService } from './location.service.js';
+import { rideOfferService, RideOfferOutcome } from './ride-offer.service.js';
+import { surgeService } from './surge.service.js';
+import { pricingService, PricingVersion } from './pricing.service.js';
+import { quoteService, QuoteError, QuoteRequest, FareQuote } from './quote.service.js';
+import {
+  rideLifecycleService,
+  RideLifecycleError,
+  type RideActor,
+  type RideStatus,
+} from './ride-lifecycle.service.js';
+import { rideTrackingService } from './ride-tracking.service.js';
+import { driverAvailabilityService, ACTIVE_RIDE_STATUSES } from './driver-availability.service.js';
+import { driverLedgerService } from './driver-ledger.service.js';
+import { driverPayoutService } from './driver-payout.service.js';
+import { taximeterService } from './taximeter.service.js';
+import { locationHistoryService, TripMeasurement } from './location-history.service.js';
 
 // Types
 export interface RideRequest {
@@ -38,6 +60,7 @@ export interface RideRequest {
   requiresWheelchairAccess?: boolean;
   numberOfPassengers?: number;
   paymentMethod?: 'card' | 'mobilepay' | 'cash';
+  quoteToken?: string; // Book at the quoted fixed price
 }
 
 export interface NearbyDriver {
@@ -54,6 +77,30 @@ export interface NearbyDriver {
   longitude: number;
 }
 
+export interface DispatchConfig {
+  offerTimeoutSeconds: number;
+  maxOffersPerRide: number;
+  scheduledLeadMinutes: number;
+  scheduledEscalationMinutes: number;
+}
+
+export interface ScheduledRideUpdate {
+  scheduledPickupTime?: Date;
+  pickupLatitude?: number;
+  pickupLongitude?: number;
+  pickupAddress?: string;
+  pickupPlaceId?: string;
+  dropoffLatitude?: number;
+  dropoffLongitude?: number;
+  dropoffAddress?: string;
+  dropoffPlaceId?: string;
+  vehicleType?: string;
+  notes?: string;
+  requiresChildSeat?: boolean;
+  requiresWheelchairAccess?: boolean;
+  numberOfPassengers?: number;
+}
+
 export interface FareEstimate {
   baseFare: number;
   distanceFare: number;
@@ -61,39 +108,57 @@ export interface FareEstimate {
   bookingFee: number;
   surgeMultiplier: number;
   surgeAmount: number;
+  surgeZone: string | null;
   subtotal: number;
+  passengerSurcharge: number;
+  airportFee: number;
   vatAmount: number;
   total: number;
   currency: string;
+  tariffCode: string;
+  pricingConfigVersionId: string;
+  pricingConfigVersion: number;
   estimatedDistanceMeters: number;
   estimatedDurationSeconds: number;
 }
 
-export interface RideOffer {
-  rideId: string;
-  pickup: {
-    latitude: number;
-    longitude: number;
-    address: string;
-  };
-  dropoff: {
-    latitude: number;
-    longitude: number;
-    address: string;
-  };
-  estimatedFare: number;
-  estimatedDistance: number;
-  estimatedDuration: number;
-  vehicleType: string;
-  expiresAt: Date;
+export interface FareOptions {
+  surgeMultiplier?: number; // Snapshotted multiplier instead of the zone's current one
+  pricingVersion?: PricingVersion; // Version to price with instead of the current one
+  pricedAt?: Date; // Instant selecting the tariff
+  numberOfPassengers?: number;
+  trip?: { distanceMeters: number; durationSeconds: number }; // Driven trip instead of the pickup-dropoff route
 }
 
 // Constants
 const MAX_SEARCH_RADIUS_METERS = 10000; // 10km
 const INITIAL_SEARCH_RADIUS_METERS = 3000; // 3km
 const MAX_DRIVERS_TO_QUERY = 20;
-const RIDE_OFFER_TIMEOUT_SECONDS = 30;
-const SURGE_THRESHOLD_RATIO = 1.5; // requests/drivers ratio
+const RESERVATION_GRACE_SECONDS = 30; // Covers assignment after the offer window
+const MATCHING_LEASE_SECONDS = 60; // Until the first offer renews it; expires if the process dies
+
+// Extend or delete a matching lease only if it is still held by the same run
+const RENEW_LEASE_SCRIPT = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("expire", KEYS[1], ARGV[2])
+  end
+  return 0
+`;
+const RELEASE_LEASE_SCRIPT = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  end
+  return 0
+`;
+
+const CANCELLED_STATUSES: Record<RideActor['type'], RideStatus> = {
+  rider: 'cancelled_by_rider',
+  driver: 'cancelled_by_driver',
+  dispatcher: 'cancelled_by_operator',
+  system: 'cancelled_by_operator',
+};
+const MIN_TRIP_DISTANCE_TOLERANCE_METERS = 300; // GPS noise on short trips shouldn't be flagged
+const MIN_TRIP_DURATION_TOLERANCE_SECONDS = 60;
 
 export class DispatchService {
   /**
@@ -126,54 +191,116 @@ export class DispatchService {
       throw new DispatchError('Invalid tenant', 'INVALID_TENANT');
     }
 
-    // Calculate fare estimate
-    const fareEstimate = await this.calculateFare(
-      tenant,
-      pickupLatitude,
-      pickupLongitude,
-      dropoffLatitude,
-      dropoffLongitude,
-      vehicleType
-    );
+    // Onboarding and deactivated tenants don't take rides
+    if (!tenant.isActive || !tenant.isLive) {
+      throw new DispatchError('This service is not accepting rides', 'TENANT_NOT_LIVE');
+    }
 
-    // Create ride record
-    const [ride] = await db.insert(rides).values({
-      tenantId,
-      riderId,
-      status: scheduledPickupTime ? 'requested' : 'searching',
-      pickupLatitude: pickupLatitude.toString(),
-      pickupLongitude: pickupLongitude.toString(),
-      pickupAddress,
-      pickupPlaceId: request.pickupPlaceId,
-      dropoffLatitude: dropoffLatitude.toString(),
-      dropoffLongitude: dropoffLongitude.toString(),
-      dropoffAddress,
-      dropoffPlaceId: request.dropoffPlaceId,
-      vehicleTypeRequested: vehicleType,
-      estimatedDistanceMeters: fareEstimate.estimatedDistanceMeters,
-      estimatedDurationSeconds: fareEstimate.estimatedDurationSeconds,
-      estimatedFare: fareEstimate.total.toString(),
-      baseFare: fareEstimate.baseFare.toString(),
-      surgeMutiplier: fareEstimate.surgeMultiplier.toString(),
-      currency: fareEstimate.currency,
-      paymentMethod,
-      scheduledPickupTime,
-      isScheduled: !!scheduledPickupTime,
-      notes: request.notes,
-      requiresChildSeat: request.requiresChildSeat,
-      requiresWheelchairAccess: request.requiresWheelchairAccess,
-      numberOfPassengers: request.numberOfPassengers,
-    }).returning();
+    if (scheduledPickupTime && scheduledPickupTime.getTime() <= Date.now()) {
+      throw new DispatchError('Scheduled pickup time must be in the future', 'INVALID_SCHEDULED_TIME');
+    }
+
+    // Book at the quoted price, or calculate a fare estimate
+    let fareEstimate: FareEstimate;
+    let quoteId: string | undefined;
+
+    if (request.quoteToken) {
+      const quote = quoteService.verifyQuote(request.quoteToken, tenantId, riderId, {
+        pickupLatitude,
+        pickupLongitude,
+        dropoffLatitude,
+        dropoffLongitude,
+        vehicleType,
+        numberOfPassengers: request.numberOfPassengers ?? 1,
+        scheduledPickupTime,
+      });
+
+      const booked = await db.query.rides.findFirst({
+        where: eq(rides.quoteId, quote.quoteId),
+        columns: { id: true },
+      });
+
+      if (booked) {
+        throw new QuoteError('Quote has already been used', 'QUOTE_USED');
+      }
+
+      fareEstimate = quote.fare;
+      quoteId = quote.quoteId;
+    } else {
+      fareEstimate = await this.calculateFare(
+        tenant,
+        pickupLatitude,
+        pickupLongitude,
+        dropoffLatitude,
+        dropoffLongitude,
+        vehicleType,
+        {
+          pricedAt: scheduledPickupTime,
+          numberOfPassengers: request.numberOfPassengers,
+        }
+      );
+    }
+
+    // Create ride record and its initial history entry
+    const ride = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(rides).values({
+        tenantId,
+        riderId,
+        status: scheduledPickupTime ? 'requested' : 'searching',
+        pickupLatitude: pickupLatitude.toString(),
+        pickupLongitude: pickupLongitude.toString(),
+        pickupAddress,
+        pickupPlaceId: request.pickupPlaceId,
+        dropoffLatitude: dropoffLatitude.toString(),
+        dropoffLongitude: dropoffLongitude.toString(),
+        dropoffAddress,
+        dropoffPlaceId: request.dropoffPlaceId,
+        vehicleTypeRequested: vehicleType,
+        estimatedDistanceMeters: fareEstimate.estimatedDistanceMeters,
+        estimatedDurationSeconds: fareEstimate.estimatedDurationSeconds,
+        estimatedFare: fareEstimate.total.toString(),
+        baseFare: fareEstimate.baseFare.toString(),
+        surgeMutiplier: fareEstimate.surgeMultiplier.toString(),
+        surgeZone: fareEstimate.surgeZone,
+        pricingConfigVersionId: fareEstimate.pricingConfigVersionId,
+        tariffCode: fareEstimate.tariffCode,
+        passengerSurcharge: fareEstimate.passengerSurcharge.toString(),
+        airportFee: fareEstimate.airportFee.toString(),
+        quoteId,
+        lockedFare: quoteId ? fareEstimate.total.toString() : undefined,
+        currency: fareEstimate.currency,
+        paymentMethod,
+        scheduledPickupTime,
+        isScheduled: !!scheduledPickupTime,
+        notes: request.notes,
+        requiresChildSeat: request.requiresChildSeat,
+        requiresWheelchairAccess: request.requiresWheelchairAccess,
+        numberOfPassengers: request.numberOfPassengers,
+      }).returning();
+
+      await rideLifecycleService.recordCreated(tx, created, { type: 'rider', id: riderId });
+
+      return created;
+    }).catch((err) => {
+      // Another booking took the quote after the check above
+      if (quoteId && isUniqueViolation(err, 'rides_quote_idx')) {
+        throw new QuoteError('Quote has already been used', 'QUOTE_USED');
+      }
+      throw err;
+    });
 
     logger.info({
       rideId: ride.id,
       tenantId,
       riderId,
       vehicleType,
+      quoteId,
     }, 'Ride request created');
 
     // If not scheduled, start driver matching immediately
     if (!scheduledPickupTime) {
+      await surgeService.recordDemand(tenantId, ride.id, pickupLatitude, pickupLongitude);
+
       // This would typically be done via Kafka event
       // For now, we'll trigger it directly
       this.startDriverMatching(ride.id).catch((err) => {
@@ -184,8 +311,45 @@ export class DispatchService {
     return { ride, fareEstimate };
   }
 
+  /**
+   * Estimate a fare; riders also get a quote to book it at a fixed price
+   * when the tenant offers upfront pricing
+   */
+  async quoteFare(
+    tenant: typeof tenants.$inferSelect,
+    riderId: string | null,
+    request: QuoteRequest
+  ): Promise<FareEstimate & { quote: FareQuote | null }> {
+    const pricingVersion = await pricingService.getCurrentVersion(tenant);
+
+    const fareEstimate = await this.calculateFare(
+      tenant,
+      request.pickupLatitude,
+      request.pickupLongitude,
+      request.dropoffLatitude,
+      request.dropoffLongitude,
+      request.vehicleType,
+      {
+        pricingVersion,
+        pricedAt: request.scheduledPickupTime,
+        numberOfPassengers: request.numberOfPassengers,
+      }
+    );
+
+    const { upfrontPricing } = pricingVersion.config;
+    const quote = riderId && upfrontPricing.enabled
+      ? quoteService.createQuote(tenant.id, riderId, request, fareEstimate, upfrontPricing.quoteTtlSeconds)
+      : null;
+
+    return { ...fareEstimate, quote };
+  }
+
   /**
    * Calculate fare estimate using tenant pricing config
+   *
+   * The tariff is selected by the local time of `pricedAt` (default now) in
+   * the tenant's time zone. Pass `pricingVersion` and `surgeMultiplier` to
+   * reprice with what a ride was quoted with instead of the current ones.
    */
   async calculateFare(
     tenant: typeof tenants.$inferSelect,
@@ -193,23 +357,22 @@ export class DispatchService {
     pickupLng: number,
     dropoffLat: number,
     dropoffLng: number,
-    vehicleType: string
+    vehicleType: string,
+    options: FareOptions = {}
   ): Promise<FareEstimate> {
-    const pricingConfig = tenant.pricingConfig as {
-      baseFare: number;
-      perKmRate: number;
-      perMinuteRate: number;
-      minimumFare: number;
-      bookingFee: number;
-      surgePricingEnabled: boolean;
-      vatRate: number;
-    };
+    const pricingVersion = options.pricingVersion ?? await pricingService.getCurrentVersion(tenant);
+    const pricingConfig = pricingVersion.config;
+    const tariff = pricingService.selectTariff(pricingConfig, options.pricedAt ?? new Date(), tenant.timezone);
+    let surgeMultiplier = options.surgeMultiplier;
 
     // Get route from Google Maps (or fallback to Haversine)
     let distanceMeters: number;
     let durationSeconds: number;
 
-    if (config.maps.apiKey) {
+    if (options.trip) {
+      distanceMeters = options.trip.distanceMeters;
+      durationSeconds = options.trip.durationSeconds;
+    } else if (config.maps.apiKey) {
       const route = await this.getRouteFromMaps(
         pickupLat, pickupLng,
         dropoffLat, dropoffLng
@@ -230,25 +393,31 @@ export class DispatchService {
     const distanceKm = distanceMeters / 1000;
     const durationMinutes = durationSeconds / 60;
 
-    let baseFare = pricingConfig.baseFare;
-    let distanceFare = distanceKm * pricingConfig.perKmRate;
-    let timeFare = durationMinutes * pricingConfig.perMinuteRate;
+    let baseFare = tariff.baseFare;
+    let distanceFare = distanceKm * tariff.perKmRate;
+    let timeFare = durationMinutes * tariff.perMinuteRate;
     const bookingFee = pricingConfig.bookingFee;
 
     // Apply vehicle type multiplier
-    const vehicleMultiplier = this.getVehicleTypeMultiplier(vehicleType);
+    const vehicleMultiplier = pricingService.getVehicleTypeMultiplier(pricingConfig, vehicleType);
     baseFare *= vehicleMultiplier;
     distanceFare *= vehicleMultiplier;
     timeFare *= vehicleMultiplier;
 
-    // Calculate surge (if enabled)
-    let surgeMultiplier = 1.0;
-    if (pricingConfig.surgePricingEnabled) {
-      surgeMultiplier = await this.calculateSurgeMultiplier(
-        tenant.id,
-        pickupLat,
-        pickupLng
-      );
+    // Calculate surge (if enabled and not already snapshotted)
+    let surgeZone: string | null = null;
+    if (surgeMultiplier === undefined) {
+      surgeMultiplier = 1.0;
+      if (pricingConfig.surgePricingEnabled) {
+        const surge = await surgeService.getSurge(
+          tenant.id,
+          pickupLat,
+          pickupLng,
+          pricingConfig
+        );
+        surgeMultiplier = surge.multiplier;
+        surgeZone = surge.zone;
+      }
     }
 
     const surgeAmount = surgeMultiplier > 1 
@@ -258,11 +427,15 @@ export class DispatchService {
     const subtotal = (baseFare + distanceFare + timeFare + surgeAmount + bookingFee);
     
     // Apply minimum fare
-    const adjustedSubtotal = Math.max(subtotal, pricingConfig.minimumFare);
-    
+    const adjustedSubtotal = Math.max(subtotal, tariff.minimumFare ?? pricingConfig.minimumFare);
+
+    // Surcharges and fees come on top of the minimum fare
+    const passengerSurcharge = pricingService.getPassengerSurcharge(pricingConfig, options.numberOfPassengers ?? 1);
+    const airportFee = pricingService.getAirportFee(pricingConfig, pickupLat, pickupLng, dropoffLat, dropoffLng);
+    const total = adjustedSubtotal + passengerSurcharge + airportFee;
+
     // Calculate VAT (included in price for Finnish taxi)
-    const vatRate = pricingConfig.vatRate || config.finland.vatRatePassenger;
-    const vatAmount = adjustedSubtotal * vatRate / (1 + vatRate);
+    const vatAmount = total * pricingConfig.vatRate / (1 + pricingConfig.vatRate);
 
     return {
       baseFare: Math.round(baseFare * 100) / 100,
@@ -271,10 +444,16 @@ export class DispatchService {
       bookingFee: Math.round(bookingFee * 100) / 100,
       surgeMultiplier,
       surgeAmount: Math.round(surgeAmount * 100) / 100,
+      surgeZone,
       subtotal: Math.round(adjustedSubtotal * 100) / 100,
+      passengerSurcharge: Math.round(passengerSurcharge * 100) / 100,
+      airportFee: Math.round(airportFee * 100) / 100,
       vatAmount: Math.round(vatAmount * 100) / 100,
-      total: Math.round(adjustedSubtotal * 100) / 100,
+      total: Math.round(total * 100) / 100,
       currency: tenant.defaultCurrency || 'EUR',
+      tariffCode: tariff.code,
+      pricingConfigVersionId: pricingVersion.id,
+      pricingConfigVersion: pricingVersion.version,
       estimatedDistanceMeters: distanceMeters,
       estimatedDurationSeconds: durationSeconds,
     };
@@ -282,18 +461,54 @@ export class DispatchService {
 
   /**
    * Start the driver matching process for a ride
+   *
+   * Offers the ride to the best-ranked candidates one at a time. Each driver
+   * gets the tenant's offer window to accept before the next one is asked.
+   * A run holds the ride's matching lease throughout; if another run holds
+   * it, or the ride is no longer searching, this does nothing.
    */
   async startDriverMatching(rideId: string): Promise<void> {
+    const leaseId = uuidv4();
+
+    if (!await this.claimMatching(rideId, leaseId, MATCHING_LEASE_SECONDS)) {
+      logger.debug({ rideId }, 'Ride is already being matched');
+      return;
+    }
+
+    try {
+      await this.matchDrivers(rideId, leaseId);
+    } finally {
+      await this.releaseMatching(rideId, leaseId);
+    }
+  }
+
+  /**
+   * Whether a matching run currently holds the ride's lease
+   */
+  async isMatching(rideId: string): Promise<boolean> {
+    return await redis.exists(this.getMatchingLeaseKey(rideId)) === 1;
+  }
+
+  private async matchDrivers(rideId: string, leaseId: string): Promise<void> {
     const ride = await db.query.rides.findFirst({
       where: eq(rides.id, rideId),
+      with: {
+        tenant: true,
+      },
     });
 
     if (!ride) {
       throw new DispatchError('Ride not found', 'RIDE_NOT_FOUND');
     }
 
+    if (ride.status !== 'searching') {
+      return;
+    }
+
     logger.info({ rideId }, 'Starting driver matching');
 
+    const dispatchConfig = this.getDispatchConfig(ride.tenant);
+
     // Find nearby available drivers
     const nearbyDrivers = await this.findNearbyDrivers(
       ride.tenantId,
@@ -304,9 +519,7 @@ export class DispatchService {
 
     if (nearbyDrivers.length === 0) {
       // No drivers available
-      await db.update(rides)
-        .set({ status: 'no_drivers_available', updatedAt: new Date() })
-        .where(eq(rides.id, rideId));
+      await this.markNoDriversAvailable(ride);
       
       logger.info({ rideId }, 'No drivers available');
       return;
@@ -315,23 +528,168 @@ export class DispatchService {
     // Sort by ETA (already sorted by distance, but we prefer ETA)
     nearbyDrivers.sort((a, b) => a.eta - b.eta);
 
-    // Try to assign drivers one by one
+    // Offer the ride to drivers one by one, passing over drivers who are
+    // being offered another ride
+    let offersSent = 0;
+
     for (const driver of nearbyDrivers) {
-      const assigned = await this.tryAssignDriver(rideId, driver.driverId);
-      if (assigned) {
+      if (offersSent >= dispatchConfig.maxOffersPerRide) {
+        break;
+      }
+
+      // Keep the lease through this offer and the assignment after it
+      if (!await this.claimMatching(rideId, leaseId, dispatchConfig.offerTimeoutSeconds + RESERVATION_GRACE_SECONDS)) {
+        logger.warn({ rideId }, 'Matching lease lost, leaving the ride to another run');
+        return;
+      }
+
+      const outcome = await this.offerToDriver(ride, driver, dispatchConfig.offerTimeoutSeconds);
+
+      if (outcome === null) {
+        logger.debug({ rideId, driverId: driver.driverId }, 'Driver reserved for another ride');
+        continue;
+      }
+
+      offersSent++;
+
+      if (outcome === 'cancelled') {
+        logger.info({ rideId }, 'Ride withdrawn during matching');
+        return;
+      }
+
+      if (outcome === 'assigned') {
         logger.info({ rideId, driverId: driver.driverId }, 'Driver assigned');
         return;
       }
+
+      // Stop if the ride left the searching state while we were waiting
+      const current = await db.query.rides.findFirst({
+        where: eq(rides.id, rideId),
+        columns: { status: true },
+      });
+
+      if (current?.status !== 'searching') {
+        return;
+      }
     }
 
     // If we get here, no driver accepted
-    await db.update(rides)
-      .set({ status: 'no_drivers_available', updatedAt: new Date() })
-      .where(eq(rides.id, rideId));
+    await this.markNoDriversAvailable(ride);
+
+    logger.info({ rideId }, 'No driver accepted the ride');
+  }
+
+  /**
+   * Take or renew a ride's matching lease
+   *
+   * @returns False when another run holds the lease
+   */
+  private async claimMatching(rideId: string, leaseId: string, ttlSeconds: number): Promise<boolean> {
+    const key = this.getMatchingLeaseKey(rideId);
+
+    if (await redis.set(key, leaseId, 'EX', ttlSeconds, 'NX') === 'OK') {
+      return true;
+    }
+
+    // Already ours: extend it
+    return await redis.eval(RENEW_LEASE_SCRIPT, 1, key, leaseId, ttlSeconds) === 1;
+  }
+
+  private async releaseMatching(rideId: string, leaseId: string): Promise<void> {
+    try {
+      await redis.eval(RELEASE_LEASE_SCRIPT, 1, this.getMatchingLeaseKey(rideId), leaseId);
+    } catch (err) {
+      // Expires by itself
+      logger.error({ err, rideId }, 'Failed to release matching lease');
+    }
+  }
+
+  private getMatchingLeaseKey(rideId: string): string {
+    return redisKey('rides', 'matching', rideId);
+  }
+
+  /**
+   * Offer a ride to one driver, reserved for it meanwhile, and assign the
+   * driver if they accept. An accepted offer that can't be assigned is
+   * withdrawn. The reservation is released whatever the outcome; an
+   * assigned driver stays busy through their active ride.
+   *
+   * @returns The offer outcome, 'assigned' once the driver has the ride,
+   * or null when the driver is reserved for another ride
+   */
+  private async offerToDriver(
+    ride: typeof rides.$inferSelect,
+    driver: NearbyDriver,
+    timeoutSeconds: number
+  ): Promise<RideOfferOutcome | 'assigned' | null> {
+    const reserved = await driverAvailabilityService.reserve(
+      driver.driverId,
+      ride.tenantId,
+      ride.id,
+      timeoutSeconds + RESERVATION_GRACE_SECONDS
+    );
+
+    if (!reserved) {
+      return null;
+    }
+
+    try {
+      const outcome = await rideOfferService.offerRide(ride, driver, timeoutSeconds);
+
+      if (outcome === 'accepted') {
+        if (await this.tryAssignDriver(ride.id, driver.driverId, driver.eta)) {
+          return 'assigned';
+        }
+
+        await rideOfferService.withdrawAcceptedOffer(ride.id, driver.driverId);
+      }
+
+      return outcome;
+    } finally {
+      await driverAvailabilityService.release(driver.driverId, ride.tenantId, ride.id);
+    }
+  }
+
+  /**
+   * Move a ride that is still searching to no_drivers_available
+   */
+  private async markNoDriversAvailable(ride: typeof rides.$inferSelect): Promise<void> {
+    try {
+      await rideLifecycleService.transition({
+        rideId: ride.id,
+        tenantId: ride.tenantId,
+        to: 'no_drivers_available',
+        actor: { type: 'system' },
+      });
+    } catch (err) {
+      // The ride was cancelled or assigned in the meantime
+      if (err instanceof RideLifecycleError && err.code === 'INVALID_STATUS_TRANSITION') {
+        return;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Resolve the tenant's dispatch settings, falling back to platform defaults
+   */
+  getDispatchConfig(tenant: typeof tenants.$inferSelect): DispatchConfig {
+    const tenantConfig = (tenant.dispatchConfig || {}) as Partial<DispatchConfig>;
+
+    return {
+      offerTimeoutSeconds: tenantConfig.offerTimeoutSeconds || config.dispatch.defaultOfferTimeoutSeconds,
+      maxOffersPerRide: tenantConfig.maxOffersPerRide || config.dispatch.defaultMaxOffersPerRide,
+      scheduledLeadMinutes: tenantConfig.scheduledLeadMinutes || config.dispatch.defaultScheduledLeadMinutes,
+      scheduledEscalationMinutes: tenantConfig.scheduledEscalationMinutes || config.dispatch.defaultScheduledEscalationMinutes,
+    };
   }
 
   /**
    * Find nearby available drivers
+   *
+   * Live positions and availability come from the location-service Redis GEO
+   * index; vehicle and rating data are joined from Postgres. The search starts
+   * with a tight radius and widens once if nobody suitable is close by.
    */
   async findNearbyDrivers(
     tenantId: string,
@@ -339,10 +697,49 @@ export class DispatchService {
     longitude: number,
     vehicleType: string
   ): Promise<NearbyDriver[]> {
-    // In production, this would query the location service via HTTP/gRPC
-    // For now, we'll query the database directly
-    
-    // Get all active drivers with their vehicles
+    for (const radius of [INITIAL_SEARCH_RADIUS_METERS, MAX_SEARCH_RADIUS_METERS]) {
+      const drivers = await this.findDriversWithinRadius(
+        tenantId,
+        latitude,
+        longitude,
+        vehicleType,
+        radius
+      );
+
+      if (drivers.length > 0) {
+        return drivers;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Query the location-service for one search radius and enrich the results
+   */
+  private async findDriversWithinRadius(
+    tenantId: string,
+    latitude: number,
+    longitude: number,
+    vehicleType: string,
+    radiusMeters: number
+  ): Promise<NearbyDriver[]> {
+    const positions = await locationService.findNearbyDrivers(
+      tenantId,
+      latitude,
+      longitude,
+      radiusMeters,
+      MAX_DRIVERS_TO_QUERY
+    );
+
+    const availablePositions = positions.filter((p) => p.isAvailable);
+
+    if (availablePositions.length === 0) {
+      return [];
+    }
+
+    // Join with driver and vehicle records; Postgres is the source of truth
+    // for account status and vehicle type, not the driver app's self-report
     const driversWithVehicles = await db
       .select({
         driver: users,
@@ -351,74 +748,98 @@ export class DispatchService {
       .from(users)
       .innerJoin(vehicles, eq(vehicles.driverId, users.id))
       .where(and(
+        inArray(users.id, availablePositions.map((p) => p.driverId)),
         eq(users.tenantId, tenantId),
         eq(users.userType, 'driver'),
         eq(users.status, 'active'),
+        eq(users.isOnline, true),
         eq(vehicles.isActive, true),
         vehicleType !== 'standard' 
           ? eq(vehicles.vehicleType, vehicleType as 'standard' | 'comfort' | 'xl' | 'accessible' | 'electric')
           : sql`1=1`
-      ))
-      .limit(MAX_DRIVERS_TO_QUERY);
+      ));
+
+    const recordsByDriverId = new Map(
+      driversWithVehicles.map((record) => [record.driver.id, record])
+    );
 
-    // Note: In production, we'd get real-time locations from Redis via the location service
-    // For now, this is a placeholder that would be enhanced with actual location data
-    
     const nearbyDrivers: NearbyDriver[] = [];
 
-    for (const { driver, vehicle } of driversWithVehicles) {
-      // TODO: Get real location from location service
-      // For now, we'll simulate with random nearby location
-      const driverLat = latitude + (Math.random() - 0.5) * 0.05;
-      const driverLng = longitude + (Math.random() - 0.5) * 0.05;
-      
-      const distance = haversineDistance(latitude, longitude, driverLat, driverLng);
-      
-      if (distance <= MAX_SEARCH_RADIUS_METERS) {
-        // Estimate ETA (30 km/h average in urban areas)
-        const eta = Math.round(distance / (30 * 1000 / 3600));
-        
-        nearbyDrivers.push({
-          driverId: driver.id,
-          distance,
-          eta,
-          rating: parseFloat(driver.averageRating || '5.0'),
-          vehicleType: vehicle.vehicleType || 'standard',
-          vehicleMake: vehicle.make,
-          vehicleModel: vehicle.model,
-          vehicleColor: vehicle.color,
-          registrationNumber: vehicle.registrationNumber,
-          latitude: driverLat,
-          longitude: driverLng,
-        });
-      }
+    for (const position of availablePositions) {
+      const record = recordsByDriverId.get(position.driverId);
+      if (!record) continue;
+
+      const { driver, vehicle } = record;
+
+      // Recompute distance locally so ranking doesn't depend on GEO precision
+      const distance = haversineDistance(latitude, longitude, position.latitude, position.longitude);
+
+      // Estimate ETA (30 km/h average in urban areas)
+      const eta = Math.round(distance / (30 * 1000 / 3600));
+
+      nearbyDrivers.push({
+        driverId: driver.id,
+        distance,
+        eta,
+        rating: parseFloat(driver.averageRating || '5.0'),
+        vehicleType: vehicle.vehicleType || 'standard',
+        vehicleMake: vehicle.make,
+        vehicleModel: vehicle.model,
+        vehicleColor: vehicle.color,
+        registrationNumber: vehicle.registrationNumber,
+        latitude: position.latitude,
+        longitude: position.longitude,
+      });
     }
 
     return nearbyDrivers.sort((a, b) => a.distance - b.distance);
   }
 
   /**
-   * Try to assign a driver to a ride using distributed locking
+   * Try to assign a driver to a ride
+   *
+   * The lifecycle transition locks the ride row and the driver's user row
+   * is locked too, so two rides accepted by the same driver at once can't
+   * both get them.
    */
-  async tryAssignDriver(rideId: string, driverId: string): Promise<boolean> {
-    // In production, we'd use Redis Redlock for distributed locking
-    // For now, we'll use a simple database transaction
-    
-    const lockId = uuidv4();
-    
+  async tryAssignDriver(rideId: string, driverId: string, eta = 0): Promise<boolean> {
     try {
       // Start transaction
-      const result = await db.transaction(async (tx) => {
-        // Check if ride is still in searching status
+      const assignedRide = await db.transaction(async (tx) => {
         const ride = await tx.query.rides.findFirst({
+          where: eq(rides.id, rideId),
+          columns: { tenantId: true },
+        });
+
+        if (!ride) {
+          return null;
+        }
+
+        // Lock the driver so concurrent assignments of them are serialized,
+        // then refuse a driver who is already on a ride
+        const [driver] = await tx.select({ status: users.status })
+          .from(users)
+          .where(and(
+            eq(users.id, driverId),
+            eq(users.tenantId, ride.tenantId)
+          ))
+          .for('update');
+
+        if (driver?.status !== 'active') {
+          return null;
+        }
+
+        const activeRide = await tx.query.rides.findFirst({
           where: and(
-            eq(rides.id, rideId),
-            eq(rides.status, 'searching')
+            eq(rides.driverId, driverId),
+            inArray(rides.status, ACTIVE_RIDE_STATUSES)
           ),
+          columns: { id: true },
         });
 
-        if (!ride) {
-          return false; // Ride already assigned or cancelled
+        if (activeRide) {
+          logger.info({ rideId, driverId, activeRideId: activeRide.id }, 'Driver is already on another ride');
+          return null;
         }
 
         // Get driver's vehicle
@@ -430,60 +851,44 @@ export class DispatchService {
         });
 
         if (!vehicle) {
-          return false;
+          return null;
         }
 
-        // Assign driver to ride
-        await tx.update(rides)
-          .set({
+        // Assign driver to ride (fails if the ride is no longer searching)
+        return rideLifecycleService.transition({
+          rideId,
+          tenantId: ride.tenantId,
+          to: 'driver_assigned',
+          actor: { type: 'system' },
+          updates: {
             driverId,
             vehicleId: vehicle.id,
-            status: 'driver_assigned',
-            driverAssignedAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(rides.id, rideId));
-
-        return true;
+          },
+          metadata: { eta },
+        }, tx);
       });
 
-      if (result) {
-        // TODO: Send push notification to driver
-        // TODO: Publish event to Kafka for real-time updates
-        logger.info({ rideId, driverId }, 'Driver successfully assigned');
+      if (!assignedRide) {
+        return false;
       }
 
-      return result;
+      await rideTrackingService.publishRideStatus(assignedRide);
+      await driverAvailabilityService.sync(driverId, assignedRide.tenantId);
+
+      // TODO: Send push notification to driver
+      logger.info({ rideId, driverId }, 'Driver successfully assigned');
+
+      return true;
     } catch (err) {
+      if (err instanceof RideLifecycleError) {
+        return false; // Ride already assigned or cancelled
+      }
+
       logger.error({ err, rideId, driverId }, 'Failed to assign driver');
       return false;
     }
   }
 
-  /**
-   * Calculate surge multiplier based on supply/demand
-   */
-  async calculateSurgeMultiplier(
-    tenantId: string,
-    latitude: number,
-    longitude: number
-  ): Promise<number> {
-    // In production, this would:
-    // 1. Count active ride requests in the area
-    // 2. Count available drivers in the area
-    // 3. Calculate ratio and apply surge curve
-    
-    // For now, return a random surge for demonstration
-    // In production, you'd implement proper surge pricing logic
-    const random = Math.random();
-    
-    if (random > 0.8) {
-      return Math.min(1.5 + Math.random() * 0.5, config.pricing.maxSurgeMultiplier);
-    }
-    
-    return 1.0;
-  }
-
   /**
    * Get route information from Google Maps
    */
@@ -533,112 +938,391 @@ export class DispatchService {
   }
 
   /**
-   * Get vehicle type pricing multiplier
+   * Update ride status
+   *
+   * Validated by the ride lifecycle state machine; illegal moves throw a
+   * RideLifecycleError with code INVALID_STATUS_TRANSITION.
    */
-  private getVehicleTypeMultiplier(vehicleType: string): number {
-    const multipliers: Record<string, number> = {
-      standard: 1.0,
-      comfort: 1.3,
-      xl: 1.5,
-      accessible: 1.0, // No extra charge for accessible
-      electric: 1.1,
-    };
-    return multipliers[vehicleType] || 1.0;
+  async updateRideStatus(
+    rideId: string,
+    tenantId: string,
+    status: RideStatus,
+    actor: RideActor,
+    updates?: Partial<typeof rides.$inferInsert>,
+    reason?: string
+  ): Promise<typeof rides.$inferSelect> {
+    return rideLifecycleService.transition({
+      rideId,
+      tenantId,
+      to: status,
+      actor,
+      updates,
+      reason,
+    });
   }
 
   /**
-   * Update ride status
+   * Send a ride back to matching: a dispatcher taking it away from its
+   * driver, or retrying a ride nobody took. The released driver is
+   * available again and matching starts over in the background.
    */
-  async updateRideStatus(
+  async restartMatching(
     rideId: string,
     tenantId: string,
-    status: typeof rides.$inferSelect['status'],
-    updates?: Partial<typeof rides.$inferInsert>
+    actor: RideActor,
+    reason?: string
   ): Promise<typeof rides.$inferSelect> {
-    const [updatedRide] = await db.update(rides)
-      .set({
-        status,
-        ...updates,
-        updatedAt: new Date(),
-      })
-      .where(and(
+    const previous = await db.query.rides.findFirst({
+      where: and(
         eq(rides.id, rideId),
         eq(rides.tenantId, tenantId)
-      ))
-      .returning();
+      ),
+      columns: { driverId: true },
+    });
 
-    if (!updatedRide) {
-      throw new DispatchError('Ride not found', 'RIDE_NOT_FOUND');
+    const ride = await this.updateRideStatus(rideId, tenantId, 'searching', actor, undefined, reason);
+
+    if (previous?.driverId) {
+      await driverAvailabilityService.sync(previous.driverId, tenantId);
     }
 
-    logger.info({ rideId, status }, 'Ride status updated');
+    this.startDriverMatching(ride.id).catch((err) => {
+      logger.error({ err, rideId: ride.id }, 'Driver matching failed');
+    });
 
-    return updatedRide;
+    return ride;
   }
 
   /**
    * Complete a ride
+   *
+   * The final fare is priced before the status change so that the completed
+   * ride (and its event) always carries it. A ride booked with a quote is
+   * charged the locked price unless the tenant's rules void it (route
+   * deviation, extra stops); a verified taximeter receipt overrides both.
+   * Cash fares are settled in the driver's ledger in the same transaction.
+   *
+   * Distance and duration are measured on the ride's GPS trace and priced
+   * as driven; the driver app's figures are stored alongside and the ride
+   * is flagged when they disagree or the trace is too sparse to measure.
+   *
+   * @param stopsAdded - Stops the rider added en route
    */
   async completeRide(
     rideId: string,
     tenantId: string,
-    actualDistanceMeters: number,
-    actualDurationSeconds: number,
-    taximeterFare?: number
+    actor: RideActor,
+    reportedDistanceMeters: number,
+    reportedDurationSeconds: number,
+    stopsAdded: number = 0
   ): Promise<typeof rides.$inferSelect> {
-    const ride = await this.updateRideStatus(rideId, tenantId, 'completed', {
-      actualDistanceMeters,
-      actualDurationSeconds,
-      taximeterFare: taximeterFare?.toString(),
-      rideCompletedAt: new Date(),
+    const ride = await db.query.rides.findFirst({
+      where: and(
+        eq(rides.id, rideId),
+        eq(rides.tenantId, tenantId)
+      ),
+      with: {
+        tenant: true,
+      },
     });
 
-    // Calculate final fare
-    const tenant = await db.query.tenants.findFirst({
-      where: eq(tenants.id, tenantId),
-    });
+    if (!ride) {
+      throw new DispatchError('Ride not found', 'RIDE_NOT_FOUND');
+    }
 
-    if (tenant) {
-      const finalFare = await this.calculateFare(
-        tenant,
-        parseFloat(ride.pickupLatitude),
-        parseFloat(ride.pickupLongitude),
-        parseFloat(ride.dropoffLatitude),
-        parseFloat(ride.dropoffLongitude),
-        ride.vehicleTypeRequested || 'standard'
-      );
+    // The driver app's figures are only used when the trace is too sparse
+    const trip = ride.rideStartedAt
+      ? await locationHistoryService.measureRideTrip(rideId, tenantId, ride.rideStartedAt, new Date())
+      : null;
+    const actualDistanceMeters = trip?.distanceMeters ?? reportedDistanceMeters;
+    const actualDurationSeconds = trip?.durationSeconds ?? reportedDurationSeconds;
+    const tripMeasurementFlag = this.getTripMeasurementFlag(trip, reportedDistanceMeters, reportedDurationSeconds);
+
+    if (tripMeasurementFlag) {
+      logger.warn({
+        rideId,
+        tripMeasurementFlag,
+        reportedDistanceMeters,
+        reportedDurationSeconds,
+        measuredDistanceMeters: trip?.distanceMeters,
+        measuredDurationSeconds: trip?.durationSeconds,
+      }, 'Ride trip measurement flagged');
+    }
 
-      // Use taximeter fare if available (Finnish compliance)
-      const fareToCharge = taximeterFare || finalFare.total;
+    // Calculate final fare with the pricing version and surge the rider was quoted
+    const pricingVersion = ride.pricingConfigVersionId
+      ? await pricingService.getVersionById(ride.pricingConfigVersionId)
+      : await pricingService.getCurrentVersion(ride.tenant);
 
-      await db.update(rides)
-        .set({
+    const finalFare = await this.calculateFare(
+      ride.tenant,
+      parseFloat(ride.pickupLatitude),
+      parseFloat(ride.pickupLongitude),
+      parseFloat(ride.dropoffLatitude),
+      parseFloat(ride.dropoffLongitude),
+      ride.vehicleTypeRequested || 'standard',
+      {
+        surgeMultiplier: parseFloat(ride.surgeMutiplier || '1.00'),
+        pricingVersion,
+        pricedAt: ride.rideStartedAt ?? ride.requestedAt,
+        numberOfPassengers: ride.numberOfPassengers ?? 1,
+        trip: trip ?? undefined,
+      }
+    );
+    const { vatRate } = pricingVersion.config;
+
+    // Use the taximeter fare if available (Finnish compliance); only a
+    // verified signed receipt counts, never a fare entered in the app
+    const meterFare = await taximeterService.getVerifiedFare(rideId);
+
+    const lockedFareVoidReason = ride.lockedFare
+      ? this.getLockedFareVoidReason(ride, pricingVersion, actualDistanceMeters, stopsAdded)
+      : ride.lockedFareVoidReason;
+    const lockedFare = ride.lockedFare && !lockedFareVoidReason ? parseFloat(ride.lockedFare) : null;
+    const fareToCharge = meterFare ?? lockedFare ?? finalFare.total;
+
+    const completed = await db.transaction(async (tx) => {
+      const completedRide = await rideLifecycleService.transition({
+        rideId,
+        tenantId,
+        to: 'completed',
+        actor,
+        updates: {
+          actualDistanceMeters,
+          actualDurationSeconds,
+          reportedDistanceMeters,
+          reportedDurationSeconds,
+          tripMeasurementFlag,
+          taximeterFare: meterFare?.toString(),
           finalFare: fareToCharge.toString(),
           distanceFare: finalFare.distanceFare.toString(),
           timeFare: finalFare.timeFare.toString(),
-          vatAmount: (fareToCharge * config.finland.vatRatePassenger / (1 + config.finland.vatRatePassenger)).toString(),
-        })
-        .where(eq(rides.id, rideId));
+          pricingConfigVersionId: finalFare.pricingConfigVersionId,
+          tariffCode: finalFare.tariffCode,
+          passengerSurcharge: finalFare.passengerSurcharge.toString(),
+          airportFee: finalFare.airportFee.toString(),
+          lockedFareVoidReason,
+          vatAmount: (fareToCharge * vatRate / (1 + vatRate)).toString(),
+        },
+      }, tx);
+
+      // Card fares reach the ledger when their payment completes; cash is settled here
+      if (completedRide.paymentMethod === 'cash') {
+        const { commissionPercent } = driverPayoutService.getPayoutConfig(ride.tenant);
+        await driverLedgerService.recordCashRide(tx, completedRide, commissionPercent);
+      }
+
+      return completedRide;
+    });
+
+    await rideTrackingService.publishRideStatus(completed);
+
+    if (completed.driverId) {
+      await driverAvailabilityService.sync(completed.driverId, tenantId);
     }
 
-    return ride;
+    return completed;
+  }
+
+  /**
+   * Why a ride's trip figures need review: the driver app's distance or
+   * duration is off from the GPS measurement by more than the tolerance, or
+   * there was no usable trace to check them against
+   */
+  private getTripMeasurementFlag(
+    trip: TripMeasurement | null,
+    reportedDistanceMeters: number,
+    reportedDurationSeconds: number
+  ): string | null {
+    if (!trip) {
+      return 'insufficient_trace';
+    }
+
+    const tolerancePercent = config.locationHistory.reportedTripTolerancePercent;
+    const distanceTolerance = Math.max(trip.distanceMeters * tolerancePercent / 100, MIN_TRIP_DISTANCE_TOLERANCE_METERS);
+    const durationTolerance = Math.max(trip.durationSeconds * tolerancePercent / 100, MIN_TRIP_DURATION_TOLERANCE_SECONDS);
+
+    if (
+      Math.abs(reportedDistanceMeters - trip.distanceMeters) > distanceTolerance ||
+      Math.abs(reportedDurationSeconds - trip.durationSeconds) > durationTolerance
+    ) {
+      return 'reported_mismatch';
+    }
+
+    return null;
+  }
+
+  /**
+   * Why a ride's locked price no longer applies, by the rules of the
+   * pricing version it was quoted with
+   */
+  private getLockedFareVoidReason(
+    ride: typeof rides.$inferSelect,
+    pricingVersion: PricingVersion,
+    actualDistanceMeters: number,
+    stopsAdded: number
+  ): string | null {
+    const { upfrontPricing } = pricingVersion.config;
+
+    if (stopsAdded > 0 && upfrontPricing.voidOnExtraStop) {
+      return 'extra_stop';
+    }
+
+    const maxDistanceMeters = (ride.estimatedDistanceMeters ?? 0) * (1 + upfrontPricing.maxRouteDeviationPercent / 100);
+
+    if (ride.estimatedDistanceMeters && actualDistanceMeters > maxDistanceMeters) {
+      return 'route_deviation';
+    }
+
+    return null;
+  }
+
+  /**
+   * Edit a scheduled ride that hasn't been released to matching yet.
+   * The fare is re-quoted with the current pricing when the route, vehicle
+   * type, pickup time or party size changes; a locked quoted price is then
+   * void.
+   */
+  async updateScheduledRide(
+    rideId: string,
+    tenantId: string,
+    riderId: string,
+    changes: ScheduledRideUpdate
+  ): Promise<typeof rides.$inferSelect> {
+    const ride = await db.query.rides.findFirst({
+      where: and(
+        eq(rides.id, rideId),
+        eq(rides.tenantId, tenantId),
+        eq(rides.riderId, riderId),
+        eq(rides.isScheduled, true)
+      ),
+      with: {
+        tenant: true,
+      },
+    });
+
+    if (!ride) {
+      throw new DispatchError('Scheduled ride not found', 'RIDE_NOT_FOUND');
+    }
+
+    if (ride.status !== 'requested') {
+      throw new DispatchError('Ride has already been released for dispatch', 'RIDE_NOT_EDITABLE');
+    }
+
+    if (changes.scheduledPickupTime && changes.scheduledPickupTime.getTime() <= Date.now()) {
+      throw new DispatchError('Scheduled pickup time must be in the future', 'INVALID_SCHEDULED_TIME');
+    }
+
+    const { vehicleType, ...rideChanges } = changes;
+    const updates: Partial<typeof rides.$inferInsert> = {
+      scheduledPickupTime: rideChanges.scheduledPickupTime,
+      pickupAddress: rideChanges.pickupAddress,
+      pickupPlaceId: rideChanges.pickupPlaceId,
+      dropoffAddress: rideChanges.dropoffAddress,
+      dropoffPlaceId: rideChanges.dropoffPlaceId,
+      notes: rideChanges.notes,
+      requiresChildSeat: rideChanges.requiresChildSeat,
+      requiresWheelchairAccess: rideChanges.requiresWheelchairAccess,
+      numberOfPassengers: rideChanges.numberOfPassengers,
+    };
+
+    const fareChanged = [
+      changes.pickupLatitude,
+      changes.pickupLongitude,
+      changes.dropoffLatitude,
+      changes.dropoffLongitude,
+      vehicleType,
+      changes.scheduledPickupTime,
+      changes.numberOfPassengers,
+    ].some((value) => value !== undefined);
+
+    if (fareChanged) {
+      const pickupLatitude = changes.pickupLatitude ?? parseFloat(ride.pickupLatitude);
+      const pickupLongitude = changes.pickupLongitude ?? parseFloat(ride.pickupLongitude);
+      const dropoffLatitude = changes.dropoffLatitude ?? parseFloat(ride.dropoffLatitude);
+      const dropoffLongitude = changes.dropoffLongitude ?? parseFloat(ride.dropoffLongitude);
+      const requestedVehicleType = vehicleType ?? ride.vehicleTypeRequested ?? 'standard';
+
+      const fareEstimate = await this.calculateFare(
+        ride.tenant,
+        pickupLatitude,
+        pickupLongitude,
+        dropoffLatitude,
+        dropoffLongitude,
+        requestedVehicleType,
+        {
+          pricedAt: changes.scheduledPickupTime ?? ride.scheduledPickupTime ?? undefined,
+          numberOfPassengers: changes.numberOfPassengers ?? ride.numberOfPassengers ?? 1,
+        }
+      );
+
+      Object.assign(updates, {
+        pickupLatitude: pickupLatitude.toString(),
+        pickupLongitude: pickupLongitude.toString(),
+        dropoffLatitude: dropoffLatitude.toString(),
+        dropoffLongitude: dropoffLongitude.toString(),
+        vehicleTypeRequested: requestedVehicleType as typeof rides.$inferInsert['vehicleTypeRequested'],
+        estimatedDistanceMeters: fareEstimate.estimatedDistanceMeters,
+        estimatedDurationSeconds: fareEstimate.estimatedDurationSeconds,
+        estimatedFare: fareEstimate.total.toString(),
+        baseFare: fareEstimate.baseFare.toString(),
+        surgeMutiplier: fareEstimate.surgeMultiplier.toString(),
+        surgeZone: fareEstimate.surgeZone,
+        pricingConfigVersionId: fareEstimate.pricingConfigVersionId,
+        tariffCode: fareEstimate.tariffCode,
+        passengerSurcharge: fareEstimate.passengerSurcharge.toString(),
+        airportFee: fareEstimate.airportFee.toString(),
+      });
+
+      if (ride.lockedFare) {
+        Object.assign(updates, { lockedFare: null, lockedFareVoidReason: 'ride_edited' });
+      }
+    }
+
+    // Only update while still unreleased; the scheduler may have picked it up meanwhile
+    const [updatedRide] = await db.update(rides)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(rides.id, rideId),
+        eq(rides.status, 'requested')
+      ))
+      .returning();
+
+    if (!updatedRide) {
+      throw new DispatchError('Ride has already been released for dispatch', 'RIDE_NOT_EDITABLE');
+    }
+
+    logger.info({ rideId, tenantId, fareChanged }, 'Scheduled ride updated');
+
+    return updatedRide;
   }
 
   /**
    * Cancel a ride
+   *
+   * The status records who cancelled: dispatchers, admins and the system
+   * cancel as the operator.
    */
   async cancelRide(
     rideId: string,
     tenantId: string,
-    cancelledBy: 'rider' | 'driver' | 'system',
+    actor: RideActor,
     reason?: string
   ): Promise<typeof rides.$inferSelect> {
-    const status = cancelledBy === 'rider' ? 'cancelled_by_rider' : 'cancelled_by_driver';
-    
-    return this.updateRideStatus(rideId, tenantId, status, {
-      cancelledBy,
+    const status = CANCELLED_STATUSES[actor.type];
+
+    const ride = await this.updateRideStatus(rideId, tenantId, status, actor, {
+      cancelledBy: actor.type,
       cancellationReason: reason,
-    });
+    }, reason);
+
+    await rideOfferService.cancelPendingOffers(rideId);
+
+    if (ride.driverId) {
+      await driverAvailabilityService.sync(ride.driverId, tenantId);
+    }
+
+    return ride;
   }
 }
 
@@ -0,0 +1,158 @@
+/**
+ * Driver Availability Service
+ *
+ * Decides whether a driver may be offered rides and tells the
+ * location-service, whose index dispatch searches:
+ * - A driver is available while online, active and without an active ride
+ * - Availability is re-evaluated when the driver goes online or offline,
+ *   is assigned a ride, or their ride ends
+ * - While a ride is offered to a driver, the driver is reserved for that
+ *   ride in Redis so matching for other rides passes them over
+ *
+ * Location updates from the driver app never change availability.
+ */
+
+import { eq, and, inArray } from 'drizzle-orm';
+import { db, rides, users } from '../db/index.js';
+import { redis, redisKey } from '../db/redis.js';
+import { logger } from '../utils/logger.js';
+import { locationService } from './location.service.js';
+import type { RideStatus } from './ride-lifecycle.service.js';
+
+// Constants
+export const ACTIVE_RIDE_STATUSES: RideStatus[] = ['driver_assigned', 'driver_arriving', 'arrived', 'in_progress'];
+
+// Deletes a reservation only if it is still held for the same ride
+const RELEASE_RESERVATION_SCRIPT = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  end
+  return 0
+`;
+
+export class DriverAvailabilityService {
+  /**
+   * Take a driver online or offline
+   *
+   * @returns Whether the driver is now available for rides
+   */
+  async setOnline(driverId: string, tenantId: string, online: boolean): Promise<boolean> {
+    const driver = await db.query.users.findFirst({
+      where: and(
+        eq(users.id, driverId),
+        eq(users.tenantId, tenantId),
+        eq(users.userType, 'driver')
+      ),
+      columns: { status: true },
+    });
+
+    if (!driver) {
+      throw new DriverAvailabilityError('Driver not found', 'DRIVER_NOT_FOUND');
+    }
+
+    if (online && driver.status !== 'active') {
+      throw new DriverAvailabilityError('Driver account is not active', 'DRIVER_NOT_ACTIVE');
+    }
+
+    await db.update(users)
+      .set({ isOnline: online, updatedAt: new Date() })
+      .where(eq(users.id, driverId));
+
+    const available = await this.isAvailable(driverId, tenantId);
+
+    // Not swallowed: the driver app retries until the location-service knows
+    await locationService.setDriverAvailability(tenantId, driverId, available);
+
+    logger.info({ driverId, tenantId, online, available }, 'Driver online status changed');
+
+    return available;
+  }
+
+  /**
+   * Whether a driver may be offered rides right now
+   */
+  async isAvailable(driverId: string, tenantId: string): Promise<boolean> {
+    const driver = await db.query.users.findFirst({
+      where: and(
+        eq(users.id, driverId),
+        eq(users.tenantId, tenantId)
+      ),
+      columns: { isOnline: true, status: true },
+    });
+
+    if (!driver?.isOnline || driver.status !== 'active') {
+      return false;
+    }
+
+    const activeRide = await db.query.rides.findFirst({
+      where: and(
+        eq(rides.driverId, driverId),
+        eq(rides.tenantId, tenantId),
+        inArray(rides.status, ACTIVE_RIDE_STATUSES)
+      ),
+      columns: { id: true },
+    });
+
+    return !activeRide;
+  }
+
+  /**
+   * Re-evaluate a driver's availability and push it to the location-service
+   *
+   * Called once a change affecting it has committed. Failures are logged
+   * rather than thrown: the change itself has succeeded.
+   */
+  async sync(driverId: string, tenantId: string): Promise<void> {
+    try {
+      const available = await this.isAvailable(driverId, tenantId);
+      await locationService.setDriverAvailability(tenantId, driverId, available);
+    } catch (err) {
+      logger.error({ err, driverId, tenantId }, 'Failed to sync driver availability');
+    }
+  }
+
+  /**
+   * Reserve a driver for a ride while it is offered to them
+   *
+   * The reservation expires by itself, so a crashed matching run doesn't
+   * hold the driver for good.
+   *
+   * @returns False when the driver is reserved for another ride
+   */
+  async reserve(driverId: string, tenantId: string, rideId: string, ttlSeconds: number): Promise<boolean> {
+    const result = await redis.set(this.getReservationKey(tenantId, driverId), rideId, 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+
+  /**
+   * Release a driver's reservation for a ride (no-op if it has expired or
+   * is held for another ride)
+   */
+  async release(driverId: string, tenantId: string, rideId: string): Promise<void> {
+    try {
+      await redis.eval(RELEASE_RESERVATION_SCRIPT, 1, this.getReservationKey(tenantId, driverId), rideId);
+    } catch (err) {
+      logger.error({ err, driverId, rideId }, 'Failed to release driver reservation');
+    }
+  }
+
+  private getReservationKey(tenantId: string, driverId: string): string {
+    return redisKey('drivers', tenantId, 'reservation', driverId);
+  }
+}
+
+/**
+ * Custom error class for driver availability errors
+ */
+export class DriverAvailabilityError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'DriverAvailabilityError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const driverAvailabilityService = new DriverAvailabilityService();
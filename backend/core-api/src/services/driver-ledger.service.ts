@@ -0,0 +1,295 @@
+/**
+ * Driver Ledger Service
+ *
+ * Double-entry earnings ledger per driver. Every posting is a set of lines
+ * that sum to zero (debits positive, credits negative):
+ * - driver_payable: what the tenant owes the driver (credit balance)
+ * - platform_clearing: fares collected by the payment provider
+ * - driver_cash: cash fares held by the driver
+ * - commission: the tenant's commission income
+ * - adjustments: manual corrections and tips granted by admins
+ * - payouts: money transferred to the driver
+ *
+ * A driver's balance is the credit balance of their driver_payable account;
+ * the payout job transfers it in batches.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { db, driverLedgerEntries, payments, rides, users, DbTransaction } from '../db/index.js';
+import { logger } from '../utils/logger.js';
+
+// Types
+export type LedgerAccount = typeof driverLedgerEntries.$inferSelect['account'];
+export type LedgerEntryType = typeof driverLedgerEntries.$inferSelect['entryType'];
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  entryType: LedgerEntryType;
+  amount: number; // Debit positive, credit negative
+}
+
+export interface LedgerPostingContext {
+  tenantId: string;
+  driverId: string;
+  description?: string;
+  rideId?: string | null;
+  paymentId?: string | null;
+  payoutId?: string | null;
+  createdById?: string | null;
+}
+
+export interface ManualEntryInput {
+  tenantId: string;
+  driverId: string;
+  entryType: 'adjustment' | 'tip';
+  amount: number; // Positive credits the driver, negative debits
+  description: string;
+  createdById: string;
+}
+
+export interface StatementEntry {
+  id: string;
+  transactionId: string;
+  entryType: LedgerEntryType;
+  amount: number; // From the driver's point of view: earnings positive
+  description: string | null;
+  rideId: string | null;
+  paymentId: string | null;
+  payoutId: string | null;
+  createdAt: Date;
+}
+
+export class DriverLedgerService {
+  /**
+   * Write a balanced posting as part of the caller's transaction
+   *
+   * @returns the posting's transaction id
+   */
+  async post(tx: DbTransaction, context: LedgerPostingContext, lines: LedgerLine[]): Promise<string> {
+    const totalCents = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+
+    if (totalCents !== 0) {
+      throw new LedgerError('Ledger posting does not balance', 'UNBALANCED_POSTING');
+    }
+
+    const transactionId = uuidv4();
+
+    await tx.insert(driverLedgerEntries).values(
+      lines
+        .filter((line) => toCents(line.amount) !== 0)
+        .map((line) => ({
+          tenantId: context.tenantId,
+          driverId: context.driverId,
+          transactionId,
+          account: line.account,
+          entryType: line.entryType,
+          amount: (toCents(line.amount) / 100).toFixed(2),
+          description: context.description,
+          rideId: context.rideId,
+          paymentId: context.paymentId,
+          payoutId: context.payoutId,
+          createdById: context.createdById,
+        }))
+    );
+
+    return transactionId;
+  }
+
+  /**
+   * Credit a driver with a fare collected through the payment provider,
+   * less the commission snapshotted on the payment
+   */
+  async recordPayment(tx: DbTransaction, payment: typeof payments.$inferSelect): Promise<void> {
+    if (!payment.driverId) return;
+
+    const fare = parseFloat(payment.amount);
+    const commission = parseFloat(payment.platformFee || '0');
+
+    await this.post(tx, {
+      tenantId: payment.tenantId,
+      driverId: payment.driverId,
+      description: `Ride ${payment.rideId.substring(0, 8)}`,
+      rideId: payment.rideId,
+      paymentId: payment.id,
+    }, [
+      { account: 'platform_clearing', entryType: 'ride_revenue', amount: fare },
+      { account: 'driver_payable', entryType: 'ride_revenue', amount: -fare },
+      { account: 'driver_payable', entryType: 'commission', amount: commission },
+      { account: 'commission', entryType: 'commission', amount: -commission },
+    ]);
+  }
+
+  /**
+   * Record a cash fare: the driver earns the fare less commission but
+   * already holds the cash, so their balance drops by the commission
+   */
+  async recordCashRide(
+    tx: DbTransaction,
+    ride: typeof rides.$inferSelect,
+    commissionPercent: number
+  ): Promise<void> {
+    if (!ride.driverId || !ride.finalFare) return;
+
+    const fare = parseFloat(ride.finalFare);
+    const commission = Math.round(fare * commissionPercent) / 100;
+
+    await this.post(tx, {
+      tenantId: ride.tenantId,
+      driverId: ride.driverId,
+      description: `Cash ride ${ride.id.substring(0, 8)}`,
+      rideId: ride.id,
+    }, [
+      { account: 'driver_cash', entryType: 'ride_revenue', amount: fare },
+      { account: 'driver_payable', entryType: 'ride_revenue', amount: -fare },
+      { account: 'driver_payable', entryType: 'commission', amount: commission },
+      { account: 'commission', entryType: 'commission', amount: -commission },
+      { account: 'driver_payable', entryType: 'cash_collected', amount: fare },
+      { account: 'driver_cash', entryType: 'cash_collected', amount: -fare },
+    ]);
+  }
+
+  /**
+   * Reverse the driver's share of a refunded amount, returning the
+   * proportional commission
+   *
+   * @param payment - The payment as it was before the refund was recorded
+   */
+  async recordRefund(
+    tx: DbTransaction,
+    payment: typeof payments.$inferSelect,
+    refundAmount: number
+  ): Promise<void> {
+    if (!payment.driverId || refundAmount <= 0) return;
+
+    // Only payments that completed were credited to the driver
+    if (payment.status !== 'completed' && payment.status !== 'refunded') return;
+
+    const fare = parseFloat(payment.amount);
+    const commission = fare > 0
+      ? Math.round(refundAmount * parseFloat(payment.platformFee || '0') / fare * 100) / 100
+      : 0;
+
+    await this.post(tx, {
+      tenantId: payment.tenantId,
+      driverId: payment.driverId,
+      description: `Refund for ride ${payment.rideId.substring(0, 8)}`,
+      rideId: payment.rideId,
+      paymentId: payment.id,
+    }, [
+      { account: 'driver_payable', entryType: 'refund', amount: refundAmount },
+      { account: 'platform_clearing', entryType: 'refund', amount: -refundAmount },
+      { account: 'commission', entryType: 'refund', amount: commission },
+      { account: 'driver_payable', entryType: 'refund', amount: -commission },
+    ]);
+  }
+
+  /**
+   * Record an admin adjustment or tip for a driver
+   */
+  async recordManualEntry(input: ManualEntryInput): Promise<string> {
+    const driver = await db.query.users.findFirst({
+      where: and(
+        eq(users.id, input.driverId),
+        eq(users.tenantId, input.tenantId),
+        eq(users.userType, 'driver')
+      ),
+    });
+
+    if (!driver) {
+      throw new LedgerError('Driver not found', 'DRIVER_NOT_FOUND');
+    }
+
+    const transactionId = await db.transaction((tx) =>
+      this.post(tx, {
+        tenantId: input.tenantId,
+        driverId: input.driverId,
+        description: input.description,
+        createdById: input.createdById,
+      }, [
+        { account: 'adjustments', entryType: input.entryType, amount: input.amount },
+        { account: 'driver_payable', entryType: input.entryType, amount: -input.amount },
+      ])
+    );
+
+    logger.info({
+      tenantId: input.tenantId,
+      driverId: input.driverId,
+      entryType: input.entryType,
+      amount: input.amount,
+      createdById: input.createdById,
+    }, 'Manual ledger entry recorded');
+
+    return transactionId;
+  }
+
+  /**
+   * Get a driver's current balance (what the tenant owes them)
+   */
+  async getBalance(driverId: string, tenantId: string, tx?: DbTransaction): Promise<number> {
+    const [row] = await (tx || db)
+      .select({ total: sql<string | null>`sum(${driverLedgerEntries.amount})` })
+      .from(driverLedgerEntries)
+      .where(and(
+        eq(driverLedgerEntries.driverId, driverId),
+        eq(driverLedgerEntries.tenantId, tenantId),
+        eq(driverLedgerEntries.account, 'driver_payable')
+      ));
+
+    // driver_payable carries a credit balance
+    return -toCents(parseFloat(row?.total || '0')) / 100;
+  }
+
+  /**
+   * Get a driver's statement: their driver_payable lines, newest first
+   */
+  async getStatement(
+    driverId: string,
+    tenantId: string,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<StatementEntry[]> {
+    const entries = await db.query.driverLedgerEntries.findMany({
+      where: and(
+        eq(driverLedgerEntries.driverId, driverId),
+        eq(driverLedgerEntries.tenantId, tenantId),
+        eq(driverLedgerEntries.account, 'driver_payable')
+      ),
+      orderBy: desc(driverLedgerEntries.createdAt),
+      limit,
+      offset,
+    });
+
+    return entries.map((entry) => ({
+      id: entry.id,
+      transactionId: entry.transactionId,
+      entryType: entry.entryType,
+      amount: -parseFloat(entry.amount),
+      description: entry.description,
+      rideId: entry.rideId,
+      paymentId: entry.paymentId,
+      payoutId: entry.payoutId,
+      createdAt: entry.createdAt,
+    }));
+  }
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Custom error class for ledger errors
+ */
+export class LedgerError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'LedgerError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const driverLedgerService = new DriverLedgerService();
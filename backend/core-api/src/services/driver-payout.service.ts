@@ -0,0 +1,352 @@
+/**
+ * Driver Payout Service
+ *
+ * Batches drivers' ledger balances into provider transfers:
+ * - Tenants pay out daily or weekly (payoutConfig); once a period starts,
+ *   every driver whose balance reaches the tenant's minimum gets one payout
+ *   for that period
+ * - The payout row and its ledger debit are written together, then the
+ *   transfer is sent with the payout id as idempotency key
+ * - A transfer the provider declines marks the payout failed and reverses
+ *   the debit, so the balance is picked up again next period
+ * - A transfer whose outcome is unknown (timeout, provider 5xx) leaves the
+ *   payout pending; it is resent later under the same idempotency key
+ *
+ * Periods start at 00:00 UTC. The unique (driver, period) index makes each
+ * payout happen once even with several core-api instances running the job.
+ */
+
+import { eq, and, lt, desc, sql } from 'drizzle-orm';
+import { db, driverPayouts, driverLedgerEntries, tenants, users } from '../db/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { driverLedgerService } from './driver-ledger.service.js';
+import {
+  getPaymentProvider,
+  getTenantPaymentProvider,
+  getPayeeAccountId,
+  PaymentProviderError,
+} from './payment-providers/index.js';
+
+// Types
+export interface PayoutConfig {
+  commissionPercent: number;
+  payoutSchedule: 'daily' | 'weekly';
+  payoutWeekday: number; // 0 = Sunday
+  minimumPayoutAmount: number;
+}
+
+// Constants
+const STUCK_PAYOUT_MINUTES = 10; // Pending this long means the send died or its outcome was unknown
+const BATCH_SIZE = 100;
+
+export class DriverPayoutService {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  /**
+   * Resolve the tenant's payout settings, falling back to platform defaults
+   */
+  getPayoutConfig(tenant: typeof tenants.$inferSelect): PayoutConfig {
+    const tenantConfig = (tenant.payoutConfig || {}) as Partial<PayoutConfig>;
+
+    return {
+      commissionPercent: tenantConfig.commissionPercent ?? config.stripe.platformFeePercent,
+      payoutSchedule: tenantConfig.payoutSchedule || config.payouts.defaultSchedule,
+      payoutWeekday: tenantConfig.payoutWeekday ?? config.payouts.defaultWeekday,
+      minimumPayoutAmount: tenantConfig.minimumPayoutAmount ?? config.payouts.defaultMinimumAmount,
+    };
+  }
+
+  /**
+   * Start the payout job
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, config.payouts.schedulerIntervalSeconds * 1000);
+
+    logger.info({ intervalSeconds: config.payouts.schedulerIntervalSeconds }, 'Driver payout job started');
+  }
+
+  /**
+   * Stop the payout job
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one payout pass
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous pass is still running
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      await this.retryStuckPayouts();
+
+      const activeTenants = await db.query.tenants.findMany({
+        where: eq(tenants.isActive, true),
+      });
+
+      for (const tenant of activeTenants) {
+        try {
+          await this.runTenantPayouts(tenant);
+        } catch (err) {
+          // e.g. the tenant's payment provider is misconfigured
+          logger.error({ err, tenantId: tenant.id }, 'Tenant payout run failed');
+        }
+      }
+    } catch (err) {
+      logger.error({ err }, 'Driver payout pass failed');
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Pay out every driver of a tenant whose balance is due this period
+   */
+  async runTenantPayouts(tenant: typeof tenants.$inferSelect, now: Date = new Date()): Promise<number> {
+    const payoutConfig = this.getPayoutConfig(tenant);
+    const periodStart = this.getPeriodStart(payoutConfig, now);
+    const balance = sql<string>`-sum(${driverLedgerEntries.amount})`;
+
+    const dueDrivers = await db
+      .select({ driverId: driverLedgerEntries.driverId })
+      .from(driverLedgerEntries)
+      .where(and(
+        eq(driverLedgerEntries.tenantId, tenant.id),
+        eq(driverLedgerEntries.account, 'driver_payable'),
+        sql`not exists (
+          select 1 from ${driverPayouts}
+          where ${driverPayouts.driverId} = ${driverLedgerEntries.driverId}
+            and ${driverPayouts.periodStart} = ${periodStart.toISOString()}
+        )`
+      ))
+      .groupBy(driverLedgerEntries.driverId)
+      .having(sql`${balance} >= ${payoutConfig.minimumPayoutAmount}`)
+      .limit(BATCH_SIZE);
+
+    let paid = 0;
+
+    for (const { driverId } of dueDrivers) {
+      const payout = await this.createPayout(tenant, driverId, periodStart, payoutConfig.minimumPayoutAmount);
+
+      if (payout && await this.sendPayout(payout)) {
+        paid++;
+      }
+    }
+
+    return paid;
+  }
+
+  /**
+   * Get a driver's payout history, newest first
+   */
+  async getPayouts(
+    driverId: string,
+    tenantId: string,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<(typeof driverPayouts.$inferSelect)[]> {
+    return db.query.driverPayouts.findMany({
+      where: and(
+        eq(driverPayouts.driverId, driverId),
+        eq(driverPayouts.tenantId, tenantId)
+      ),
+      orderBy: desc(driverPayouts.createdAt),
+      limit,
+      offset,
+    });
+  }
+
+  /**
+   * Start of the payout period containing `now` (00:00 UTC on the payout day)
+   */
+  getPeriodStart(payoutConfig: PayoutConfig, now: Date): Date {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    if (payoutConfig.payoutSchedule === 'weekly') {
+      const daysSincePayoutDay = (start.getUTCDay() - payoutConfig.payoutWeekday + 7) % 7;
+      start.setUTCDate(start.getUTCDate() - daysSincePayoutDay);
+    }
+
+    return start;
+  }
+
+  /**
+   * Write the payout row and debit the driver's balance in one transaction
+   *
+   * @returns null if the balance is below the minimum or another instance
+   * already created this period's payout
+   */
+  private async createPayout(
+    tenant: typeof tenants.$inferSelect,
+    driverId: string,
+    periodStart: Date,
+    minimumAmount: number
+  ): Promise<typeof driverPayouts.$inferSelect | null> {
+    return db.transaction(async (tx) => {
+      const amount = await driverLedgerService.getBalance(driverId, tenant.id, tx);
+
+      if (amount < minimumAmount) {
+        return null;
+      }
+
+      const provider = getTenantPaymentProvider(tenant);
+
+      const [payout] = await tx.insert(driverPayouts)
+        .values({
+          tenantId: tenant.id,
+          driverId,
+          amount: amount.toFixed(2),
+          currency: tenant.defaultCurrency || 'EUR',
+          provider: provider.name,
+          periodStart,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!payout) {
+        return null;
+      }
+
+      await driverLedgerService.post(tx, {
+        tenantId: tenant.id,
+        driverId,
+        description: `Payout for period starting ${periodStart.toISOString().slice(0, 10)}`,
+        payoutId: payout.id,
+      }, [
+        { account: 'driver_payable', entryType: 'payout', amount },
+        { account: 'payouts', entryType: 'payout', amount: -amount },
+      ]);
+
+      return payout;
+    });
+  }
+
+  /**
+   * Send a pending payout's transfer and record the outcome
+   */
+  private async sendPayout(payout: typeof driverPayouts.$inferSelect): Promise<boolean> {
+    try {
+      const provider = getPaymentProvider(payout.provider);
+
+      const driver = await db.query.users.findFirst({
+        where: eq(users.id, payout.driverId),
+      });
+
+      const destinationAccountId = driver && getPayeeAccountId(driver, provider.name);
+
+      if (!destinationAccountId) {
+        await this.failPayout(payout, 'Driver has no payee account');
+        return false;
+      }
+
+      const transfer = await provider.transfer({
+        amount: parseFloat(payout.amount),
+        currency: payout.currency,
+        destinationAccountId,
+        metadata: {
+          payoutId: payout.id,
+          driverId: payout.driverId,
+          tenantId: payout.tenantId,
+        },
+        idempotencyKey: payout.id,
+      });
+
+      await db.update(driverPayouts)
+        .set({
+          status: 'paid',
+          providerTransferId: transfer.id,
+          paidAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(driverPayouts.id, payout.id),
+          eq(driverPayouts.status, 'pending')
+        ));
+
+      logger.info({
+        payoutId: payout.id,
+        driverId: payout.driverId,
+        amount: payout.amount,
+        transferId: transfer.id,
+      }, 'Driver payout sent');
+
+      return true;
+    } catch (err) {
+      if (err instanceof PaymentProviderError) {
+        logger.error({ err, payoutId: payout.id }, 'Driver payout transfer declined');
+        await this.failPayout(payout, err.message);
+        return false;
+      }
+
+      // The transfer may have been made: reversing the debit could pay the
+      // driver twice, so the payout stays pending until a resend settles it
+      logger.warn({ err, payoutId: payout.id }, 'Driver payout transfer outcome unknown, will retry');
+      return false;
+    }
+  }
+
+  /**
+   * Mark a payout failed and return its amount to the driver's balance
+   */
+  private async failPayout(payout: typeof driverPayouts.$inferSelect, reason: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [failed] = await tx.update(driverPayouts)
+        .set({ status: 'failed', failureReason: reason, updatedAt: new Date() })
+        .where(and(
+          eq(driverPayouts.id, payout.id),
+          eq(driverPayouts.status, 'pending')
+        ))
+        .returning();
+
+      if (!failed) return;
+
+      const amount = parseFloat(payout.amount);
+
+      await driverLedgerService.post(tx, {
+        tenantId: payout.tenantId,
+        driverId: payout.driverId,
+        description: `Payout failed: ${reason}`,
+        payoutId: payout.id,
+      }, [
+        { account: 'payouts', entryType: 'payout_reversal', amount },
+        { account: 'driver_payable', entryType: 'payout_reversal', amount: -amount },
+      ]);
+    });
+
+    logger.warn({ payoutId: payout.id, driverId: payout.driverId, reason }, 'Driver payout failed, balance restored');
+  }
+
+  /**
+   * Resend payouts left pending by an instance that died mid-send or by a
+   * transfer with an unknown outcome; the idempotency key keeps an
+   * already-made transfer from repeating
+   */
+  private async retryStuckPayouts(): Promise<void> {
+    const stuck = await db.query.driverPayouts.findMany({
+      where: and(
+        eq(driverPayouts.status, 'pending'),
+        lt(driverPayouts.createdAt, sql`now() - make_interval(mins => ${STUCK_PAYOUT_MINUTES})`)
+      ),
+      limit: BATCH_SIZE,
+    });
+
+    for (const payout of stuck) {
+      await this.sendPayout(payout);
+    }
+  }
+}
+
+// Export singleton instance
+export const driverPayoutService = new DriverPayoutService();
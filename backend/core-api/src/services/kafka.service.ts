@@ -6,14 +6,17 @@
  * Topics:
  * - ride.requested - New ride request created
  * - ride.assigned - Driver assigned to ride
- * - ride.status - Ride status updates
+ * - ride.searching, ride.driver_arriving, ride.driver_arrived, ride.started,
+ *   ride.no_drivers_available - Ride status updates
  * - ride.completed - Ride completed
+ * - ride.cancelled - Ride cancelled by rider, driver or operator
  * - driver.location - Driver location updates
  * - payment.processed - Payment completed
  * - notification.push - Push notification triggers
  */
 
 import { Kafka, Producer, Consumer, EachMessagePayload, Admin } from 'kafkajs';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 
@@ -22,12 +25,14 @@ export enum EventType {
   // Ride events
   RIDE_REQUESTED = 'ride.requested',
   RIDE_SEARCHING = 'ride.searching',
+  RIDE_NO_DRIVERS_AVAILABLE = 'ride.no_drivers_available',
   RIDE_ASSIGNED = 'ride.assigned',
   RIDE_DRIVER_ARRIVING = 'ride.driver_arriving',
   RIDE_DRIVER_ARRIVED = 'ride.driver_arrived',
   RIDE_STARTED = 'ride.started',
   RIDE_COMPLETED = 'ride.completed',
   RIDE_CANCELLED = 'ride.cancelled',
+  RIDE_ESCALATED = 'ride.escalated',
   
   // Driver events
   DRIVER_ONLINE = 'driver.online',
@@ -48,7 +53,7 @@ export enum EventType {
 
 // Base event interface
 export interface BaseEvent {
-  id: string;
+  eventId: string; // Unique per event; redeliveries keep the same id so consumers can deduplicate
   type: EventType;
   tenantId: string;
   timestamp: string;
@@ -84,17 +89,38 @@ export interface RideAssignedEvent extends BaseEvent {
 }
 
 export interface RideStatusEvent extends BaseEvent {
-  type: EventType.RIDE_STARTED | EventType.RIDE_COMPLETED | EventType.RIDE_CANCELLED;
+  type:
+    | EventType.RIDE_SEARCHING
+    | EventType.RIDE_NO_DRIVERS_AVAILABLE
+    | EventType.RIDE_DRIVER_ARRIVING
+    | EventType.RIDE_DRIVER_ARRIVED
+    | EventType.RIDE_STARTED
+    | EventType.RIDE_COMPLETED
+    | EventType.RIDE_CANCELLED;
   payload: {
     rideId: string;
     riderId: string;
-    driverId: string;
+    driverId: string | null;
     status: string;
+    previousStatus?: string;
     finalFare?: number;
+    cancelledBy?: string;
     cancellationReason?: string;
   };
 }
 
+// A scheduled ride no driver was found for in time, for dispatchers
+export interface RideEscalatedEvent extends BaseEvent {
+  type: EventType.RIDE_ESCALATED;
+  payload: {
+    rideId: string;
+    riderId: string;
+    status: string;
+    scheduledPickupTime: string | null;
+    pickupAddress: string;
+  };
+}
+
 // Driver location event
 export interface DriverLocationEvent extends BaseEvent {
   type: EventType.DRIVER_LOCATION;
@@ -110,12 +136,12 @@ export interface DriverLocationEvent extends BaseEvent {
 
 // Payment event
 export interface PaymentEvent extends BaseEvent {
-  type: EventType.PAYMENT_COMPLETED | EventType.PAYMENT_FAILED;
+  type: EventType.PAYMENT_COMPLETED | EventType.PAYMENT_FAILED | EventType.PAYMENT_REFUNDED;
   payload: {
     paymentId: string;
     rideId: string;
     riderId: string;
-    driverId: string;
+    driverId: string | null;
     amount: number;
     currency: string;
     status: string;
@@ -133,14 +159,28 @@ export interface NotificationEvent extends BaseEvent {
   };
 }
 
-type MobilityEvent = 
+export type MobilityEvent = 
   | RideRequestedEvent 
   | RideAssignedEvent 
   | RideStatusEvent 
+  | RideEscalatedEvent
   | DriverLocationEvent 
   | PaymentEvent 
   | NotificationEvent;
 
+// Ride status -> event type for status updates (assignment has its own event)
+const RIDE_STATUS_EVENT_TYPES: Record<string, RideStatusEvent['type']> = {
+  searching: EventType.RIDE_SEARCHING,
+  no_drivers_available: EventType.RIDE_NO_DRIVERS_AVAILABLE,
+  driver_arriving: EventType.RIDE_DRIVER_ARRIVING,
+  arrived: EventType.RIDE_DRIVER_ARRIVED,
+  in_progress: EventType.RIDE_STARTED,
+  completed: EventType.RIDE_COMPLETED,
+  cancelled_by_rider: EventType.RIDE_CANCELLED,
+  cancelled_by_driver: EventType.RIDE_CANCELLED,
+  cancelled_by_operator: EventType.RIDE_CANCELLED,
+};
+
 // Event handler type
 type EventHandler = (event: MobilityEvent) => Promise<void>;
 
@@ -234,6 +274,13 @@ export class KafkaService {
     }
   }
 
+  /**
+   * Whether the producer is connected and can publish
+   */
+  isReady(): boolean {
+    return this.isConnected && this.producer !== null;
+  }
+
   /**
    * Disconnect from Kafka
    */
@@ -364,7 +411,7 @@ export class KafkaService {
   /**
    * Get partition key for event
    */
-  private getKeyForEvent(event: MobilityEvent): string {
+  getKeyForEvent(event: MobilityEvent): string {
     // Use rideId or driverId as partition key for ordering
     const payload = event.payload as Record<string, unknown>;
     return (payload.rideId || payload.driverId || event.tenantId) as string;
@@ -387,7 +434,7 @@ export class KafkaService {
     estimatedFare: number
   ): Promise<void> {
     const event: RideRequestedEvent = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      eventId: uuidv4(),
       type: EventType.RIDE_REQUESTED,
       tenantId,
       timestamp: new Date().toISOString(),
@@ -421,7 +468,7 @@ export class KafkaService {
     eta: number
   ): Promise<void> {
     const event: RideAssignedEvent = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      eventId: uuidv4(),
       type: EventType.RIDE_ASSIGNED,
       tenantId,
       timestamp: new Date().toISOString(),
@@ -449,7 +496,7 @@ export class KafkaService {
     finalFare: number
   ): Promise<void> {
     const event: RideStatusEvent = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      eventId: uuidv4(),
       type: EventType.RIDE_COMPLETED,
       tenantId,
       timestamp: new Date().toISOString(),
@@ -477,7 +524,7 @@ export class KafkaService {
     data?: Record<string, string>
   ): Promise<void> {
     const event: NotificationEvent = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      eventId: uuidv4(),
       type: EventType.NOTIFICATION_PUSH,
       tenantId,
       timestamp: new Date().toISOString(),
@@ -493,5 +540,164 @@ export class KafkaService {
   }
 }
 
+// =========================================================================
+// Event builders (for writing to the transactional outbox)
+// =========================================================================
+
+type RideRecord = {
+  id: string;
+  tenantId: string;
+  riderId: string;
+  driverId: string | null;
+  vehicleId: string | null;
+  status: string | null;
+  pickupLatitude: string;
+  pickupLongitude: string;
+  pickupAddress: string;
+  dropoffLatitude: string;
+  dropoffLongitude: string;
+  dropoffAddress: string;
+  vehicleTypeRequested: string | null;
+  estimatedFare: string | null;
+  finalFare: string | null;
+  cancelledBy: string | null;
+  cancellationReason: string | null;
+  scheduledPickupTime: Date | null;
+};
+
+/**
+ * Build the ride requested event for a newly created ride
+ */
+export function buildRideRequestedEvent(ride: RideRecord): RideRequestedEvent {
+  return {
+    eventId: uuidv4(),
+    type: EventType.RIDE_REQUESTED,
+    tenantId: ride.tenantId,
+    timestamp: new Date().toISOString(),
+    correlationId: ride.id,
+    payload: {
+      rideId: ride.id,
+      riderId: ride.riderId,
+      pickupLatitude: parseFloat(ride.pickupLatitude),
+      pickupLongitude: parseFloat(ride.pickupLongitude),
+      pickupAddress: ride.pickupAddress,
+      dropoffLatitude: parseFloat(ride.dropoffLatitude),
+      dropoffLongitude: parseFloat(ride.dropoffLongitude),
+      dropoffAddress: ride.dropoffAddress,
+      vehicleType: ride.vehicleTypeRequested || 'standard',
+      estimatedFare: parseFloat(ride.estimatedFare || '0'),
+    },
+  };
+}
+
+/**
+ * Build the event for a ride's new status
+ *
+ * @param eta - Driver ETA in seconds, used for the assigned event
+ */
+export function buildRideStatusEvent(
+  ride: RideRecord,
+  previousStatus?: string,
+  eta = 0
+): RideAssignedEvent | RideStatusEvent | null {
+  const base = {
+    eventId: uuidv4(),
+    tenantId: ride.tenantId,
+    timestamp: new Date().toISOString(),
+    correlationId: ride.id,
+  };
+
+  if (ride.status === 'driver_assigned' && ride.driverId && ride.vehicleId) {
+    return {
+      ...base,
+      type: EventType.RIDE_ASSIGNED,
+      payload: {
+        rideId: ride.id,
+        riderId: ride.riderId,
+        driverId: ride.driverId,
+        vehicleId: ride.vehicleId,
+        eta,
+      },
+    };
+  }
+
+  const type = ride.status ? RIDE_STATUS_EVENT_TYPES[ride.status] : undefined;
+
+  if (!type) {
+    return null;
+  }
+
+  const isCancellation = type === EventType.RIDE_CANCELLED;
+
+  return {
+    ...base,
+    type,
+    payload: {
+      rideId: ride.id,
+      riderId: ride.riderId,
+      driverId: ride.driverId,
+      status: ride.status!,
+      previousStatus,
+      finalFare: ride.finalFare ? parseFloat(ride.finalFare) : undefined,
+      cancelledBy: isCancellation ? ride.cancelledBy || undefined : undefined,
+      cancellationReason: isCancellation ? ride.cancellationReason || undefined : undefined,
+    },
+  };
+}
+
+/**
+ * Build the event for a scheduled ride escalated to dispatchers
+ */
+export function buildRideEscalatedEvent(ride: RideRecord): RideEscalatedEvent {
+  return {
+    eventId: uuidv4(),
+    type: EventType.RIDE_ESCALATED,
+    tenantId: ride.tenantId,
+    timestamp: new Date().toISOString(),
+    correlationId: ride.id,
+    payload: {
+      rideId: ride.id,
+      riderId: ride.riderId,
+      status: ride.status!,
+      scheduledPickupTime: ride.scheduledPickupTime?.toISOString() ?? null,
+      pickupAddress: ride.pickupAddress,
+    },
+  };
+}
+
+/**
+ * Build a payment event
+ */
+export function buildPaymentEvent(
+  type: PaymentEvent['type'],
+  payment: {
+    id: string;
+    tenantId: string;
+    rideId: string;
+    riderId: string;
+    driverId: string | null;
+    amount: string;
+    currency: string | null;
+    status: string | null;
+  }
+): PaymentEvent {
+  return {
+    eventId: uuidv4(),
+    type,
+    tenantId: payment.tenantId,
+    timestamp: new Date().toISOString(),
+    correlationId: payment.rideId,
+    payload: {
+      paymentId: payment.id,
+      rideId: payment.rideId,
+      riderId: payment.riderId,
+      driverId: payment.driverId,
+      amount: parseFloat(payment.amount),
+      currency: payment.currency || 'EUR',
+      status: payment.status || 'pending',
+    },
+  };
+}
+
 // Export singleton instance
 export const kafkaService = new KafkaService();
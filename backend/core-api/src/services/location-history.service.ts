@@ -0,0 +1,449 @@
+/**
+ * Location History Service
+ *
+ * Persists driver GPS history and serves ride traces:
+ * - The location-service appends every driver location update to the
+ *   location-history Redis stream; a batched writer reads it through a
+ *   consumer group and bulk-inserts the points into driver_location_points,
+ *   tagged with the ride the driver was on at the time
+ * - Points are kept for the tenant's retention period; whole monthly
+ *   partitions are dropped once every tenant's retention has passed them
+ * - A ride's trace is returned as GeoJSON or an encoded polyline for
+ *   disputes, receipts and replay
+ *
+ * Delivery is at-least-once: entries are acknowledged after their insert
+ * commits, and entries left unacknowledged by a crashed instance are claimed
+ * by another after STALE_ENTRY_MS. Several core-api instances can run the
+ * writer side by side.
+ */
+
+import { hostname } from 'os';
+import { eq, and, lt, lte, gte, or, inArray, asc } from 'drizzle-orm';
+import { db, rides, tenants, driverLocationPoints } from '../db/index.js';
+import {
+  ensureLocationHistoryPartitions,
+  dropLocationHistoryPartitionsBefore,
+  getLocationHistoryWindow,
+} from '../db/location-history.js';
+import { redis, redisKey } from '../db/redis.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { encodePolyline } from '../utils/polyline.js';
+import { measureTraceDistance } from '../utils/trace-distance.js';
+import type { RideStatus } from './ride-lifecycle.service.js';
+
+// Types
+export interface TracePoint {
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  speed: number | null; // m/s
+  accuracy: number | null; // meters
+  recordedAt: Date;
+}
+
+export interface GeoJsonTrace {
+  type: 'Feature';
+  geometry: {
+    type: 'LineString';
+    coordinates: Array<[number, number]>; // [longitude, latitude]
+  };
+  properties: {
+    rideId: string;
+    pointCount: number;
+    coordTimes: string[]; // ISO timestamp of each coordinate
+  };
+}
+
+export interface PolylineTrace {
+  rideId: string;
+  polyline: string; // Google encoded polyline, precision 5
+  pointCount: number;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+export interface TripMeasurement {
+  distanceMeters: number;
+  durationSeconds: number;
+  interpolatedMeters: number; // Part of distanceMeters estimated across GPS gaps
+}
+
+type StreamEntry = [id: string, fields: string[]];
+type PointRow = typeof driverLocationPoints.$inferInsert;
+
+// Constants
+const STREAM = redisKey('location-history');
+const CONSUMER_GROUP = 'core-api-location-history';
+const STALE_ENTRY_MS = 60 * 1000; // Unacknowledged this long: the reading instance is gone
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const ACTIVE_STATUSES: RideStatus[] = ['driver_assigned', 'driver_arriving', 'arrived', 'in_progress'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class LocationHistoryService {
+  private timer: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+  private hasConsumerGroup = false;
+  private claimCursor = '0-0';
+  private lastMaintenanceAt = 0;
+  private readonly consumer = `${hostname()}-${process.pid}`;
+
+  /**
+   * Start the batched writer
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, config.locationHistory.flushIntervalMs);
+
+    logger.info({ intervalMs: config.locationHistory.flushIntervalMs }, 'Location history writer started');
+  }
+
+  /**
+   * Stop the batched writer
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Persist one batch of stream entries
+   *
+   * @returns Number of points stored
+   */
+  async flush(): Promise<number> {
+    if (this.isFlushing) return 0;
+    this.isFlushing = true;
+
+    try {
+      await this.maintain();
+
+      const entries = await this.readBatch();
+      if (entries.length === 0) return 0;
+
+      const rows = await this.toRows(entries);
+
+      if (rows.length > 0) {
+        await db.insert(driverLocationPoints).values(rows);
+      }
+
+      const ids = entries.map(([id]) => id);
+      await redis.multi()
+        .xack(STREAM, CONSUMER_GROUP, ...ids)
+        .xdel(STREAM, ...ids)
+        .exec();
+
+      logger.debug({ stored: rows.length, read: entries.length }, 'Location history flushed');
+
+      return rows.length;
+    } catch (err) {
+      logger.error({ err }, 'Location history flush failed');
+      return 0;
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Get the GPS points recorded during a ride, oldest first
+   */
+  async getRideTrace(rideId: string, tenantId: string): Promise<TracePoint[]> {
+    const rows = await db.select()
+      .from(driverLocationPoints)
+      .where(and(
+        eq(driverLocationPoints.rideId, rideId),
+        eq(driverLocationPoints.tenantId, tenantId)
+      ))
+      .orderBy(asc(driverLocationPoints.recordedAt));
+
+    const points: TracePoint[] = [];
+
+    for (const row of rows) {
+      // A stream entry redelivered after a crash is stored twice
+      const previous = points[points.length - 1];
+      if (previous && previous.recordedAt.getTime() === row.recordedAt.getTime()) continue;
+
+      points.push({
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        heading: row.heading !== null ? Number(row.heading) : null,
+        speed: row.speed !== null ? Number(row.speed) : null,
+        accuracy: row.accuracy !== null ? Number(row.accuracy) : null,
+        recordedAt: row.recordedAt,
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Measure the trip from pickup to completion on the ride's GPS trace
+   *
+   * The trace supplies the distance; the duration is the time between the
+   * ride's start and completion, which bound it. Returns null when the trace
+   * spans too little of the trip to be trusted, e.g. because the driver app
+   * stopped reporting.
+   */
+  async measureRideTrip(
+    rideId: string,
+    tenantId: string,
+    startedAt: Date,
+    completedAt: Date
+  ): Promise<TripMeasurement | null> {
+    const tripMs = completedAt.getTime() - startedAt.getTime();
+    if (tripMs <= 0) return null;
+
+    const points = (await this.getRideTrace(rideId, tenantId))
+      .filter((point) => point.recordedAt >= startedAt && point.recordedAt <= completedAt);
+
+    const trace = measureTraceDistance(points);
+    if (trace.usedFixes < 2 || !trace.firstFixAt || !trace.lastFixAt) return null;
+
+    const coveragePercent = (trace.lastFixAt.getTime() - trace.firstFixAt.getTime()) / tripMs * 100;
+    if (coveragePercent < config.locationHistory.minTraceCoveragePercent) return null;
+
+    return {
+      distanceMeters: trace.distanceMeters,
+      durationSeconds: Math.round(tripMs / 1000),
+      interpolatedMeters: trace.interpolatedMeters,
+    };
+  }
+
+  /**
+   * Format a trace as a GeoJSON LineString feature
+   */
+  toGeoJson(rideId: string, points: TracePoint[]): GeoJsonTrace {
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: points.map((point) => [point.longitude, point.latitude]),
+      },
+      properties: {
+        rideId,
+        pointCount: points.length,
+        coordTimes: points.map((point) => point.recordedAt.toISOString()),
+      },
+    };
+  }
+
+  /**
+   * Format a trace as an encoded polyline
+   */
+  toPolyline(rideId: string, points: TracePoint[]): PolylineTrace {
+    return {
+      rideId,
+      polyline: encodePolyline(points.map((point) => [point.latitude, point.longitude])),
+      pointCount: points.length,
+      startedAt: points[0]?.recordedAt.toISOString() ?? null,
+      endedAt: points[points.length - 1]?.recordedAt.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Read the next batch: entries abandoned by other instances first, then
+   * new ones
+   */
+  private async readBatch(): Promise<StreamEntry[]> {
+    await this.ensureConsumerGroup();
+
+    const batchSize = config.locationHistory.batchSize;
+
+    const [nextCursor, claimed] = await redis.xautoclaim(
+      STREAM, CONSUMER_GROUP, this.consumer, STALE_ENTRY_MS, this.claimCursor, 'COUNT', batchSize
+    ) as [string, Array<StreamEntry | null>];
+
+    this.claimCursor = nextCursor;
+
+    // Entries trimmed from the stream while pending come back as null
+    const stale = claimed.filter((entry): entry is StreamEntry => entry !== null);
+    if (stale.length > 0) {
+      logger.warn({ count: stale.length }, 'Claimed unacknowledged location history entries');
+      return stale;
+    }
+
+    const result = await redis.xreadgroup(
+      'GROUP', CONSUMER_GROUP, this.consumer, 'COUNT', batchSize, 'STREAMS', STREAM, '>'
+    ) as Array<[stream: string, entries: StreamEntry[]]> | null;
+
+    return result?.[0]?.[1] ?? [];
+  }
+
+  /**
+   * Create the consumer group (and the stream) unless it exists
+   */
+  private async ensureConsumerGroup(): Promise<void> {
+    if (this.hasConsumerGroup) return;
+
+    try {
+      await redis.xgroup('CREATE', STREAM, CONSUMER_GROUP, '0', 'MKSTREAM');
+    } catch (err) {
+      if (!(err instanceof Error && err.message.startsWith('BUSYGROUP'))) throw err;
+    }
+
+    this.hasConsumerGroup = true;
+  }
+
+  /**
+   * Parse stream entries into rows, tagging each point with its ride.
+   * Malformed points and points outside the partitioned range are skipped.
+   */
+  private async toRows(entries: StreamEntry[]): Promise<PointRow[]> {
+    const { from, to } = getLocationHistoryWindow();
+    const rows: PointRow[] = [];
+
+    for (const [id, fields] of entries) {
+      const entry: Record<string, string> = {};
+      for (let i = 0; i < fields.length; i += 2) {
+        entry[fields[i]] = fields[i + 1];
+      }
+
+      const recordedAt = new Date(entry.timestamp);
+      const latitude = Number(entry.latitude);
+      const longitude = Number(entry.longitude);
+
+      if (
+        !UUID_PATTERN.test(entry.tenantId ?? '') ||
+        !UUID_PATTERN.test(entry.driverId ?? '') ||
+        !Number.isFinite(latitude) || Math.abs(latitude) > 90 ||
+        !Number.isFinite(longitude) || Math.abs(longitude) > 180 ||
+        isNaN(recordedAt.getTime())
+      ) {
+        logger.warn({ entryId: id }, 'Skipping malformed location history entry');
+        continue;
+      }
+
+      if (recordedAt < from || recordedAt >= to) {
+        logger.warn({ entryId: id, recordedAt }, 'Skipping location point outside the history window');
+        continue;
+      }
+
+      rows.push({
+        tenantId: entry.tenantId,
+        driverId: entry.driverId,
+        latitude: latitude.toFixed(7),
+        longitude: longitude.toFixed(7),
+        heading: this.optionalDecimal(entry.heading, 2, 360),
+        speed: this.optionalDecimal(entry.speed, 2, 9999),
+        accuracy: this.optionalDecimal(entry.accuracy, 2, 99999),
+        recordedAt,
+      });
+    }
+
+    await this.assignRides(rows);
+
+    return rows;
+  }
+
+  /**
+   * Set rideId on points recorded between a ride's driver assignment and
+   * its completion (or cancellation) by the assigned driver
+   */
+  private async assignRides(rows: PointRow[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const driverIds = [...new Set(rows.map((row) => row.driverId))];
+    const times = rows.map((row) => row.recordedAt.getTime());
+    const earliest = new Date(Math.min(...times));
+    const latest = new Date(Math.max(...times));
+
+    const candidates = await db.select({
+      id: rides.id,
+      tenantId: rides.tenantId,
+      driverId: rides.driverId,
+      status: rides.status,
+      driverAssignedAt: rides.driverAssignedAt,
+      rideCompletedAt: rides.rideCompletedAt,
+      updatedAt: rides.updatedAt,
+    })
+      .from(rides)
+      .where(and(
+        inArray(rides.driverId, driverIds),
+        lte(rides.driverAssignedAt, latest),
+        or(
+          inArray(rides.status, ACTIVE_STATUSES),
+          gte(rides.updatedAt, earliest)
+        )
+      ));
+
+    for (const row of rows) {
+      let match: (typeof candidates)[number] | undefined;
+
+      for (const ride of candidates) {
+        if (ride.driverId !== row.driverId || ride.tenantId !== row.tenantId || !ride.driverAssignedAt) continue;
+        if (ride.driverAssignedAt > row.recordedAt) continue;
+
+        const endedAt = ACTIVE_STATUSES.includes(ride.status!)
+          ? null
+          : ride.rideCompletedAt ?? ride.updatedAt;
+        if (endedAt && endedAt < row.recordedAt) continue;
+
+        // Latest assignment wins should ride windows overlap
+        if (!match || ride.driverAssignedAt > match.driverAssignedAt!) {
+          match = ride;
+        }
+      }
+
+      row.rideId = match?.id ?? null;
+    }
+  }
+
+  /**
+   * Hourly: create upcoming partitions, delete points past each tenant's
+   * retention, and drop partitions older than the longest retention
+   */
+  private async maintain(): Promise<void> {
+    if (Date.now() - this.lastMaintenanceAt < MAINTENANCE_INTERVAL_MS) return;
+    this.lastMaintenanceAt = Date.now();
+
+    await ensureLocationHistoryPartitions(db);
+
+    const defaultDays = config.locationHistory.defaultRetentionDays;
+    const tenantRows = await db.select({
+      id: tenants.id,
+      retentionDays: tenants.locationHistoryRetentionDays,
+    }).from(tenants);
+
+    let longestDays = defaultDays;
+
+    for (const tenant of tenantRows) {
+      const days = tenant.retentionDays ?? defaultDays;
+      longestDays = Math.max(longestDays, days);
+
+      await db.delete(driverLocationPoints)
+        .where(and(
+          eq(driverLocationPoints.tenantId, tenant.id),
+          lt(driverLocationPoints.recordedAt, this.daysAgo(days))
+        ));
+    }
+
+    // Whole months no tenant keeps any more
+    const dropped = await dropLocationHistoryPartitionsBefore(db, this.daysAgo(longestDays));
+
+    if (dropped.length > 0) {
+      logger.info({ partitions: dropped }, 'Dropped expired location history partitions');
+    }
+  }
+
+  private daysAgo(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Parse an optional numeric field, dropping values the column can't hold
+   */
+  private optionalDecimal(value: string | undefined, scale: number, max: number): string | null {
+    if (value === undefined || value === '') return null;
+
+    const number = Number(value);
+    return Number.isFinite(number) && Math.abs(number) <= max ? number.toFixed(scale) : null;
+  }
+}
+
+// Export singleton instance
+export const locationHistoryService = new LocationHistoryService();
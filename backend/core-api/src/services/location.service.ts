@@ -0,0 +1,153 @@
+/**
+ * Location Service Client
+ *
+ * HTTP client for the location-service, which owns real-time driver
+ * positions in the Redis GEO index. Core API never stores live locations
+ * itself; it asks the location-service where drivers are and joins the
+ * result with vehicle and rating data from Postgres.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { authService } from './auth.service.js';
+
+// Types
+export interface DriverPosition {
+  driverId: string;
+  latitude: number;
+  longitude: number;
+  heading: number;
+  speed: number;
+  distance: number; // meters from the search point
+  eta: number; // seconds, straight-line estimate from the location-service
+  isAvailable: boolean;
+  timestamp: string;
+}
+
+interface NearbyDriversResponse {
+  success: boolean;
+  data: DriverPosition[];
+}
+
+interface DriverLocationResponse {
+  success: boolean;
+  data: DriverPosition;
+}
+
+const REQUEST_TIMEOUT_MS = 3000;
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000; // Sign a new service token this long before expiry
+
+export class LocationService {
+  private client: AxiosInstance;
+  private serviceToken: { token: string; expiresAt: number } | null = null;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: `${config.locationService.url}/api/v1/location`,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+
+    // The location-service only serves authenticated callers
+    this.client.interceptors.request.use((request) => {
+      request.headers.Authorization = `Bearer ${this.getServiceToken()}`;
+      return request;
+    });
+  }
+
+  /**
+   * Find drivers near a point using the location-service GEOSEARCH index.
+   * Results are sorted by distance, nearest first.
+   */
+  async findNearbyDrivers(
+    tenantId: string,
+    latitude: number,
+    longitude: number,
+    radiusMeters: number,
+    limit: number
+  ): Promise<DriverPosition[]> {
+    try {
+      const response = await this.client.get<NearbyDriversResponse>('/nearby', {
+        params: {
+          lat: latitude,
+          lon: longitude,
+          radius: radiusMeters,
+          tenantId,
+          limit,
+        },
+      });
+
+      return response.data.data;
+    } catch (err) {
+      logger.error({ err, tenantId, latitude, longitude }, 'Failed to query nearby drivers from location service');
+      throw new LocationServiceError('Location service unavailable', 'LOCATION_SERVICE_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * Get the last known position of a single driver
+   */
+  async getDriverLocation(tenantId: string, driverId: string): Promise<DriverPosition | null> {
+    try {
+      const response = await this.client.get<DriverLocationResponse>(
+        `/driver/${encodeURIComponent(driverId)}`,
+        { params: { tenantId } }
+      );
+
+      return response.data.data;
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        return null;
+      }
+
+      logger.error({ err, tenantId, driverId }, 'Failed to get driver location from location service');
+      throw new LocationServiceError('Location service unavailable', 'LOCATION_SERVICE_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * Mark a driver as available or busy for matching
+   */
+  async setDriverAvailability(tenantId: string, driverId: string, isAvailable: boolean): Promise<void> {
+    try {
+      await this.client.patch(`/driver/${encodeURIComponent(driverId)}/availability`, {
+        tenantId,
+        isAvailable,
+      });
+    } catch (err) {
+      logger.error({ err, tenantId, driverId, isAvailable }, 'Failed to set driver availability');
+      throw new LocationServiceError('Location service unavailable', 'LOCATION_SERVICE_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * Current service token, re-signed shortly before it expires
+   */
+  private getServiceToken(): string {
+    if (!this.serviceToken || this.serviceToken.expiresAt - TOKEN_REFRESH_MARGIN_MS <= Date.now()) {
+      const { token, expiresIn } = authService.generateServiceToken();
+      this.serviceToken = { token, expiresAt: Date.now() + expiresIn * 1000 };
+    }
+
+    return this.serviceToken.token;
+  }
+}
+
+/**
+ * Custom error class for location service errors
+ */
+export class LocationServiceError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'LocationServiceError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const locationService = new LocationService();
@@ -0,0 +1,224 @@
+/**
+ * Outbox Service
+ *
+ * Transactional outbox for Kafka events:
+ * - Services write events to outbox_events in the same transaction as the
+ *   ride/payment change they describe, so a committed change always has
+ *   its event and a rolled-back one never does
+ * - A relay worker publishes pending rows to Kafka in creation order,
+ *   retrying with backoff, and marks them sent
+ * - Events with the same partition key (e.g. one ride's) are published in
+ *   order: a row waits while an earlier row of its key is unsent, whether
+ *   that one is backing off, claimed by another instance or has failed for
+ *   good. A failed row holds its key until it is retried or deleted.
+ *
+ * Delivery is at-least-once: a crash between publishing and marking a row
+ * sent republishes it. Consumers deduplicate on the event's eventId.
+ */
+
+import { eq, and, lte, lt, asc, sql, inArray, notExists } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db, outboxEvents, DbTransaction } from '../db/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { kafkaService, MobilityEvent } from './kafka.service.js';
+
+// Constants
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 10;
+const MAX_BACKOFF_SECONDS = 300;
+const SENT_RETENTION_DAYS = 7;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const RECONNECT_INTERVAL_MS = 30 * 1000;
+const MAX_BATCHES_PER_RELAY = 10; // Each batch sends at most one event per key
+
+// Earlier rows of the same key, in the claim query
+const earlierEvents = alias(outboxEvents, 'earlier_events');
+
+export class OutboxService {
+  private timer: NodeJS.Timeout | null = null;
+  private isRelaying = false;
+  private lastPurgeAt = 0;
+  private lastReconnectAt = 0;
+
+  /**
+   * Add an event to the outbox as part of the caller's transaction
+   */
+  async enqueue(tx: DbTransaction, event: MobilityEvent): Promise<void> {
+    await tx.insert(outboxEvents).values({
+      id: event.eventId,
+      tenantId: event.tenantId,
+      eventType: event.type,
+      partitionKey: kafkaService.getKeyForEvent(event),
+      event,
+    });
+  }
+
+  /**
+   * Start the relay worker
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.relay();
+    }, config.outbox.relayIntervalMs);
+
+    logger.info({ intervalMs: config.outbox.relayIntervalMs }, 'Outbox relay started');
+  }
+
+  /**
+   * Stop the relay worker
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish pending events, batch by batch while events are being sent
+   */
+  async relay(): Promise<number> {
+    if (this.isRelaying) return 0;
+    this.isRelaying = true;
+
+    try {
+      if (!kafkaService.isReady() && !(await this.reconnect())) {
+        return 0;
+      }
+
+      let sent = 0;
+
+      for (let batch = 0; batch < MAX_BATCHES_PER_RELAY; batch++) {
+        const batchSent = await this.relayBatch();
+        sent += batchSent;
+
+        if (batchSent === 0) break;
+      }
+
+      if (sent > 0) {
+        logger.debug({ sent }, 'Outbox events relayed');
+      }
+
+      await this.purgeSent();
+
+      return sent;
+    } catch (err) {
+      logger.error({ err }, 'Outbox relay failed');
+      return 0;
+    } finally {
+      this.isRelaying = false;
+    }
+  }
+
+  /**
+   * Publish one batch: the first unsent event of each key, if it is due
+   *
+   * Rows are claimed with FOR UPDATE SKIP LOCKED so several core-api
+   * instances can relay side by side without sending a row twice. A row
+   * whose key has an earlier unsent row is not claimed, so neither a retry
+   * nor another instance can overtake it.
+   */
+  private async relayBatch(): Promise<number> {
+    return db.transaction(async (tx) => {
+      const pending = await tx.select()
+        .from(outboxEvents)
+        .where(and(
+          eq(outboxEvents.status, 'pending'),
+          lte(outboxEvents.nextAttemptAt, new Date()),
+          notExists(
+            tx.select({ id: earlierEvents.id })
+              .from(earlierEvents)
+              .where(and(
+                eq(earlierEvents.partitionKey, outboxEvents.partitionKey),
+                lt(earlierEvents.sequence, outboxEvents.sequence),
+                inArray(earlierEvents.status, ['pending', 'failed'])
+              ))
+          )
+        ))
+        .orderBy(asc(outboxEvents.sequence))
+        .limit(BATCH_SIZE)
+        .for('update', { skipLocked: true });
+
+      let count = 0;
+
+      for (const row of pending) {
+        try {
+          await kafkaService.publish(row.event as MobilityEvent);
+
+          await tx.update(outboxEvents)
+            .set({ status: 'sent', sentAt: new Date(), attempts: row.attempts + 1 })
+            .where(eq(outboxEvents.id, row.id));
+
+          count++;
+        } catch (err) {
+          await this.markFailedAttempt(tx, row, err);
+        }
+      }
+
+      return count;
+    });
+  }
+
+  /**
+   * Try to (re)connect to Kafka, at most once per RECONNECT_INTERVAL_MS
+   */
+  private async reconnect(): Promise<boolean> {
+    if (Date.now() - this.lastReconnectAt < RECONNECT_INTERVAL_MS) return false;
+    this.lastReconnectAt = Date.now();
+
+    try {
+      await kafkaService.connect();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or give up after MAX_ATTEMPTS
+   */
+  private async markFailedAttempt(
+    tx: DbTransaction,
+    row: typeof outboxEvents.$inferSelect,
+    err: unknown
+  ): Promise<void> {
+    const attempts = row.attempts + 1;
+    const backoffSeconds = Math.min(2 ** attempts, MAX_BACKOFF_SECONDS);
+    const giveUp = attempts >= MAX_ATTEMPTS;
+
+    await tx.update(outboxEvents)
+      .set({
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        lastError: err instanceof Error ? err.message : String(err),
+        nextAttemptAt: new Date(Date.now() + backoffSeconds * 1000),
+      })
+      .where(eq(outboxEvents.id, row.id));
+
+    if (giveUp) {
+      logger.error({ eventId: row.id, eventType: row.eventType, attempts }, 'Outbox event failed permanently');
+    } else {
+      logger.warn({ eventId: row.id, eventType: row.eventType, attempts, backoffSeconds }, 'Outbox event publish failed, will retry');
+    }
+  }
+
+  /**
+   * Delete sent events past the retention period
+   */
+  private async purgeSent(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) return;
+    this.lastPurgeAt = Date.now();
+
+    await db.delete(outboxEvents)
+      .where(and(
+        eq(outboxEvents.status, 'sent'),
+        lt(outboxEvents.sentAt, sql`now() - make_interval(days => ${SENT_RETENTION_DAYS})`)
+      ));
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService();
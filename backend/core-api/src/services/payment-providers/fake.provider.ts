@@ -0,0 +1,162 @@
+/**
+ * Fake Payment Provider
+ *
+ * Deterministic in-memory provider for tests and local development. No
+ * network calls: ids are sequential (fake_pi_1, fake_re_1, ...) and
+ * payments succeed when captured unless marked to fail.
+ */
+
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  CreateIntentParams,
+  ProviderPaymentIntent,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  RefundParams,
+  TransferParams,
+  OnboardPayeeParams,
+  CreateCustomerParams,
+} from './types.js';
+
+interface FakeIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: ProviderPaymentStatus;
+  refunded: number;
+  metadata: Record<string, string>;
+}
+
+export interface FakeTransfer {
+  id: string;
+  amount: number;
+  currency: string;
+  destinationAccountId: string;
+  metadata: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+
+  private sequence = 0;
+  private intents: Map<string, FakeIntent> = new Map();
+  private failingIntents: Set<string> = new Set();
+  readonly transfers: FakeTransfer[] = [];
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async createPaymentIntent(params: CreateIntentParams): Promise<ProviderPaymentIntent> {
+    const id = this.nextId('pi');
+
+    this.intents.set(id, {
+      id,
+      amount: params.amount,
+      currency: params.currency,
+      status: 'requires_action',
+      refunded: 0,
+      metadata: params.metadata,
+    });
+
+    return {
+      id,
+      clientSecret: `${id}_secret`,
+      status: 'requires_action',
+    };
+  }
+
+  async capturePayment(paymentId: string): Promise<ProviderPayment> {
+    const intent = this.getIntent(paymentId);
+
+    if (intent.status === 'requires_action') {
+      intent.status = this.failingIntents.has(paymentId) ? 'failed' : 'succeeded';
+    }
+
+    return {
+      id: intent.id,
+      status: intent.status,
+      chargeId: intent.status === 'succeeded' ? `${intent.id}_ch` : undefined,
+    };
+  }
+
+  async refund(params: RefundParams): Promise<{ id: string }> {
+    const intent = this.getIntent(params.paymentId);
+
+    if (intent.status !== 'succeeded') {
+      throw new PaymentProviderError('Payment has not succeeded', 'PAYMENT_NOT_SUCCEEDED');
+    }
+
+    if (intent.refunded + params.amount > intent.amount) {
+      throw new PaymentProviderError('Refund exceeds payment amount', 'REFUND_EXCEEDS_AMOUNT');
+    }
+
+    intent.refunded += params.amount;
+
+    return { id: this.nextId('re') };
+  }
+
+  async transfer(params: TransferParams): Promise<{ id: string }> {
+    const existing = params.idempotencyKey
+      ? this.transfers.find((transfer) => transfer.idempotencyKey === params.idempotencyKey)
+      : undefined;
+
+    if (existing) {
+      return { id: existing.id };
+    }
+
+    const id = this.nextId('tr');
+    this.transfers.push({ id, ...params });
+    return { id };
+  }
+
+  async onboardPayee(params: OnboardPayeeParams): Promise<{ accountId: string; onboardingUrl: string }> {
+    const accountId = params.existingAccountId || this.nextId('acct');
+
+    return {
+      accountId,
+      onboardingUrl: `https://fake-payments.local/onboarding/${accountId}`,
+    };
+  }
+
+  async createCustomer(_params: CreateCustomerParams): Promise<string> {
+    return this.nextId('cus');
+  }
+
+  /**
+   * Make the next capture of a payment fail (for testing failure paths)
+   */
+  failPayment(paymentId: string): void {
+    this.failingIntents.add(paymentId);
+  }
+
+  /**
+   * Clear all state and restart id sequences
+   */
+  reset(): void {
+    this.sequence = 0;
+    this.intents.clear();
+    this.failingIntents.clear();
+    this.transfers.length = 0;
+  }
+
+  private getIntent(paymentId: string): FakeIntent {
+    const intent = this.intents.get(paymentId);
+
+    if (!intent) {
+      throw new PaymentProviderError('Payment not found', 'PAYMENT_NOT_FOUND');
+    }
+
+    return intent;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence++;
+    return `fake_${prefix}_${this.sequence}`;
+  }
+}
+
+// Export singleton instance
+export const fakePaymentProvider = new FakePaymentProvider();
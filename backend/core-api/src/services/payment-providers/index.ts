@@ -0,0 +1,69 @@
+/**
+ * Payment Provider Registry
+ *
+ * Resolves the provider a tenant pays through. Tenants choose a provider
+ * with `tenants.payment_provider`; unset tenants use PAYMENT_PROVIDER.
+ * New providers (e.g. Paytrail, MobilePay direct) implement PaymentProvider
+ * and are registered here.
+ */
+
+import { config } from '../../config/index.js';
+import { PaymentProvider, PaymentProviderName, PaymentProviderError } from './types.js';
+import { stripePaymentProvider } from './stripe.provider.js';
+import { fakePaymentProvider } from './fake.provider.js';
+
+export * from './types.js';
+export { stripePaymentProvider, StripePaymentProvider } from './stripe.provider.js';
+export { fakePaymentProvider, FakePaymentProvider } from './fake.provider.js';
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  stripe: stripePaymentProvider,
+  fake: fakePaymentProvider,
+};
+
+/**
+ * Get a provider by name
+ */
+export function getPaymentProvider(name: string): PaymentProvider {
+  const provider = providers[name as PaymentProviderName];
+
+  if (!provider) {
+    throw new PaymentProviderError(`Unknown payment provider: ${name}`, 'UNKNOWN_PAYMENT_PROVIDER');
+  }
+
+  // The fake provider never moves real money
+  if (provider.name === 'fake' && config.nodeEnv === 'production') {
+    throw new PaymentProviderError('Fake payment provider is disabled in production', 'PAYMENT_PROVIDER_DISABLED');
+  }
+
+  return provider;
+}
+
+/**
+ * Get the provider configured for a tenant
+ */
+export function getTenantPaymentProvider(tenant: { paymentProvider: string | null }): PaymentProvider {
+  return getPaymentProvider(tenant.paymentProvider || config.payments.defaultProvider);
+}
+
+/**
+ * A user's payee account with a provider. Stripe Connect accounts have
+ * their own column; other providers' accounts are kept in payoutAccounts.
+ */
+export function getPayeeAccountId(
+  user: { stripeConnectAccountId: string | null; payoutAccounts: unknown },
+  providerName: string
+): string | undefined {
+  if (providerName === 'stripe') {
+    return user.stripeConnectAccountId || undefined;
+  }
+
+  return getPayoutAccounts(user)[providerName];
+}
+
+/**
+ * A user's non-Stripe payee accounts, by provider
+ */
+export function getPayoutAccounts(user: { payoutAccounts: unknown }): Record<string, string> {
+  return (user.payoutAccounts as Record<string, string> | null) || {};
+}
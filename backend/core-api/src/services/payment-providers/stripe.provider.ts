@@ -0,0 +1,223 @@
+/**
+ * Stripe Payment Provider
+ *
+ * Stripe Connect implementation: payments are destination charges to the
+ * tenant's connected account with the platform fee taken as an application
+ * fee; drivers and operators are onboarded as Express accounts.
+ */
+
+import Stripe from 'stripe';
+import { config } from '../../config/index.js';
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderPaymentStatus,
+  CreateIntentParams,
+  ProviderPaymentIntent,
+  ProviderPayment,
+  RefundParams,
+  TransferParams,
+  OnboardPayeeParams,
+  CreateCustomerParams,
+} from './types.js';
+
+/**
+ * Convert major currency units to Stripe's minor units
+ */
+function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private client: Stripe | null;
+
+  constructor() {
+    this.client = config.stripe.secretKey
+      ? new Stripe(config.stripe.secretKey, { apiVersion: '2023-10-16' })
+      : null;
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async createPaymentIntent(params: CreateIntentParams): Promise<ProviderPaymentIntent> {
+    const stripe = this.getClient();
+
+    if (!params.payeeAccountId) {
+      throw new PaymentProviderError('Tenant Stripe account not configured', 'NO_STRIPE_ACCOUNT');
+    }
+
+    const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
+      amount: toMinorUnits(params.amount),
+      currency: params.currency.toLowerCase(),
+      payment_method_types: params.paymentMethod === 'mobilepay'
+        ? ['mobilepay']
+        : ['card'],
+      metadata: params.metadata,
+      // Transfer to connected account (tenant) minus platform fee
+      transfer_data: {
+        destination: params.payeeAccountId,
+      },
+      application_fee_amount: toMinorUnits(params.platformFee || 0),
+      description: params.description,
+      receipt_email: params.receiptEmail,
+    };
+
+    // Add customer if exists
+    if (params.customerId) {
+      paymentIntentParams.customer = params.customerId;
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams);
+
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret!,
+      status: this.mapStatus(paymentIntent.status),
+    };
+  }
+
+  async capturePayment(paymentId: string): Promise<ProviderPayment> {
+    const paymentIntent = await this.getClient().paymentIntents.retrieve(paymentId);
+
+    return {
+      id: paymentIntent.id,
+      status: this.mapStatus(paymentIntent.status),
+      chargeId: typeof paymentIntent.latest_charge === 'string'
+        ? paymentIntent.latest_charge
+        : paymentIntent.latest_charge?.id,
+    };
+  }
+
+  async refund(params: RefundParams): Promise<{ id: string }> {
+    const refund = await this.getClient().refunds.create({
+      payment_intent: params.paymentId,
+      amount: toMinorUnits(params.amount),
+      reason: 'requested_by_customer',
+    });
+
+    return { id: refund.id };
+  }
+
+  async transfer(params: TransferParams): Promise<{ id: string }> {
+    const stripe = this.getClient();
+
+    try {
+      const transfer = await stripe.transfers.create({
+        amount: toMinorUnits(params.amount),
+        currency: params.currency.toLowerCase(),
+        destination: params.destinationAccountId,
+        metadata: params.metadata,
+      }, {
+        idempotencyKey: params.idempotencyKey,
+      });
+
+      return { id: transfer.id };
+    } catch (err) {
+      // Stripe refused the request itself; timeouts, 5xx and rate limits
+      // leave the transfer's outcome unknown and are rethrown as they are
+      if (err instanceof Stripe.errors.StripeInvalidRequestError
+        || err instanceof Stripe.errors.StripeCardError) {
+        throw new PaymentProviderError(err.message, 'TRANSFER_DECLINED');
+      }
+      throw err;
+    }
+  }
+
+  async onboardPayee(params: OnboardPayeeParams): Promise<{ accountId: string; onboardingUrl: string }> {
+    const stripe = this.getClient();
+    let accountId = params.existingAccountId;
+
+    if (!accountId) {
+      // Create Connect Express account for the driver or operator
+      const businessType = params.businessType || 'individual';
+      const account = await stripe.accounts.create({
+        type: 'express',
+        country: params.country,
+        email: params.email || undefined,
+        capabilities: {
+          card_payments: { requested: true },
+          transfers: { requested: true },
+        },
+        business_type: businessType,
+        business_profile: {
+          mcc: '4121', // Taxicabs and Limousines
+          name: params.businessName,
+          product_description: businessType === 'company' ? 'Taxi operator services' : 'Taxi driver services',
+        },
+        metadata: params.metadata,
+      });
+
+      accountId = account.id;
+    }
+
+    const accountLink = await stripe.accountLinks.create({
+      account: accountId,
+      refresh_url: `${config.locationService.url}/stripe/refresh`,
+      return_url: `${config.locationService.url}/stripe/return`,
+      type: 'account_onboarding',
+    });
+
+    return {
+      accountId,
+      onboardingUrl: accountLink.url,
+    };
+  }
+
+  async createCustomer(params: CreateCustomerParams): Promise<string> {
+    const customer = await this.getClient().customers.create({
+      email: params.email || undefined,
+      phone: params.phone || undefined,
+      name: params.name,
+      metadata: params.metadata,
+    });
+
+    return customer.id;
+  }
+
+  /**
+   * Verify a webhook request's signature and parse the event
+   */
+  constructWebhookEvent(payload: Buffer, signature: string): Stripe.Event {
+    if (!config.stripe.webhookSecret) {
+      throw new PaymentProviderError('Stripe webhooks not configured', 'STRIPE_NOT_CONFIGURED');
+    }
+
+    try {
+      return this.getClient().webhooks.constructEvent(payload, signature, config.stripe.webhookSecret);
+    } catch (err) {
+      if (err instanceof PaymentProviderError) throw err;
+      throw new PaymentProviderError('Invalid webhook signature', 'INVALID_SIGNATURE');
+    }
+  }
+
+  private getClient(): Stripe {
+    if (!this.client) {
+      throw new PaymentProviderError('Stripe not configured', 'STRIPE_NOT_CONFIGURED');
+    }
+
+    return this.client;
+  }
+
+  private mapStatus(status: Stripe.PaymentIntent.Status): ProviderPaymentStatus {
+    switch (status) {
+      case 'succeeded':
+        return 'succeeded';
+      case 'processing':
+        return 'processing';
+      case 'canceled':
+        return 'cancelled';
+      case 'requires_payment_method':
+      case 'requires_confirmation':
+      case 'requires_action':
+      case 'requires_capture':
+      default:
+        return 'requires_action';
+    }
+  }
+}
+
+// Export singleton instance
+export const stripePaymentProvider = new StripePaymentProvider();
@@ -0,0 +1,111 @@
+/**
+ * Payment Provider Types
+ *
+ * Interface every payment provider implements. Amounts are in major
+ * currency units (euros); providers convert to their own representation.
+ */
+
+export type PaymentProviderName = 'stripe' | 'fake';
+
+export type ProviderPaymentStatus =
+  | 'requires_action'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  paymentMethod: 'card' | 'mobilepay';
+  description: string;
+  metadata: Record<string, string>;
+  payeeAccountId?: string; // Connected account receiving the funds (e.g. tenant)
+  platformFee?: number; // Kept by the platform when a payee account is set
+  customerId?: string;
+  receiptEmail?: string;
+}
+
+export interface ProviderPaymentIntent {
+  id: string;
+  clientSecret: string; // Handed to the app to complete the payment
+  status: ProviderPaymentStatus;
+}
+
+export interface ProviderPayment {
+  id: string;
+  status: ProviderPaymentStatus;
+  chargeId?: string;
+}
+
+export interface RefundParams {
+  paymentId: string; // Provider payment (intent) id
+  amount: number;
+  reason?: string;
+}
+
+export interface TransferParams {
+  amount: number;
+  currency: string;
+  destinationAccountId: string;
+  metadata: Record<string, string>;
+  idempotencyKey?: string; // Retrying with the same key never transfers twice
+}
+
+export interface OnboardPayeeParams {
+  existingAccountId?: string | null;
+  email?: string | null;
+  country: string;
+  businessType?: 'individual' | 'company'; // Drivers are individuals (default), operators companies
+  businessName?: string;
+  metadata: Record<string, string>;
+}
+
+export interface CreateCustomerParams {
+  email?: string | null;
+  phone?: string | null;
+  name: string;
+  metadata: Record<string, string>;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /** Whether credentials are present so the provider can be used */
+  isConfigured(): boolean;
+
+  /** Start a payment the rider completes in the app */
+  createPaymentIntent(params: CreateIntentParams): Promise<ProviderPaymentIntent>;
+
+  /** Fetch the outcome of a payment started with createPaymentIntent */
+  capturePayment(paymentId: string): Promise<ProviderPayment>;
+
+  /** Refund all or part of a payment; returns the provider refund id */
+  refund(params: RefundParams): Promise<{ id: string }>;
+
+  /**
+   * Move funds to a payee (driver) account; returns the provider transfer id.
+   * Throws PaymentProviderError only when the transfer was not made; any
+   * other error leaves its outcome unknown
+   */
+  transfer(params: TransferParams): Promise<{ id: string }>;
+
+  /** Create (or resume) a payee (driver or operator) account and return its onboarding link */
+  onboardPayee(params: OnboardPayeeParams): Promise<{ accountId: string; onboardingUrl: string }>;
+
+  /** Create a customer record for saved payment methods */
+  createCustomer(params: CreateCustomerParams): Promise<string>;
+}
+
+/**
+ * Custom error class for payment provider errors
+ */
+export class PaymentProviderError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+    this.code = code;
+  }
+}
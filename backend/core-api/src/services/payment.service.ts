@@ -1,25 +1,35 @@
 /**
  * Payment Service
  * 
- * Handles payment processing using Stripe Connect for multi-party payments.
+ * Handles payment processing through the tenant's payment provider
+ * (Stripe Connect by default, see ./payment-providers).
  * Supports:
  * - Card payments
  * - MobilePay (via Stripe)
  * - Finnish bank buttons
  * - Driver payouts
  * - Finnish tax reporting (Vero API)
+ * - Stripe webhooks (idempotent per Stripe event id)
  */
 
 import Stripe from 'stripe';
-import { eq, and } from 'drizzle-orm';
-import { db, payments, rides, users, tenants } from '../db/index.js';
+import { eq, and, or, notInArray } from 'drizzle-orm';
+import { db, payments, rides, users, tenants, stripeWebhookEvents, DbTransaction } from '../db/index.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-
-// Initialize Stripe
-const stripe = config.stripe.secretKey 
-  ? new Stripe(config.stripe.secretKey, { apiVersion: '2023-10-16' })
-  : null;
+import { EventType, buildPaymentEvent } from './kafka.service.js';
+import { outboxService } from './outbox.service.js';
+import { veroReportService } from './vero-report.service.js';
+import { driverLedgerService } from './driver-ledger.service.js';
+import { driverPayoutService } from './driver-payout.service.js';
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  getTenantPaymentProvider,
+  getPayeeAccountId,
+  getPayoutAccounts,
+  stripePaymentProvider,
+} from './payment-providers/index.js';
 
 // Types
 export interface CreatePaymentIntentInput {
@@ -37,16 +47,6 @@ export interface PaymentResult {
   status: string;
 }
 
-export interface VeroReportInput {
-  tenantId: string;
-  paymentId: string;
-  driverId: string;
-  amount: number;
-  vatAmount: number;
-  receiptNumber: string;
-  tripDate: Date;
-}
-
 export class PaymentService {
   /**
    * Create a payment intent for a ride
@@ -54,19 +54,16 @@ export class PaymentService {
   async createPaymentIntent(input: CreatePaymentIntentInput): Promise<PaymentResult> {
     const { tenantId, rideId, riderId, amount, currency = 'EUR', paymentMethod = 'card' } = input;
 
-    if (!stripe) {
-      throw new PaymentError('Stripe not configured', 'STRIPE_NOT_CONFIGURED');
-    }
-
-    // Get tenant for Stripe Connect account
     const tenant = await db.query.tenants.findFirst({
       where: eq(tenants.id, tenantId),
     });
 
-    if (!tenant?.stripeAccountId) {
-      throw new PaymentError('Tenant Stripe account not configured', 'NO_STRIPE_ACCOUNT');
+    if (!tenant) {
+      throw new PaymentError('Tenant not found', 'TENANT_NOT_FOUND');
     }
 
+    const provider = this.getProvider(tenant);
+
     // Get ride details
     const ride = await db.query.rides.findFirst({
       where: and(eq(rides.id, rideId), eq(rides.tenantId, tenantId)),
@@ -76,27 +73,26 @@ export class PaymentService {
       throw new PaymentError('Ride not found', 'RIDE_NOT_FOUND');
     }
 
-    // Get rider for Stripe customer
+    // Get rider for provider customer
     const rider = await db.query.users.findFirst({
       where: eq(users.id, riderId),
     });
 
-    // Calculate platform fee
-    const platformFeeAmount = Math.round(amount * config.stripe.platformFeePercent / 100);
-    const driverPayoutAmount = amount - platformFeeAmount;
+    // Calculate the tenant's commission (snapshotted on the payment for the ledger)
+    const { commissionPercent } = driverPayoutService.getPayoutConfig(tenant);
+    const platformFeeAmount = Math.round(amount * commissionPercent) / 100;
+    const driverPayoutAmount = Math.round((amount - platformFeeAmount) * 100) / 100;
 
     // Calculate VAT
     const vatRate = config.finland.vatRatePassenger;
     const vatAmount = Math.round(amount * vatRate / (1 + vatRate) * 100) / 100;
 
     try {
-      // Create Stripe PaymentIntent with Connect
-      const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
-        amount: Math.round(amount * 100), // Stripe uses cents
-        currency: currency.toLowerCase(),
-        payment_method_types: paymentMethod === 'mobilepay' 
-          ? ['mobilepay']
-          : ['card'],
+      const intent = await provider.createPaymentIntent({
+        amount,
+        currency,
+        paymentMethod,
+        description: `Ride ${rideId.substring(0, 8)}`,
         metadata: {
           tenantId,
           rideId,
@@ -104,21 +100,11 @@ export class PaymentService {
           platformFee: platformFeeAmount.toString(),
           vatAmount: vatAmount.toString(),
         },
-        // Transfer to connected account (tenant) minus platform fee
-        transfer_data: {
-          destination: tenant.stripeAccountId,
-        },
-        application_fee_amount: Math.round(platformFeeAmount * 100),
-        description: `Ride ${rideId.substring(0, 8)}`,
-        receipt_email: rider?.email,
-      };
-
-      // Add customer if exists
-      if (rider?.stripeCustomerId) {
-        paymentIntentParams.customer = rider.stripeCustomerId;
-      }
-
-      const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams);
+        payeeAccountId: tenant.stripeAccountId || undefined,
+        platformFee: platformFeeAmount,
+        customerId: rider?.stripeCustomerId || undefined,
+        receiptEmail: rider?.email || undefined,
+      });
 
       // Create payment record
       const [payment] = await db.insert(payments).values({
@@ -129,11 +115,13 @@ export class PaymentService {
         amount: amount.toString(),
         currency,
         vatAmount: vatAmount.toString(),
-        platformFee: (platformFeeAmount / 100).toString(),
-        driverPayout: (driverPayoutAmount / 100).toString(),
+        platformFee: platformFeeAmount.toString(),
+        driverPayout: driverPayoutAmount.toString(),
         paymentMethod,
         status: 'pending',
-        stripePaymentIntentId: paymentIntent.id,
+        provider: provider.name,
+        providerPaymentId: intent.id,
+        stripePaymentIntentId: provider.name === 'stripe' ? intent.id : null,
       }).returning();
 
       // Update ride with payment ID
@@ -145,82 +133,76 @@ export class PaymentService {
         paymentId: payment.id,
         rideId,
         amount,
-        stripePaymentIntentId: paymentIntent.id,
+        provider: provider.name,
+        providerPaymentId: intent.id,
       }, 'Payment intent created');
 
       return {
         paymentId: payment.id,
-        clientSecret: paymentIntent.client_secret!,
-        status: paymentIntent.status,
+        clientSecret: intent.clientSecret,
+        status: intent.status,
       };
     } catch (err) {
+      if (err instanceof PaymentProviderError) {
+        throw new PaymentError(err.message, err.code);
+      }
       logger.error({ err, rideId }, 'Failed to create payment intent');
       throw new PaymentError('Failed to create payment', 'PAYMENT_CREATION_FAILED');
     }
   }
 
   /**
-   * Confirm payment and process payout to driver
+   * Confirm payment. The driver's share is credited to their ledger and
+   * paid out with their next batched payout.
+   *
+   * @param paymentIntentId - The provider's payment id (Stripe PaymentIntent id for Stripe)
    */
   async confirmPayment(paymentIntentId: string): Promise<typeof payments.$inferSelect> {
-    if (!stripe) {
-      throw new PaymentError('Stripe not configured', 'STRIPE_NOT_CONFIGURED');
-    }
-
-    // Find payment by Stripe ID
     const payment = await db.query.payments.findFirst({
-      where: eq(payments.stripePaymentIntentId, paymentIntentId),
+      where: or(
+        eq(payments.providerPaymentId, paymentIntentId),
+        eq(payments.stripePaymentIntentId, paymentIntentId)
+      ),
     });
 
     if (!payment) {
       throw new PaymentError('Payment not found', 'PAYMENT_NOT_FOUND');
     }
 
-    try {
-      // Get PaymentIntent from Stripe
-      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    const provider = this.getProvider({ paymentProvider: payment.provider });
 
-      if (paymentIntent.status === 'succeeded') {
-        // Update payment status
-        const [updatedPayment] = await db.update(payments)
-          .set({
-            status: 'completed',
-            stripeChargeId: typeof paymentIntent.latest_charge === 'string' 
-              ? paymentIntent.latest_charge 
-              : paymentIntent.latest_charge?.id,
-            processedAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(payments.id, payment.id))
-          .returning();
+    try {
+      const providerPayment = await provider.capturePayment(paymentIntentId);
 
-        // Generate receipt number
-        const receiptNumber = this.generateReceiptNumber(payment.tenantId);
-        await db.update(payments)
-          .set({ receiptNumber })
-          .where(eq(payments.id, payment.id));
+      if (providerPayment.status === 'succeeded') {
+        // Update payment status and emit the event in one transaction
+        const updatedPayment = await db.transaction((tx) =>
+          this.markPaymentCompleted(tx, payment, providerPayment.chargeId)
+        );
 
         logger.info({ paymentId: payment.id }, 'Payment confirmed');
 
-        // TODO: Trigger Vero API reporting for Finnish compliance
-        // await this.reportToVero({ ... });
-
-        // TODO: Process driver payout via Stripe Connect Transfer
-        // await this.processDriverPayout(payment);
-
         return updatedPayment;
       } else {
-        throw new PaymentError(`Payment not succeeded: ${paymentIntent.status}`, 'PAYMENT_NOT_SUCCEEDED');
+        throw new PaymentError(`Payment not succeeded: ${providerPayment.status}`, 'PAYMENT_NOT_SUCCEEDED');
       }
     } catch (err) {
       if (err instanceof PaymentError) throw err;
+      if (err instanceof PaymentProviderError) {
+        throw new PaymentError(err.message, err.code);
+      }
       logger.error({ err, paymentIntentId }, 'Failed to confirm payment');
       throw new PaymentError('Failed to confirm payment', 'PAYMENT_CONFIRMATION_FAILED');
     }
   }
 
   /**
-   * Process refund
+   * Refund a completed payment, fully or in part
+   *
+   * The payment row stays locked from the remaining-amount check until the
+   * refund is recorded, so concurrent refunds can't exceed the payment.
+   *
+   * @param amount - Amount to refund now; defaults to what is left
    */
   async refundPayment(
     paymentId: string,
@@ -228,46 +210,72 @@ export class PaymentService {
     amount?: number,
     reason?: string
   ): Promise<typeof payments.$inferSelect> {
-    if (!stripe) {
-      throw new PaymentError('Stripe not configured', 'STRIPE_NOT_CONFIGURED');
-    }
+    try {
+      return await db.transaction(async (tx) => {
+        const [payment] = await tx.select()
+          .from(payments)
+          .where(and(
+            eq(payments.id, paymentId),
+            eq(payments.tenantId, tenantId)
+          ))
+          .for('update');
 
-    const payment = await db.query.payments.findFirst({
-      where: and(
-        eq(payments.id, paymentId),
-        eq(payments.tenantId, tenantId)
-      ),
-    });
+        const providerPaymentId = payment?.providerPaymentId || payment?.stripePaymentIntentId;
 
-    if (!payment || !payment.stripePaymentIntentId) {
-      throw new PaymentError('Payment not found', 'PAYMENT_NOT_FOUND');
-    }
+        if (!payment || !providerPaymentId) {
+          throw new PaymentError('Payment not found', 'PAYMENT_NOT_FOUND');
+        }
 
-    const refundAmount = amount || parseFloat(payment.amount);
+        if (payment.status !== 'completed' && payment.status !== 'refunded') {
+          throw new PaymentError('Only completed payments can be refunded', 'PAYMENT_NOT_COMPLETED');
+        }
 
-    try {
-      const refund = await stripe.refunds.create({
-        payment_intent: payment.stripePaymentIntentId,
-        amount: Math.round(refundAmount * 100),
-        reason: 'requested_by_customer',
-      });
+        const alreadyRefunded = parseFloat(payment.refundAmount || '0');
+        const remaining = Math.round((parseFloat(payment.amount) - alreadyRefunded) * 100) / 100;
+        const refundAmount = amount ?? remaining;
 
-      const [updatedPayment] = await db.update(payments)
-        .set({
-          status: 'refunded',
-          stripeRefundId: refund.id,
-          refundAmount: refundAmount.toString(),
-          refundReason: reason,
-          refundedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(payments.id, paymentId))
-        .returning();
+        if (refundAmount <= 0 || refundAmount > remaining) {
+          throw new PaymentError(`Refund must be between 0 and ${remaining}`, 'REFUND_EXCEEDS_PAYMENT');
+        }
+
+        const provider = this.getProvider({ paymentProvider: payment.provider });
+
+        const refund = await provider.refund({
+          paymentId: providerPaymentId,
+          amount: refundAmount,
+          reason,
+        });
+
+        const totalRefunded = Math.round((alreadyRefunded + refundAmount) * 100) / 100;
+
+        const [refundedPayment] = await tx.update(payments)
+          .set({
+            // A partly refunded payment stays completed, as on the webhook path
+            status: totalRefunded === parseFloat(payment.amount) ? 'refunded' : payment.status,
+            stripeRefundId: provider.name === 'stripe' ? refund.id : null,
+            refundAmount: totalRefunded.toString(),
+            refundReason: reason,
+            refundedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(payments.id, paymentId))
+          .returning();
+
+        await outboxService.enqueue(tx, buildPaymentEvent(EventType.PAYMENT_REFUNDED, refundedPayment));
+
+        await driverLedgerService.recordRefund(tx, payment, refundAmount);
 
-      logger.info({ paymentId, refundId: refund.id, amount: refundAmount }, 'Payment refunded');
+        logger.info({ paymentId, refundId: refund.id, amount: refundAmount, totalRefunded }, 'Payment refunded');
 
-      return updatedPayment;
+        return refundedPayment;
+      });
     } catch (err) {
+      if (err instanceof PaymentError) {
+        throw err;
+      }
+      if (err instanceof PaymentProviderError) {
+        throw new PaymentError(err.message, err.code);
+      }
       logger.error({ err, paymentId }, 'Failed to refund payment');
       throw new PaymentError('Failed to refund payment', 'REFUND_FAILED');
     }
@@ -280,10 +288,6 @@ export class PaymentService {
     userId: string,
     tenantId: string
   ): Promise<string> {
-    if (!stripe) {
-      throw new PaymentError('Stripe not configured', 'STRIPE_NOT_CONFIGURED');
-    }
-
     const user = await db.query.users.findFirst({
       where: and(eq(users.id, userId), eq(users.tenantId, tenantId)),
     });
@@ -296,36 +300,45 @@ export class PaymentService {
       return user.stripeCustomerId;
     }
 
-    const customer = await stripe.customers.create({
-      email: user.email,
-      phone: user.phone,
-      name: `${user.firstName} ${user.lastName}`,
-      metadata: {
-        userId,
-        tenantId,
-      },
-    });
+    const customerId = await this.callProvider(() =>
+      stripePaymentProvider.createCustomer({
+        email: user.email,
+        phone: user.phone,
+        name: `${user.firstName} ${user.lastName}`,
+        metadata: {
+          userId,
+          tenantId,
+        },
+      })
+    );
 
     await db.update(users)
-      .set({ stripeCustomerId: customer.id })
+      .set({ stripeCustomerId: customerId })
       .where(eq(users.id, userId));
 
-    logger.info({ userId, stripeCustomerId: customer.id }, 'Stripe customer created');
+    logger.info({ userId, stripeCustomerId: customerId }, 'Stripe customer created');
 
-    return customer.id;
+    return customerId;
   }
 
   /**
-   * Create Stripe Connect account for a driver
+   * Create a payee account for a driver with the tenant's provider
+   * (a Stripe Connect Express account for Stripe)
    */
   async createDriverConnectAccount(
     driverId: string,
     tenantId: string
   ): Promise<{ accountId: string; onboardingUrl: string }> {
-    if (!stripe) {
-      throw new PaymentError('Stripe not configured', 'STRIPE_NOT_CONFIGURED');
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    if (!tenant) {
+      throw new PaymentError('Tenant not found', 'TENANT_NOT_FOUND');
     }
 
+    const provider = this.getProvider(tenant);
+
     const driver = await db.query.users.findFirst({
       where: and(
         eq(users.id, driverId),
@@ -338,140 +351,322 @@ export class PaymentService {
       throw new PaymentError('Driver not found', 'DRIVER_NOT_FOUND');
     }
 
-    if (driver.stripeConnectAccountId) {
-      // Return existing account link
-      const accountLink = await stripe.accountLinks.create({
-        account: driver.stripeConnectAccountId,
-        refresh_url: `${config.locationService.url}/stripe/refresh`,
-        return_url: `${config.locationService.url}/stripe/return`,
-        type: 'account_onboarding',
-      });
+    const existingAccountId = getPayeeAccountId(driver, provider.name);
 
-      return {
-        accountId: driver.stripeConnectAccountId,
-        onboardingUrl: accountLink.url,
-      };
-    }
+    const payee = await this.callProvider(() =>
+      provider.onboardPayee({
+        existingAccountId,
+        email: driver.email,
+        country: 'FI', // Finland
+        metadata: {
+          driverId,
+          tenantId,
+        },
+      })
+    );
 
-    // Create Connect Express account for driver
-    const account = await stripe.accounts.create({
-      type: 'express',
-      country: 'FI', // Finland
-      email: driver.email,
-      capabilities: {
-        card_payments: { requested: true },
-        transfers: { requested: true },
-      },
-      business_type: 'individual',
-      business_profile: {
-        mcc: '4121', // Taxicabs and Limousines
-        product_description: 'Taxi driver services',
-      },
-      metadata: {
-        driverId,
-        tenantId,
-      },
-    });
+    if (payee.accountId !== existingAccountId) {
+      // Update driver with the new payee account ID
+      await db.update(users)
+        .set(provider.name === 'stripe'
+          ? { stripeConnectAccountId: payee.accountId }
+          : { payoutAccounts: { ...getPayoutAccounts(driver), [provider.name]: payee.accountId } })
+        .where(eq(users.id, driverId));
 
-    // Update driver with Connect account ID
-    await db.update(users)
-      .set({ stripeConnectAccountId: account.id })
-      .where(eq(users.id, driverId));
-
-    // Create onboarding link
-    const accountLink = await stripe.accountLinks.create({
-      account: account.id,
-      refresh_url: `${config.locationService.url}/stripe/refresh`,
-      return_url: `${config.locationService.url}/stripe/return`,
-      type: 'account_onboarding',
-    });
+      logger.info({ driverId, accountId: payee.accountId, provider: provider.name }, 'Driver payee account created');
+    }
 
-    logger.info({ driverId, accountId: account.id }, 'Stripe Connect account created');
+    return payee;
+  }
 
-    return {
-      accountId: account.id,
-      onboardingUrl: accountLink.url,
-    };
+  /**
+   * Verify a webhook request's signature and parse the event
+   */
+  constructWebhookEvent(payload: Buffer, signature: string): Stripe.Event {
+    try {
+      return stripePaymentProvider.constructWebhookEvent(payload, signature);
+    } catch (err) {
+      if (err instanceof PaymentProviderError && err.code === 'INVALID_SIGNATURE') {
+        logger.warn({ err }, 'Invalid Stripe webhook signature');
+      }
+      throw err instanceof PaymentProviderError ? new PaymentError(err.message, err.code) : err;
+    }
   }
 
   /**
-   * Process payout to driver
+   * Handle a verified Stripe webhook event
+   *
+   * The event id is recorded in the same transaction as the changes it
+   * causes, so a redelivered event is a no-op and a failed one is retried
+   * by Stripe from scratch.
+   *
+   * @returns false if the event had already been processed
    */
-  async processDriverPayout(payment: typeof payments.$inferSelect): Promise<void> {
-    if (!stripe || !payment.driverId) {
+  async handleWebhookEvent(event: Stripe.Event): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [recorded] = await tx.insert(stripeWebhookEvents)
+        .values({
+          id: event.id,
+          type: event.type,
+          stripeAccountId: event.account,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!recorded) {
+        logger.debug({ eventId: event.id, type: event.type }, 'Duplicate Stripe webhook ignored');
+        return false;
+      }
+
+      switch (event.type) {
+        case 'payment_intent.succeeded':
+          await this.handlePaymentIntentSucceeded(tx, event.data.object);
+          break;
+        case 'payment_intent.payment_failed':
+          await this.handlePaymentIntentFailed(tx, event.data.object);
+          break;
+        case 'charge.refunded':
+          await this.handleChargeRefunded(tx, event.data.object);
+          break;
+        case 'charge.dispute.created':
+          await this.handleDisputeCreated(tx, event.data.object);
+          break;
+        case 'account.updated':
+          await this.handleAccountUpdated(tx, event.data.object);
+          break;
+        default:
+          logger.debug({ eventId: event.id, type: event.type }, 'Unhandled Stripe webhook event');
+      }
+
+      logger.info({ eventId: event.id, type: event.type }, 'Stripe webhook processed');
+      return true;
+    });
+  }
+
+  private async handlePaymentIntentSucceeded(
+    tx: DbTransaction,
+    paymentIntent: Stripe.PaymentIntent
+  ): Promise<void> {
+    const payment = await this.findPaymentByIntent(tx, paymentIntent.id);
+    if (!payment) return;
+
+    const chargeId = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+
+    await this.markPaymentCompleted(tx, payment, chargeId);
+  }
+
+  private async handlePaymentIntentFailed(
+    tx: DbTransaction,
+    paymentIntent: Stripe.PaymentIntent
+  ): Promise<void> {
+    const payment = await this.findPaymentByIntent(tx, paymentIntent.id);
+    if (!payment) return;
+
+    // A late failure must not undo a payment that already went through
+    const [failedPayment] = await tx.update(payments)
+      .set({
+        status: 'failed',
+        failureCode: paymentIntent.last_payment_error?.code,
+        failureMessage: paymentIntent.last_payment_error?.message,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(payments.id, payment.id),
+        notInArray(payments.status, ['completed', 'refunded'])
+      ))
+      .returning();
+
+    if (failedPayment) {
+      await outboxService.enqueue(tx, buildPaymentEvent(EventType.PAYMENT_FAILED, failedPayment));
+      logger.warn({ paymentId: payment.id, code: failedPayment.failureCode }, 'Payment failed');
+    }
+  }
+
+  private async handleChargeRefunded(tx: DbTransaction, charge: Stripe.Charge): Promise<void> {
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+
+    if (!paymentIntentId) return;
+
+    const found = await this.findPaymentByIntent(tx, paymentIntentId);
+    if (!found) return;
+
+    // Locked so a refund issued through refundPayment meanwhile isn't counted twice
+    const [payment] = await tx.select()
+      .from(payments)
+      .where(eq(payments.id, found.id))
+      .for('update');
+
+    const refundAmount = charge.amount_refunded / 100;
+
+    // Already recorded (e.g. refund issued through refundPayment)
+    if (parseFloat(payment.refundAmount || '0') === refundAmount) {
       return;
     }
 
-    const driver = await db.query.users.findFirst({
-      where: eq(users.id, payment.driverId),
+    const [refundedPayment] = await tx.update(payments)
+      .set({
+        status: charge.refunded ? 'refunded' : payment.status,
+        stripeRefundId: charge.refunds?.data[0]?.id || payment.stripeRefundId,
+        refundAmount: refundAmount.toString(),
+        refundedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, payment.id))
+      .returning();
+
+    await outboxService.enqueue(tx, buildPaymentEvent(EventType.PAYMENT_REFUNDED, refundedPayment));
+
+    await driverLedgerService.recordRefund(
+      tx,
+      payment,
+      refundAmount - parseFloat(payment.refundAmount || '0')
+    );
+
+    logger.info({ paymentId: payment.id, refundAmount }, 'Payment refund recorded from webhook');
+  }
+
+  private async handleDisputeCreated(tx: DbTransaction, dispute: Stripe.Dispute): Promise<void> {
+    const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+
+    let payment = await tx.query.payments.findFirst({
+      where: eq(payments.stripeChargeId, chargeId),
     });
 
-    if (!driver?.stripeConnectAccountId) {
-      logger.warn({ driverId: payment.driverId }, 'Driver has no Connect account');
-      return;
+    if (!payment && dispute.payment_intent) {
+      const paymentIntentId = typeof dispute.payment_intent === 'string'
+        ? dispute.payment_intent
+        : dispute.payment_intent.id;
+      payment = await this.findPaymentByIntent(tx, paymentIntentId);
     }
 
-    const payoutAmount = parseFloat(payment.driverPayout || '0');
-    if (payoutAmount <= 0) {
+    if (!payment) {
+      logger.warn({ disputeId: dispute.id, chargeId }, 'Dispute for unknown payment');
       return;
     }
 
-    try {
-      const transfer = await stripe.transfers.create({
-        amount: Math.round(payoutAmount * 100),
-        currency: payment.currency.toLowerCase(),
-        destination: driver.stripeConnectAccountId,
-        metadata: {
-          paymentId: payment.id,
-          rideId: payment.rideId,
-        },
+    await tx.update(payments)
+      .set({
+        stripeDisputeId: dispute.id,
+        disputeStatus: dispute.status,
+        disputeReason: dispute.reason,
+        disputedAt: new Date(dispute.created * 1000),
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, payment.id));
+
+    logger.warn({
+      paymentId: payment.id,
+      rideId: payment.rideId,
+      disputeId: dispute.id,
+      reason: dispute.reason,
+    }, 'Payment disputed');
+  }
+
+  private async handleAccountUpdated(tx: DbTransaction, account: Stripe.Account): Promise<void> {
+    const onboardingComplete = !!(account.details_submitted && account.charges_enabled && account.payouts_enabled);
+
+    const updated = await tx.update(tenants)
+      .set({ stripeOnboardingComplete: onboardingComplete, updatedAt: new Date() })
+      .where(eq(tenants.stripeAccountId, account.id))
+      .returning({ id: tenants.id });
+
+    if (updated.length > 0) {
+      logger.info({ accountId: account.id, onboardingComplete }, 'Tenant Stripe onboarding status updated');
+    }
+  }
+
+  /**
+   * Mark a payment completed, assign its receipt number, link it to the
+   * ride, credit the driver's ledger and queue its Vero income report.
+   * Safe to call twice (webhook and confirmPayment may race).
+   */
+  private async markPaymentCompleted(
+    tx: DbTransaction,
+    payment: typeof payments.$inferSelect,
+    chargeId?: string
+  ): Promise<typeof payments.$inferSelect> {
+    const [completedPayment] = await tx.update(payments)
+      .set({
+        status: 'completed',
+        stripeChargeId: chargeId,
+        receiptNumber: payment.receiptNumber || this.generateReceiptNumber(payment.tenantId),
+        processedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(payments.id, payment.id),
+        notInArray(payments.status, ['completed', 'refunded'])
+      ))
+      .returning();
+
+    if (!completedPayment) {
+      // Already completed by the other path; return the current row
+      const current = await tx.query.payments.findFirst({
+        where: eq(payments.id, payment.id),
       });
+      return current || payment;
+    }
 
-      await db.update(payments)
-        .set({ stripeTransferId: transfer.id })
-        .where(eq(payments.id, payment.id));
+    await tx.update(rides)
+      .set({ paymentId: payment.id, updatedAt: new Date() })
+      .where(eq(rides.id, payment.rideId));
 
-      logger.info({
-        paymentId: payment.id,
-        driverId: payment.driverId,
-        amount: payoutAmount,
-        transferId: transfer.id,
-      }, 'Driver payout processed');
-    } catch (err) {
-      logger.error({ err, paymentId: payment.id }, 'Failed to process driver payout');
+    await outboxService.enqueue(tx, buildPaymentEvent(EventType.PAYMENT_COMPLETED, completedPayment));
+
+    // Credit the driver's earnings
+    await driverLedgerService.recordPayment(tx, completedPayment);
+
+    // Real-time income report for Vero
+    await veroReportService.enqueue(tx, completedPayment);
+
+    return completedPayment;
+  }
+
+  private async findPaymentByIntent(
+    tx: DbTransaction,
+    paymentIntentId: string
+  ): Promise<typeof payments.$inferSelect | undefined> {
+    const payment = await tx.query.payments.findFirst({
+      where: eq(payments.stripePaymentIntentId, paymentIntentId),
+    });
+
+    if (!payment) {
+      logger.warn({ paymentIntentId }, 'Stripe webhook for unknown payment intent');
     }
+
+    return payment;
   }
 
   /**
-   * Report income to Vero (Finnish Tax Administration)
-   * This is a placeholder - actual implementation would integrate with Vero API
+   * Resolve a tenant's payment provider, surfacing registry errors as PaymentErrors
    */
-  async reportToVero(input: VeroReportInput): Promise<void> {
-    if (!config.finland.veroApiEndpoint || !config.finland.veroApiKey) {
-      logger.debug('Vero API not configured, skipping reporting');
-      return;
+  private getProvider(tenant: { paymentProvider: string | null }): PaymentProvider {
+    try {
+      return getTenantPaymentProvider(tenant);
+    } catch (err) {
+      if (err instanceof PaymentProviderError) {
+        throw new PaymentError(err.message, err.code);
+      }
+      throw err;
     }
+  }
 
-    // TODO: Implement actual Vero API integration
-    // This would involve:
-    // 1. Formatting the income report according to Vero specifications
-    // 2. Authenticating with Vero API
-    // 3. Submitting the real-time income report
-    // 4. Storing the confirmation
-
-    logger.info({
-      paymentId: input.paymentId,
-      driverId: input.driverId,
-      amount: input.amount,
-    }, 'Would report to Vero API');
-
-    // Update payment with Vero report timestamp
-    await db.update(payments)
-      .set({
-        veroReportedAt: new Date(),
-        veroReportId: `VERO-${Date.now()}`, // Placeholder
-      })
-      .where(eq(payments.id, input.paymentId));
+  /**
+   * Run a provider call, surfacing provider errors as PaymentErrors
+   */
+  private async callProvider<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      if (err instanceof PaymentProviderError) {
+        throw new PaymentError(err.message, err.code);
+      }
+      throw err;
+    }
   }
 
   /**
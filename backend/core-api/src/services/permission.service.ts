@@ -0,0 +1,353 @@
+/**
+ * Permission Service
+ *
+ * Fine-grained permissions for staff (admins and dispatchers):
+ * - Permissions are named actions, e.g. `rides.reassign` or `payments.refund`
+ * - Roles bundle permissions. The built-in `admin` and `dispatcher` roles
+ *   are defined here; tenants add their own roles in the roles table
+ * - Staff get the permissions of the roles assigned to them. Staff without
+ *   any assignment get the built-in role of their user type, so existing
+ *   accounts keep working
+ *
+ * Riders and drivers have no permissions; their routes are restricted by
+ * user type alone.
+ */
+
+import { eq, and, inArray } from 'drizzle-orm';
+import { db, roles, userRoles, users } from '../db/index.js';
+import { logger } from '../utils/logger.js';
+
+// Constants
+export const PERMISSIONS = [
+  'rides.view',
+  'rides.cancel',
+  'rides.update_status',
+  'rides.reassign',
+  'payments.refund',
+  'payouts.view',
+  'payouts.adjust',
+  'drivers.suspend',
+  'pricing.edit',
+  'compliance.view', // Vero and Traficom reports, taximeter reconciliation
+  'compliance.submit',
+  'roles.manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export type StaffUserType = 'admin' | 'dispatcher';
+
+// Types
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  builtIn: boolean;
+}
+
+export interface RoleInput {
+  key: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+const BUILT_IN_ROLES: Record<StaffUserType, RoleDefinition> = {
+  admin: {
+    key: 'admin',
+    name: 'Administrator',
+    description: 'Full access to the tenant',
+    permissions: [...PERMISSIONS],
+    builtIn: true,
+  },
+  dispatcher: {
+    key: 'dispatcher',
+    name: 'Dispatcher',
+    description: 'Day-to-day ride operations',
+    permissions: ['rides.view', 'rides.cancel', 'rides.update_status', 'rides.reassign'],
+    builtIn: true,
+  },
+};
+
+const STAFF_USER_TYPES: readonly string[] = ['admin', 'dispatcher'];
+
+export class PermissionService {
+  /**
+   * Whether a user type is subject to permissions
+   */
+  isStaff(userType: string): userType is StaffUserType {
+    return STAFF_USER_TYPES.includes(userType);
+  }
+
+  /**
+   * Resolve a staff user's effective permissions
+   */
+  async getUserPermissions(userId: string, tenantId: string, userType: StaffUserType): Promise<Set<Permission>> {
+    const assignedKeys = await this.getAssignedRoleKeys(userId, tenantId);
+    const roleKeys = assignedKeys.length > 0 ? assignedKeys : [userType];
+    const definitions = await this.resolveRoles(tenantId, roleKeys);
+
+    return new Set(definitions.flatMap((role) => role.permissions));
+  }
+
+  /**
+   * Check that a staff user holds every one of the given permissions
+   */
+  async hasPermissions(
+    userId: string,
+    tenantId: string,
+    userType: StaffUserType,
+    required: Permission[]
+  ): Promise<boolean> {
+    const granted = await this.getUserPermissions(userId, tenantId, userType);
+    return required.every((permission) => granted.has(permission));
+  }
+
+  /**
+   * List the built-in roles and the tenant's own roles
+   */
+  async listRoles(tenantId: string): Promise<RoleDefinition[]> {
+    const tenantRoles = await db.query.roles.findMany({
+      where: eq(roles.tenantId, tenantId),
+      orderBy: roles.key,
+    });
+
+    return [
+      ...Object.values(BUILT_IN_ROLES),
+      ...tenantRoles.map((role) => this.toRoleDefinition(role)),
+    ];
+  }
+
+  /**
+   * Create a tenant role
+   */
+  async createRole(tenantId: string, input: RoleInput): Promise<RoleDefinition> {
+    if (input.key in BUILT_IN_ROLES) {
+      throw new PermissionError(`Role key '${input.key}' is reserved`, 'RESERVED_ROLE_KEY');
+    }
+
+    const [role] = await db.insert(roles)
+      .values({
+        tenantId,
+        key: input.key,
+        name: input.name,
+        description: input.description,
+        permissions: input.permissions,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!role) {
+      throw new PermissionError(`Role '${input.key}' already exists`, 'ROLE_EXISTS');
+    }
+
+    logger.info({ tenantId, roleKey: role.key, permissions: input.permissions }, 'Role created');
+
+    return this.toRoleDefinition(role);
+  }
+
+  /**
+   * Update a tenant role's name, description or permissions
+   */
+  async updateRole(
+    tenantId: string,
+    key: string,
+    updates: Partial<Omit<RoleInput, 'key'>>
+  ): Promise<RoleDefinition> {
+    if (key in BUILT_IN_ROLES) {
+      throw new PermissionError('Built-in roles cannot be changed', 'BUILT_IN_ROLE');
+    }
+
+    const [role] = await db.update(roles)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(roles.tenantId, tenantId),
+        eq(roles.key, key)
+      ))
+      .returning();
+
+    if (!role) {
+      throw new PermissionError('Role not found', 'ROLE_NOT_FOUND');
+    }
+
+    logger.info({ tenantId, roleKey: key, updates }, 'Role updated');
+
+    return this.toRoleDefinition(role);
+  }
+
+  /**
+   * Delete a tenant role and its assignments
+   */
+  async deleteRole(tenantId: string, key: string): Promise<void> {
+    if (key in BUILT_IN_ROLES) {
+      throw new PermissionError('Built-in roles cannot be deleted', 'BUILT_IN_ROLE');
+    }
+
+    const deleted = await db.transaction(async (tx) => {
+      await tx.delete(userRoles)
+        .where(and(
+          eq(userRoles.tenantId, tenantId),
+          eq(userRoles.roleKey, key)
+        ));
+
+      return tx.delete(roles)
+        .where(and(
+          eq(roles.tenantId, tenantId),
+          eq(roles.key, key)
+        ))
+        .returning({ id: roles.id });
+    });
+
+    if (deleted.length === 0) {
+      throw new PermissionError('Role not found', 'ROLE_NOT_FOUND');
+    }
+
+    logger.info({ tenantId, roleKey: key }, 'Role deleted');
+  }
+
+  /**
+   * Get a staff user's roles: their assignments, or the built-in role of
+   * their user type when they have none
+   */
+  async getUserRoles(userId: string, tenantId: string): Promise<RoleDefinition[]> {
+    const user = await this.getStaffUser(userId, tenantId);
+    const assignedKeys = await this.getAssignedRoleKeys(userId, tenantId);
+
+    return this.resolveRoles(tenantId, assignedKeys.length > 0 ? assignedKeys : [user.userType]);
+  }
+
+  /**
+   * Replace a staff user's role assignments
+   *
+   * @param assignedById - The admin making the change; they cannot remove
+   * their own ability to manage roles
+   */
+  async setUserRoles(
+    userId: string,
+    tenantId: string,
+    roleKeys: string[],
+    assignedById: string
+  ): Promise<RoleDefinition[]> {
+    await this.getStaffUser(userId, tenantId);
+
+    const keys = [...new Set(roleKeys)];
+    const definitions = await this.resolveRoles(tenantId, keys);
+
+    if (definitions.length !== keys.length) {
+      const known = new Set(definitions.map((role) => role.key));
+      const unknown = keys.filter((key) => !known.has(key));
+      throw new PermissionError(`Unknown roles: ${unknown.join(', ')}`, 'ROLE_NOT_FOUND');
+    }
+
+    if (userId === assignedById && !definitions.some((role) => role.permissions.includes('roles.manage'))) {
+      throw new PermissionError('You cannot remove your own roles.manage permission', 'SELF_LOCKOUT');
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(userRoles)
+        .where(and(
+          eq(userRoles.userId, userId),
+          eq(userRoles.tenantId, tenantId)
+        ));
+
+      if (keys.length > 0) {
+        await tx.insert(userRoles).values(
+          keys.map((roleKey) => ({
+            tenantId,
+            userId,
+            roleKey,
+            assignedById,
+          }))
+        );
+      }
+    });
+
+    logger.info({ tenantId, userId, roleKeys: keys, assignedById }, 'User roles assigned');
+
+    return definitions;
+  }
+
+  private async getStaffUser(userId: string, tenantId: string): Promise<typeof users.$inferSelect & { userType: StaffUserType }> {
+    const user = await db.query.users.findFirst({
+      where: and(
+        eq(users.id, userId),
+        eq(users.tenantId, tenantId)
+      ),
+    });
+
+    if (!user) {
+      throw new PermissionError('User not found', 'USER_NOT_FOUND');
+    }
+
+    if (!this.isStaff(user.userType)) {
+      throw new PermissionError('Roles can only be assigned to admins and dispatchers', 'NOT_STAFF_USER');
+    }
+
+    return user as typeof user & { userType: StaffUserType };
+  }
+
+  private async getAssignedRoleKeys(userId: string, tenantId: string): Promise<string[]> {
+    const assignments = await db.query.userRoles.findMany({
+      where: and(
+        eq(userRoles.userId, userId),
+        eq(userRoles.tenantId, tenantId)
+      ),
+    });
+
+    return assignments.map((assignment) => assignment.roleKey);
+  }
+
+  /**
+   * Look up roles by key; unknown keys are left out
+   */
+  private async resolveRoles(tenantId: string, keys: string[]): Promise<RoleDefinition[]> {
+    const builtIn = keys
+      .filter((key): key is StaffUserType => key in BUILT_IN_ROLES)
+      .map((key) => BUILT_IN_ROLES[key]);
+    const customKeys = keys.filter((key) => !(key in BUILT_IN_ROLES));
+
+    const custom = customKeys.length > 0
+      ? await db.query.roles.findMany({
+          where: and(
+            eq(roles.tenantId, tenantId),
+            inArray(roles.key, customKeys)
+          ),
+        })
+      : [];
+
+    return [...builtIn, ...custom.map((role) => this.toRoleDefinition(role))];
+  }
+
+  private toRoleDefinition(role: typeof roles.$inferSelect): RoleDefinition {
+    return {
+      key: role.key,
+      name: role.name,
+      description: role.description,
+      // Permissions since removed from the catalogue are ignored
+      permissions: (role.permissions as string[]).filter(
+        (permission): permission is Permission => (PERMISSIONS as readonly string[]).includes(permission)
+      ),
+      builtIn: false,
+    };
+  }
+}
+
+/**
+ * Custom error class for permission errors
+ */
+export class PermissionError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'PermissionError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const permissionService = new PermissionService();
@@ -0,0 +1,160 @@
+/**
+ * Phone OTP Service
+ *
+ * One-time sign-in codes sent by SMS:
+ * - Codes are random digits, stored in Redis only as an HMAC and expire
+ *   after OTP_TTL_SECONDS
+ * - A code accepts a limited number of wrong guesses before it is discarded,
+ *   and is deleted on first successful use
+ * - Requests per phone number are throttled (resend cooldown plus an hourly
+ *   cap) so the endpoint can't be used to flood a number or run up SMS costs
+ * - Messages go out through the configured SMS gateway under the tenant's
+ *   sender id
+ */
+
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { redis, redisKey } from '../db/redis.js';
+import { tenants } from '../db/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { getSmsGateway } from './sms-gateways/index.js';
+
+// Constants
+const REQUEST_WINDOW_SECONDS = 60 * 60;
+
+export class PhoneOtpService {
+  /**
+   * Generate a code for a phone number and send it by SMS
+   *
+   * @param phone - E.164 phone number
+   * @returns seconds until the code expires
+   */
+  async requestCode(tenant: typeof tenants.$inferSelect, phone: string): Promise<number> {
+    const codeKey = this.getCodeKey(tenant.id, phone);
+    const cooldownKey = redisKey('otp-cooldown', tenant.id, phone);
+    const requestsKey = redisKey('otp-requests', tenant.id, phone);
+
+    await this.withRedis(async () => {
+      const cooldownSet = await redis.set(cooldownKey, '1', 'EX', config.otp.resendCooldownSeconds, 'NX');
+
+      if (!cooldownSet) {
+        const retryAfter = await redis.ttl(cooldownKey);
+        throw new OtpError(`Wait ${Math.max(retryAfter, 1)} seconds before requesting a new code`, 'OTP_RATE_LIMITED');
+      }
+
+      const requests = await redis.incr(requestsKey);
+
+      if (requests === 1) {
+        await redis.expire(requestsKey, REQUEST_WINDOW_SECONDS);
+      }
+
+      if (requests > config.otp.maxRequestsPerHour) {
+        throw new OtpError('Too many codes requested for this number, try again later', 'OTP_RATE_LIMITED');
+      }
+    });
+
+    const code = randomInt(0, 10 ** config.otp.codeLength).toString().padStart(config.otp.codeLength, '0');
+
+    await this.withRedis(() =>
+      redis.multi()
+        .hset(codeKey, { hash: this.hashCode(tenant.id, phone, code), attempts: 0 })
+        .expire(codeKey, config.otp.ttlSeconds)
+        .exec()
+    );
+
+    try {
+      const gateway = getSmsGateway();
+      const { messageId } = await gateway.send({
+        to: phone,
+        sender: tenant.smsSenderId || config.sms.defaultSender,
+        text: `${code} is your ${tenant.name} verification code. It expires in ${Math.ceil(config.otp.ttlSeconds / 60)} minutes.`,
+      });
+
+      logger.info({ tenantId: tenant.id, messageId, gateway: gateway.name }, 'Sign-in code sent');
+    } catch (err) {
+      // Let the user retry straight away with a fresh code
+      await redis.del(codeKey, cooldownKey).catch(() => undefined);
+      logger.error({ err, tenantId: tenant.id }, 'Failed to send sign-in code');
+      throw new OtpError('Failed to send verification code', 'SMS_SEND_FAILED');
+    }
+
+    return config.otp.ttlSeconds;
+  }
+
+  /**
+   * Check a code, consuming it on success
+   *
+   * @param phone - E.164 phone number
+   */
+  async verifyCode(tenantId: string, phone: string, code: string): Promise<void> {
+    const codeKey = this.getCodeKey(tenantId, phone);
+
+    await this.withRedis(async () => {
+      const stored = await redis.hget(codeKey, 'hash');
+
+      if (!stored) {
+        throw new OtpError('Code expired or not requested', 'OTP_EXPIRED');
+      }
+
+      // Counted before comparing so parallel guesses can't exceed the limit
+      const attempts = await redis.hincrby(codeKey, 'attempts', 1);
+
+      if (attempts > config.otp.maxAttempts) {
+        await redis.del(codeKey);
+        throw new OtpError('Too many incorrect attempts, request a new code', 'OTP_ATTEMPTS_EXCEEDED');
+      }
+
+      const expected = Buffer.from(stored, 'hex');
+      const actual = Buffer.from(this.hashCode(tenantId, phone, code), 'hex');
+
+      if (!timingSafeEqual(expected, actual)) {
+        throw new OtpError('Invalid code', 'OTP_INVALID');
+      }
+
+      // Only one caller gets to use the code
+      if (await redis.del(codeKey) === 0) {
+        throw new OtpError('Code expired or not requested', 'OTP_EXPIRED');
+      }
+    });
+  }
+
+  private getCodeKey(tenantId: string, phone: string): string {
+    return redisKey('otp', tenantId, phone);
+  }
+
+  private hashCode(tenantId: string, phone: string, code: string): string {
+    return createHmac('sha256', config.jwt.secret)
+      .update(`${tenantId}:${phone}:${code}`)
+      .digest('hex');
+  }
+
+  /**
+   * Run Redis commands, reporting an unreachable Redis as OTP_UNAVAILABLE
+   */
+  private async withRedis<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      if (err instanceof OtpError) throw err;
+
+      logger.error({ err }, 'Sign-in code store unavailable');
+      throw new OtpError('Phone sign-in is temporarily unavailable', 'OTP_UNAVAILABLE');
+    }
+  }
+}
+
+/**
+ * Custom error class for phone OTP errors
+ */
+export class OtpError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'OtpError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const phoneOtpService = new PhoneOtpService();
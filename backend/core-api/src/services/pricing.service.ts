@@ -0,0 +1,466 @@
+/**
+ * Pricing Service
+ *
+ * Tenant pricing configuration:
+ * - Configs are validated with pricingConfigSchema. Configs in the original
+ *   single-tariff shape are upgraded on read
+ * - Tariffs (e.g. day, night, weekend, holiday) are selected by local time
+ *   in the tenant's time zone: the first tariff whose rules match wins, and
+ *   the tariff without rules is the fallback
+ * - Fares are scaled per vehicle type and carry passenger surcharges and
+ *   airport fees on top
+ * - Riders can book at a fixed, upfront price; the config decides how long
+ *   quotes stay valid and when a ride's fixed price is void
+ * - Every change is published as a new, immutable version. Rides keep the
+ *   version they were quoted with, so they are charged (and can be audited)
+ *   with the exact tariffs in force when booked
+ */
+
+import { z } from 'zod';
+import { eq, and, desc } from 'drizzle-orm';
+import { db, tenants, pricingConfigVersions, vehicleTypeEnum } from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { haversineDistance } from '../utils/haversine.js';
+import { getLocalTime, parseTimeOfDay, LocalTime } from '../utils/local-time.js';
+
+// Constants
+const DEFAULT_TIMEZONE = 'Europe/Helsinki';
+
+const DEFAULT_VEHICLE_TYPE_MULTIPLIERS = {
+  standard: 1.0,
+  comfort: 1.3,
+  xl: 1.5,
+  accessible: 1.0, // No extra charge for accessible
+  electric: 1.1,
+};
+
+// Validation schemas
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time of day, HH:MM');
+const amountSchema = z.number().min(0).max(10000);
+
+const tariffRuleSchema = z.object({
+  days: z.array(z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun', 'holiday'])).min(1).optional(),
+  // Local time window; `to` is exclusive, and a window ending before it
+  // starts runs past midnight (e.g. 20:00-06:00)
+  from: timeOfDaySchema.optional(),
+  to: timeOfDaySchema.optional(),
+})
+  .refine((rule) => (rule.from === undefined) === (rule.to === undefined), 'from and to must be set together')
+  .refine((rule) => rule.days !== undefined || rule.from !== undefined, 'A rule needs days or a time window');
+
+const tariffSchema = z.object({
+  code: z.string().regex(/^[a-z][a-z0-9_]{0,19}$/, 'Lowercase letters, digits and underscores'),
+  name: z.string().min(1).max(100).optional(),
+  baseFare: amountSchema,
+  perKmRate: amountSchema,
+  perMinuteRate: amountSchema,
+  minimumFare: amountSchema.optional(), // Overrides the config-wide minimum
+  when: z.array(tariffRuleSchema).min(1).max(20).optional(), // Omitted on the fallback tariff
+});
+
+const passengerSurchargeSchema = z.object({
+  minPassengers: z.number().int().min(2).max(20),
+  amount: amountSchema,
+});
+
+const airportFeeSchema = z.object({
+  code: z.string().min(1).max(10), // e.g. 'HEL'
+  name: z.string().max(100).optional(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radiusMeters: z.number().int().min(50).max(20000),
+  amount: amountSchema,
+  appliesTo: z.enum(['pickup', 'dropoff', 'both']).default('both'),
+});
+
+const upfrontPricingSchema = z.object({
+  enabled: z.boolean().default(true),
+  quoteTtlSeconds: z.number().int().min(30).max(3600).default(300),
+  // Fixed price no longer applies when the driven distance exceeds the quoted one by more
+  maxRouteDeviationPercent: z.number().min(0).max(500).default(20),
+  voidOnExtraStop: z.boolean().default(true),
+});
+
+const surgeCurvePointSchema = z.object({
+  demandRatio: z.number().min(0),
+  multiplier: z.number().min(1).max(10),
+});
+
+export const pricingConfigSchema = z.preprocess(upgradeLegacyConfig, z.object({
+  tariffs: z.array(tariffSchema).min(1).max(20),
+  holidays: z.array(z.string().date()).max(100).default([]), // Local dates using `holiday` tariff rules
+  minimumFare: amountSchema,
+  bookingFee: amountSchema,
+  vehicleTypeMultipliers: z.record(z.enum(vehicleTypeEnum.enumValues), z.number().min(0.1).max(10))
+    .default(DEFAULT_VEHICLE_TYPE_MULTIPLIERS), // Types left out are priced at 1.0
+  passengerSurcharges: z.array(passengerSurchargeSchema).max(10).default([]), // Highest threshold reached applies
+  airportFees: z.array(airportFeeSchema).max(20).default([]),
+  upfrontPricing: upfrontPricingSchema.default({}), // Fixed-price quotes and when they are void
+  surgePricingEnabled: z.boolean(),
+  surgeCurve: z.array(surgeCurvePointSchema).min(1).max(20).optional(),
+  surgeSmoothingFactor: z.number().gt(0).max(1).optional(),
+  maxSurgeMultiplier: z.number().min(1).max(10).optional(),
+  vatRate: z.number().min(0).lt(1),
+}).superRefine((pricingConfig, ctx) => {
+  const codes = pricingConfig.tariffs.map((tariff) => tariff.code);
+
+  if (new Set(codes).size !== codes.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tariffs'], message: 'Tariff codes must be unique' });
+  }
+
+  if (pricingConfig.tariffs.filter((tariff) => !tariff.when).length !== 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['tariffs'],
+      message: 'Exactly one tariff must have no rules (the fallback)',
+    });
+  }
+
+  const curve = pricingConfig.surgeCurve || [];
+
+  for (let i = 1; i < curve.length; i++) {
+    if (curve[i].demandRatio <= curve[i - 1].demandRatio || curve[i].multiplier < curve[i - 1].multiplier) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['surgeCurve', i],
+        message: 'Surge curve demand ratios must increase and multipliers must not decrease',
+      });
+      break;
+    }
+  }
+
+  if (
+    pricingConfig.maxSurgeMultiplier !== undefined &&
+    curve.some((point) => point.multiplier > pricingConfig.maxSurgeMultiplier!)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['maxSurgeMultiplier'],
+      message: 'Surge curve exceeds maxSurgeMultiplier',
+    });
+  }
+}));
+
+// Types
+export type PricingConfig = z.infer<typeof pricingConfigSchema>;
+export type Tariff = PricingConfig['tariffs'][number];
+
+export interface PricingVersion {
+  id: string;
+  tenantId: string;
+  version: number;
+  config: PricingConfig;
+  createdById: string | null;
+  createdAt: Date;
+}
+
+type Tenant = typeof tenants.$inferSelect;
+
+/**
+ * Configs from before tariffs existed hold one set of rates at the top
+ * level; they become the fallback tariff
+ */
+function upgradeLegacyConfig(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || 'tariffs' in value) {
+    return value;
+  }
+
+  const { baseFare, perKmRate, perMinuteRate, ...rest } = value as Record<string, unknown>;
+
+  return {
+    ...rest,
+    tariffs: [{ code: 'standard', name: 'Standard', baseFare, perKmRate, perMinuteRate }],
+  };
+}
+
+export class PricingService {
+  /**
+   * Validate a pricing config
+   */
+  parseConfig(value: unknown): PricingConfig {
+    const result = pricingConfigSchema.safeParse(value);
+
+    if (!result.success) {
+      const problems = result.error.errors.map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+      throw new PricingError(`Invalid pricing config: ${problems.join('; ')}`, 'INVALID_PRICING_CONFIG');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Whether a stored config is valid
+   */
+  isValidConfig(value: unknown): boolean {
+    return pricingConfigSchema.safeParse(value).success;
+  }
+
+  /**
+   * The version new rides are priced with. Tenants whose config predates
+   * versioning get it recorded as version 1.
+   */
+  async getCurrentVersion(tenant: Tenant): Promise<PricingVersion> {
+    if (tenant.pricingConfigVersion !== null) {
+      const current = await db.query.pricingConfigVersions.findFirst({
+        where: and(
+          eq(pricingConfigVersions.tenantId, tenant.id),
+          eq(pricingConfigVersions.version, tenant.pricingConfigVersion)
+        ),
+      });
+
+      if (current) {
+        return this.toPricingVersion(current);
+      }
+    }
+
+    return db.transaction(async (tx) => {
+      const [locked] = await tx.select()
+        .from(tenants)
+        .where(eq(tenants.id, tenant.id))
+        .for('update');
+
+      if (locked.pricingConfigVersion !== null) {
+        const current = await tx.query.pricingConfigVersions.findFirst({
+          where: and(
+            eq(pricingConfigVersions.tenantId, tenant.id),
+            eq(pricingConfigVersions.version, locked.pricingConfigVersion)
+          ),
+        });
+
+        if (current) {
+          return this.toPricingVersion(current);
+        }
+      }
+
+      const [recorded] = await tx.insert(pricingConfigVersions)
+        .values({
+          tenantId: tenant.id,
+          version: 1,
+          config: this.parseConfig(locked.pricingConfig),
+        })
+        .returning();
+
+      await tx.update(tenants)
+        .set({ pricingConfigVersion: 1 })
+        .where(eq(tenants.id, tenant.id));
+
+      logger.info({ tenantId: tenant.id }, 'Existing pricing config recorded as version 1');
+
+      return this.toPricingVersion(recorded);
+    });
+  }
+
+  /**
+   * The version new rides of a tenant are priced with
+   */
+  async getTenantCurrentVersion(tenantId: string): Promise<PricingVersion> {
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    if (!tenant) {
+      throw new PricingError('Tenant not found', 'TENANT_NOT_FOUND');
+    }
+
+    return this.getCurrentVersion(tenant);
+  }
+
+  /**
+   * Publish a new pricing version; it applies to rides booked from now on
+   *
+   * @param createdById - The admin making the change
+   */
+  async publishConfig(tenantId: string, value: unknown, createdById?: string): Promise<PricingVersion> {
+    const pricingConfig = this.parseConfig(value);
+
+    const published = await db.transaction(async (tx) => {
+      const [tenant] = await tx.select()
+        .from(tenants)
+        .where(eq(tenants.id, tenantId))
+        .for('update');
+
+      if (!tenant) {
+        throw new PricingError('Tenant not found', 'TENANT_NOT_FOUND');
+      }
+
+      let version = tenant.pricingConfigVersion ?? 0;
+
+      // Keep the config being replaced in the history
+      if (version === 0 && this.isValidConfig(tenant.pricingConfig)) {
+        await tx.insert(pricingConfigVersions).values({
+          tenantId,
+          version: 1,
+          config: this.parseConfig(tenant.pricingConfig),
+        });
+        version = 1;
+      }
+
+      const [created] = await tx.insert(pricingConfigVersions)
+        .values({
+          tenantId,
+          version: version + 1,
+          config: pricingConfig,
+          createdById,
+        })
+        .returning();
+
+      await tx.update(tenants)
+        .set({
+          pricingConfig,
+          pricingConfigVersion: created.version,
+          updatedAt: new Date(),
+        })
+        .where(eq(tenants.id, tenantId));
+
+      return created;
+    });
+
+    logger.info({ tenantId, version: published.version, createdById }, 'Pricing config published');
+
+    return this.toPricingVersion(published);
+  }
+
+  /**
+   * List a tenant's pricing versions, newest first
+   */
+  async listVersions(tenantId: string, limit: number = 50, offset: number = 0): Promise<PricingVersion[]> {
+    const versions = await db.query.pricingConfigVersions.findMany({
+      where: eq(pricingConfigVersions.tenantId, tenantId),
+      orderBy: desc(pricingConfigVersions.version),
+      limit,
+      offset,
+    });
+
+    return versions.map((version) => this.toPricingVersion(version));
+  }
+
+  /**
+   * Get a pricing version by number
+   */
+  async getVersion(tenantId: string, version: number): Promise<PricingVersion> {
+    const found = await db.query.pricingConfigVersions.findFirst({
+      where: and(
+        eq(pricingConfigVersions.tenantId, tenantId),
+        eq(pricingConfigVersions.version, version)
+      ),
+    });
+
+    if (!found) {
+      throw new PricingError('Pricing version not found', 'PRICING_VERSION_NOT_FOUND');
+    }
+
+    return this.toPricingVersion(found);
+  }
+
+  /**
+   * Get the pricing version a ride references
+   */
+  async getVersionById(versionId: string): Promise<PricingVersion> {
+    const found = await db.query.pricingConfigVersions.findFirst({
+      where: eq(pricingConfigVersions.id, versionId),
+    });
+
+    if (!found) {
+      throw new PricingError('Pricing version not found', 'PRICING_VERSION_NOT_FOUND');
+    }
+
+    return this.toPricingVersion(found);
+  }
+
+  /**
+   * Select the tariff in force at an instant, by local time in the
+   * tenant's time zone
+   */
+  selectTariff(pricingConfig: PricingConfig, at: Date, timeZone: string | null): Tariff {
+    const local = getLocalTime(at, timeZone || DEFAULT_TIMEZONE);
+    const isHoliday = pricingConfig.holidays.includes(local.date);
+
+    const matching = pricingConfig.tariffs.find((tariff) =>
+      tariff.when?.some((rule) => this.ruleMatches(rule, local, isHoliday))
+    );
+
+    return matching ?? pricingConfig.tariffs.find((tariff) => !tariff.when)!;
+  }
+
+  getVehicleTypeMultiplier(pricingConfig: PricingConfig, vehicleType: string): number {
+    return pricingConfig.vehicleTypeMultipliers[vehicleType as keyof PricingConfig['vehicleTypeMultipliers']] ?? 1.0;
+  }
+
+  /**
+   * Surcharge for the party size: the highest threshold reached applies
+   */
+  getPassengerSurcharge(pricingConfig: PricingConfig, numberOfPassengers: number): number {
+    return pricingConfig.passengerSurcharges
+      .filter((surcharge) => numberOfPassengers >= surcharge.minPassengers)
+      .reduce((highest, surcharge) => Math.max(highest, surcharge.amount), 0);
+  }
+
+  /**
+   * Fees of the airports a ride starts or ends at, each charged once
+   */
+  getAirportFee(
+    pricingConfig: PricingConfig,
+    pickupLat: number,
+    pickupLng: number,
+    dropoffLat: number,
+    dropoffLng: number
+  ): number {
+    return pricingConfig.airportFees.reduce((total, airport) => {
+      const atPickup = airport.appliesTo !== 'dropoff' &&
+        haversineDistance(pickupLat, pickupLng, airport.latitude, airport.longitude) <= airport.radiusMeters;
+      const atDropoff = airport.appliesTo !== 'pickup' &&
+        haversineDistance(dropoffLat, dropoffLng, airport.latitude, airport.longitude) <= airport.radiusMeters;
+
+      return atPickup || atDropoff ? total + airport.amount : total;
+    }, 0);
+  }
+
+  private ruleMatches(
+    rule: NonNullable<Tariff['when']>[number],
+    local: LocalTime,
+    isHoliday: boolean
+  ): boolean {
+    if (rule.days && !rule.days.some((day) => day === local.weekday || (day === 'holiday' && isHoliday))) {
+      return false;
+    }
+
+    if (rule.from !== undefined && rule.to !== undefined) {
+      const from = parseTimeOfDay(rule.from);
+      const to = parseTimeOfDay(rule.to);
+
+      return from <= to
+        ? local.minutes >= from && local.minutes < to
+        : local.minutes >= from || local.minutes < to;
+    }
+
+    return true;
+  }
+
+  private toPricingVersion(row: typeof pricingConfigVersions.$inferSelect): PricingVersion {
+    return {
+      id: row.id,
+      tenantId: row.tenantId,
+      version: row.version,
+      // Written validated, so parsing only fills defaults
+      config: pricingConfigSchema.parse(row.config),
+      createdById: row.createdById,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+/**
+ * Custom error class for pricing errors
+ */
+export class PricingError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'PricingError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const pricingService = new PricingService();
@@ -0,0 +1,138 @@
+/**
+ * Quote Service
+ *
+ * Upfront fare quotes. A quote is a signed, expiring token carrying the
+ * fare estimate and the trip it was made for. Booking a ride with it locks
+ * the quoted price, provided the trip is the one quoted; a quote books at
+ * most one ride (unique rides.quote_id).
+ */
+
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/index.js';
+import { haversineDistance } from '../utils/haversine.js';
+import type { FareEstimate } from './dispatch.service.js';
+
+// Types
+export interface QuoteRequest {
+  pickupLatitude: number;
+  pickupLongitude: number;
+  dropoffLatitude: number;
+  dropoffLongitude: number;
+  vehicleType: string;
+  numberOfPassengers: number;
+  scheduledPickupTime?: Date;
+}
+
+export interface FareQuote {
+  quoteId: string;
+  quoteToken: string;
+  expiresAt: Date;
+}
+
+export interface VerifiedQuote {
+  quoteId: string;
+  fare: FareEstimate;
+}
+
+interface QuoteTokenPayload {
+  type: 'fare_quote';
+  jti: string;
+  tenantId: string;
+  riderId: string;
+  request: Omit<QuoteRequest, 'scheduledPickupTime'> & { scheduledPickupTime: string | null };
+  fare: FareEstimate;
+}
+
+// Constants
+const LOCATION_TOLERANCE_METERS = 100; // Booking may re-geocode the quoted points slightly
+
+export class QuoteService {
+  /**
+   * Issue a quote for a rider
+   */
+  createQuote(
+    tenantId: string,
+    riderId: string,
+    request: QuoteRequest,
+    fare: FareEstimate,
+    ttlSeconds: number
+  ): FareQuote {
+    const quoteId = uuidv4();
+
+    const payload: Omit<QuoteTokenPayload, 'jti'> = {
+      type: 'fare_quote',
+      tenantId,
+      riderId,
+      request: {
+        ...request,
+        scheduledPickupTime: request.scheduledPickupTime?.toISOString() ?? null,
+      },
+      fare,
+    };
+
+    const quoteToken = jwt.sign(payload, config.jwt.secret, {
+      expiresIn: ttlSeconds,
+      jwtid: quoteId,
+    });
+
+    return {
+      quoteId,
+      quoteToken,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    };
+  }
+
+  /**
+   * Check a quote was issued to this rider for this trip and hasn't expired
+   */
+  verifyQuote(quoteToken: string, tenantId: string, riderId: string, request: QuoteRequest): VerifiedQuote {
+    let payload: QuoteTokenPayload;
+
+    try {
+      payload = jwt.verify(quoteToken, config.jwt.secret) as QuoteTokenPayload;
+    } catch (err) {
+      if (err instanceof jwt.TokenExpiredError) {
+        throw new QuoteError('Quote expired, request a new estimate', 'QUOTE_EXPIRED');
+      }
+      throw new QuoteError('Invalid quote', 'QUOTE_INVALID');
+    }
+
+    if (payload.type !== 'fare_quote' || payload.tenantId !== tenantId || payload.riderId !== riderId) {
+      throw new QuoteError('Invalid quote', 'QUOTE_INVALID');
+    }
+
+    const quoted = payload.request;
+    const sameTrip =
+      haversineDistance(quoted.pickupLatitude, quoted.pickupLongitude, request.pickupLatitude, request.pickupLongitude) <= LOCATION_TOLERANCE_METERS &&
+      haversineDistance(quoted.dropoffLatitude, quoted.dropoffLongitude, request.dropoffLatitude, request.dropoffLongitude) <= LOCATION_TOLERANCE_METERS &&
+      quoted.vehicleType === request.vehicleType &&
+      quoted.numberOfPassengers === request.numberOfPassengers &&
+      quoted.scheduledPickupTime === (request.scheduledPickupTime?.toISOString() ?? null);
+
+    if (!sameTrip) {
+      throw new QuoteError('Ride does not match the quoted trip', 'QUOTE_MISMATCH');
+    }
+
+    return {
+      quoteId: payload.jti,
+      fare: payload.fare,
+    };
+  }
+}
+
+/**
+ * Custom error class for quote errors
+ */
+export class QuoteError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'QuoteError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const quoteService = new QuoteService();
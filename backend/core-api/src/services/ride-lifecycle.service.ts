@@ -0,0 +1,291 @@
+/**
+ * Ride Lifecycle Service
+ *
+ * Central state machine for ride status. Every status change goes through
+ * here so that:
+ * - Only legal transitions are allowed, per actor (rider, driver, dispatcher, system)
+ * - Riders and drivers can only move their own rides
+ * - Lifecycle timestamp columns are set consistently
+ * - Each transition is recorded in ride_events
+ * - Each transition emits a Kafka event (mobility.rides, keyed by ride id)
+ *   through the transactional outbox
+ * - Each committed transition updates the location-service's view of which
+ *   driver a rider may track
+ */
+
+import { eq, and, asc } from 'drizzle-orm';
+import { db, rides, rideEvents, DbTransaction } from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { buildRideRequestedEvent, buildRideStatusEvent } from './kafka.service.js';
+import { outboxService } from './outbox.service.js';
+import { rideTrackingService } from './ride-tracking.service.js';
+
+// Types
+export type RideStatus = NonNullable<typeof rides.$inferSelect['status']>;
+export type RideActorType = 'rider' | 'driver' | 'dispatcher' | 'system';
+
+export interface RideActor {
+  type: RideActorType;
+  id?: string;
+}
+
+export interface RideTransitionInput {
+  rideId: string;
+  tenantId: string;
+  to: RideStatus;
+  actor: RideActor;
+  updates?: Partial<typeof rides.$inferInsert>;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+type TransitionTable = Record<RideStatus, Partial<Record<RideStatus, RideActorType[]>>>;
+
+const STAFF: RideActorType[] = ['dispatcher', 'system'];
+
+/**
+ * Legal transitions: from -> to -> actors allowed to make the move.
+ * A cancellation status records who cancelled: the rider, the driver, or
+ * an operator (dispatcher, admin or system).
+ * Completed and cancelled rides are terminal.
+ */
+export const RIDE_TRANSITIONS: TransitionTable = {
+  requested: {
+    searching: [...STAFF],
+    cancelled_by_rider: ['rider'],
+    cancelled_by_operator: [...STAFF],
+  },
+  searching: {
+    driver_assigned: [...STAFF],
+    no_drivers_available: [...STAFF],
+    cancelled_by_rider: ['rider'],
+    cancelled_by_operator: [...STAFF],
+  },
+  no_drivers_available: {
+    searching: ['rider', ...STAFF],
+    cancelled_by_rider: ['rider'],
+    cancelled_by_operator: [...STAFF],
+  },
+  driver_assigned: {
+    driver_arriving: ['driver', 'dispatcher'],
+    arrived: ['driver', 'dispatcher'],
+    searching: [...STAFF], // Reassignment
+    cancelled_by_rider: ['rider'],
+    cancelled_by_driver: ['driver'],
+    cancelled_by_operator: [...STAFF],
+  },
+  driver_arriving: {
+    arrived: ['driver', 'dispatcher'],
+    searching: [...STAFF], // Reassignment
+    cancelled_by_rider: ['rider'],
+    cancelled_by_driver: ['driver'],
+    cancelled_by_operator: [...STAFF],
+  },
+  arrived: {
+    in_progress: ['driver', 'dispatcher'],
+    cancelled_by_rider: ['rider'],
+    cancelled_by_driver: ['driver'], // e.g. rider no-show
+    cancelled_by_operator: [...STAFF],
+  },
+  in_progress: {
+    completed: ['driver', ...STAFF],
+    cancelled_by_operator: [...STAFF],
+  },
+  completed: {},
+  cancelled_by_rider: {},
+  cancelled_by_driver: {},
+  cancelled_by_operator: {},
+};
+
+// Statuses in which a driver is attached to the ride
+const ASSIGNED_STATUSES: RideStatus[] = ['driver_assigned', 'driver_arriving', 'arrived'];
+
+export class RideLifecycleService {
+  /**
+   * Check whether an actor may move a ride between two statuses
+   */
+  canTransition(from: RideStatus, to: RideStatus, actorType: RideActorType): boolean {
+    return RIDE_TRANSITIONS[from][to]?.includes(actorType) ?? false;
+  }
+
+  /**
+   * Whether a status is terminal (no further transitions)
+   */
+  isTerminal(status: RideStatus): boolean {
+    return Object.keys(RIDE_TRANSITIONS[status]).length === 0;
+  }
+
+  /**
+   * Apply a validated status transition
+   *
+   * Runs in the caller's transaction when one is given, otherwise in its own.
+   * The ride row is locked so concurrent transitions are serialized.
+   * A caller passing its transaction publishes the ride's tracking update
+   * (rideTrackingService.publishRideStatus) once it commits.
+   */
+  async transition(
+    input: RideTransitionInput,
+    tx?: DbTransaction
+  ): Promise<typeof rides.$inferSelect> {
+    if (tx) {
+      return this.applyTransition(tx, input);
+    }
+
+    const ride = await db.transaction((transaction) => this.applyTransition(transaction, input));
+    await rideTrackingService.publishRideStatus(ride);
+
+    return ride;
+  }
+
+  /**
+   * Record the initial status of a newly created ride and emit its
+   * requested event
+   */
+  async recordCreated(
+    tx: DbTransaction,
+    ride: typeof rides.$inferSelect,
+    actor: RideActor
+  ): Promise<void> {
+    await tx.insert(rideEvents).values({
+      tenantId: ride.tenantId,
+      rideId: ride.id,
+      fromStatus: null,
+      toStatus: ride.status || 'requested',
+      actorType: actor.type,
+      actorId: actor.id,
+    });
+
+    await outboxService.enqueue(tx, buildRideRequestedEvent(ride));
+  }
+
+  /**
+   * Get the transition history of a ride, oldest first
+   */
+  async getHistory(rideId: string, tenantId: string): Promise<(typeof rideEvents.$inferSelect)[]> {
+    return db.query.rideEvents.findMany({
+      where: and(
+        eq(rideEvents.rideId, rideId),
+        eq(rideEvents.tenantId, tenantId)
+      ),
+      orderBy: asc(rideEvents.createdAt),
+    });
+  }
+
+  private async applyTransition(
+    tx: DbTransaction,
+    input: RideTransitionInput
+  ): Promise<typeof rides.$inferSelect> {
+    const { rideId, tenantId, to, actor, updates, reason, metadata } = input;
+
+    const [ride] = await tx.select()
+      .from(rides)
+      .where(and(
+        eq(rides.id, rideId),
+        eq(rides.tenantId, tenantId)
+      ))
+      .for('update');
+
+    if (!ride) {
+      throw new RideLifecycleError('Ride not found', 'RIDE_NOT_FOUND');
+    }
+
+    this.assertParticipant(ride, actor);
+
+    const from = ride.status || 'requested';
+
+    if (!this.canTransition(from, to, actor.type)) {
+      throw new RideLifecycleError(
+        `Cannot change ride status from ${from} to ${to} as ${actor.type}`,
+        'INVALID_STATUS_TRANSITION'
+      );
+    }
+
+    const now = new Date();
+
+    const [updatedRide] = await tx.update(rides)
+      .set({
+        ...updates,
+        ...this.getTransitionSideEffects(from, to, now),
+        status: to,
+        updatedAt: now,
+      })
+      .where(eq(rides.id, ride.id))
+      .returning();
+
+    await tx.insert(rideEvents).values({
+      tenantId,
+      rideId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: actor.type,
+      actorId: actor.id,
+      reason,
+      metadata,
+    });
+
+    const event = buildRideStatusEvent(updatedRide, from, Number(metadata?.eta) || 0);
+    if (event) {
+      await outboxService.enqueue(tx, event);
+    }
+
+    logger.info({ rideId, from, to, actor: actor.type }, 'Ride status transitioned');
+
+    return updatedRide;
+  }
+
+  /**
+   * Riders and drivers may only act on rides they take part in
+   */
+  private assertParticipant(ride: typeof rides.$inferSelect, actor: RideActor): void {
+    if (actor.type === 'rider' && ride.riderId !== actor.id) {
+      throw new RideLifecycleError('Not the rider of this ride', 'NOT_RIDE_PARTICIPANT');
+    }
+
+    if (actor.type === 'driver' && ride.driverId !== actor.id) {
+      throw new RideLifecycleError('Not the driver assigned to this ride', 'NOT_RIDE_PARTICIPANT');
+    }
+  }
+
+  /**
+   * Column updates implied by entering a status
+   */
+  private getTransitionSideEffects(
+    from: RideStatus,
+    to: RideStatus,
+    now: Date
+  ): Partial<typeof rides.$inferInsert> {
+    switch (to) {
+      case 'driver_assigned':
+        return { driverAssignedAt: now };
+      case 'arrived':
+        return { driverArrivedAt: now };
+      case 'in_progress':
+        return { rideStartedAt: now };
+      case 'completed':
+        return { rideCompletedAt: now };
+      case 'searching':
+        // Reassignment releases the current driver
+        return ASSIGNED_STATUSES.includes(from)
+          ? { driverId: null, vehicleId: null, driverAssignedAt: null, driverArrivedAt: null }
+          : {};
+      default:
+        return {};
+    }
+  }
+}
+
+/**
+ * Custom error class for ride lifecycle errors
+ */
+export class RideLifecycleError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'RideLifecycleError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const rideLifecycleService = new RideLifecycleService();
@@ -0,0 +1,319 @@
+/**
+ * Ride Offer Service
+ *
+ * Runs the per-driver offer cycle used by dispatch:
+ * - Persists an offer row and pushes it to the driver's WebSocket
+ *   (relayed by the location-service through Redis pub/sub)
+ * - Waits for the driver's accept/decline or for the offer to expire
+ * - Records the outcome so acceptance rates can be reported
+ */
+
+import { eq, and, gte, sql } from 'drizzle-orm';
+import { db, rides, rideOffers } from '../db/index.js';
+import { redis, redisKey, createRedisSubscriber } from '../db/redis.js';
+import { logger } from '../utils/logger.js';
+import type { NearbyDriver } from './dispatch.service.js';
+
+// Types
+export type RideOfferOutcome = 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+/**
+ * Offer payload delivered to the driver app (mirrors the Flutter RideOffer model)
+ */
+export interface RideOffer {
+  offerId: string;
+  rideId: string;
+  pickupAddress: string;
+  pickupLat: number;
+  pickupLng: number;
+  dropoffAddress: string;
+  dropoffLat: number;
+  dropoffLng: number;
+  estimatedFare: number;
+  distanceMeters: number;
+  etaMinutes: number;
+  vehicleType: string;
+  expiresAt: string;
+}
+
+/**
+ * Message published to the location-service for delivery to a driver
+ */
+export interface DriverOfferMessage {
+  type: 'ride_offer' | 'ride_offer_cancelled';
+  tenantId: string;
+  driverId: string;
+  payload: RideOffer | { offerId: string; rideId: string };
+}
+
+/**
+ * Driver response relayed back from the location-service
+ */
+export interface OfferResponseMessage {
+  tenantId: string;
+  driverId: string;
+  rideId: string;
+  accepted: boolean;
+  reason?: string;
+}
+
+export interface OfferStats {
+  offered: number;
+  accepted: number;
+  declined: number;
+  expired: number;
+  acceptanceRate: number;
+}
+
+type OfferWaiter = (response: OfferResponseMessage | null) => void;
+
+const OFFERS_CHANNEL = redisKey('ride-offers');
+const RESPONSES_CHANNEL = redisKey('ride-offer-responses');
+
+export class RideOfferService {
+  // Pending offers awaiting a response on this instance, keyed by ride and driver
+  private waiters: Map<string, OfferWaiter> = new Map();
+  private isListening = false;
+
+  /**
+   * Subscribe to driver responses relayed by the location-service
+   */
+  async startListening(): Promise<void> {
+    if (this.isListening) return;
+
+    const subscriber = createRedisSubscriber();
+    await subscriber.subscribe(RESPONSES_CHANNEL);
+
+    subscriber.on('message', (_channel: string, message: string) => {
+      this.handleResponse(message);
+    });
+
+    this.isListening = true;
+    logger.info({ channel: RESPONSES_CHANNEL }, 'Listening for ride offer responses');
+  }
+
+  /**
+   * Offer a ride to a single driver and wait for the outcome
+   */
+  async offerRide(
+    ride: typeof rides.$inferSelect,
+    driver: NearbyDriver,
+    timeoutSeconds: number
+  ): Promise<RideOfferOutcome> {
+    const expiresAt = new Date(Date.now() + timeoutSeconds * 1000);
+
+    const [offer] = await db.insert(rideOffers).values({
+      tenantId: ride.tenantId,
+      rideId: ride.id,
+      driverId: driver.driverId,
+      distanceMeters: Math.round(driver.distance),
+      etaSeconds: driver.eta,
+      expiresAt,
+    }).returning();
+
+    // Register the waiter before publishing so a fast response isn't missed
+    const waiterKey = this.getWaiterKey(ride.id, driver.driverId);
+    const response = new Promise<OfferResponseMessage | null>((resolve) => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiterKey);
+        resolve(null);
+      }, timeoutSeconds * 1000);
+
+      this.waiters.set(waiterKey, (result) => {
+        clearTimeout(timer);
+        this.waiters.delete(waiterKey);
+        resolve(result);
+      });
+    });
+
+    try {
+      await this.publishToDriver({
+        type: 'ride_offer',
+        tenantId: ride.tenantId,
+        driverId: driver.driverId,
+        payload: this.toOfferPayload(offer.id, ride, driver, expiresAt),
+      });
+    } catch (err) {
+      this.waiters.get(waiterKey)?.(null);
+      await db.update(rideOffers)
+        .set({ status: 'cancelled' })
+        .where(eq(rideOffers.id, offer.id));
+      throw err;
+    }
+
+    logger.info({
+      offerId: offer.id,
+      rideId: ride.id,
+      driverId: driver.driverId,
+      expiresAt,
+    }, 'Ride offer sent');
+
+    const result = await response;
+    const status: RideOfferOutcome = result
+      ? (result.accepted ? 'accepted' : 'declined')
+      : 'expired';
+
+    // Only a still-pending offer can be resolved; a cancelled one stays cancelled
+    const [updatedOffer] = await db.update(rideOffers)
+      .set({
+        status,
+        respondedAt: result ? new Date() : null,
+        declineReason: result?.accepted === false ? result.reason : null,
+      })
+      .where(and(
+        eq(rideOffers.id, offer.id),
+        eq(rideOffers.status, 'pending')
+      ))
+      .returning();
+
+    if (!updatedOffer) {
+      return 'cancelled';
+    }
+
+    logger.info({ offerId: offer.id, rideId: ride.id, driverId: driver.driverId, status }, 'Ride offer resolved');
+
+    return status;
+  }
+
+  /**
+   * Withdraw any pending offers for a ride (e.g. the rider cancelled)
+   */
+  async cancelPendingOffers(rideId: string): Promise<void> {
+    const cancelled = await db.update(rideOffers)
+      .set({ status: 'cancelled' })
+      .where(and(
+        eq(rideOffers.rideId, rideId),
+        eq(rideOffers.status, 'pending')
+      ))
+      .returning();
+
+    for (const offer of cancelled) {
+      this.waiters.get(this.getWaiterKey(rideId, offer.driverId))?.(null);
+      await this.notifyCancelled(offer);
+    }
+  }
+
+  /**
+   * Withdraw an offer the driver accepted but could not be assigned (the
+   * ride was cancelled or taken meanwhile), so their app drops it
+   */
+  async withdrawAcceptedOffer(rideId: string, driverId: string): Promise<void> {
+    const withdrawn = await db.update(rideOffers)
+      .set({ status: 'cancelled' })
+      .where(and(
+        eq(rideOffers.rideId, rideId),
+        eq(rideOffers.driverId, driverId),
+        eq(rideOffers.status, 'accepted')
+      ))
+      .returning();
+
+    for (const offer of withdrawn) {
+      await this.notifyCancelled(offer);
+    }
+
+    logger.info({ rideId, driverId }, 'Accepted ride offer withdrawn');
+  }
+
+  /**
+   * Get offer counts and acceptance rate for a driver
+   */
+  async getDriverOfferStats(driverId: string, tenantId: string, since: Date): Promise<OfferStats> {
+    const rows = await db
+      .select({
+        status: rideOffers.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(rideOffers)
+      .where(and(
+        eq(rideOffers.driverId, driverId),
+        eq(rideOffers.tenantId, tenantId),
+        gte(rideOffers.offeredAt, since)
+      ))
+      .groupBy(rideOffers.status);
+
+    const counts = Object.fromEntries(rows.map((row) => [row.status, row.count]));
+    const accepted = counts.accepted || 0;
+    const declined = counts.declined || 0;
+    const expired = counts.expired || 0;
+    const answerable = accepted + declined + expired;
+
+    return {
+      offered: answerable + (counts.cancelled || 0) + (counts.pending || 0),
+      accepted,
+      declined,
+      expired,
+      acceptanceRate: answerable > 0 ? Math.round(accepted / answerable * 100) / 100 : 1,
+    };
+  }
+
+  /**
+   * Handle a driver response from the pub/sub channel
+   */
+  private handleResponse(message: string): void {
+    try {
+      const response: OfferResponseMessage = JSON.parse(message);
+      const waiter = this.waiters.get(this.getWaiterKey(response.rideId, response.driverId));
+
+      // Every instance receives every response; only the one running the offer acts
+      if (waiter) {
+        waiter(response);
+      }
+    } catch (err) {
+      logger.warn({ err }, 'Invalid ride offer response message');
+    }
+  }
+
+  /**
+   * Tell a driver an offer no longer stands
+   */
+  private async notifyCancelled(offer: typeof rideOffers.$inferSelect): Promise<void> {
+    await this.publishToDriver({
+      type: 'ride_offer_cancelled',
+      tenantId: offer.tenantId,
+      driverId: offer.driverId,
+      payload: { offerId: offer.id, rideId: offer.rideId },
+    }).catch((err) => {
+      logger.error({ err, offerId: offer.id }, 'Failed to notify driver of cancelled offer');
+    });
+  }
+
+  /**
+   * Publish a message for delivery to a driver's WebSocket
+   */
+  private async publishToDriver(message: DriverOfferMessage): Promise<void> {
+    await redis.publish(OFFERS_CHANNEL, JSON.stringify(message));
+  }
+
+  private getWaiterKey(rideId: string, driverId: string): string {
+    return `${rideId}:${driverId}`;
+  }
+
+  /**
+   * Build the offer payload shown on the driver's offer card
+   */
+  private toOfferPayload(
+    offerId: string,
+    ride: typeof rides.$inferSelect,
+    driver: NearbyDriver,
+    expiresAt: Date
+  ): RideOffer {
+    return {
+      offerId,
+      rideId: ride.id,
+      pickupAddress: ride.pickupAddress,
+      pickupLat: parseFloat(ride.pickupLatitude),
+      pickupLng: parseFloat(ride.pickupLongitude),
+      dropoffAddress: ride.dropoffAddress,
+      dropoffLat: parseFloat(ride.dropoffLatitude),
+      dropoffLng: parseFloat(ride.dropoffLongitude),
+      estimatedFare: parseFloat(ride.estimatedFare || '0'),
+      distanceMeters: ride.estimatedDistanceMeters || 0,
+      etaMinutes: Math.max(1, Math.round(driver.eta / 60)),
+      vehicleType: ride.vehicleTypeRequested || 'standard',
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const rideOfferService = new RideOfferService();
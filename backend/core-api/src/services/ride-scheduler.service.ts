@@ -0,0 +1,235 @@
+/**
+ * Ride Scheduler Service
+ *
+ * Releases pre-booked rides into driver matching:
+ * - Polls Postgres for scheduled rides whose pickup is within the tenant's
+ *   lead time and moves them from requested to searching
+ * - Restarts matching for searching rides no matching run holds (the
+ *   process matching them died, or matching failed)
+ * - Flags released rides that are still unmatched after the tenant's
+ *   escalation threshold and notifies dispatchers, so they can assign them
+ *   manually
+ *
+ * All state lives in the rides table, so nothing is lost on restart and
+ * several core-api instances can run the scheduler side by side; the
+ * lifecycle transition, conditional updates and matching leases make each
+ * step happen once.
+ */
+
+import { eq, and, lte, inArray, isNull, asc, sql } from 'drizzle-orm';
+import { db, rides, tenants } from '../db/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { dispatchService } from './dispatch.service.js';
+import { surgeService } from './surge.service.js';
+import { rideLifecycleService, RideLifecycleError } from './ride-lifecycle.service.js';
+import { outboxService } from './outbox.service.js';
+import { buildRideEscalatedEvent } from './kafka.service.js';
+
+// Constants
+const BATCH_SIZE = 50;
+const STALLED_MATCHING_SECONDS = 60; // Leaves time for a new ride's own matching run to start
+
+export class RideSchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  /**
+   * Start polling for due scheduled rides
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, config.dispatch.schedulerIntervalSeconds * 1000);
+
+    // Catch up on anything that fell due while the service was down
+    void this.tick();
+
+    logger.info({ intervalSeconds: config.dispatch.schedulerIntervalSeconds }, 'Ride scheduler started');
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one scheduler pass
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous pass is still running
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      await this.releaseDueRides();
+      await this.redriveStalledRides();
+      await this.escalateUnmatchedRides();
+    } catch (err) {
+      logger.error({ err }, 'Ride scheduler pass failed');
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Move scheduled rides within their tenant's lead time into matching
+   */
+  async releaseDueRides(): Promise<number> {
+    const leadMinutes = sql`coalesce((${tenants.dispatchConfig}->>'scheduledLeadMinutes')::int, ${config.dispatch.defaultScheduledLeadMinutes})`;
+
+    const dueRides = await db
+      .select({
+        id: rides.id,
+        tenantId: rides.tenantId,
+        pickupLatitude: rides.pickupLatitude,
+        pickupLongitude: rides.pickupLongitude,
+        scheduledPickupTime: rides.scheduledPickupTime,
+      })
+      .from(rides)
+      .innerJoin(tenants, eq(tenants.id, rides.tenantId))
+      .where(and(
+        eq(rides.isScheduled, true),
+        eq(rides.status, 'requested'),
+        lte(rides.scheduledPickupTime, sql`now() + make_interval(mins => ${leadMinutes})`)
+      ))
+      .orderBy(asc(rides.scheduledPickupTime))
+      .limit(BATCH_SIZE);
+
+    let released = 0;
+
+    for (const ride of dueRides) {
+      try {
+        await rideLifecycleService.transition({
+          rideId: ride.id,
+          tenantId: ride.tenantId,
+          to: 'searching',
+          actor: { type: 'system' },
+          updates: { releasedAt: new Date() },
+          reason: 'Scheduled pickup lead time reached',
+        });
+      } catch (err) {
+        // Cancelled by the rider or released by another instance
+        if (err instanceof RideLifecycleError) continue;
+        throw err;
+      }
+
+      released++;
+
+      logger.info({
+        rideId: ride.id,
+        tenantId: ride.tenantId,
+        scheduledPickupTime: ride.scheduledPickupTime,
+      }, 'Scheduled ride released to matching');
+
+      await surgeService.recordDemand(
+        ride.tenantId,
+        ride.id,
+        parseFloat(ride.pickupLatitude),
+        parseFloat(ride.pickupLongitude)
+      );
+
+      this.startMatching(ride.id);
+    }
+
+    return released;
+  }
+
+  /**
+   * Restart matching for rides left searching without a matching run
+   */
+  async redriveStalledRides(): Promise<number> {
+    const searching = await db
+      .select({ id: rides.id, tenantId: rides.tenantId })
+      .from(rides)
+      .where(and(
+        eq(rides.status, 'searching'),
+        lte(rides.updatedAt, sql`now() - make_interval(secs => ${STALLED_MATCHING_SECONDS})`)
+      ))
+      .orderBy(asc(rides.updatedAt))
+      .limit(BATCH_SIZE);
+
+    let redriven = 0;
+
+    for (const ride of searching) {
+      if (await dispatchService.isMatching(ride.id)) continue;
+
+      logger.warn({ rideId: ride.id, tenantId: ride.tenantId }, 'Ride searching without matching, restarting');
+
+      this.startMatching(ride.id);
+      redriven++;
+    }
+
+    return redriven;
+  }
+
+  /**
+   * Flag released scheduled rides that still have no driver
+   */
+  async escalateUnmatchedRides(): Promise<number> {
+    const escalationMinutes = sql`coalesce((${tenants.dispatchConfig}->>'scheduledEscalationMinutes')::int, ${config.dispatch.defaultScheduledEscalationMinutes})`;
+
+    const unmatched = await db
+      .select({ id: rides.id })
+      .from(rides)
+      .innerJoin(tenants, eq(tenants.id, rides.tenantId))
+      .where(and(
+        eq(rides.isScheduled, true),
+        inArray(rides.status, ['searching', 'no_drivers_available']),
+        isNull(rides.escalatedAt),
+        lte(rides.releasedAt, sql`now() - make_interval(mins => ${escalationMinutes})`)
+      ))
+      .limit(BATCH_SIZE);
+
+    if (unmatched.length === 0) {
+      return 0;
+    }
+
+    const escalated = await db.transaction(async (tx) => {
+      const flagged = await tx.update(rides)
+        .set({ escalatedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          inArray(rides.id, unmatched.map((ride) => ride.id)),
+          isNull(rides.escalatedAt)
+        ))
+        .returning();
+
+      for (const ride of flagged) {
+        await outboxService.enqueue(tx, buildRideEscalatedEvent(ride));
+      }
+
+      return flagged;
+    });
+
+    for (const ride of escalated) {
+      logger.warn({
+        rideId: ride.id,
+        tenantId: ride.tenantId,
+        status: ride.status,
+        scheduledPickupTime: ride.scheduledPickupTime,
+      }, 'Scheduled ride unmatched, escalated to dispatchers');
+    }
+
+    return escalated.length;
+  }
+
+  /**
+   * Run matching in the background. A failed run releases its lease, so
+   * the next pass picks the ride up again.
+   */
+  private startMatching(rideId: string): void {
+    dispatchService.startDriverMatching(rideId).catch((err) => {
+      logger.error({ err, rideId }, 'Driver matching failed, retrying on the next pass');
+    });
+  }
+}
+
+// Export singleton instance
+export const rideSchedulerService = new RideSchedulerService();
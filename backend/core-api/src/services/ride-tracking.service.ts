@@ -0,0 +1,76 @@
+/**
+ * Ride Tracking Service
+ *
+ * Tells the location-service whose live position each rider may follow:
+ * - A Redis hash per rider (ride id -> driver id) holds the rider's rides
+ *   from driver_assigned until they complete or are cancelled; the
+ *   location-service checks it when a rider subscribes to a driver
+ * - Every status change is published on the ride-tracking channel, on which
+ *   the location-service revokes subscriptions the rider no longer holds
+ *
+ * Updates are sent once the status change has committed. Failures are
+ * logged rather than thrown: the ride change itself has succeeded.
+ */
+
+import { redis, redisKey } from '../db/redis.js';
+import { logger } from '../utils/logger.js';
+import type { rides } from '../db/index.js';
+import type { RideStatus } from './ride-lifecycle.service.js';
+
+// Types
+/**
+ * Message published to the location-service on a ride status change
+ */
+export interface RideTrackingMessage {
+  tenantId: string;
+  rideId: string;
+  riderId: string;
+  driverId: string | null;
+  status: RideStatus;
+}
+
+// Constants
+const TRACKING_CHANNEL = redisKey('ride-tracking');
+const TRACKED_STATUSES: RideStatus[] = ['driver_assigned', 'driver_arriving', 'arrived', 'in_progress'];
+const TRACKING_TTL_SECONDS = 24 * 60 * 60; // Bounds entries left by a missed update
+
+export class RideTrackingService {
+  /**
+   * Record which driver the rider may track (if any) and notify the
+   * location-service
+   */
+  async publishRideStatus(ride: typeof rides.$inferSelect): Promise<void> {
+    const status = ride.status || 'requested';
+    const key = this.getTrackingKey(ride.tenantId, ride.riderId);
+
+    try {
+      if (ride.driverId && TRACKED_STATUSES.includes(status)) {
+        await redis.multi()
+          .hset(key, ride.id, ride.driverId)
+          .expire(key, TRACKING_TTL_SECONDS)
+          .exec();
+      } else {
+        await redis.hdel(key, ride.id);
+      }
+
+      const message: RideTrackingMessage = {
+        tenantId: ride.tenantId,
+        rideId: ride.id,
+        riderId: ride.riderId,
+        driverId: ride.driverId,
+        status,
+      };
+
+      await redis.publish(TRACKING_CHANNEL, JSON.stringify(message));
+    } catch (err) {
+      logger.error({ err, rideId: ride.id, status }, 'Failed to publish ride tracking update');
+    }
+  }
+
+  private getTrackingKey(tenantId: string, riderId: string): string {
+    return redisKey('rides', tenantId, 'tracking', riderId);
+  }
+}
+
+// Export singleton instance
+export const rideTrackingService = new RideTrackingService();
@@ -0,0 +1,65 @@
+/**
+ * Session Revocation Service
+ *
+ * Tells the location-service which access tokens no longer count, since it
+ * verifies them without the database:
+ * - A Redis key per revoked session and per suspended user, kept for as
+ *   long as an access token issued before the revocation can live; the
+ *   location-service checks them when it verifies a token
+ * - Every revocation is published on the session-revocations channel, on
+ *   which the location-service closes the connections it ends
+ *
+ * Revocations are sent once they have committed. Failures are logged rather
+ * than thrown: the revocation itself has succeeded.
+ */
+
+import { redis, redisKey } from '../db/redis.js';
+import { logger } from '../utils/logger.js';
+
+// Types
+/**
+ * Message published to the location-service when sessions end
+ */
+export interface SessionRevocationMessage {
+  sessionIds: string[];
+  userIds: string[]; // Suspended users: every session of theirs is closed
+}
+
+// Constants
+const REVOCATIONS_CHANNEL = redisKey('session-revocations');
+
+export class SessionRevocationService {
+  /**
+   * Record revoked sessions and suspended users, and notify the
+   * location-service
+   *
+   * @param ttlSeconds - Lifetime of the access tokens being revoked
+   */
+  async publishRevocation(revocation: SessionRevocationMessage, ttlSeconds: number): Promise<void> {
+    if (revocation.sessionIds.length === 0 && revocation.userIds.length === 0) return;
+
+    try {
+      const multi = redis.multi();
+
+      for (const sessionId of revocation.sessionIds) {
+        multi.set(redisKey('auth', 'revoked-session', sessionId), '1', 'EX', ttlSeconds);
+      }
+
+      for (const userId of revocation.userIds) {
+        multi.set(redisKey('auth', 'suspended-user', userId), '1', 'EX', ttlSeconds);
+      }
+
+      await multi.exec();
+
+      await redis.publish(REVOCATIONS_CHANNEL, JSON.stringify(revocation));
+    } catch (err) {
+      logger.error(
+        { err, sessions: revocation.sessionIds.length, userIds: revocation.userIds },
+        'Failed to publish session revocation'
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const sessionRevocationService = new SessionRevocationService();
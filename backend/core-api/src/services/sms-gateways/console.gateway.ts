@@ -0,0 +1,34 @@
+/**
+ * Console SMS Gateway
+ *
+ * Logs messages instead of sending them, for local development and tests.
+ * Sent messages are kept so tests can read the codes they contain.
+ */
+
+import { logger } from '../../utils/logger.js';
+import { SmsGateway, SmsMessage, SmsSendResult } from './types.js';
+
+export class ConsoleSmsGateway implements SmsGateway {
+  readonly name = 'console' as const;
+  readonly sent: (SmsMessage & { messageId: string })[] = [];
+  private sequence = 0;
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const messageId = `console_sms_${++this.sequence}`;
+
+    this.sent.push({ ...message, messageId });
+    logger.info({ messageId, to: message.to, sender: message.sender, text: message.text }, 'SMS (console gateway)');
+
+    return { messageId };
+  }
+
+  /**
+   * Most recent message sent to a number
+   */
+  lastMessageTo(to: string): SmsMessage | undefined {
+    return [...this.sent].reverse().find((message) => message.to === to);
+  }
+}
+
+// Export singleton instance
+export const consoleSmsGateway = new ConsoleSmsGateway();
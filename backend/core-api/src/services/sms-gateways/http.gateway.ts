@@ -0,0 +1,51 @@
+/**
+ * HTTP SMS Gateway
+ *
+ * Sends messages through an SMS aggregator's REST API.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../../config/index.js';
+import { SmsGateway, SmsGatewayError, SmsMessage, SmsSendResult } from './types.js';
+
+export class HttpSmsGateway implements SmsGateway {
+  readonly name = 'http' as const;
+  private client: AxiosInstance | null;
+
+  constructor() {
+    this.client = config.sms.apiEndpoint
+      ? axios.create({
+          baseURL: config.sms.apiEndpoint,
+          headers: {
+            'Authorization': `Bearer ${config.sms.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: 10000,
+        })
+      : null;
+  }
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    if (!this.client) {
+      throw new SmsGatewayError('SMS gateway not configured', 'SMS_NOT_CONFIGURED');
+    }
+
+    try {
+      const { data } = await this.client.post<{ id: string }>('/messages', {
+        from: message.sender,
+        to: message.to,
+        text: message.text,
+      });
+
+      return { messageId: data.id };
+    } catch (err) {
+      throw new SmsGatewayError(
+        err instanceof Error ? err.message : 'SMS gateway request failed',
+        'SMS_SEND_FAILED'
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const httpSmsGateway = new HttpSmsGateway();
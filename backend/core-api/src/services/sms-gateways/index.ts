@@ -0,0 +1,38 @@
+/**
+ * SMS Gateway Registry
+ *
+ * Resolves the gateway text messages are sent through (SMS_GATEWAY). New
+ * gateways implement SmsGateway and are registered here.
+ */
+
+import { config } from '../../config/index.js';
+import { SmsGateway, SmsGatewayName, SmsGatewayError } from './types.js';
+import { httpSmsGateway } from './http.gateway.js';
+import { consoleSmsGateway } from './console.gateway.js';
+
+export * from './types.js';
+export { httpSmsGateway, HttpSmsGateway } from './http.gateway.js';
+export { consoleSmsGateway, ConsoleSmsGateway } from './console.gateway.js';
+
+const gateways: Record<SmsGatewayName, SmsGateway> = {
+  http: httpSmsGateway,
+  console: consoleSmsGateway,
+};
+
+/**
+ * Get the configured gateway
+ */
+export function getSmsGateway(name: string = config.sms.gateway): SmsGateway {
+  const gateway = gateways[name as SmsGatewayName];
+
+  if (!gateway) {
+    throw new SmsGatewayError(`Unknown SMS gateway: ${name}`, 'UNKNOWN_SMS_GATEWAY');
+  }
+
+  // Codes logged to the console would let anyone read them
+  if (gateway.name === 'console' && config.nodeEnv === 'production') {
+    throw new SmsGatewayError('Console SMS gateway is disabled in production', 'SMS_GATEWAY_DISABLED');
+  }
+
+  return gateway;
+}
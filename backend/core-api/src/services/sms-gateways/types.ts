@@ -0,0 +1,36 @@
+/**
+ * SMS Gateway Types
+ *
+ * Interface every SMS gateway implements.
+ */
+
+export type SmsGatewayName = 'http' | 'console';
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +358401234567
+  sender: string; // Alphanumeric sender id (max 11 characters) or number
+  text: string;
+}
+
+export interface SmsSendResult {
+  messageId: string;
+}
+
+export interface SmsGateway {
+  readonly name: SmsGatewayName;
+
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+/**
+ * Custom error class for SMS gateway errors
+ */
+export class SmsGatewayError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'SmsGatewayError';
+    this.code = code;
+  }
+}
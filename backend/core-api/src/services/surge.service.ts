@@ -0,0 +1,242 @@
+/**
+ * Surge Pricing Service
+ *
+ * Supply/demand based surge multipliers:
+ * - The service area is bucketed into geohash zones
+ * - Demand is the number of ride requests in a zone over a sliding window,
+ *   kept as a Redis sorted set scored by request time
+ * - Supply is the number of available drivers in the zone, read from the
+ *   location-service GEO index
+ * - The demand/supply ratio is mapped through the tenant's surge curve,
+ *   capped, and smoothed against the zone's previous multiplier so prices
+ *   don't jump between consecutive quotes
+ */
+
+import { redis, redisKey } from '../db/redis.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { encodeGeohash, decodeGeohash } from '../utils/geohash.js';
+import { haversineDistance } from '../utils/haversine.js';
+import { locationService } from './location.service.js';
+
+// Types
+export interface SurgeCurvePoint {
+  demandRatio: number; // open requests per available driver
+  multiplier: number;
+}
+
+export interface SurgeSettings {
+  surgeCurve?: SurgeCurvePoint[];
+  surgeSmoothingFactor?: number; // 0-1, share of the new target applied per refresh
+  maxSurgeMultiplier?: number;
+}
+
+export interface SurgeQuote {
+  zone: string;
+  multiplier: number;
+  demand: number;
+  supply: number;
+}
+
+// Constants
+const DEFAULT_SURGE_CURVE: SurgeCurvePoint[] = [
+  { demandRatio: 1.0, multiplier: 1.0 },
+  { demandRatio: 1.5, multiplier: 1.2 },
+  { demandRatio: 2.0, multiplier: 1.5 },
+  { demandRatio: 3.0, multiplier: 2.0 },
+];
+const DEFAULT_SMOOTHING_FACTOR = 0.3;
+const MAX_SUPPLY_TO_QUERY = 100;
+
+export class SurgeService {
+  /**
+   * Get the zone a coordinate belongs to
+   */
+  getZone(latitude: number, longitude: number): string {
+    return encodeGeohash(latitude, longitude, config.pricing.surgeZonePrecision);
+  }
+
+  /**
+   * Record a ride request as demand in its pickup zone
+   */
+  async recordDemand(
+    tenantId: string,
+    rideId: string,
+    latitude: number,
+    longitude: number
+  ): Promise<void> {
+    const zone = this.getZone(latitude, longitude);
+    const key = this.getDemandKey(tenantId, zone);
+
+    try {
+      await redis.multi()
+        .zadd(key, Date.now(), rideId)
+        .expire(key, config.pricing.surgeDemandWindowSeconds * 2)
+        .exec();
+    } catch (err) {
+      logger.warn({ err, tenantId, zone }, 'Failed to record surge demand');
+    }
+  }
+
+  /**
+   * Get the current surge multiplier for a pickup point
+   *
+   * A zone's multiplier is recalculated at most once per refresh interval;
+   * quotes in between reuse the stored value. Falls back to no surge when
+   * Redis or the location-service is unavailable.
+   */
+  async getSurge(
+    tenantId: string,
+    latitude: number,
+    longitude: number,
+    settings: SurgeSettings = {}
+  ): Promise<SurgeQuote> {
+    const zone = this.getZone(latitude, longitude);
+    const stateKey = this.getStateKey(tenantId, zone);
+
+    try {
+      const state = await redis.hgetall(stateKey);
+      const previous = state.multiplier ? parseFloat(state.multiplier) : null;
+      const updatedAt = state.updatedAt ? parseInt(state.updatedAt, 10) : 0;
+
+      if (previous !== null && Date.now() - updatedAt < config.pricing.surgeRefreshSeconds * 1000) {
+        return {
+          zone,
+          multiplier: previous,
+          demand: parseInt(state.demand || '0', 10),
+          supply: parseInt(state.supply || '0', 10),
+        };
+      }
+
+      const [demand, supply] = await Promise.all([
+        this.countDemand(tenantId, zone),
+        this.countSupply(tenantId, zone),
+      ]);
+
+      const target = this.applyCurve(demand / Math.max(supply, 1), settings);
+      const multiplier = this.smooth(previous ?? 1.0, target, settings);
+
+      await redis.multi()
+        .hset(stateKey, {
+          multiplier: multiplier.toString(),
+          demand: demand.toString(),
+          supply: supply.toString(),
+          updatedAt: Date.now().toString(),
+        })
+        .expire(stateKey, config.pricing.surgeDemandWindowSeconds * 2)
+        .exec();
+
+      if (multiplier > 1) {
+        logger.info({ tenantId, zone, demand, supply, multiplier }, 'Surge active');
+      }
+
+      return { zone, multiplier, demand, supply };
+    } catch (err) {
+      logger.warn({ err, tenantId, zone }, 'Surge calculation failed, using no surge');
+      return { zone, multiplier: 1.0, demand: 0, supply: 0 };
+    }
+  }
+
+  /**
+   * Map a demand/supply ratio to a multiplier by linear interpolation
+   * between curve points
+   */
+  applyCurve(ratio: number, settings: SurgeSettings = {}): number {
+    const curve = [...(settings.surgeCurve?.length ? settings.surgeCurve : DEFAULT_SURGE_CURVE)]
+      .sort((a, b) => a.demandRatio - b.demandRatio);
+
+    let multiplier = curve[curve.length - 1].multiplier;
+
+    if (ratio <= curve[0].demandRatio) {
+      multiplier = curve[0].multiplier;
+    } else {
+      for (let i = 1; i < curve.length; i++) {
+        const lower = curve[i - 1];
+        const upper = curve[i];
+
+        if (ratio <= upper.demandRatio) {
+          const position = (ratio - lower.demandRatio) / (upper.demandRatio - lower.demandRatio);
+          multiplier = lower.multiplier + position * (upper.multiplier - lower.multiplier);
+          break;
+        }
+      }
+    }
+
+    return this.clamp(multiplier, settings);
+  }
+
+  /**
+   * Move part of the way from the previous multiplier towards the target
+   */
+  private smooth(previous: number, target: number, settings: SurgeSettings): number {
+    const factor = Math.min(Math.max(settings.surgeSmoothingFactor ?? DEFAULT_SMOOTHING_FACTOR, 0), 1);
+    const smoothed = previous + (target - previous) * factor;
+
+    // Snap back to no surge once the remaining difference is negligible
+    if (target === 1 && smoothed < 1.05) {
+      return 1.0;
+    }
+
+    return this.clamp(Math.round(smoothed * 100) / 100, settings);
+  }
+
+  private clamp(multiplier: number, settings: SurgeSettings): number {
+    const cap = Math.min(
+      settings.maxSurgeMultiplier ?? config.pricing.maxSurgeMultiplier,
+      config.pricing.maxSurgeMultiplier
+    );
+
+    return Math.min(Math.max(multiplier, 1.0), cap);
+  }
+
+  /**
+   * Count requests in the zone within the sliding window
+   */
+  private async countDemand(tenantId: string, zone: string): Promise<number> {
+    const key = this.getDemandKey(tenantId, zone);
+    const windowStart = Date.now() - config.pricing.surgeDemandWindowSeconds * 1000;
+
+    const [, count] = await Promise.all([
+      redis.zremrangebyscore(key, '-inf', windowStart),
+      redis.zcount(key, windowStart, '+inf'),
+    ]);
+
+    return count;
+  }
+
+  /**
+   * Count available drivers inside the zone's cell
+   */
+  private async countSupply(tenantId: string, zone: string): Promise<number> {
+    const cell = decodeGeohash(zone);
+
+    // Search the circle enclosing the cell, then keep drivers inside it
+    const radiusMeters = haversineDistance(
+      cell.latitude, cell.longitude,
+      cell.maxLatitude, cell.maxLongitude
+    );
+
+    const drivers = await locationService.findNearbyDrivers(
+      tenantId,
+      cell.latitude,
+      cell.longitude,
+      Math.ceil(radiusMeters),
+      MAX_SUPPLY_TO_QUERY
+    );
+
+    return drivers.filter((driver) =>
+      driver.isAvailable && this.getZone(driver.latitude, driver.longitude) === zone
+    ).length;
+  }
+
+  private getDemandKey(tenantId: string, zone: string): string {
+    return redisKey('surge', tenantId, zone, 'demand');
+  }
+
+  private getStateKey(tenantId: string, zone: string): string {
+    return redisKey('surge', tenantId, zone, 'state');
+  }
+}
+
+// Export singleton instance
+export const surgeService = new SurgeService();
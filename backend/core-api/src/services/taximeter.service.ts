@@ -0,0 +1,353 @@
+/**
+ * Taximeter Service
+ *
+ * Ingests signed receipts from MID-compliant taximeters:
+ * - The driver app uploads the meter's receipt for a ride; the reading must
+ *   come from the taximeter registered on the vehicle (serial number) and is
+ *   verified against that meter's public key
+ * - Verified readings are linked to the ride and their fare becomes the
+ *   ride's official taximeter fare
+ * - A reconciliation report flags completed rides whose meter fare and
+ *   charged fare diverge, and rides with missing or unverified readings
+ *
+ * The meter signs the canonical payload built by buildSignedPayload
+ * (Ed25519, or ECDSA/RSA over SHA-256), base64 encoded.
+ */
+
+import { createPublicKey, verify, KeyObject } from 'crypto';
+import { eq, and, gte, lt, inArray } from 'drizzle-orm';
+import { db, rides, vehicles, tenants, taximeterReadings } from '../db/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+// Types
+export interface TaximeterReceipt {
+  taximeterSerialNumber: string;
+  receiptNumber: string;
+  startTime: Date;
+  endTime: Date;
+  distanceMeters: number;
+  durationSeconds: number;
+  baseFare: number;
+  distanceFare: number;
+  timeFare: number;
+  extras?: number;
+  totalFare: number;
+  vatAmount: number;
+  tariffCode?: string;
+  tariffDescription?: string;
+  digitalSignature: string; // base64
+}
+
+export interface IngestReadingInput {
+  rideId: string;
+  tenantId: string;
+  driverId: string;
+  receipt: TaximeterReceipt;
+}
+
+export type ReconciliationFlag = 'fare_mismatch' | 'missing_reading' | 'invalid_signature';
+
+export interface ReconciliationItem {
+  rideId: string;
+  driverId: string | null;
+  completedAt: Date | null;
+  finalFare: number | null;
+  meterFare: number | null;
+  difference: number | null;
+  receiptNumber: string | null;
+  flags: ReconciliationFlag[];
+}
+
+export interface ReconciliationReport {
+  from: Date;
+  to: Date;
+  tolerancePercent: number;
+  ridesChecked: number;
+  flagged: ReconciliationItem[];
+}
+
+// Constants
+const UPLOADABLE_STATUSES = ['in_progress', 'completed'] as const;
+const MIN_TOLERANCE_AMOUNT = 0.50; // Rounding on the meter shouldn't be flagged on short trips
+
+export class TaximeterService {
+  /**
+   * Store a meter receipt for a ride, verifying it against the vehicle's
+   * registered taximeter
+   *
+   * Readings whose signature doesn't verify are stored (for audit) with
+   * signatureValid = false but never become the ride's fare.
+   */
+  async ingestReading(input: IngestReadingInput): Promise<typeof taximeterReadings.$inferSelect> {
+    const { rideId, tenantId, driverId, receipt } = input;
+
+    const ride = await db.query.rides.findFirst({
+      where: and(eq(rides.id, rideId), eq(rides.tenantId, tenantId)),
+    });
+
+    if (!ride) {
+      throw new TaximeterError('Ride not found', 'RIDE_NOT_FOUND');
+    }
+
+    if (ride.driverId !== driverId) {
+      throw new TaximeterError('Not the driver of this ride', 'NOT_RIDE_DRIVER');
+    }
+
+    if (!UPLOADABLE_STATUSES.includes(ride.status as typeof UPLOADABLE_STATUSES[number])) {
+      throw new TaximeterError(`Cannot upload a meter reading for a ride that is ${ride.status}`, 'INVALID_RIDE_STATUS');
+    }
+
+    const vehicle = await this.findVehicle(ride, receipt.taximeterSerialNumber);
+
+    if (!vehicle) {
+      throw new TaximeterError(
+        'Taximeter serial number does not match a vehicle registered to the driver',
+        'TAXIMETER_NOT_REGISTERED'
+      );
+    }
+
+    const signatureValid = this.verifySignature(vehicle.taximeterPublicKey, receipt);
+
+    const reading = await db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(taximeterReadings)
+        .values({
+          tenantId,
+          rideId,
+          vehicleId: vehicle.id,
+          driverId,
+          taximeterSerialNumber: receipt.taximeterSerialNumber,
+          receiptNumber: receipt.receiptNumber,
+          startTime: receipt.startTime,
+          endTime: receipt.endTime,
+          distanceMeters: receipt.distanceMeters,
+          durationSeconds: receipt.durationSeconds,
+          baseFare: receipt.baseFare.toFixed(2),
+          distanceFare: receipt.distanceFare.toFixed(2),
+          timeFare: receipt.timeFare.toFixed(2),
+          extras: (receipt.extras || 0).toFixed(2),
+          totalFare: receipt.totalFare.toFixed(2),
+          vatAmount: receipt.vatAmount.toFixed(2),
+          tariffCode: receipt.tariffCode,
+          tariffDescription: receipt.tariffDescription,
+          digitalSignature: receipt.digitalSignature,
+          signatureValid,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!inserted) {
+        throw new TaximeterError('Receipt number already uploaded', 'DUPLICATE_RECEIPT');
+      }
+
+      if (signatureValid) {
+        await tx.update(rides)
+          .set({
+            vehicleId: ride.vehicleId || vehicle.id,
+            taximeterFare: receipt.totalFare.toFixed(2),
+            taximeterReceiptNumber: receipt.receiptNumber,
+          })
+          .where(eq(rides.id, rideId));
+      }
+
+      return inserted;
+    });
+
+    if (signatureValid) {
+      logger.info({ rideId, receiptNumber: receipt.receiptNumber, totalFare: receipt.totalFare }, 'Taximeter reading linked to ride');
+    } else {
+      logger.warn({
+        rideId,
+        driverId,
+        vehicleId: vehicle.id,
+        taximeterSerialNumber: receipt.taximeterSerialNumber,
+        receiptNumber: receipt.receiptNumber,
+      }, 'Taximeter reading signature invalid');
+    }
+
+    return reading;
+  }
+
+  /**
+   * Get the fare of a ride's verified meter reading, if one was uploaded
+   */
+  async getVerifiedFare(rideId: string): Promise<number | undefined> {
+    const reading = await db.query.taximeterReadings.findFirst({
+      where: and(
+        eq(taximeterReadings.rideId, rideId),
+        eq(taximeterReadings.signatureValid, true)
+      ),
+    });
+
+    return reading ? parseFloat(reading.totalFare) : undefined;
+  }
+
+  /**
+   * Canonical payload the taximeter signs
+   */
+  buildSignedPayload(receipt: Omit<TaximeterReceipt, 'digitalSignature'>): string {
+    return [
+      receipt.taximeterSerialNumber,
+      receipt.receiptNumber,
+      receipt.startTime.toISOString(),
+      receipt.endTime.toISOString(),
+      receipt.distanceMeters,
+      receipt.durationSeconds,
+      receipt.baseFare.toFixed(2),
+      receipt.distanceFare.toFixed(2),
+      receipt.timeFare.toFixed(2),
+      (receipt.extras || 0).toFixed(2),
+      receipt.totalFare.toFixed(2),
+      receipt.vatAmount.toFixed(2),
+      receipt.tariffCode || '',
+    ].join('|');
+  }
+
+  /**
+   * Verify a receipt's signature with the meter's public key (PEM)
+   */
+  verifySignature(publicKeyPem: string | null, receipt: TaximeterReceipt): boolean {
+    if (!publicKeyPem) {
+      return false;
+    }
+
+    try {
+      const publicKey: KeyObject = createPublicKey(publicKeyPem);
+      // Ed25519/Ed448 hash internally; ECDSA and RSA keys sign SHA-256 digests
+      const algorithm = publicKey.asymmetricKeyType?.startsWith('ed') ? null : 'sha256';
+
+      return verify(
+        algorithm,
+        Buffer.from(this.buildSignedPayload(receipt)),
+        publicKey,
+        Buffer.from(receipt.digitalSignature, 'base64')
+      );
+    } catch (err) {
+      logger.warn({ err, taximeterSerialNumber: receipt.taximeterSerialNumber }, 'Taximeter signature could not be checked');
+      return false;
+    }
+  }
+
+  /**
+   * Compare meter fares with charged fares for rides completed in a period
+   */
+  async getReconciliationReport(
+    tenantId: string,
+    from: Date,
+    to: Date,
+    tolerancePercent: number = config.finland.taximeterFareTolerancePercent
+  ): Promise<ReconciliationReport> {
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    const completedRides = await db.query.rides.findMany({
+      where: and(
+        eq(rides.tenantId, tenantId),
+        eq(rides.status, 'completed'),
+        gte(rides.rideCompletedAt, from),
+        lt(rides.rideCompletedAt, to)
+      ),
+    });
+
+    const readings = completedRides.length > 0
+      ? await db.query.taximeterReadings.findMany({
+          where: and(
+            eq(taximeterReadings.tenantId, tenantId),
+            inArray(taximeterReadings.rideId, completedRides.map((ride) => ride.id))
+          ),
+        })
+      : [];
+
+    const readingsByRide = new Map<string, typeof readings>();
+    for (const reading of readings) {
+      readingsByRide.set(reading.rideId, [...(readingsByRide.get(reading.rideId) || []), reading]);
+    }
+
+    const flagged: ReconciliationItem[] = [];
+
+    for (const ride of completedRides) {
+      const rideReadings = readingsByRide.get(ride.id) || [];
+      const verified = rideReadings.find((reading) => reading.signatureValid);
+      const flags: ReconciliationFlag[] = [];
+
+      const finalFare = ride.finalFare ? parseFloat(ride.finalFare) : null;
+      const meterFare = verified ? parseFloat(verified.totalFare) : null;
+      const difference = finalFare !== null && meterFare !== null
+        ? Math.round((finalFare - meterFare) * 100) / 100
+        : null;
+
+      if (!verified) {
+        if (rideReadings.length > 0) {
+          flags.push('invalid_signature');
+        } else if (tenant?.enableTaximeterIntegration) {
+          flags.push('missing_reading');
+        }
+      }
+
+      if (difference !== null && meterFare !== null) {
+        const tolerance = Math.max(meterFare * tolerancePercent / 100, MIN_TOLERANCE_AMOUNT);
+
+        if (Math.abs(difference) > tolerance) {
+          flags.push('fare_mismatch');
+        }
+      }
+
+      if (flags.length > 0) {
+        flagged.push({
+          rideId: ride.id,
+          driverId: ride.driverId,
+          completedAt: ride.rideCompletedAt,
+          finalFare,
+          meterFare,
+          difference,
+          receiptNumber: verified?.receiptNumber || rideReadings[0]?.receiptNumber || null,
+          flags,
+        });
+      }
+    }
+
+    return {
+      from,
+      to,
+      tolerancePercent,
+      ridesChecked: completedRides.length,
+      flagged,
+    };
+  }
+
+  /**
+   * The vehicle whose registered taximeter produced the reading: the ride's
+   * vehicle, or one of the driver's active vehicles
+   */
+  private async findVehicle(
+    ride: typeof rides.$inferSelect,
+    taximeterSerialNumber: string
+  ): Promise<typeof vehicles.$inferSelect | undefined> {
+    return db.query.vehicles.findFirst({
+      where: and(
+        eq(vehicles.tenantId, ride.tenantId),
+        eq(vehicles.taximeterSerialNumber, taximeterSerialNumber),
+        ride.vehicleId
+          ? eq(vehicles.id, ride.vehicleId)
+          : and(eq(vehicles.driverId, ride.driverId!), eq(vehicles.isActive, true))
+      ),
+    });
+  }
+}
+
+/**
+ * Custom error class for taximeter errors
+ */
+export class TaximeterError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'TaximeterError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const taximeterService = new TaximeterService();
@@ -0,0 +1,391 @@
+/**
+ * Tenant Service
+ *
+ * Platform administration of tenants (white-label operators):
+ * - Tenants created here start in onboarding and don't take rides until
+ *   they go live
+ * - Going live requires the onboarding checklist to be complete: legal
+ *   details, Traficom operator licence, valid pricing and an onboarded
+ *   payee account for the operator. A live tenant can't drop any of them
+ * - Deactivating a tenant stops rides and sign-in and signs out its users
+ */
+
+import { eq, asc } from 'drizzle-orm';
+import { db, tenants } from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import { isValidBusinessId, isValidVatNumber } from '../utils/business-id.js';
+import { authService } from './auth.service.js';
+import { pricingService, PricingConfig } from './pricing.service.js';
+import {
+  getTenantPaymentProvider,
+  PaymentProvider,
+  PaymentProviderError,
+} from './payment-providers/index.js';
+
+// Types
+type Tenant = typeof tenants.$inferSelect;
+
+export interface TenantSettingsInput {
+  name?: string;
+  primaryColor?: string;
+  secondaryColor?: string;
+  logoUrl?: string | null;
+  smsSenderId?: string | null;
+  locationHistoryRetentionDays?: number | null;
+  legalName?: string | null;
+  businessId?: string | null;
+  vatNumber?: string | null;
+  defaultCurrency?: string;
+  timezone?: string;
+  locale?: string;
+  traficomLicenseNumber?: string | null;
+  enableTaximeterIntegration?: boolean;
+  veroApiEnabled?: boolean;
+  paymentProvider?: string | null;
+}
+
+export interface CreateTenantInput extends TenantSettingsInput {
+  slug: string;
+  name: string;
+  pricingConfig?: PricingConfig;
+}
+
+export type OnboardingItemKey = 'legal_details' | 'traficom_license' | 'pricing' | 'payments';
+
+export interface OnboardingItem {
+  key: OnboardingItemKey;
+  complete: boolean;
+  missing: string[]; // Fields to fill in or fix
+}
+
+export interface OnboardingChecklist {
+  complete: boolean;
+  items: OnboardingItem[];
+}
+
+export type TenantDetails = Tenant & { onboarding: OnboardingChecklist };
+
+export class TenantService {
+  /**
+   * List tenants by name
+   */
+  async listTenants(limit: number = 50, offset: number = 0): Promise<Tenant[]> {
+    return db.query.tenants.findMany({
+      orderBy: asc(tenants.name),
+      limit,
+      offset,
+    });
+  }
+
+  /**
+   * Get a tenant with its onboarding checklist
+   */
+  async getTenant(tenantId: string): Promise<TenantDetails> {
+    const tenant = await this.findTenant(tenantId);
+    return this.withOnboarding(tenant);
+  }
+
+  /**
+   * Create a tenant in onboarding
+   */
+  async createTenant(input: CreateTenantInput): Promise<TenantDetails> {
+    this.assertVatNumber(input.vatNumber, input.businessId);
+
+    const { pricingConfig: requestedPricing, ...settings } = input;
+    const pricingConfig = requestedPricing && pricingService.parseConfig(requestedPricing);
+
+    if (input.paymentProvider) {
+      this.resolvePaymentProvider({ paymentProvider: input.paymentProvider });
+    }
+
+    const [tenant] = await db.insert(tenants)
+      .values({
+        ...settings,
+        // Omitted config falls back to the column default
+        ...(pricingConfig && { pricingConfig }),
+        isLive: false,
+      })
+      .onConflictDoNothing({ target: tenants.slug })
+      .returning();
+
+    if (!tenant) {
+      throw new TenantError(`Tenant '${input.slug}' already exists`, 'TENANT_EXISTS');
+    }
+
+    // The initial config is version 1
+    const pricingVersion = await pricingService.getCurrentVersion(tenant);
+
+    logger.info({ tenantId: tenant.id, slug: tenant.slug }, 'Tenant created');
+
+    return this.withOnboarding({ ...tenant, pricingConfigVersion: pricingVersion.version });
+  }
+
+  /**
+   * Update a tenant's branding, locale and compliance settings
+   */
+  async updateTenant(tenantId: string, updates: TenantSettingsInput): Promise<TenantDetails> {
+    const tenant = await this.findTenant(tenantId);
+    const merged: Tenant = { ...tenant, ...updates };
+
+    this.assertVatNumber(merged.vatNumber, merged.businessId);
+
+    if (updates.paymentProvider) {
+      this.resolvePaymentProvider(merged);
+    }
+
+    this.assertStillLive(tenant, merged);
+
+    const [updated] = await db.update(tenants)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(eq(tenants.id, tenantId))
+      .returning();
+
+    logger.info({ tenantId, fields: Object.keys(updates) }, 'Tenant updated');
+
+    return this.withOnboarding(updated);
+  }
+
+  /**
+   * Publish a new version of a tenant's pricing configuration
+   *
+   * @param createdById - The platform admin making the change
+   */
+  async updatePricingConfig(
+    tenantId: string,
+    pricingConfig: PricingConfig,
+    createdById?: string
+  ): Promise<TenantDetails> {
+    await this.findTenant(tenantId);
+    await pricingService.publishConfig(tenantId, pricingConfig, createdById);
+
+    return this.getTenant(tenantId);
+  }
+
+  /**
+   * Create (or resume) the operator's payee account with the tenant's
+   * payment provider and return its onboarding link. Stripe reports
+   * completion through the account.updated webhook.
+   */
+  async startPaymentOnboarding(
+    tenantId: string,
+    email?: string
+  ): Promise<{ accountId: string; onboardingUrl: string }> {
+    const tenant = await this.findTenant(tenantId);
+
+    if (!tenant.isActive) {
+      throw new TenantError('Tenant is deactivated', 'TENANT_INACTIVE');
+    }
+
+    const provider = this.resolvePaymentProvider(tenant);
+
+    let payee: { accountId: string; onboardingUrl: string };
+
+    try {
+      payee = await provider.onboardPayee({
+        existingAccountId: tenant.stripeAccountId,
+        email,
+        country: 'FI', // Finland
+        businessType: 'company',
+        businessName: tenant.legalName || tenant.name,
+        metadata: { tenantId },
+      });
+    } catch (err) {
+      if (err instanceof PaymentProviderError) {
+        throw new TenantError(err.message, err.code);
+      }
+      throw err;
+    }
+
+    if (payee.accountId !== tenant.stripeAccountId) {
+      await db.update(tenants)
+        .set({
+          stripeAccountId: payee.accountId,
+          stripeOnboardingComplete: false,
+          updatedAt: new Date(),
+        })
+        .where(eq(tenants.id, tenantId));
+
+      logger.info({ tenantId, accountId: payee.accountId, provider: provider.name }, 'Tenant payee account created');
+    }
+
+    return payee;
+  }
+
+  /**
+   * Take a tenant live once its onboarding checklist is complete
+   */
+  async goLive(tenantId: string): Promise<TenantDetails> {
+    const tenant = await this.findTenant(tenantId);
+
+    if (!tenant.isActive) {
+      throw new TenantError('Tenant is deactivated', 'TENANT_INACTIVE');
+    }
+
+    if (tenant.isLive) {
+      throw new TenantError('Tenant is already live', 'TENANT_ALREADY_LIVE');
+    }
+
+    this.assertOnboardingComplete(this.getOnboardingChecklist(tenant));
+
+    const [live] = await db.update(tenants)
+      .set({ isLive: true, liveAt: new Date(), updatedAt: new Date() })
+      .where(eq(tenants.id, tenantId))
+      .returning();
+
+    logger.info({ tenantId }, 'Tenant went live');
+
+    return this.withOnboarding(live);
+  }
+
+  /**
+   * Deactivate a tenant: no more rides or sign-ins, and every user is
+   * signed out
+   */
+  async deactivateTenant(tenantId: string): Promise<TenantDetails> {
+    const tenant = await this.findTenant(tenantId);
+
+    if (!tenant.isActive) {
+      throw new TenantError('Tenant is already deactivated', 'TENANT_INACTIVE');
+    }
+
+    const [deactivated] = await db.update(tenants)
+      .set({ isActive: false, deactivatedAt: new Date(), updatedAt: new Date() })
+      .where(eq(tenants.id, tenantId))
+      .returning();
+
+    await authService.revokeTenantSessions(tenantId, 'tenant_deactivated');
+
+    logger.warn({ tenantId }, 'Tenant deactivated');
+
+    return this.withOnboarding(deactivated);
+  }
+
+  /**
+   * Check what a tenant still needs before it can go live
+   */
+  getOnboardingChecklist(tenant: Tenant): OnboardingChecklist {
+    const legalMissing: string[] = [];
+
+    if (!tenant.legalName) legalMissing.push('legalName');
+    if (!tenant.businessId || !isValidBusinessId(tenant.businessId)) legalMissing.push('businessId');
+    if (!tenant.vatNumber || !tenant.businessId || !isValidVatNumber(tenant.vatNumber, tenant.businessId)) {
+      legalMissing.push('vatNumber');
+    }
+
+    const pricingValid = pricingService.isValidConfig(tenant.pricingConfig);
+    const paymentsMissing: string[] = [];
+    let provider: PaymentProvider | undefined;
+
+    try {
+      provider = this.resolvePaymentProvider(tenant);
+    } catch {
+      paymentsMissing.push('paymentProvider');
+    }
+
+    if (!tenant.stripeAccountId) {
+      paymentsMissing.push('stripeAccountId');
+    } else if (provider?.name === 'stripe' && !tenant.stripeOnboardingComplete) {
+      paymentsMissing.push('stripeOnboardingComplete');
+    }
+
+    const items: OnboardingItem[] = [
+      { key: 'legal_details', complete: legalMissing.length === 0, missing: legalMissing },
+      {
+        key: 'traficom_license',
+        complete: !!tenant.traficomLicenseNumber,
+        missing: tenant.traficomLicenseNumber ? [] : ['traficomLicenseNumber'],
+      },
+      {
+        key: 'pricing',
+        complete: pricingValid,
+        missing: pricingValid ? [] : ['pricingConfig'],
+      },
+      { key: 'payments', complete: paymentsMissing.length === 0, missing: paymentsMissing },
+    ];
+
+    return {
+      complete: items.every((item) => item.complete),
+      items,
+    };
+  }
+
+  private async findTenant(tenantId: string): Promise<Tenant> {
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    if (!tenant) {
+      throw new TenantError('Tenant not found', 'TENANT_NOT_FOUND');
+    }
+
+    return tenant;
+  }
+
+  private withOnboarding(tenant: Tenant): TenantDetails {
+    return {
+      ...tenant,
+      onboarding: this.getOnboardingChecklist(tenant),
+    };
+  }
+
+  private resolvePaymentProvider(tenant: { paymentProvider: string | null }): PaymentProvider {
+    try {
+      return getTenantPaymentProvider(tenant);
+    } catch (err) {
+      if (err instanceof PaymentProviderError) {
+        throw new TenantError(err.message, err.code);
+      }
+      throw err;
+    }
+  }
+
+  private assertVatNumber(vatNumber?: string | null, businessId?: string | null): void {
+    if (vatNumber && (!businessId || !isValidVatNumber(vatNumber, businessId))) {
+      throw new TenantError('VAT number must be FI followed by the business ID digits', 'INVALID_VAT_NUMBER');
+    }
+  }
+
+  /**
+   * Live tenants can't undo a completed checklist item. Items that were
+   * never complete (tenants live before onboarding existed) don't block
+   * unrelated changes.
+   */
+  private assertStillLive(current: Tenant, updated: Tenant): void {
+    if (!current.isLive) return;
+
+    const before = this.getOnboardingChecklist(current).items;
+    const broken = this.getOnboardingChecklist(updated).items
+      .filter((item, i) => before[i].complete && !item.complete);
+
+    if (broken.length > 0) {
+      const missing = broken.flatMap((item) => item.missing);
+      throw new TenantError(`A live tenant needs: ${missing.join(', ')}`, 'ONBOARDING_INCOMPLETE');
+    }
+  }
+
+  private assertOnboardingComplete(checklist: OnboardingChecklist): void {
+    if (!checklist.complete) {
+      const missing = checklist.items.flatMap((item) => item.missing);
+      throw new TenantError(`Onboarding incomplete, missing: ${missing.join(', ')}`, 'ONBOARDING_INCOMPLETE');
+    }
+  }
+}
+
+/**
+ * Custom error class for tenant administration errors
+ */
+export class TenantError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'TenantError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const tenantService = new TenantService();
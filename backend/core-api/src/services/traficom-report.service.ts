@@ -0,0 +1,283 @@
+/**
+ * Traficom Report Service
+ *
+ * Reports taximeter trips to Traficom (Finnish Transport and Communications
+ * Agency) under the tenant's operator licence:
+ * - Verified meter readings not yet reported are aggregated per vehicle
+ *   into the Traficom submission format
+ * - The submission goes out through the configured transport (HTTP API, or
+ *   a JSON file for development and manual upload)
+ * - Every attempt is recorded in traficom_reports with its outcome; reported
+ *   readings are stamped with the report, so each trip is reported once
+ *
+ * Readings stay locked while a report is submitted, so concurrent runs for
+ * the same period cannot report a trip twice.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, gte, lt, isNull, desc, inArray } from 'drizzle-orm';
+import { db, tenants, vehicles, taximeterReadings, traficomReports } from '../db/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  getTraficomTransport,
+  TraficomSubmission,
+  TraficomVehicleReport,
+} from './traficom-transports/index.js';
+
+// Types
+export interface CreateTraficomReportInput {
+  tenantId: string;
+  from: Date;
+  to: Date;
+}
+
+type ReadingWithVehicle = {
+  reading: typeof taximeterReadings.$inferSelect;
+  vehicle: typeof vehicles.$inferSelect;
+};
+
+export class TraficomReportService {
+  /**
+   * Build and submit the report for a period's unreported trips
+   *
+   * A failed submission is recorded (status failed) and rethrown as
+   * TRAFICOM_SUBMISSION_FAILED; its trips remain unreported.
+   */
+  async createReport(input: CreateTraficomReportInput): Promise<typeof traficomReports.$inferSelect> {
+    const { tenantId, from, to } = input;
+
+    if (from >= to) {
+      throw new TraficomReportError('Report period must end after it starts', 'INVALID_PERIOD');
+    }
+
+    const tenant = await db.query.tenants.findFirst({
+      where: eq(tenants.id, tenantId),
+    });
+
+    if (!tenant) {
+      throw new TraficomReportError('Tenant not found', 'TENANT_NOT_FOUND');
+    }
+
+    if (!tenant.traficomLicenseNumber) {
+      throw new TraficomReportError('Tenant has no Traficom licence number', 'TRAFICOM_LICENSE_MISSING');
+    }
+
+    const licenseNumber = tenant.traficomLicenseNumber;
+    const transport = getTraficomTransport();
+
+    const report = await db.transaction(async (tx) => {
+      const rows: ReadingWithVehicle[] = await tx
+        .select({ reading: taximeterReadings, vehicle: vehicles })
+        .from(taximeterReadings)
+        .innerJoin(vehicles, eq(taximeterReadings.vehicleId, vehicles.id))
+        .where(and(
+          eq(taximeterReadings.tenantId, tenantId),
+          eq(taximeterReadings.signatureValid, true),
+          isNull(taximeterReadings.traficomReportedAt),
+          gte(taximeterReadings.endTime, from),
+          lt(taximeterReadings.endTime, to)
+        ))
+        .orderBy(taximeterReadings.endTime)
+        .for('update', { of: taximeterReadings });
+
+      if (rows.length === 0) {
+        throw new TraficomReportError('No unreported taximeter trips in this period', 'NO_TRIPS_TO_REPORT');
+      }
+
+      const submission = this.buildSubmission(uuidv4(), tenant, licenseNumber, from, to, rows);
+      const record = {
+        id: submission.reportId,
+        tenantId,
+        licenseNumber,
+        periodStart: from,
+        periodEnd: to,
+        submission,
+        vehicleCount: submission.totals.vehicleCount,
+        tripCount: submission.totals.tripCount,
+        transport: transport.name,
+      };
+
+      try {
+        const result = await transport.submit(submission);
+        const now = new Date();
+
+        const [submitted] = await tx.insert(traficomReports)
+          .values({
+            ...record,
+            status: 'submitted',
+            externalReportId: result.externalReportId,
+            submittedAt: now,
+          })
+          .returning();
+
+        await tx.update(taximeterReadings)
+          .set({ traficomReportedAt: now, traficomReportId: submitted.id })
+          .where(inArray(taximeterReadings.id, rows.map((row) => row.reading.id)));
+
+        return submitted;
+      } catch (err) {
+        const [failed] = await tx.insert(traficomReports)
+          .values({
+            ...record,
+            status: 'failed',
+            error: err instanceof Error ? err.message : String(err),
+          })
+          .returning();
+
+        return failed;
+      }
+    });
+
+    if (report.status === 'failed') {
+      logger.error({ tenantId, reportId: report.id, error: report.error }, 'Traficom report submission failed');
+      throw new TraficomReportError(`Traficom submission failed: ${report.error}`, 'TRAFICOM_SUBMISSION_FAILED');
+    }
+
+    logger.info({
+      tenantId,
+      reportId: report.id,
+      externalReportId: report.externalReportId,
+      tripCount: report.tripCount,
+    }, 'Traficom report submitted');
+
+    return report;
+  }
+
+  /**
+   * List a tenant's reports, newest first
+   */
+  async listReports(
+    tenantId: string,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<(typeof traficomReports.$inferSelect)[]> {
+    return db.query.traficomReports.findMany({
+      where: eq(traficomReports.tenantId, tenantId),
+      orderBy: desc(traficomReports.createdAt),
+      limit,
+      offset,
+    });
+  }
+
+  /**
+   * Get a report, including the submission as sent
+   */
+  async getReport(reportId: string, tenantId: string): Promise<typeof traficomReports.$inferSelect> {
+    const report = await db.query.traficomReports.findFirst({
+      where: and(
+        eq(traficomReports.id, reportId),
+        eq(traficomReports.tenantId, tenantId)
+      ),
+    });
+
+    if (!report) {
+      throw new TraficomReportError('Report not found', 'REPORT_NOT_FOUND');
+    }
+
+    return report;
+  }
+
+  /**
+   * Aggregate readings per vehicle into the Traficom submission format
+   */
+  private buildSubmission(
+    reportId: string,
+    tenant: typeof tenants.$inferSelect,
+    licenseNumber: string,
+    from: Date,
+    to: Date,
+    rows: ReadingWithVehicle[]
+  ): TraficomSubmission {
+    const byVehicle = new Map<string, TraficomVehicleReport>();
+
+    for (const { reading, vehicle } of rows) {
+      let vehicleReport = byVehicle.get(vehicle.id);
+
+      if (!vehicleReport) {
+        vehicleReport = {
+          registrationNumber: vehicle.registrationNumber,
+          taxiLicensePlate: vehicle.taxiLicensePlate,
+          traficomVehicleId: vehicle.traficomVehicleId,
+          taximeterSerialNumber: reading.taximeterSerialNumber,
+          tripCount: 0,
+          totalDistanceKm: 0,
+          totalDurationMinutes: 0,
+          totalFare: 0,
+          totalVat: 0,
+          trips: [],
+        };
+        byVehicle.set(vehicle.id, vehicleReport);
+      }
+
+      const totalFare = parseFloat(reading.totalFare);
+      const vatAmount = parseFloat(reading.vatAmount);
+
+      vehicleReport.trips.push({
+        receiptNumber: reading.receiptNumber,
+        startTime: reading.startTime.toISOString(),
+        endTime: reading.endTime.toISOString(),
+        distanceMeters: reading.distanceMeters,
+        durationSeconds: reading.durationSeconds,
+        totalFare,
+        vatAmount,
+        tariffCode: reading.tariffCode,
+      });
+      vehicleReport.tripCount++;
+      vehicleReport.totalDistanceKm += reading.distanceMeters / 1000;
+      vehicleReport.totalDurationMinutes += reading.durationSeconds / 60;
+      vehicleReport.totalFare += totalFare;
+      vehicleReport.totalVat += vatAmount;
+    }
+
+    const vehicleReports = [...byVehicle.values()].map((vehicleReport) => ({
+      ...vehicleReport,
+      totalDistanceKm: round(vehicleReport.totalDistanceKm, 3),
+      totalDurationMinutes: round(vehicleReport.totalDurationMinutes, 1),
+      totalFare: round(vehicleReport.totalFare, 2),
+      totalVat: round(vehicleReport.totalVat, 2),
+    }));
+
+    return {
+      schemaVersion: '1.0',
+      reportId,
+      operator: {
+        licenseNumber,
+        businessId: tenant.businessId,
+        name: tenant.name,
+      },
+      period: {
+        start: from.toISOString().slice(0, 10),
+        end: to.toISOString().slice(0, 10),
+      },
+      vehicles: vehicleReports,
+      totals: {
+        vehicleCount: vehicleReports.length,
+        tripCount: rows.length,
+        totalDistanceKm: round(vehicleReports.reduce((sum, v) => sum + v.totalDistanceKm, 0), 3),
+        totalFare: round(vehicleReports.reduce((sum, v) => sum + v.totalFare, 0), 2),
+        totalVat: round(vehicleReports.reduce((sum, v) => sum + v.totalVat, 0), 2),
+      },
+    };
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Custom error class for Traficom report errors
+ */
+export class TraficomReportError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'TraficomReportError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const traficomReportService = new TraficomReportService();
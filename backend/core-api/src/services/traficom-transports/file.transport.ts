@@ -0,0 +1,42 @@
+/**
+ * Traficom File Transport
+ *
+ * Writes each submission as a JSON file instead of sending it, for local
+ * development, tests and manual upload.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from '../../config/index.js';
+import {
+  TraficomTransport,
+  TraficomTransportError,
+  TraficomSubmission,
+  TraficomSubmissionResult,
+} from './types.js';
+
+export class FileTraficomTransport implements TraficomTransport {
+  readonly name = 'file' as const;
+
+  constructor(private readonly directory: string = config.finland.traficomExportDir) {}
+
+  async submit(submission: TraficomSubmission): Promise<TraficomSubmissionResult> {
+    const fileName = `${submission.operator.licenseNumber}_${submission.period.start}_${submission.reportId}.json`;
+    const filePath = join(this.directory, fileName);
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(filePath, JSON.stringify(submission, null, 2));
+    } catch (err) {
+      throw new TraficomTransportError(
+        err instanceof Error ? err.message : 'Failed to write report file',
+        'TRAFICOM_SUBMISSION_FAILED'
+      );
+    }
+
+    return { externalReportId: `FILE-${fileName}` };
+  }
+}
+
+// Export singleton instance
+export const fileTraficomTransport = new FileTraficomTransport();
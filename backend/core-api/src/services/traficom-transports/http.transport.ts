@@ -0,0 +1,55 @@
+/**
+ * Traficom HTTP Transport
+ *
+ * Submits reports to the Traficom reporting API.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../../config/index.js';
+import {
+  TraficomTransport,
+  TraficomTransportError,
+  TraficomSubmission,
+  TraficomSubmissionResult,
+} from './types.js';
+
+export class HttpTraficomTransport implements TraficomTransport {
+  readonly name = 'http' as const;
+  private client: AxiosInstance | null;
+
+  constructor() {
+    this.client = config.finland.traficomApiEndpoint
+      ? axios.create({
+          baseURL: config.finland.traficomApiEndpoint,
+          headers: {
+            'X-API-Key': config.finland.traficomApiKey,
+            'Content-Type': 'application/json',
+          },
+          timeout: 30000,
+        })
+      : null;
+  }
+
+  async submit(submission: TraficomSubmission): Promise<TraficomSubmissionResult> {
+    if (!this.client) {
+      throw new TraficomTransportError('Traficom API not configured', 'TRAFICOM_NOT_CONFIGURED');
+    }
+
+    try {
+      const { data } = await this.client.post<{ reportId: string }>('/taxi-trip-reports', submission, {
+        // Traficom deduplicates on this, so resubmitting after a timeout is safe
+        headers: { 'Idempotency-Key': submission.reportId },
+      });
+
+      return { externalReportId: data.reportId };
+    } catch (err) {
+      throw new TraficomTransportError(
+        err instanceof Error ? err.message : 'Traficom API request failed',
+        'TRAFICOM_SUBMISSION_FAILED'
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const httpTraficomTransport = new HttpTraficomTransport();
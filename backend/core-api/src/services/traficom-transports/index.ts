@@ -0,0 +1,34 @@
+/**
+ * Traficom Transport Registry
+ *
+ * Resolves the transport Traficom reports are submitted through
+ * (TRAFICOM_TRANSPORT). New transports implement TraficomTransport and are
+ * registered here.
+ */
+
+import { config } from '../../config/index.js';
+import { TraficomTransport, TraficomTransportName, TraficomTransportError } from './types.js';
+import { httpTraficomTransport } from './http.transport.js';
+import { fileTraficomTransport } from './file.transport.js';
+
+export * from './types.js';
+export { httpTraficomTransport, HttpTraficomTransport } from './http.transport.js';
+export { fileTraficomTransport, FileTraficomTransport } from './file.transport.js';
+
+const transports: Record<TraficomTransportName, TraficomTransport> = {
+  http: httpTraficomTransport,
+  file: fileTraficomTransport,
+};
+
+/**
+ * Get the configured transport
+ */
+export function getTraficomTransport(name: string = config.finland.traficomTransport): TraficomTransport {
+  const transport = transports[name as TraficomTransportName];
+
+  if (!transport) {
+    throw new TraficomTransportError(`Unknown Traficom transport: ${name}`, 'UNKNOWN_TRAFICOM_TRANSPORT');
+  }
+
+  return transport;
+}
@@ -0,0 +1,77 @@
+/**
+ * Traficom Transport Types
+ *
+ * Submission format for Traficom taxi trip reports and the interface every
+ * transport implements.
+ */
+
+export type TraficomTransportName = 'http' | 'file';
+
+export interface TraficomTrip {
+  receiptNumber: string;
+  startTime: string; // ISO 8601, UTC
+  endTime: string;
+  distanceMeters: number;
+  durationSeconds: number;
+  totalFare: number;
+  vatAmount: number;
+  tariffCode: string | null;
+}
+
+export interface TraficomVehicleReport {
+  registrationNumber: string;
+  taxiLicensePlate: string | null;
+  traficomVehicleId: string | null;
+  taximeterSerialNumber: string;
+  tripCount: number;
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+  totalFare: number;
+  totalVat: number;
+  trips: TraficomTrip[];
+}
+
+export interface TraficomSubmission {
+  schemaVersion: '1.0';
+  reportId: string; // Our report id; resubmissions of the same report reuse it
+  operator: {
+    licenseNumber: string;
+    businessId: string | null;
+    name: string;
+  };
+  period: {
+    start: string; // YYYY-MM-DD, inclusive
+    end: string; // YYYY-MM-DD, exclusive
+  };
+  vehicles: TraficomVehicleReport[];
+  totals: {
+    vehicleCount: number;
+    tripCount: number;
+    totalDistanceKm: number;
+    totalFare: number;
+    totalVat: number;
+  };
+}
+
+export interface TraficomSubmissionResult {
+  externalReportId: string; // Traficom's receipt id (or the file written)
+}
+
+export interface TraficomTransport {
+  readonly name: TraficomTransportName;
+
+  submit(submission: TraficomSubmission): Promise<TraficomSubmissionResult>;
+}
+
+/**
+ * Custom error class for Traficom transport errors
+ */
+export class TraficomTransportError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'TraficomTransportError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,419 @@
+/**
+ * Vero Report Service
+ *
+ * Durable queue for Vero real-time income reports:
+ * - A completed payment enqueues its IncomeReport in the same transaction
+ *   that completes it, so every paid fare gets reported
+ * - A worker submits queued reports through VeroService, retrying with
+ *   exponential backoff while the Vero API is unreachable
+ * - Vero's verdict (accepted, pending or rejected) is stored on the report
+ *   and on the payment; rejected reports are listed for tenant admins, who
+ *   correct and resubmit them
+ * - Reports Vero answered `pending` are polled until it decides
+ */
+
+import { eq, and, lte, asc, desc, inArray } from 'drizzle-orm';
+import { db, veroReports, payments, rides, users, tenants, taximeterReadings, DbTransaction } from '../db/index.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { veroService, IncomeReport, IncomeType, VeroReportResponse } from './vero.service.js';
+
+// Types
+export type VeroReportStatus = typeof veroReports.$inferSelect['status'];
+
+export type VeroReportCorrections = Partial<Pick<IncomeReport,
+  | 'driverBusinessId'
+  | 'driverTaxNumber'
+  | 'pickupAddress'
+  | 'dropoffAddress'
+  | 'distanceKm'
+  | 'durationMinutes'
+  | 'taximeterReceiptNumber'
+  | 'taximeterSerialNumber'
+>>;
+
+// Constants
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 12;
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 60 * 60;
+const CLAIM_LEASE_SECONDS = 5 * 60; // A crashed worker's claimed reports are retried after this
+const PENDING_POLL_SECONDS = 10 * 60; // How often Vero is asked again about a pending report
+const DUE_STATUSES: VeroReportStatus[] = ['queued', 'pending'];
+const CORRECTABLE_STATUSES: VeroReportStatus[] = ['rejected', 'failed'];
+
+export class VeroReportService {
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  /**
+   * Queue the income report for a completed payment as part of the
+   * caller's transaction. Skipped for tenants without Vero reporting and
+   * for payments without a driver.
+   */
+  async enqueue(tx: DbTransaction, payment: typeof payments.$inferSelect): Promise<void> {
+    if (!payment.driverId) return;
+
+    const tenant = await tx.query.tenants.findFirst({
+      where: eq(tenants.id, payment.tenantId),
+    });
+
+    if (!tenant?.veroApiEnabled) return;
+
+    const ride = await tx.query.rides.findFirst({
+      where: eq(rides.id, payment.rideId),
+    });
+
+    const driver = await tx.query.users.findFirst({
+      where: eq(users.id, payment.driverId),
+    });
+
+    const taximeterReading = await tx.query.taximeterReadings.findFirst({
+      where: eq(taximeterReadings.rideId, payment.rideId),
+    });
+
+    const grossAmount = parseFloat(payment.amount);
+    const vatAmount = parseFloat(payment.vatAmount || '0');
+
+    const report: IncomeReport = {
+      transactionId: payment.id,
+      tenantId: payment.tenantId,
+      tenantBusinessId: tenant.businessId || '',
+      driverId: payment.driverId,
+      // Missing ids are reported as-is; Vero rejects them and an admin corrects the report
+      driverBusinessId: driver?.businessId || '',
+      driverTaxNumber: driver?.veroTaxNumber || '',
+
+      timestamp: payment.processedAt || new Date(),
+      incomeType: IncomeType.TAXI_FARE,
+      grossAmount,
+      netAmount: Math.round((grossAmount - vatAmount) * 100) / 100,
+      vatAmount,
+      vatRate: config.finland.vatRatePassenger,
+      currency: payment.currency || 'EUR',
+
+      rideId: payment.rideId,
+      pickupAddress: ride?.pickupAddress,
+      dropoffAddress: ride?.dropoffAddress,
+      distanceKm: ride?.actualDistanceMeters != null ? ride.actualDistanceMeters / 1000 : undefined,
+      durationMinutes: ride?.actualDurationSeconds != null ? Math.round(ride.actualDurationSeconds / 60) : undefined,
+
+      taximeterReceiptNumber: taximeterReading?.receiptNumber,
+      taximeterSerialNumber: taximeterReading?.taximeterSerialNumber,
+
+      paymentMethod: payment.paymentMethod,
+      paymentReference: payment.receiptNumber || undefined,
+    };
+
+    const [queued] = await tx.insert(veroReports)
+      .values({
+        tenantId: payment.tenantId,
+        paymentId: payment.id,
+        driverId: payment.driverId,
+        report,
+      })
+      .onConflictDoNothing()
+      .returning({ id: veroReports.id });
+
+    if (queued) {
+      await tx.update(payments)
+        .set({ veroReportStatus: 'queued' })
+        .where(eq(payments.id, payment.id));
+    }
+  }
+
+  /**
+   * Start the submission worker
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.processQueue();
+    }, config.finland.veroWorkerIntervalSeconds * 1000);
+
+    logger.info({ intervalSeconds: config.finland.veroWorkerIntervalSeconds }, 'Vero report worker started');
+  }
+
+  /**
+   * Stop the submission worker
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Submit one batch of due reports, and poll the pending ones that are due
+   *
+   * Reports are claimed by pushing their next attempt past a lease, so
+   * several core-api instances can run the worker without submitting a
+   * report twice, and no transaction is held open across Vero calls.
+   * Reports stay queued while the Vero API is not configured.
+   */
+  async processQueue(): Promise<number> {
+    if (this.isProcessing || !veroService.isEnabled()) return 0;
+    this.isProcessing = true;
+
+    try {
+      const claimed = await db.transaction(async (tx) => {
+        const due = await tx.select()
+          .from(veroReports)
+          .where(and(
+            inArray(veroReports.status, DUE_STATUSES),
+            lte(veroReports.nextAttemptAt, new Date())
+          ))
+          .orderBy(asc(veroReports.createdAt))
+          .limit(BATCH_SIZE)
+          .for('update', { skipLocked: true });
+
+        if (due.length > 0) {
+          await tx.update(veroReports)
+            .set({ nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_SECONDS * 1000) })
+            .where(inArray(veroReports.id, due.map((row) => row.id)));
+        }
+
+        return due;
+      });
+
+      for (const row of claimed) {
+        if (row.status === 'pending') {
+          await this.poll(row);
+        } else {
+          await this.submit(row);
+        }
+      }
+
+      return claimed.length;
+    } catch (err) {
+      logger.error({ err }, 'Vero report worker pass failed');
+      return 0;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * List a tenant's reports, optionally filtered by status
+   */
+  async listReports(
+    tenantId: string,
+    statuses?: VeroReportStatus[],
+    limit: number = 100
+  ): Promise<(typeof veroReports.$inferSelect)[]> {
+    return db.query.veroReports.findMany({
+      where: and(
+        eq(veroReports.tenantId, tenantId),
+        statuses?.length ? inArray(veroReports.status, statuses) : undefined
+      ),
+      orderBy: desc(veroReports.createdAt),
+      limit,
+    });
+  }
+
+  /**
+   * Get a report by ID
+   */
+  async getReport(reportId: string, tenantId: string): Promise<typeof veroReports.$inferSelect> {
+    const report = await db.query.veroReports.findFirst({
+      where: and(
+        eq(veroReports.id, reportId),
+        eq(veroReports.tenantId, tenantId)
+      ),
+    });
+
+    if (!report) {
+      throw new VeroReportError('Report not found', 'REPORT_NOT_FOUND');
+    }
+
+    return report;
+  }
+
+  /**
+   * Apply an admin's corrections to a rejected or failed report and queue
+   * it for submission again
+   */
+  async resubmit(
+    reportId: string,
+    tenantId: string,
+    corrections: VeroReportCorrections = {}
+  ): Promise<typeof veroReports.$inferSelect> {
+    const existing = await this.getReport(reportId, tenantId);
+
+    if (!CORRECTABLE_STATUSES.includes(existing.status)) {
+      throw new VeroReportError(
+        `Cannot resubmit a report with status ${existing.status}`,
+        'REPORT_NOT_CORRECTABLE'
+      );
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      // Conditional on status so a concurrent resubmission doesn't queue it twice
+      const [queued] = await tx.update(veroReports)
+        .set({
+          report: { ...(existing.report as IncomeReport), ...corrections },
+          status: 'queued',
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(veroReports.id, reportId),
+          inArray(veroReports.status, CORRECTABLE_STATUSES)
+        ))
+        .returning();
+
+      if (!queued) {
+        throw new VeroReportError('Report was already resubmitted', 'REPORT_NOT_CORRECTABLE');
+      }
+
+      await tx.update(payments)
+        .set({ veroReportStatus: 'queued', updatedAt: new Date() })
+        .where(eq(payments.id, queued.paymentId));
+
+      return queued;
+    });
+
+    logger.info({ reportId, tenantId, corrected: Object.keys(corrections) }, 'Vero report resubmitted');
+
+    return updated;
+  }
+
+  /**
+   * Submit a claimed report and record Vero's verdict
+   */
+  private async submit(row: typeof veroReports.$inferSelect): Promise<void> {
+    const stored = row.report as IncomeReport;
+    let response: VeroReportResponse;
+
+    try {
+      // Dates come back from jsonb as strings
+      response = await veroService.reportIncome({ ...stored, timestamp: new Date(stored.timestamp) });
+    } catch (err) {
+      await this.markFailedAttempt(row, err);
+      return;
+    }
+
+    await this.recordVerdict(row, response, {
+      attempts: row.attempts + 1,
+      submittedAt: new Date(),
+    });
+  }
+
+  /**
+   * Ask Vero again about a claimed pending report and record its verdict
+   */
+  private async poll(row: typeof veroReports.$inferSelect): Promise<void> {
+    let response: VeroReportResponse;
+
+    try {
+      response = await veroService.getReportStatus(row.veroReportId!);
+    } catch (err) {
+      await db.update(veroReports)
+        .set({
+          lastError: err instanceof Error ? err.message : String(err),
+          nextAttemptAt: new Date(Date.now() + PENDING_POLL_SECONDS * 1000),
+          updatedAt: new Date(),
+        })
+        .where(eq(veroReports.id, row.id));
+      return;
+    }
+
+    await this.recordVerdict(row, response, {});
+  }
+
+  /**
+   * Store Vero's verdict on the report and its payment; pending reports
+   * are scheduled to be polled
+   */
+  private async recordVerdict(
+    row: typeof veroReports.$inferSelect,
+    response: VeroReportResponse,
+    submission: { attempts?: number; submittedAt?: Date }
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(veroReports)
+        .set({
+          ...submission,
+          status: response.status,
+          lastError: null,
+          veroReportId: response.reportId,
+          veroMessage: response.message ?? null,
+          nextAttemptAt: new Date(Date.now() + PENDING_POLL_SECONDS * 1000),
+          updatedAt: new Date(),
+        })
+        .where(eq(veroReports.id, row.id));
+
+      await tx.update(payments)
+        .set({
+          veroReportStatus: response.status,
+          veroReportId: response.reportId,
+          // Reported once Vero has the report, i.e. from its submission
+          veroReportedAt: response.status === 'rejected' ? null : (submission.submittedAt ?? row.submittedAt),
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, row.paymentId));
+    });
+
+    if (response.status === 'rejected') {
+      logger.warn({
+        reportId: row.id,
+        tenantId: row.tenantId,
+        paymentId: row.paymentId,
+        message: response.message,
+      }, 'Vero rejected income report, needs correction');
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or give up after MAX_ATTEMPTS
+   */
+  private async markFailedAttempt(row: typeof veroReports.$inferSelect, err: unknown): Promise<void> {
+    const attempts = row.attempts + 1;
+    const backoffSeconds = Math.min(BASE_BACKOFF_SECONDS * 2 ** (attempts - 1), MAX_BACKOFF_SECONDS);
+    const giveUp = attempts >= MAX_ATTEMPTS;
+
+    await db.transaction(async (tx) => {
+      await tx.update(veroReports)
+        .set({
+          status: giveUp ? 'failed' : 'queued',
+          attempts,
+          lastError: err instanceof Error ? err.message : String(err),
+          nextAttemptAt: new Date(Date.now() + backoffSeconds * 1000),
+          updatedAt: new Date(),
+        })
+        .where(eq(veroReports.id, row.id));
+
+      if (giveUp) {
+        await tx.update(payments)
+          .set({ veroReportStatus: 'failed', updatedAt: new Date() })
+          .where(eq(payments.id, row.paymentId));
+      }
+    });
+
+    if (giveUp) {
+      logger.error({ reportId: row.id, paymentId: row.paymentId, attempts }, 'Vero report failed permanently');
+    } else {
+      logger.warn({ reportId: row.id, attempts, backoffSeconds }, 'Vero report submission failed, will retry');
+    }
+  }
+}
+
+/**
+ * Custom error class for Vero report errors
+ */
+export class VeroReportError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'VeroReportError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const veroReportService = new VeroReportService();
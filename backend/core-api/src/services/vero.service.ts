@@ -17,10 +17,14 @@
  * - Compliance with Vero's technical specifications
  */
 
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, isAxiosError } from 'axios';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 
+// HTTP statuses with which Vero refuses a report itself (validation); the
+// rest (auth, throttling, timeouts, outages) are worth retrying
+const REJECTION_STATUSES = [400, 422];
+
 // VAT rates for Finland (2026)
 export const VAT_RATES = {
   PASSENGER_TRANSPORT: 0.135, // 13.5% for taxi/passenger transport
@@ -41,6 +45,7 @@ export enum IncomeType {
 export interface IncomeReport {
   transactionId: string;
   tenantId: string;
+  tenantBusinessId: string; // Platform Y-tunnus
   driverId: string;
   driverBusinessId: string; // Y-tunnus
   driverTaxNumber: string;  // Vero tax number
@@ -151,8 +156,19 @@ export class VeroService {
     };
   }
 
+  /**
+   * Whether the Vero API is configured for submissions
+   */
+  isEnabled(): boolean {
+    return this.isConfigured;
+  }
+
   /**
    * Report income to Vero
+   *
+   * Returns Vero's verdict (accepted, pending or rejected). Throws a
+   * VeroError when Vero could not be reached or failed to process the
+   * report, so the caller can retry it.
    */
   async reportIncome(report: IncomeReport): Promise<VeroReportResponse> {
     if (!this.isConfigured || !this.client) {
@@ -165,39 +181,64 @@ export class VeroService {
       };
     }
 
-    try {
-      // Format the report according to Vero API specifications
-      const veroPayload = this.formatVeroPayload(report);
-
-      // In production, this would make an actual API call
-      // const response = await this.client.post('/income-reports', veroPayload);
+    // Format the report according to Vero API specifications
+    const veroPayload = this.formatVeroPayload(report);
 
-      // For now, simulate a successful response
-      const response: VeroReportResponse = {
-        reportId: `VERO-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        status: 'accepted',
-        timestamp: new Date().toISOString(),
-      };
+    try {
+      const { data } = await this.client.post<VeroReportResponse>('/income-reports', veroPayload);
 
       logger.info({
-        reportId: response.reportId,
+        reportId: data.reportId,
+        status: data.status,
         transactionId: report.transactionId,
         amount: report.grossAmount,
       }, 'Income reported to Vero');
 
-      return response;
+      return data;
     } catch (err) {
-      logger.error({ err, report }, 'Failed to report income to Vero');
-      
-      // Store failed reports for retry
-      await this.storeFailedReport(report);
+      // Vero refused the report itself; retrying won't help
+      if (isAxiosError(err) && err.response && REJECTION_STATUSES.includes(err.response.status)) {
+        const body = err.response.data as Partial<VeroReportResponse> | undefined;
+
+        return {
+          reportId: body?.reportId || `REJECTED-${Date.now()}`,
+          status: 'rejected',
+          message: body?.message || `Vero rejected the report (HTTP ${err.response.status})`,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
+      logger.warn({ err, transactionId: report.transactionId }, 'Failed to reach Vero API');
+      throw new VeroError(
+        err instanceof Error ? err.message : 'Vero API request failed',
+        'VERO_UNAVAILABLE'
+      );
+    }
+  }
 
-      return {
-        reportId: `FAILED-${Date.now()}`,
-        status: 'rejected',
-        message: err instanceof Error ? err.message : 'Unknown error',
-        timestamp: new Date().toISOString(),
-      };
+  /**
+   * Fetch Vero's current verdict on a report it answered `pending`
+   *
+   * Throws a VeroError when Vero could not be reached, so the caller can
+   * ask again later.
+   */
+  async getReportStatus(reportId: string): Promise<VeroReportResponse> {
+    if (!this.isConfigured || !this.client) {
+      throw new VeroError('Vero API not configured', 'VERO_NOT_CONFIGURED');
+    }
+
+    try {
+      const { data } = await this.client.get<VeroReportResponse>(
+        `/income-reports/${encodeURIComponent(reportId)}`
+      );
+
+      return data;
+    } catch (err) {
+      logger.warn({ err, reportId }, 'Failed to fetch Vero report status');
+      throw new VeroError(
+        err instanceof Error ? err.message : 'Vero API request failed',
+        'VERO_UNAVAILABLE'
+      );
     }
   }
 
@@ -207,7 +248,7 @@ export class VeroService {
   private formatVeroPayload(report: IncomeReport): Record<string, unknown> {
     return {
       // Business identification
-      payerBusinessId: report.tenantId, // Platform Y-tunnus
+      payerBusinessId: report.tenantBusinessId, // Platform Y-tunnus
       payeeBusinessId: report.driverBusinessId, // Driver Y-tunnus
       payeeTaxNumber: report.driverTaxNumber,
       
@@ -243,14 +284,6 @@ export class VeroService {
     };
   }
 
-  /**
-   * Store failed report for later retry
-   */
-  private async storeFailedReport(report: IncomeReport): Promise<void> {
-    // In production, store in database or message queue for retry
-    logger.warn({ transactionId: report.transactionId }, 'Storing failed Vero report for retry');
-  }
-
   /**
    * Generate a tax-compliant digital receipt
    */
@@ -418,5 +451,18 @@ export class VeroService {
   }
 }
 
+/**
+ * Custom error class for Vero errors
+ */
+export class VeroError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'VeroError';
+    this.code = code;
+  }
+}
+
 // Export singleton instance
 export const veroService = new VeroService();
@@ -0,0 +1,41 @@
+/**
+ * Finnish Business Identifiers
+ *
+ * Business ID (Y-tunnus): seven digits and a check digit, e.g. 1234567-8.
+ * VAT number (ALV-numero): FI followed by the business ID's digits,
+ * e.g. FI12345678.
+ */
+
+const BUSINESS_ID_PATTERN = /^(\d{7})-(\d)$/;
+const VAT_NUMBER_PATTERN = /^FI(\d{8})$/;
+const CHECK_WEIGHTS = [7, 9, 10, 5, 8, 4, 2];
+
+/**
+ * Validate a business ID's format and check digit
+ */
+export function isValidBusinessId(businessId: string): boolean {
+  const match = BUSINESS_ID_PATTERN.exec(businessId);
+
+  if (!match) {
+    return false;
+  }
+
+  const sum = [...match[1]].reduce((total, digit, i) => total + Number(digit) * CHECK_WEIGHTS[i], 0);
+  const remainder = sum % 11;
+
+  // Remainder 1 is never issued
+  if (remainder === 1) {
+    return false;
+  }
+
+  const checkDigit = remainder === 0 ? 0 : 11 - remainder;
+  return checkDigit === Number(match[2]);
+}
+
+/**
+ * Validate a VAT number against the business ID it is derived from
+ */
+export function isValidVatNumber(vatNumber: string, businessId: string): boolean {
+  const match = VAT_NUMBER_PATTERN.exec(vatNumber);
+  return !!match && match[1] === businessId.replace('-', '');
+}
@@ -0,0 +1,116 @@
+/**
+ * Geohash Encoding
+ *
+ * Encodes coordinates into geohash cells used to bucket a service area
+ * into zones. Each character adds 5 bits, alternating longitude and
+ * latitude, so neighbouring points share a common prefix.
+ *
+ * Approximate cell sizes:
+ * - Precision 5: 4.9km x 4.9km
+ * - Precision 6: 1.2km x 0.6km
+ * - Precision 7: 153m x 153m
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Encode a coordinate into a geohash
+ *
+ * @param latitude - Latitude in degrees
+ * @param longitude - Longitude in degrees
+ * @param precision - Number of characters in the hash
+ * @returns Geohash string
+ */
+export function encodeGeohash(
+  latitude: number,
+  longitude: number,
+  precision: number
+): string {
+  let latMin = -90, latMax = 90;
+  let lonMin = -180, lonMax = 180;
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const lonMid = (lonMin + lonMax) / 2;
+      if (longitude >= lonMid) {
+        bits = bits * 2 + 1;
+        lonMin = lonMid;
+      } else {
+        bits = bits * 2;
+        lonMax = lonMid;
+      }
+    } else {
+      const latMid = (latMin + latMax) / 2;
+      if (latitude >= latMid) {
+        bits = bits * 2 + 1;
+        latMin = latMid;
+      } else {
+        bits = bits * 2;
+        latMax = latMid;
+      }
+    }
+
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += BASE32.charAt(bits);
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Decode a geohash into the bounds of its cell
+ *
+ * @param hash - Geohash string
+ * @returns Cell bounds and center point
+ */
+export function decodeGeohash(hash: string): {
+  latitude: number;
+  longitude: number;
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+} {
+  let latMin = -90, latMax = 90;
+  let lonMin = -180, lonMax = 180;
+  let evenBit = true;
+
+  for (const char of hash.toLowerCase()) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid geohash character: ${char}`);
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = (value >> bit) & 1;
+
+      if (evenBit) {
+        const lonMid = (lonMin + lonMax) / 2;
+        if (isSet) lonMin = lonMid; else lonMax = lonMid;
+      } else {
+        const latMid = (latMin + latMax) / 2;
+        if (isSet) latMin = latMid; else latMax = latMid;
+      }
+
+      evenBit = !evenBit;
+    }
+  }
+
+  return {
+    latitude: (latMin + latMax) / 2,
+    longitude: (lonMin + lonMax) / 2,
+    minLatitude: latMin,
+    maxLatitude: latMax,
+    minLongitude: lonMin,
+    maxLongitude: lonMax,
+  };
+}
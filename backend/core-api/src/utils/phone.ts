@@ -0,0 +1,26 @@
+/**
+ * Phone Number Normalization
+ *
+ * Phone numbers are stored and looked up in E.164 form (+358401234567).
+ * National numbers (leading 0) are assumed to be Finnish.
+ */
+
+const DEFAULT_COUNTRY_CODE = '358'; // Finland
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+/**
+ * Normalize a phone number to E.164
+ *
+ * @returns null if the input isn't a valid phone number
+ */
+export function normalizePhoneNumber(phone: string, countryCode: string = DEFAULT_COUNTRY_CODE): string | null {
+  let normalized = phone.trim().replace(/[\s\-().]/g, '');
+
+  if (normalized.startsWith('00')) {
+    normalized = `+${normalized.slice(2)}`;
+  } else if (normalized.startsWith('0')) {
+    normalized = `+${countryCode}${normalized.slice(1)}`;
+  }
+
+  return E164_PATTERN.test(normalized) ? normalized : null;
+}
@@ -0,0 +1,49 @@
+/**
+ * Encoded Polyline
+ *
+ * Encodes a list of coordinates with Google's encoded polyline algorithm,
+ * as read by Google Maps, Mapbox and most map SDKs. Each coordinate is
+ * rounded to 5 decimals (~1m) and stored as the delta from the previous
+ * one, zigzag-encoded into 5-bit chunks offset into printable ASCII.
+ */
+
+const PRECISION = 1e5;
+
+/**
+ * Encode one signed value as polyline characters
+ */
+function encodeValue(value: number): string {
+  let chunk = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+
+  while (chunk >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (chunk & 0x1f)) + 63);
+    chunk >>= 5;
+  }
+
+  return encoded + String.fromCharCode(chunk + 63);
+}
+
+/**
+ * Encode coordinates as a polyline string
+ *
+ * @param points - [latitude, longitude] pairs in degrees
+ * @returns Encoded polyline
+ */
+export function encodePolyline(points: Array<[number, number]>): string {
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  for (const [latitude, longitude] of points) {
+    const lat = Math.round(latitude * PRECISION);
+    const lng = Math.round(longitude * PRECISION);
+
+    encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return encoded;
+}
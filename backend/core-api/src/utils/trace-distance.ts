@@ -0,0 +1,120 @@
+/**
+ * GPS Trace Distance
+ *
+ * Measures the distance driven along a recorded GPS trace:
+ * - Fixes with poor accuracy are dropped
+ * - A fix that would need an implausible speed from the previous one is an
+ *   outlier (multipath, cell tower fallback) and is dropped
+ * - Movement below the jitter threshold is ignored, so a car standing at
+ *   lights doesn't accumulate distance
+ * - Where fixes are missing for a while (tunnels, app in background), the
+ *   straight line across the gap is stretched by a road detour factor
+ */
+
+import { haversineDistance } from './haversine.js';
+
+// Types
+export interface TraceFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null; // meters
+  recordedAt: Date;
+}
+
+export interface TraceDistance {
+  distanceMeters: number;
+  interpolatedMeters: number; // Part of distanceMeters estimated across gaps
+  usedFixes: number;
+  discardedFixes: number;
+  firstFixAt: Date | null;
+  lastFixAt: Date | null;
+}
+
+// Constants
+const MAX_ACCURACY_METERS = 50;
+const MAX_SPEED_MPS = 50; // 180 km/h
+const JITTER_METERS = 5;
+const MAX_OUTLIERS_IN_ROW = 3; // More and the anchor itself was the outlier
+const GAP_SECONDS = 30; // Location updates come every few seconds while driving
+const GAP_DETOUR_FACTOR = 1.3; // Road distance vs. straight line in urban areas
+
+/**
+ * Measure the distance driven along a trace
+ *
+ * @param fixes - GPS fixes, oldest first
+ * @returns Distance and how much of the trace was usable
+ */
+export function measureTraceDistance(fixes: TraceFix[]): TraceDistance {
+  let distanceMeters = 0;
+  let interpolatedMeters = 0;
+  let usedFixes = 0;
+  let discardedFixes = 0;
+  let anchor: TraceFix | null = null; // Last position distance was measured from
+  let firstSeenAt: Date | null = null;
+  let lastSeenAt: Date | null = null; // Last usable fix, moved or not
+  let outliersInRow = 0;
+
+  for (const fix of fixes) {
+    if (fix.accuracy !== null && fix.accuracy > MAX_ACCURACY_METERS) {
+      discardedFixes++;
+      continue;
+    }
+
+    if (!anchor || !lastSeenAt) {
+      anchor = fix;
+      firstSeenAt = fix.recordedAt;
+      lastSeenAt = fix.recordedAt;
+      usedFixes++;
+      continue;
+    }
+
+    const secondsSinceAnchor = (fix.recordedAt.getTime() - anchor.recordedAt.getTime()) / 1000;
+    if (secondsSinceAnchor <= 0) {
+      discardedFixes++;
+      continue;
+    }
+
+    const meters = haversineDistance(anchor.latitude, anchor.longitude, fix.latitude, fix.longitude);
+
+    if (meters / secondsSinceAnchor > MAX_SPEED_MPS) {
+      if (++outliersInRow < MAX_OUTLIERS_IN_ROW) {
+        discardedFixes++;
+        continue;
+      }
+
+      // Measure on from here; the jump itself is not counted
+      anchor = fix;
+      lastSeenAt = fix.recordedAt;
+      outliersInRow = 0;
+      usedFixes++;
+      continue;
+    }
+
+    outliersInRow = 0;
+
+    const secondsSinceLastSeen = (fix.recordedAt.getTime() - lastSeenAt.getTime()) / 1000;
+    lastSeenAt = fix.recordedAt;
+    usedFixes++;
+
+    if (meters < JITTER_METERS) continue;
+
+    if (secondsSinceLastSeen > GAP_SECONDS) {
+      const interpolated = meters * GAP_DETOUR_FACTOR;
+      distanceMeters += interpolated;
+      interpolatedMeters += interpolated;
+    } else {
+      distanceMeters += meters;
+    }
+
+    anchor = fix;
+  }
+
+  return {
+    distanceMeters: Math.round(distanceMeters),
+    interpolatedMeters: Math.round(interpolatedMeters),
+    usedFixes,
+    discardedFixes,
+    firstFixAt: firstSeenAt,
+    lastFixAt: lastSeenAt,
+  };
+}
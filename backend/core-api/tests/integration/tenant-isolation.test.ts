@@ -0,0 +1,386 @@
+/**
+ * Tenant Isolation Integration Tests
+ *
+ * Run against a real Postgres database with the current schema:
+ *
+ *   DATABASE_URL=$TEST_DATABASE_URL npx drizzle-kit push
+ *   (driver_location_points, which push leaves out, is created by the tests)
+ *   TEST_DATABASE_URL=postgresql://... npm test
+ *
+ * Seeds two tenants and checks that code running for tenant A never sees or
+ * writes tenant B rows, even through queries that don't filter on tenant_id.
+ * Skipped when TEST_DATABASE_URL is not set.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { eq } from 'drizzle-orm';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+type Db = typeof import('../../src/db/index.js');
+
+interface SeededTenant {
+  tenantId: string;
+  riderId: string;
+  driverId: string;
+  adminId: string;
+  vehicleId: string;
+  rideId: string;
+  paymentId: string;
+  ratingId: string;
+  readingId: string;
+}
+
+describe.skipIf(!TEST_DATABASE_URL)('Tenant isolation (row-level security)', () => {
+  let dbModule: Db;
+  let runWithTenant: typeof import('../../src/db/tenant-context.js').runWithTenant;
+  let jwtSecret: string;
+  let tenantA: SeededTenant;
+  let tenantB: SeededTenant;
+  let server: Server;
+  let baseUrl: string;
+
+  // Each table, with how to read all of its rows without a tenant filter
+  const isolatedTables = () => {
+    const { db, users, vehicles, rides, payments, driverRatings, taximeterReadings } = dbModule;
+
+    return [
+      { name: 'users', select: () => db.select({ id: users.id, tenantId: users.tenantId }).from(users) },
+      { name: 'vehicles', select: () => db.select({ id: vehicles.id, tenantId: vehicles.tenantId }).from(vehicles) },
+      { name: 'rides', select: () => db.select({ id: rides.id, tenantId: rides.tenantId }).from(rides) },
+      { name: 'payments', select: () => db.select({ id: payments.id, tenantId: payments.tenantId }).from(payments) },
+      { name: 'driver_ratings', select: () => db.select({ id: driverRatings.id, tenantId: driverRatings.tenantId }).from(driverRatings) },
+      { name: 'taximeter_readings', select: () => db.select({ id: taximeterReadings.id, tenantId: taximeterReadings.tenantId }).from(taximeterReadings) },
+    ];
+  };
+
+  async function seedTenant(label: string): Promise<SeededTenant> {
+    const { db, tenants, users, vehicles, rides, payments, driverRatings, taximeterReadings } = dbModule;
+    const suffix = randomUUID().slice(0, 8);
+
+    const [tenant] = await db.insert(tenants)
+      .values({ slug: `rls_${label}_${suffix}`, name: `RLS test ${label}` })
+      .returning();
+
+    const [rider, driver, admin] = await db.insert(users)
+      .values([
+        { tenantId: tenant.id, email: `rider-${suffix}@example.com`, phone: '+358401000001', firstName: 'Rider', lastName: label, userType: 'rider' },
+        { tenantId: tenant.id, email: `driver-${suffix}@example.com`, phone: '+358401000002', firstName: 'Driver', lastName: label, userType: 'driver' },
+        { tenantId: tenant.id, email: `admin-${suffix}@example.com`, phone: '+358401000003', firstName: 'Admin', lastName: label, userType: 'admin' },
+      ])
+      .returning();
+
+    const [vehicle] = await db.insert(vehicles)
+      .values({
+        tenantId: tenant.id,
+        driverId: driver.id,
+        make: 'Toyota',
+        model: 'Corolla',
+        year: 2022,
+        color: 'White',
+        registrationNumber: 'RLS-123',
+      })
+      .returning();
+
+    const [ride] = await db.insert(rides)
+      .values({
+        tenantId: tenant.id,
+        riderId: rider.id,
+        driverId: driver.id,
+        vehicleId: vehicle.id,
+        status: 'completed',
+        pickupLatitude: '60.1699000',
+        pickupLongitude: '24.9384000',
+        pickupAddress: 'Rautatientori, Helsinki',
+        dropoffLatitude: '60.1719000',
+        dropoffLongitude: '24.9414000',
+        dropoffAddress: 'Kaisaniemenkatu 1, Helsinki',
+      })
+      .returning();
+
+    const [payment] = await db.insert(payments)
+      .values({
+        tenantId: tenant.id,
+        rideId: ride.id,
+        riderId: rider.id,
+        driverId: driver.id,
+        amount: '18.50',
+        paymentMethod: 'card',
+      })
+      .returning();
+
+    const [rating] = await db.insert(driverRatings)
+      .values({
+        tenantId: tenant.id,
+        rideId: ride.id,
+        riderId: rider.id,
+        driverId: driver.id,
+        rating: 5,
+      })
+      .returning();
+
+    const start = new Date(Date.now() - 20 * 60 * 1000);
+
+    const [reading] = await db.insert(taximeterReadings)
+      .values({
+        tenantId: tenant.id,
+        rideId: ride.id,
+        vehicleId: vehicle.id,
+        driverId: driver.id,
+        taximeterSerialNumber: `TM-${suffix}`,
+        receiptNumber: `R-${suffix}`,
+        startTime: start,
+        endTime: new Date(),
+        distanceMeters: 4200,
+        durationSeconds: 1200,
+        baseFare: '6.90',
+        distanceFare: '7.56',
+        timeFare: '4.04',
+        totalFare: '18.50',
+        vatAmount: '1.68',
+      })
+      .returning();
+
+    return {
+      tenantId: tenant.id,
+      riderId: rider.id,
+      driverId: driver.id,
+      adminId: admin.id,
+      vehicleId: vehicle.id,
+      rideId: ride.id,
+      paymentId: payment.id,
+      ratingId: rating.id,
+      readingId: reading.id,
+    };
+  }
+
+  async function removeTenant(seeded: SeededTenant | undefined): Promise<void> {
+    if (!seeded) return;
+
+    const { db, tenants, users, vehicles, rides, payments, driverRatings, taximeterReadings } = dbModule;
+
+    await db.delete(taximeterReadings).where(eq(taximeterReadings.tenantId, seeded.tenantId));
+    await db.delete(driverRatings).where(eq(driverRatings.tenantId, seeded.tenantId));
+    await db.delete(payments).where(eq(payments.tenantId, seeded.tenantId));
+    await db.delete(rides).where(eq(rides.tenantId, seeded.tenantId));
+    await db.delete(vehicles).where(eq(vehicles.tenantId, seeded.tenantId));
+    await db.delete(users).where(eq(users.tenantId, seeded.tenantId));
+    await db.delete(tenants).where(eq(tenants.id, seeded.tenantId));
+  }
+
+  function accessToken(seeded: SeededTenant, userId: string, userType: 'rider' | 'driver' | 'admin'): string {
+    return jwt.sign(
+      {
+        userId,
+        tenantId: seeded.tenantId,
+        userType,
+        email: null,
+        sessionId: randomUUID(),
+        type: 'access',
+      },
+      jwtSecret,
+      { expiresIn: '5m' }
+    );
+  }
+
+  beforeAll(async () => {
+    // Modules read DATABASE_URL when first imported
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+
+    dbModule = await import('../../src/db/index.js');
+    ({ runWithTenant } = await import('../../src/db/tenant-context.js'));
+    const { applyRowLevelSecurity } = await import('../../src/db/rls.js');
+    const { createLocationHistoryTable } = await import('../../src/db/location-history.js');
+    const { config } = await import('../../src/config/index.js');
+    const { authenticate } = await import('../../src/middleware/auth.middleware.js');
+    const { app } = await import('../../src/app.js');
+
+    jwtSecret = config.jwt.secret;
+
+    // Seeding runs outside a tenant context, as the owner role
+    await createLocationHistoryTable(dbModule.db);
+    await applyRowLevelSecurity(dbModule.db, config.database.appRole);
+    tenantA = await seedTenant('a');
+    tenantB = await seedTenant('b');
+
+    // The Core API, plus a route that deliberately forgets the tenant filter
+    const testApp = express();
+    const { db, rides } = dbModule;
+
+    testApp.get('/test/all-rides', authenticate, async (_req, res) => {
+      const rows = await db.select({ id: rides.id, tenantId: rides.tenantId }).from(rides);
+      res.json({ data: rows });
+    });
+    testApp.use(app);
+
+    server = testApp.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    if (!dbModule) return;
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    await removeTenant(tenantA);
+    await removeTenant(tenantB);
+    await dbModule.closePool();
+  });
+
+  describe('queries without a tenant filter', () => {
+    it.each(['users', 'vehicles', 'rides', 'payments', 'driver_ratings', 'taximeter_readings'])(
+      'only returns the current tenant\'s %s',
+      async (tableName) => {
+        const table = isolatedTables().find((t) => t.name === tableName)!;
+
+        const rowsForA = await runWithTenant(tenantA.tenantId, () => table.select());
+        const rowsForB = await runWithTenant(tenantB.tenantId, () => table.select());
+
+        expect(rowsForA.length).toBeGreaterThan(0);
+        expect(rowsForA.every((row) => row.tenantId === tenantA.tenantId)).toBe(true);
+        expect(rowsForB.length).toBeGreaterThan(0);
+        expect(rowsForB.every((row) => row.tenantId === tenantB.tenantId)).toBe(true);
+      }
+    );
+
+    it('does not find another tenant\'s row by id', async () => {
+      const { db, rides, payments, taximeterReadings } = dbModule;
+
+      const found = await runWithTenant(tenantA.tenantId, async () => ({
+        ride: await db.query.rides.findFirst({ where: eq(rides.id, tenantB.rideId) }),
+        payment: await db.query.payments.findFirst({ where: eq(payments.id, tenantB.paymentId) }),
+        reading: await db.query.taximeterReadings.findFirst({ where: eq(taximeterReadings.id, tenantB.readingId) }),
+      }));
+
+      expect(found.ride).toBeUndefined();
+      expect(found.payment).toBeUndefined();
+      expect(found.reading).toBeUndefined();
+    });
+
+    it('hides another tenant\'s rows from joins and relations', async () => {
+      const { db, rides } = dbModule;
+
+      // Relations are loaded through the same tenant-scoped connection
+      const ride = await runWithTenant(tenantA.tenantId, () =>
+        db.query.rides.findFirst({
+          where: eq(rides.id, tenantA.rideId),
+          with: { rider: true, driver: true, payments: true, rating: true },
+        })
+      );
+
+      expect(ride?.rider?.tenantId).toBe(tenantA.tenantId);
+      expect(ride?.driver?.tenantId).toBe(tenantA.tenantId);
+      expect(ride?.payments.every((payment) => payment.tenantId === tenantA.tenantId)).toBe(true);
+    });
+
+    it('keeps the tenant inside transactions', async () => {
+      const { db, rides } = dbModule;
+
+      const rows = await runWithTenant(tenantA.tenantId, () =>
+        db.transaction((tx) => tx.select({ tenantId: rides.tenantId }).from(rides))
+      );
+
+      expect(rows.length).toBeGreaterThan(0);
+      expect(rows.every((row) => row.tenantId === tenantA.tenantId)).toBe(true);
+    });
+
+    it('keeps concurrent contexts apart', async () => {
+      const { db, rides } = dbModule;
+
+      const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => {
+          const seeded = i % 2 === 0 ? tenantA : tenantB;
+          return runWithTenant(seeded.tenantId, async () => ({
+            tenantId: seeded.tenantId,
+            rows: await db.select({ tenantId: rides.tenantId }).from(rides),
+          }));
+        })
+      );
+
+      for (const { tenantId, rows } of results) {
+        expect(rows.every((row) => row.tenantId === tenantId)).toBe(true);
+      }
+    });
+  });
+
+  describe('writes', () => {
+    it('rejects inserting a row for another tenant', async () => {
+      const { db, users } = dbModule;
+
+      await expect(
+        runWithTenant(tenantA.tenantId, () =>
+          db.insert(users).values({
+            tenantId: tenantB.tenantId,
+            email: `intruder-${randomUUID().slice(0, 8)}@example.com`,
+            phone: '+358401000009',
+            firstName: 'Intruder',
+            lastName: 'A',
+            userType: 'rider',
+          })
+        )
+      ).rejects.toThrow(/row-level security/);
+    });
+
+    it('cannot update or delete another tenant\'s rows', async () => {
+      const { db, rides, payments } = dbModule;
+
+      const { updated, deleted } = await runWithTenant(tenantA.tenantId, async () => ({
+        updated: await db.update(rides)
+          .set({ status: 'cancelled_by_rider' })
+          .where(eq(rides.id, tenantB.rideId))
+          .returning({ id: rides.id }),
+        deleted: await db.delete(payments)
+          .where(eq(payments.id, tenantB.paymentId))
+          .returning({ id: payments.id }),
+      }));
+
+      expect(updated).toHaveLength(0);
+      expect(deleted).toHaveLength(0);
+
+      const ride = await db.query.rides.findFirst({ where: eq(rides.id, tenantB.rideId) });
+      expect(ride?.status).toBe('completed');
+    });
+  });
+
+  describe('HTTP requests', () => {
+    it('scopes an authenticated request to the user\'s tenant', async () => {
+      const response = await fetch(`${baseUrl}/test/all-rides`, {
+        headers: { Authorization: `Bearer ${accessToken(tenantA, tenantA.adminId, 'admin')}` },
+      });
+      const body = await response.json() as { data: { id: string; tenantId: string }[] };
+
+      expect(response.status).toBe(200);
+      expect(body.data.map((ride) => ride.id)).toContain(tenantA.rideId);
+      expect(body.data.every((ride) => ride.tenantId === tenantA.tenantId)).toBe(true);
+    });
+
+    it('returns 404 for another tenant\'s ride', async () => {
+      const response = await fetch(`${baseUrl}/api/v1/rides/${tenantB.rideId}`, {
+        headers: {
+          Authorization: `Bearer ${accessToken(tenantA, tenantA.adminId, 'admin')}`,
+          'X-Tenant-ID': tenantB.tenantId,
+        },
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('still returns the tenant\'s own ride', async () => {
+      const response = await fetch(`${baseUrl}/api/v1/rides/${tenantA.rideId}`, {
+        headers: { Authorization: `Bearer ${accessToken(tenantA, tenantA.riderId, 'rider')}` },
+      });
+      const body = await response.json() as { data: { id: string } };
+
+      expect(response.status).toBe(200);
+      expect(body.data.id).toBe(tenantA.rideId);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Access Token Tests
+ *
+ * An access token is only accepted while its session is live and its user
+ * is not suspended, so signing out or suspending takes effect at once. The
+ * location-service, which can't check the database, is told of each
+ * revocation through Redis.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import jwt from 'jsonwebtoken';
+import { authService } from '../../src/services/auth.service.js';
+import { config } from '../../src/config/index.js';
+import { db } from '../../src/db/index.js';
+import { redis, redisKey } from '../../src/db/redis.js';
+
+const payload = {
+  userId: 'driver-1',
+  tenantId: 'tenant-1',
+  userType: 'driver',
+  email: null,
+  sessionId: 'session-1',
+  platformAdmin: false,
+};
+
+function accessToken(): string {
+  return jwt.sign({ ...payload, type: 'access' }, config.jwt.secret, { expiresIn: 900 });
+}
+
+function sessionLookup(rows: Array<{ revokedAt: Date | null; status: string }>) {
+  const query = {
+    from: () => query,
+    innerJoin: () => query,
+    where: () => query,
+    limit: async () => rows,
+  };
+  vi.spyOn(db, 'select').mockReturnValue(query as never);
+}
+
+describe('Access token verification', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should accept a token of a live session', async () => {
+    sessionLookup([{ revokedAt: null, status: 'active' }]);
+
+    await expect(authService.verifyAccessToken(accessToken())).resolves.toMatchObject({
+      userId: 'driver-1',
+      sessionId: 'session-1',
+    });
+  });
+
+  it('should reject a token of a revoked session', async () => {
+    sessionLookup([{ revokedAt: new Date(), status: 'active' }]);
+
+    await expect(authService.verifyAccessToken(accessToken())).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+  });
+
+  it('should reject a token whose session no longer exists', async () => {
+    sessionLookup([]);
+
+    await expect(authService.verifyAccessToken(accessToken())).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+  });
+
+  it('should reject a token of a suspended user', async () => {
+    sessionLookup([{ revokedAt: null, status: 'suspended' }]);
+
+    await expect(authService.verifyAccessToken(accessToken())).rejects.toMatchObject({ code: 'ACCOUNT_SUSPENDED' });
+  });
+
+  it('should reject service tokens without looking up a session', async () => {
+    const select = vi.spyOn(db, 'select');
+    const serviceToken = authService.generateServiceToken().token;
+
+    await expect(authService.verifyAccessToken(serviceToken)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    expect(select).not.toHaveBeenCalled();
+  });
+});
+
+describe('Session revocation', () => {
+  let written: string[];
+  let published: Array<{ sessionIds: string[]; userIds: string[] }>;
+
+  beforeEach(() => {
+    written = [];
+    published = [];
+
+    const transaction = {
+      set: (key: string) => {
+        written.push(key);
+        return transaction;
+      },
+      exec: async () => [],
+    };
+
+    vi.spyOn(redis, 'multi').mockReturnValue(transaction as never);
+    vi.spyOn(redis, 'publish').mockImplementation((async (_channel: string, message: string) => {
+      published.push(JSON.parse(message));
+      return 1;
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function updateReturning(rows: Array<Record<string, unknown>>) {
+    const query = {
+      set: () => query,
+      where: () => query,
+      returning: async () => rows,
+    };
+    vi.spyOn(db, 'update').mockReturnValue(query as never);
+  }
+
+  it('should tell the location-service about sessions ended by signing out', async () => {
+    updateReturning([{ id: 'session-1' }]);
+
+    await authService.logout('driver-1', 'session-1');
+
+    expect(written).toEqual([redisKey('auth', 'revoked-session', 'session-1')]);
+    expect(published).toEqual([{ sessionIds: ['session-1'], userIds: [] }]);
+  });
+
+  it('should tell the location-service about suspended users', async () => {
+    updateReturning([{ id: 'driver-1' }]);
+
+    await authService.suspendUser('driver-1', 'tenant-1', 'driver');
+
+    expect(written).toContain(redisKey('auth', 'suspended-user', 'driver-1'));
+    expect(published).toContainEqual({ sessionIds: [], userIds: ['driver-1'] });
+  });
+
+  it('should not publish when no session was revoked', async () => {
+    updateReturning([]);
+
+    await authService.logout('driver-1', 'session-1');
+
+    expect(published).toEqual([]);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Driver Ledger Tests
+ *
+ * Postings balance to the cent, fares and refunds move the driver's
+ * balance by their share after commission, payout periods start on the
+ * tenant's payout day, and only declined transfers are reversed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { driverLedgerService, LedgerError } from '../../src/services/driver-ledger.service.js';
+import { driverPayoutService, type PayoutConfig } from '../../src/services/driver-payout.service.js';
+import { db } from '../../src/db/index.js';
+import { fakePaymentProvider, PaymentProviderError } from '../../src/services/payment-providers/index.js';
+
+type Row = { account: string; entryType: string; amount: string; transactionId: string };
+
+const payment = {
+  id: 'payment-1',
+  tenantId: 'tenant-1',
+  rideId: 'ride-0001-aaaa',
+  driverId: 'driver-1',
+  amount: '30.00',
+  platformFee: '4.50',
+  status: 'completed',
+  refundAmount: null,
+};
+
+const ride = {
+  id: 'ride-0002-bbbb',
+  tenantId: 'tenant-1',
+  driverId: 'driver-1',
+  finalFare: '20.00',
+};
+
+describe('Driver ledger', () => {
+  let rows: Row[];
+
+  // Transaction collecting the inserted ledger rows
+  const tx = {
+    insert: () => ({
+      values: async (values: Row[]) => {
+        rows.push(...values);
+      },
+    }),
+  };
+
+  // Change in what the tenant owes the driver (driver_payable is a credit account)
+  function driverBalanceChange(): number {
+    const cents = rows
+      .filter((row) => row.account === 'driver_payable')
+      .reduce((sum, row) => sum + Math.round(parseFloat(row.amount) * 100), 0);
+    return -cents / 100;
+  }
+
+  function total(account: string): number {
+    return rows
+      .filter((row) => row.account === account)
+      .reduce((sum, row) => sum + Math.round(parseFloat(row.amount) * 100), 0) / 100;
+  }
+
+  beforeEach(() => {
+    rows = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refuse postings that do not balance', async () => {
+    await expect(driverLedgerService.post(tx as never, { tenantId: 'tenant-1', driverId: 'driver-1' }, [
+      { account: 'adjustments', entryType: 'adjustment', amount: 10 },
+      { account: 'driver_payable', entryType: 'adjustment', amount: -9.99 },
+    ])).rejects.toBeInstanceOf(LedgerError);
+
+    expect(rows).toEqual([]);
+  });
+
+  it('should write balanced postings under one transaction id, without zero lines', async () => {
+    const transactionId = await driverLedgerService.post(tx as never, { tenantId: 'tenant-1', driverId: 'driver-1' }, [
+      { account: 'adjustments', entryType: 'tip', amount: 0.1 + 0.2 },
+      { account: 'driver_payable', entryType: 'tip', amount: -0.3 },
+      { account: 'commission', entryType: 'commission', amount: 0 },
+    ]);
+
+    expect(rows.map((row) => [row.account, row.amount])).toEqual([
+      ['adjustments', '0.30'],
+      ['driver_payable', '-0.30'],
+    ]);
+    expect(rows.every((row) => row.transactionId === transactionId)).toBe(true);
+  });
+
+  it('should credit a card fare less the commission', async () => {
+    await driverLedgerService.recordPayment(tx as never, payment as never);
+
+    expect(driverBalanceChange()).toBe(25.5);
+    expect(total('platform_clearing')).toBe(30);
+    expect(total('commission')).toBe(-4.5);
+  });
+
+  it('should debit the commission on a cash fare the driver already holds', async () => {
+    await driverLedgerService.recordCashRide(tx as never, ride as never, 15);
+
+    expect(driverBalanceChange()).toBe(-3);
+    expect(total('driver_cash')).toBe(0);
+    expect(total('commission')).toBe(-3);
+  });
+
+  it('should reverse the driver share of a partial refund and return its commission', async () => {
+    await driverLedgerService.recordRefund(tx as never, payment as never, 10);
+
+    // A third of the fare, so a third of the 4.50 commission comes back
+    expect(driverBalanceChange()).toBe(-8.5);
+    expect(total('platform_clearing')).toBe(-10);
+    expect(total('commission')).toBe(1.5);
+  });
+
+  it('should not reverse refunds of payments the driver was never credited for', async () => {
+    await driverLedgerService.recordRefund(tx as never, { ...payment, status: 'failed' } as never, 10);
+    await driverLedgerService.recordRefund(tx as never, { ...payment, driverId: null } as never, 10);
+
+    expect(rows).toEqual([]);
+  });
+
+  it('should report the driver_payable credit balance as what the driver is owed', async () => {
+    const query = {
+      from: () => query,
+      where: async () => [{ total: '-25.50' }],
+    };
+    vi.spyOn(db, 'select').mockReturnValue(query as never);
+
+    await expect(driverLedgerService.getBalance('driver-1', 'tenant-1')).resolves.toBe(25.5);
+  });
+});
+
+describe('Payout periods', () => {
+  const daily: PayoutConfig = {
+    commissionPercent: 15,
+    payoutSchedule: 'daily',
+    payoutWeekday: 1,
+    minimumPayoutAmount: 10,
+  };
+  const weekly: PayoutConfig = { ...daily, payoutSchedule: 'weekly' };
+
+  it('should start daily periods at midnight UTC', () => {
+    const start = driverPayoutService.getPeriodStart(daily, new Date('2026-10-21T17:45:00Z'));
+
+    expect(start.toISOString()).toBe('2026-10-21T00:00:00.000Z');
+  });
+
+  it('should start weekly periods on the last payout day', () => {
+    // Wednesday; the payout day is Monday
+    const start = driverPayoutService.getPeriodStart(weekly, new Date('2026-10-21T17:45:00Z'));
+
+    expect(start.toISOString()).toBe('2026-10-19T00:00:00.000Z');
+  });
+
+  it('should start a weekly period on the payout day itself', () => {
+    const start = driverPayoutService.getPeriodStart(weekly, new Date('2026-10-19T00:00:00Z'));
+
+    expect(start.toISOString()).toBe('2026-10-19T00:00:00.000Z');
+  });
+
+  it('should take the tenant payout settings over the platform defaults', () => {
+    const payoutConfig = driverPayoutService.getPayoutConfig({
+      payoutConfig: { commissionPercent: 0, payoutSchedule: 'weekly', payoutWeekday: 5 },
+    } as never);
+
+    expect(payoutConfig).toMatchObject({ commissionPercent: 0, payoutSchedule: 'weekly', payoutWeekday: 5 });
+    expect(payoutConfig.minimumPayoutAmount).toBe(10);
+  });
+});
+
+describe('Payout transfers', () => {
+  const payout = {
+    id: 'payout-1',
+    tenantId: 'tenant-1',
+    driverId: 'driver-1',
+    provider: 'fake',
+    amount: '120.00',
+    currency: 'EUR',
+    status: 'pending',
+  };
+
+  let reversals: Row[];
+  let statusUpdates: Record<string, unknown>[];
+
+  beforeEach(() => {
+    reversals = [];
+    statusUpdates = [];
+
+    // A stuck payout is resent at the start of the pass; there are no tenants
+    vi.spyOn(db.query.driverPayouts, 'findMany').mockResolvedValue([payout] as never);
+    vi.spyOn(db.query.tenants, 'findMany').mockResolvedValue([]);
+    vi.spyOn(db.query.users, 'findFirst').mockResolvedValue({
+      id: 'driver-1',
+      stripeConnectAccountId: null,
+      payoutAccounts: { fake: 'acct-driver-1' },
+    } as never);
+
+    const update = () => ({
+      set: (values: Record<string, unknown>) => {
+        statusUpdates.push(values);
+        return {
+          where: () => ({
+            returning: async () => [payout],
+            then: (resolve: (value: unknown) => void) => resolve(undefined),
+          }),
+        };
+      },
+    });
+
+    vi.spyOn(db, 'update').mockImplementation(update as never);
+    vi.spyOn(db, 'transaction').mockImplementation(async (fn) => fn({
+      update,
+      insert: () => ({
+        values: async (values: Row[]) => {
+          reversals.push(...values);
+        },
+      }),
+    } as never));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fakePaymentProvider.reset();
+  });
+
+  it('should mark a sent payout paid', async () => {
+    await driverPayoutService.tick();
+
+    expect(fakePaymentProvider.transfers).toMatchObject([{ idempotencyKey: 'payout-1', amount: 120 }]);
+    expect(statusUpdates).toMatchObject([{ status: 'paid' }]);
+    expect(reversals).toEqual([]);
+  });
+
+  it('should fail a declined payout and return its amount to the balance', async () => {
+    vi.spyOn(fakePaymentProvider, 'transfer')
+      .mockRejectedValue(new PaymentProviderError('Account closed', 'TRANSFER_DECLINED'));
+
+    await driverPayoutService.tick();
+
+    expect(statusUpdates).toMatchObject([{ status: 'failed', failureReason: 'Account closed' }]);
+    expect(reversals.map((row) => [row.account, row.entryType, row.amount])).toEqual([
+      ['payouts', 'payout_reversal', '120.00'],
+      ['driver_payable', 'payout_reversal', '-120.00'],
+    ]);
+  });
+
+  it('should leave a payout pending when the transfer outcome is unknown', async () => {
+    vi.spyOn(fakePaymentProvider, 'transfer').mockRejectedValue(new Error('Request timed out'));
+
+    await driverPayoutService.tick();
+
+    expect(statusUpdates).toEqual([]);
+    expect(reversals).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Driver Matching Tests
+ *
+ * Offers go to one driver at a time, and a driver being offered a ride is
+ * reserved for it so matching for other rides passes them over. The
+ * reservation ends with the offer, whatever its outcome. A matching run
+ * holds a lease on the ride, so two runs never match the same ride. An
+ * accepted offer the driver can't be assigned is withdrawn from them.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { dispatchService, type NearbyDriver } from '../../src/services/dispatch.service.js';
+import { driverAvailabilityService } from '../../src/services/driver-availability.service.js';
+import { rideOfferService } from '../../src/services/ride-offer.service.js';
+import { rideLifecycleService } from '../../src/services/ride-lifecycle.service.js';
+import { db } from '../../src/db/index.js';
+import { redis, redisKey } from '../../src/db/redis.js';
+
+const ride = {
+  id: 'ride-1',
+  tenantId: 'tenant-1',
+  status: 'searching',
+  pickupLatitude: '60.1699000',
+  pickupLongitude: '24.9384000',
+  vehicleTypeRequested: 'standard',
+  tenant: { dispatchConfig: { offerTimeoutSeconds: 15, maxOffersPerRide: 2 } },
+};
+
+function driver(driverId: string, eta: number): NearbyDriver {
+  return {
+    driverId,
+    distance: eta * 8,
+    eta,
+    rating: 4.9,
+    vehicleType: 'standard',
+    vehicleMake: 'Toyota',
+    vehicleModel: 'Corolla',
+    vehicleColor: 'White',
+    registrationNumber: 'ABC-123',
+    latitude: 60.17,
+    longitude: 24.94,
+  };
+}
+
+describe('Driver matching', () => {
+  // Driver id -> ride id the driver is reserved for
+  const reservations = new Map<string, string>();
+  // Redis key -> id of the matching run holding the lease
+  const leases = new Map<string, string>();
+
+  beforeEach(() => {
+    reservations.clear();
+    leases.clear();
+
+    vi.spyOn(redis, 'set').mockImplementation((async (key: string, value: string) => {
+      if (leases.has(key)) return null;
+      leases.set(key, value);
+      return 'OK';
+    }) as never);
+    vi.spyOn(redis, 'eval').mockImplementation((async (script: string, _keys: number, key: string, value: string) => {
+      if (leases.get(key) !== value) return 0;
+      if (script.includes('"del"')) leases.delete(key);
+      return 1;
+    }) as never);
+
+    vi.spyOn(db.query.rides, 'findFirst').mockResolvedValue(ride as never);
+    vi.spyOn(rideLifecycleService, 'transition').mockResolvedValue(ride as never);
+    vi.spyOn(dispatchService, 'tryAssignDriver').mockResolvedValue(true);
+    vi.spyOn(rideOfferService, 'withdrawAcceptedOffer').mockResolvedValue();
+
+    vi.spyOn(driverAvailabilityService, 'reserve').mockImplementation(async (driverId, _tenantId, rideId) => {
+      if (reservations.has(driverId)) return false;
+      reservations.set(driverId, rideId);
+      return true;
+    });
+    vi.spyOn(driverAvailabilityService, 'release').mockImplementation(async (driverId, _tenantId, rideId) => {
+      if (reservations.get(driverId) === rideId) reservations.delete(driverId);
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function offeredDriverIds(): string[] {
+    return vi.mocked(rideOfferService.offerRide).mock.calls.map(([, offered]) => offered.driverId);
+  }
+
+  it('should pass over a driver who is being offered another ride', async () => {
+    reservations.set('driver-1', 'ride-2');
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([driver('driver-1', 60), driver('driver-2', 120)]);
+    vi.spyOn(rideOfferService, 'offerRide').mockResolvedValue('accepted');
+
+    await dispatchService.startDriverMatching(ride.id);
+
+    expect(offeredDriverIds()).toEqual(['driver-2']);
+    expect(dispatchService.tryAssignDriver).toHaveBeenCalledWith(ride.id, 'driver-2', 120);
+    expect(reservations.get('driver-1')).toBe('ride-2');
+  });
+
+  it('should hold a driver for the ride only while it is offered to them', async () => {
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([driver('driver-1', 60), driver('driver-2', 120)]);
+    vi.spyOn(rideOfferService, 'offerRide').mockImplementation(async (_ride, offered) => {
+      expect(reservations.get(offered.driverId)).toBe(ride.id);
+      return offered.driverId === 'driver-1' ? 'declined' : 'expired';
+    });
+
+    await dispatchService.startDriverMatching(ride.id);
+
+    expect(offeredDriverIds()).toEqual(['driver-1', 'driver-2']);
+    expect(reservations.size).toBe(0);
+    expect(rideLifecycleService.transition).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'no_drivers_available' })
+    );
+  });
+
+  it('should only count offers sent towards the offer limit', async () => {
+    reservations.set('driver-1', 'ride-2');
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([
+      driver('driver-1', 60),
+      driver('driver-2', 120),
+      driver('driver-3', 180),
+      driver('driver-4', 240),
+    ]);
+    vi.spyOn(rideOfferService, 'offerRide').mockResolvedValue('declined');
+
+    await dispatchService.startDriverMatching(ride.id);
+
+    expect(offeredDriverIds()).toEqual(['driver-2', 'driver-3']);
+  });
+
+  it('should release an assigned driver, who stays busy through the ride', async () => {
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([driver('driver-1', 60)]);
+    vi.spyOn(rideOfferService, 'offerRide').mockResolvedValue('accepted');
+
+    await dispatchService.startDriverMatching(ride.id);
+
+    expect(dispatchService.tryAssignDriver).toHaveBeenCalledWith(ride.id, 'driver-1', 60);
+    expect(reservations.size).toBe(0);
+    expect(rideLifecycleService.transition).not.toHaveBeenCalled();
+  });
+
+  it('should move on when an accepting driver could not be assigned', async () => {
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([driver('driver-1', 60), driver('driver-2', 120)]);
+    vi.spyOn(rideOfferService, 'offerRide').mockResolvedValue('accepted');
+    vi.mocked(dispatchService.tryAssignDriver).mockResolvedValueOnce(false);
+
+    await dispatchService.startDriverMatching(ride.id);
+
+    expect(offeredDriverIds()).toEqual(['driver-1', 'driver-2']);
+    expect(rideOfferService.withdrawAcceptedOffer).toHaveBeenCalledTimes(1);
+    expect(rideOfferService.withdrawAcceptedOffer).toHaveBeenCalledWith(ride.id, 'driver-1');
+    expect(reservations.size).toBe(0);
+  });
+
+  it('should release the driver when sending the offer fails', async () => {
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([driver('driver-1', 60)]);
+    vi.spyOn(rideOfferService, 'offerRide').mockRejectedValue(new Error('Redis unavailable'));
+
+    await expect(dispatchService.startDriverMatching(ride.id)).rejects.toThrow('Redis unavailable');
+
+    expect(reservations.size).toBe(0);
+    expect(leases.size).toBe(0);
+  });
+
+  it('should leave a ride alone while another run is matching it', async () => {
+    leases.set(redisKey('rides', 'matching', ride.id), 'other-run');
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([driver('driver-1', 60)]);
+    vi.spyOn(rideOfferService, 'offerRide').mockResolvedValue('declined');
+
+    await dispatchService.startDriverMatching(ride.id);
+
+    expect(dispatchService.findNearbyDrivers).not.toHaveBeenCalled();
+    expect(leases.get(redisKey('rides', 'matching', ride.id))).toBe('other-run');
+  });
+
+  it('should not match a ride that is no longer searching', async () => {
+    vi.mocked(db.query.rides.findFirst).mockResolvedValue({ ...ride, status: 'driver_assigned' } as never);
+    vi.spyOn(dispatchService, 'findNearbyDrivers').mockResolvedValue([driver('driver-1', 60)]);
+
+    await dispatchService.startDriverMatching(ride.id);
+
+    expect(dispatchService.findNearbyDrivers).not.toHaveBeenCalled();
+    expect(leases.size).toBe(0);
+  });
+});
+
+describe('Withdrawn offers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should cancel an accepted offer and tell the driver it no longer stands', async () => {
+    const offer = { id: 'offer-1', tenantId: 'tenant-1', rideId: 'ride-1', driverId: 'driver-1', status: 'accepted' };
+    const updates: Record<string, unknown>[] = [];
+    vi.spyOn(db, 'update').mockReturnValue({
+      set: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return { where: () => ({ returning: async () => [{ ...offer, ...values }] }) };
+      },
+    } as never);
+    const publish = vi.spyOn(redis, 'publish').mockResolvedValue(1);
+
+    await rideOfferService.withdrawAcceptedOffer('ride-1', 'driver-1');
+
+    expect(updates).toEqual([{ status: 'cancelled' }]);
+    expect(publish).toHaveBeenCalledWith(redisKey('ride-offers'), JSON.stringify({
+      type: 'ride_offer_cancelled',
+      tenantId: 'tenant-1',
+      driverId: 'driver-1',
+      payload: { offerId: 'offer-1', rideId: 'ride-1' },
+    }));
+  });
+});
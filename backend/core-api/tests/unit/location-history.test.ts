@@ -0,0 +1,95 @@
+/**
+ * Location History Tests
+ *
+ * Encoded polylines, and a ride's stored GPS trace as GeoJSON or a
+ * polyline, with points redelivered from the stream stored only once.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { encodePolyline } from '../../src/utils/polyline.js';
+import { locationHistoryService, type TracePoint } from '../../src/services/location-history.service.js';
+import { db } from '../../src/db/index.js';
+
+function pointAt(latitude: number, longitude: number, recordedAt: string): TracePoint {
+  return { latitude, longitude, heading: null, speed: null, accuracy: 5, recordedAt: new Date(recordedAt) };
+}
+
+const trace = [
+  pointAt(60.1699, 24.9384, '2026-10-19T09:00:00Z'),
+  pointAt(60.1712, 24.9412, '2026-10-19T09:00:05Z'),
+  pointAt(60.1730, 24.9450, '2026-10-19T09:00:10Z'),
+];
+
+describe('Encoded polyline', () => {
+  it('should encode the reference example of the algorithm', () => {
+    expect(encodePolyline([[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]])).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+  });
+
+  it('should round coordinates to 5 decimals', () => {
+    expect(encodePolyline([[38.500004, -120.199996]])).toBe(encodePolyline([[38.5, -120.2]]));
+  });
+
+  it('should encode a repeated point as zero deltas', () => {
+    expect(encodePolyline([[60.1699, 24.9384], [60.1699, 24.9384]])).toMatch(/\?\?$/);
+    expect(encodePolyline([])).toBe('');
+  });
+});
+
+describe('Ride traces', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should give GeoJSON coordinates as longitude, latitude with their times', () => {
+    const geoJson = locationHistoryService.toGeoJson('ride-1', trace);
+
+    expect(geoJson.geometry.coordinates[0]).toEqual([24.9384, 60.1699]);
+    expect(geoJson.properties).toEqual({
+      rideId: 'ride-1',
+      pointCount: 3,
+      coordTimes: ['2026-10-19T09:00:00.000Z', '2026-10-19T09:00:05.000Z', '2026-10-19T09:00:10.000Z'],
+    });
+  });
+
+  it('should give the polyline with the start and end of the trace', () => {
+    const polyline = locationHistoryService.toPolyline('ride-1', trace);
+
+    expect(polyline).toEqual({
+      rideId: 'ride-1',
+      polyline: encodePolyline(trace.map((point) => [point.latitude, point.longitude])),
+      pointCount: 3,
+      startedAt: '2026-10-19T09:00:00.000Z',
+      endedAt: '2026-10-19T09:00:10.000Z',
+    });
+    expect(locationHistoryService.toPolyline('ride-1', [])).toMatchObject({ startedAt: null, endedAt: null });
+  });
+
+  it('should read stored points once each, as numbers', async () => {
+    const row = {
+      latitude: '60.1699000',
+      longitude: '24.9384000',
+      heading: '90.00',
+      speed: null,
+      accuracy: '4.50',
+      recordedAt: new Date('2026-10-19T09:00:00Z'),
+    };
+    const query = {
+      from: () => query,
+      where: () => query,
+      orderBy: async () => [row, { ...row }, { ...row, recordedAt: new Date('2026-10-19T09:00:05Z') }],
+    };
+    vi.spyOn(db, 'select').mockReturnValue(query as never);
+
+    const points = await locationHistoryService.getRideTrace('ride-1', 'tenant-1');
+
+    expect(points).toHaveLength(2);
+    expect(points[0]).toEqual({
+      latitude: 60.1699,
+      longitude: 24.9384,
+      heading: 90,
+      speed: null,
+      accuracy: 4.5,
+      recordedAt: row.recordedAt,
+    });
+  });
+});
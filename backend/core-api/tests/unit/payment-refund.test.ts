@@ -0,0 +1,125 @@
+/**
+ * Payment Refund Tests
+ *
+ * Refunds are checked against what is left of the payment while its row
+ * is locked, partial refunds add up, and only a full refund marks the
+ * payment refunded.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { paymentService } from '../../src/services/payment.service.js';
+import { fakePaymentProvider } from '../../src/services/payment-providers/index.js';
+import { outboxService } from '../../src/services/outbox.service.js';
+import { driverLedgerService } from '../../src/services/driver-ledger.service.js';
+import { db } from '../../src/db/index.js';
+
+describe('Payment refunds', () => {
+  let stored: Record<string, unknown>;
+  const lockModes: string[] = [];
+
+  // Transaction reading and writing the one stored payment row
+  const tx = {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          for: async (mode: string) => {
+            lockModes.push(mode);
+            return [{ ...stored }];
+          },
+        }),
+      }),
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => ({
+        where: () => ({
+          returning: async () => {
+            stored = { ...stored, ...values };
+            return [{ ...stored }];
+          },
+        }),
+      }),
+    }),
+  };
+
+  beforeEach(async () => {
+    const intent = await fakePaymentProvider.createPaymentIntent({
+      amount: 30,
+      currency: 'EUR',
+      metadata: {},
+    } as never);
+    await fakePaymentProvider.capturePayment(intent.id);
+
+    stored = {
+      id: 'payment-1',
+      tenantId: 'tenant-1',
+      rideId: 'ride-1',
+      riderId: 'rider-1',
+      driverId: 'driver-1',
+      amount: '30.00',
+      currency: 'EUR',
+      status: 'completed',
+      provider: 'fake',
+      providerPaymentId: intent.id,
+      stripePaymentIntentId: null,
+      refundAmount: null,
+    };
+    lockModes.length = 0;
+
+    vi.spyOn(db, 'transaction').mockImplementation(async (fn) => fn(tx as never));
+    vi.spyOn(outboxService, 'enqueue').mockResolvedValue();
+    vi.spyOn(driverLedgerService, 'recordRefund').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should lock the payment row before checking the remaining amount', async () => {
+    await paymentService.refundPayment('payment-1', 'tenant-1', 10);
+
+    expect(lockModes).toEqual(['update']);
+  });
+
+  it('should add partial refunds up and credit each one to the ledger', async () => {
+    await paymentService.refundPayment('payment-1', 'tenant-1', 10);
+    const refunded = await paymentService.refundPayment('payment-1', 'tenant-1', 5.5);
+
+    expect(refunded.refundAmount).toBe('15.5');
+    expect(vi.mocked(driverLedgerService.recordRefund).mock.calls.map(([, , amount]) => amount)).toEqual([10, 5.5]);
+  });
+
+  it('should keep a partly refunded payment completed and mark it refunded once refunded in full', async () => {
+    const partly = await paymentService.refundPayment('payment-1', 'tenant-1', 10);
+    expect(partly.status).toBe('completed');
+
+    const fully = await paymentService.refundPayment('payment-1', 'tenant-1', 20);
+    expect(fully.status).toBe('refunded');
+  });
+
+  it('should refund what is left when no amount is given', async () => {
+    await paymentService.refundPayment('payment-1', 'tenant-1', 12);
+    const refunded = await paymentService.refundPayment('payment-1', 'tenant-1');
+
+    expect(refunded.refundAmount).toBe('30');
+    expect(vi.mocked(driverLedgerService.recordRefund)).toHaveBeenLastCalledWith(tx, expect.anything(), 18);
+  });
+
+  it('should refuse refunds beyond what is left without calling the provider', async () => {
+    const refund = vi.spyOn(fakePaymentProvider, 'refund');
+    await paymentService.refundPayment('payment-1', 'tenant-1', 25);
+
+    await expect(paymentService.refundPayment('payment-1', 'tenant-1', 10)).rejects.toMatchObject({
+      code: 'REFUND_EXCEEDS_PAYMENT',
+    });
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect(stored.refundAmount).toBe('25');
+  });
+
+  it('should refuse refunds of payments that did not complete', async () => {
+    stored.status = 'failed';
+
+    await expect(paymentService.refundPayment('payment-1', 'tenant-1', 10)).rejects.toMatchObject({
+      code: 'PAYMENT_NOT_COMPLETED',
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Permission Tests
+ *
+ * Staff get the permissions of their assigned roles, or of the built-in
+ * role of their user type when they have none; riders and drivers pass
+ * permission checks. Admins cannot assign themselves out of managing roles.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { requirePermission, requirePermissionIf } from '../../src/middleware/auth.middleware.js';
+import { permissionService } from '../../src/services/permission.service.js';
+import { db } from '../../src/db/index.js';
+
+const customRoles = [
+  {
+    key: 'refunds',
+    name: 'Refund desk',
+    description: null,
+    permissions: ['payments.refund', 'rides.view', 'reports.export'], // reports.export is no longer a permission
+  },
+  {
+    key: 'role_admin',
+    name: 'Role administrator',
+    description: null,
+    permissions: ['roles.manage'],
+  },
+];
+
+describe('Permissions', () => {
+  let assignedRoleKeys: string[];
+
+  beforeEach(() => {
+    assignedRoleKeys = [];
+
+    vi.spyOn(db.query.userRoles, 'findMany').mockImplementation((async () =>
+      assignedRoleKeys.map((roleKey) => ({ roleKey }))) as never);
+    vi.spyOn(db.query.roles, 'findMany').mockImplementation((async () =>
+      customRoles.filter((role) => assignedRoleKeys.includes(role.key))) as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Run a middleware for a user; resolves with the status it answered, or 'next'
+  async function run(
+    middleware: (req: Request, res: Response, next: () => void) => Promise<void>,
+    userType: string,
+    body: Record<string, unknown> = {}
+  ): Promise<number | 'next'> {
+    let outcome: number | 'next' = 'next';
+    const req = { user: { userId: 'user-1', tenantId: 'tenant-1', userType }, body } as unknown as Request;
+    const res = {
+      status: (code: number) => {
+        outcome = code;
+        return { json: () => undefined };
+      },
+    } as unknown as Response;
+
+    await middleware(req, res, () => {
+      outcome = 'next';
+    });
+
+    return outcome;
+  }
+
+  it('should give staff without roles the built-in role of their user type', async () => {
+    expect(await run(requirePermission('payments.refund'), 'admin')).toBe('next');
+    expect(await run(requirePermission('rides.reassign'), 'dispatcher')).toBe('next');
+    expect(await run(requirePermission('payments.refund'), 'dispatcher')).toBe(403);
+  });
+
+  it('should give staff with roles only the permissions of those roles', async () => {
+    assignedRoleKeys = ['refunds'];
+
+    expect(await run(requirePermission('payments.refund'), 'dispatcher')).toBe('next');
+    expect(await run(requirePermission('rides.reassign'), 'dispatcher')).toBe(403);
+    expect(await run(requirePermission('roles.manage'), 'admin')).toBe(403);
+  });
+
+  it('should require every listed permission', async () => {
+    assignedRoleKeys = ['refunds'];
+
+    expect(await run(requirePermission('payments.refund', 'rides.view'), 'dispatcher')).toBe('next');
+    expect(await run(requirePermission('payments.refund', 'rides.cancel'), 'dispatcher')).toBe(403);
+  });
+
+  it('should ignore permissions that are not in the catalogue', async () => {
+    assignedRoleKeys = ['refunds'];
+
+    const granted = await permissionService.getUserPermissions('user-1', 'tenant-1', 'dispatcher');
+
+    expect([...granted].sort()).toEqual(['payments.refund', 'rides.view']);
+  });
+
+  it('should let riders and drivers through', async () => {
+    expect(await run(requirePermission('payments.refund'), 'rider')).toBe('next');
+    expect(await run(requirePermission('payments.refund'), 'driver')).toBe('next');
+  });
+
+  it('should only check the permission of requests matching the condition', async () => {
+    assignedRoleKeys = ['refunds'];
+    const reassigning = requirePermissionIf((req) => req.body?.status === 'searching', 'rides.reassign');
+
+    expect(await run(reassigning, 'dispatcher', { status: 'arrived' })).toBe('next');
+    expect(await run(reassigning, 'dispatcher', { status: 'searching' })).toBe(403);
+  });
+});
+
+describe('Role assignment', () => {
+  let replaced: boolean;
+
+  beforeEach(() => {
+    replaced = false;
+
+    vi.spyOn(db.query.users, 'findFirst').mockResolvedValue({ id: 'admin-1', userType: 'admin' } as never);
+    vi.spyOn(db.query.roles, 'findMany').mockResolvedValue(customRoles as never);
+    vi.spyOn(db, 'transaction').mockImplementation((async () => {
+      replaced = true;
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refuse admins removing their own roles.manage permission', async () => {
+    vi.mocked(db.query.roles.findMany).mockResolvedValue([customRoles[0]] as never);
+
+    await expect(permissionService.setUserRoles('admin-1', 'tenant-1', ['refunds'], 'admin-1'))
+      .rejects.toMatchObject({ code: 'SELF_LOCKOUT' });
+    expect(replaced).toBe(false);
+  });
+
+  it('should let admins change their own roles while keeping roles.manage', async () => {
+    const assigned = await permissionService.setUserRoles('admin-1', 'tenant-1', ['refunds', 'role_admin'], 'admin-1');
+
+    expect(assigned.map((role) => role.key)).toEqual(['refunds', 'role_admin']);
+    expect(replaced).toBe(true);
+  });
+
+  it('should let admins take roles.manage from someone else', async () => {
+    vi.mocked(db.query.roles.findMany).mockResolvedValue([customRoles[0]] as never);
+
+    await permissionService.setUserRoles('admin-1', 'tenant-1', ['refunds'], 'admin-2');
+
+    expect(replaced).toBe(true);
+  });
+
+  it('should refuse unknown roles', async () => {
+    vi.mocked(db.query.roles.findMany).mockResolvedValue([] as never);
+
+    await expect(permissionService.setUserRoles('admin-1', 'tenant-1', ['auditor'], 'admin-2'))
+      .rejects.toMatchObject({ code: 'ROLE_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Phone Sign-in Tests
+ *
+ * Phone number normalization, including numbers stored before it, and the
+ * lifetime of SMS sign-in codes: throttled requests, limited guesses,
+ * single use.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { normalizePhoneNumber } from '../../src/utils/phone.js';
+import { normalizeStoredPhoneNumbers } from '../../src/db/phone-numbers.js';
+import { phoneOtpService, OtpError } from '../../src/services/phone-otp.service.js';
+import { getSmsGateway } from '../../src/services/sms-gateways/index.js';
+import { redis, redisKey } from '../../src/db/redis.js';
+
+const tenant = {
+  id: 'tenant-1',
+  name: 'Helsinki Taxi',
+  smsSenderId: 'HKITAXI',
+};
+const PHONE = '+358401234567';
+
+describe('Phone number normalization', () => {
+  it('should read national numbers as Finnish', () => {
+    expect(normalizePhoneNumber('040 123 4567')).toBe(PHONE);
+    expect(normalizePhoneNumber('040-123 45 67')).toBe(PHONE);
+  });
+
+  it('should accept international forms', () => {
+    expect(normalizePhoneNumber('+358 40 123 4567')).toBe(PHONE);
+    expect(normalizePhoneNumber('00358401234567')).toBe(PHONE);
+    expect(normalizePhoneNumber('0701234567', '46')).toBe('+46701234567');
+  });
+
+  it('should reject anything that is not a phone number', () => {
+    expect(normalizePhoneNumber('12345')).toBeNull();
+    expect(normalizePhoneNumber('+358 40 abc')).toBeNull();
+    expect(normalizePhoneNumber('+0401234567')).toBeNull();
+  });
+});
+
+describe('Stored phone numbers', () => {
+  it('should rewrite numbers stored as entered in E.164 and leave unreadable ones', async () => {
+    const updates: Array<Record<string, unknown>> = [];
+    const fakeDb = {
+      select: () => ({
+        from: () => ({
+          where: async () => [
+            { id: 'rider-1', phone: '040 123 4567' },
+            { id: 'driver-1', phone: '00358 50 765 4321' },
+            { id: 'rider-2', phone: 'unknown' },
+          ],
+        }),
+      }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => ({
+          where: async () => {
+            updates.push(values);
+          },
+        }),
+      }),
+    };
+
+    const result = await normalizeStoredPhoneNumbers(fakeDb as never);
+
+    expect(result).toEqual({ normalized: 2, invalid: 1 });
+    expect(updates).toEqual([{ phone: PHONE }, { phone: '+358507654321' }]);
+  });
+});
+
+describe('Sign-in codes', () => {
+  // In-memory stand-ins for the Redis keys the service uses
+  let strings: Map<string, string>;
+  let hashes: Map<string, Record<string, string>>;
+  let sent: string[];
+
+  function lastCode(): string {
+    return sent[sent.length - 1].match(/^\d+/)![0];
+  }
+
+  async function otpError(promise: Promise<unknown>): Promise<string> {
+    const err = await promise.catch((error: unknown) => error);
+    expect(err).toBeInstanceOf(OtpError);
+    return (err as OtpError).code;
+  }
+
+  beforeEach(() => {
+    strings = new Map();
+    hashes = new Map();
+    sent = [];
+
+    const transaction = {
+      hset: (key: string, values: Record<string, string | number>) => {
+        hashes.set(key, Object.fromEntries(Object.entries(values).map(([field, value]) => [field, String(value)])));
+        return transaction;
+      },
+      expire: () => transaction,
+      exec: async () => [],
+    };
+
+    vi.spyOn(redis, 'set').mockImplementation((async (key: string, value: string) => {
+      if (strings.has(key)) return null;
+      strings.set(key, value);
+      return 'OK';
+    }) as never);
+    vi.spyOn(redis, 'ttl').mockResolvedValue(42 as never);
+    vi.spyOn(redis, 'incr').mockImplementation((async (key: string) => {
+      const value = parseInt(strings.get(key) || '0', 10) + 1;
+      strings.set(key, value.toString());
+      return value;
+    }) as never);
+    vi.spyOn(redis, 'expire').mockResolvedValue(1 as never);
+    vi.spyOn(redis, 'multi').mockReturnValue(transaction as never);
+    vi.spyOn(redis, 'hget').mockImplementation((async (key: string, field: string) => hashes.get(key)?.[field] ?? null) as never);
+    vi.spyOn(redis, 'hincrby').mockImplementation((async (key: string, field: string, increment: number) => {
+      const hash = hashes.get(key)!;
+      hash[field] = (parseInt(hash[field] || '0', 10) + increment).toString();
+      return parseInt(hash[field], 10);
+    }) as never);
+    vi.spyOn(redis, 'del').mockImplementation((async (...keys: string[]) =>
+      keys.filter((key) => hashes.delete(key) || strings.delete(key)).length
+    ) as never);
+
+    vi.spyOn(getSmsGateway(), 'send').mockImplementation(async (message) => {
+      sent.push(message.text);
+      return { messageId: `sms-${sent.length}` };
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send a code that signs in once', async () => {
+    await phoneOtpService.requestCode(tenant as never, PHONE);
+    const code = lastCode();
+
+    expect(code).toMatch(/^\d{6}$/);
+    expect(sent[0]).toContain('Helsinki Taxi');
+
+    await expect(phoneOtpService.verifyCode(tenant.id, PHONE, code)).resolves.toBeUndefined();
+    expect(await otpError(phoneOtpService.verifyCode(tenant.id, PHONE, code))).toBe('OTP_EXPIRED');
+  });
+
+  it('should not accept a code for another number or tenant', async () => {
+    await phoneOtpService.requestCode(tenant as never, PHONE);
+    const code = lastCode();
+
+    expect(await otpError(phoneOtpService.verifyCode(tenant.id, '+358409999999', code))).toBe('OTP_EXPIRED');
+    expect(await otpError(phoneOtpService.verifyCode('tenant-2', PHONE, code))).toBe('OTP_EXPIRED');
+  });
+
+  it('should discard the code after too many wrong guesses', async () => {
+    await phoneOtpService.requestCode(tenant as never, PHONE);
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await otpError(phoneOtpService.verifyCode(tenant.id, PHONE, wrong))).toBe('OTP_INVALID');
+    }
+
+    expect(await otpError(phoneOtpService.verifyCode(tenant.id, PHONE, code))).toBe('OTP_ATTEMPTS_EXCEEDED');
+    expect(await otpError(phoneOtpService.verifyCode(tenant.id, PHONE, code))).toBe('OTP_EXPIRED');
+  });
+
+  it('should make the user wait before requesting another code', async () => {
+    await phoneOtpService.requestCode(tenant as never, PHONE);
+
+    expect(await otpError(phoneOtpService.requestCode(tenant as never, PHONE))).toBe('OTP_RATE_LIMITED');
+    expect(sent).toHaveLength(1);
+  });
+
+  it('should cap the codes sent to a number per hour', async () => {
+    for (let request = 0; request < 5; request++) {
+      await phoneOtpService.requestCode(tenant as never, PHONE);
+      strings.delete(redisKey('otp-cooldown', tenant.id, PHONE));
+    }
+
+    expect(await otpError(phoneOtpService.requestCode(tenant as never, PHONE))).toBe('OTP_RATE_LIMITED');
+    expect(sent).toHaveLength(5);
+  });
+
+  it('should let the user retry at once when the SMS could not be sent', async () => {
+    vi.mocked(getSmsGateway().send).mockRejectedValueOnce(new Error('Gateway timeout'));
+
+    expect(await otpError(phoneOtpService.requestCode(tenant as never, PHONE))).toBe('SMS_SEND_FAILED');
+    await expect(phoneOtpService.requestCode(tenant as never, PHONE)).resolves.toBeGreaterThan(0);
+  });
+
+  it('should report an unreachable Redis as unavailable', async () => {
+    vi.mocked(redis.set).mockRejectedValue(new Error('Connection refused'));
+
+    expect(await otpError(phoneOtpService.requestCode(tenant as never, PHONE))).toBe('OTP_UNAVAILABLE');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Pricing Config Tests
+ *
+ * Validation of tenant pricing configs, and the tariff, vehicle type and
+ * party size rates a ride is priced with at its local time.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { pricingService, PricingError } from '../../src/services/pricing.service.js';
+import { getLocalTime, parseTimeOfDay } from '../../src/utils/local-time.js';
+
+const rates = { baseFare: 5.9, perKmRate: 1.2, perMinuteRate: 0.6 };
+
+const pricingConfig = pricingService.parseConfig({
+  tariffs: [
+    { code: 'night', ...rates, baseFare: 9.9, when: [{ from: '22:00', to: '06:00' }] },
+    { code: 'weekend', ...rates, baseFare: 8.9, when: [{ days: ['sat', 'sun', 'holiday'] }] },
+    { code: 'day', ...rates },
+  ],
+  holidays: ['2026-12-24'],
+  minimumFare: 10,
+  bookingFee: 1,
+  passengerSurcharges: [
+    { minPassengers: 5, amount: 15 },
+    { minPassengers: 3, amount: 5 },
+  ],
+  surgePricingEnabled: false,
+  vatRate: 0.135,
+});
+
+function tariffAt(instant: string, timeZone: string | null = 'Europe/Helsinki'): string {
+  return pricingService.selectTariff(pricingConfig, new Date(instant), timeZone).code;
+}
+
+function configProblem(changes: Record<string, unknown>): string {
+  let err: unknown;
+
+  try {
+    pricingService.parseConfig({ ...pricingConfig, ...changes });
+  } catch (error) {
+    err = error;
+  }
+
+  expect(err).toBeInstanceOf(PricingError);
+  expect((err as PricingError).code).toBe('INVALID_PRICING_CONFIG');
+  return (err as PricingError).message;
+}
+
+describe('Local time', () => {
+  it('should give the wall-clock date, weekday and minutes in the time zone', () => {
+    // Monday evening in New York is already Tuesday in Helsinki
+    expect(getLocalTime(new Date('2026-10-19T22:15:00Z'), 'Europe/Helsinki')).toEqual({
+      date: '2026-10-20',
+      weekday: 'tue',
+      minutes: 75,
+    });
+    expect(getLocalTime(new Date('2026-10-19T22:15:00Z'), 'America/New_York')).toEqual({
+      date: '2026-10-19',
+      weekday: 'mon',
+      minutes: 18 * 60 + 15,
+    });
+  });
+
+  it('should parse times of day into minutes since midnight', () => {
+    expect(parseTimeOfDay('00:00')).toBe(0);
+    expect(parseTimeOfDay('06:30')).toBe(390);
+    expect(parseTimeOfDay('23:59')).toBe(1439);
+  });
+});
+
+describe('Tariff selection', () => {
+  it('should use the fallback tariff when no rule matches', () => {
+    // Monday 12:00 in Helsinki
+    expect(tariffAt('2026-10-19T09:00:00Z')).toBe('day');
+  });
+
+  it('should match time windows running past midnight, with an exclusive end', () => {
+    expect(tariffAt('2026-10-19T20:30:00Z')).toBe('night'); // 23:30
+    expect(tariffAt('2026-10-20T02:59:00Z')).toBe('night'); // 05:59
+    expect(tariffAt('2026-10-20T03:00:00Z')).toBe('day'); // 06:00
+  });
+
+  it('should take the first matching tariff in config order', () => {
+    // Saturday 01:30 matches both the night and the weekend tariff
+    expect(tariffAt('2026-10-23T22:30:00Z')).toBe('night');
+    expect(tariffAt('2026-10-24T09:00:00Z')).toBe('weekend');
+  });
+
+  it('should apply holiday rules on the listed local dates', () => {
+    // Thursday 24 December, 12:00 in Helsinki
+    expect(tariffAt('2026-12-24T10:00:00Z')).toBe('weekend');
+    expect(tariffAt('2026-12-23T10:00:00Z')).toBe('day');
+  });
+
+  it('should follow the tenant time zone and its daylight saving changes', () => {
+    // 05:30 in New York, 12:30 in Helsinki
+    expect(tariffAt('2026-10-19T09:30:00Z', 'America/New_York')).toBe('night');
+    expect(tariffAt('2026-10-19T09:30:00Z', null)).toBe('day');
+
+    // 03:30 UTC is 06:30 in Helsinki summer time, 05:30 once it has ended
+    expect(tariffAt('2026-10-23T03:30:00Z')).toBe('day');
+    expect(tariffAt('2026-10-26T03:30:00Z')).toBe('night');
+  });
+});
+
+describe('Vehicle type and party size rates', () => {
+  it('should price vehicle types left out of the config at 1.0', () => {
+    const custom = pricingService.parseConfig({ ...pricingConfig, vehicleTypeMultipliers: { comfort: 1.2 } });
+
+    expect(pricingService.getVehicleTypeMultiplier(pricingConfig, 'comfort')).toBe(1.3);
+    expect(pricingService.getVehicleTypeMultiplier(custom, 'comfort')).toBe(1.2);
+    expect(pricingService.getVehicleTypeMultiplier(custom, 'xl')).toBe(1.0);
+  });
+
+  it('should charge the surcharge of the highest threshold reached', () => {
+    expect(pricingService.getPassengerSurcharge(pricingConfig, 2)).toBe(0);
+    expect(pricingService.getPassengerSurcharge(pricingConfig, 4)).toBe(5);
+    expect(pricingService.getPassengerSurcharge(pricingConfig, 6)).toBe(15);
+  });
+});
+
+describe('Pricing config validation', () => {
+  it('should accept a valid config and fill in defaults', () => {
+    expect(pricingService.isValidConfig(pricingConfig)).toBe(true);
+    expect(pricingConfig.upfrontPricing).toMatchObject({ enabled: true, quoteTtlSeconds: 300 });
+    expect(pricingConfig.airportFees).toEqual([]);
+  });
+
+  it('should upgrade a config from before tariffs to a single fallback tariff', () => {
+    const upgraded = pricingService.parseConfig({
+      ...rates,
+      minimumFare: 10,
+      bookingFee: 1,
+      surgePricingEnabled: true,
+      vatRate: 0.135,
+    });
+
+    expect(upgraded.tariffs).toEqual([{ code: 'standard', name: 'Standard', ...rates }]);
+    expect(pricingService.selectTariff(upgraded, new Date(), null).code).toBe('standard');
+  });
+
+  it('should require exactly one fallback tariff with a unique code', () => {
+    const [night, weekend, day] = pricingConfig.tariffs;
+
+    expect(configProblem({ tariffs: [night, weekend] })).toContain('Exactly one tariff must have no rules');
+    expect(configProblem({ tariffs: [night, day, { ...day, code: 'other' }] }))
+      .toContain('Exactly one tariff must have no rules');
+    expect(configProblem({ tariffs: [night, { ...weekend, code: 'night' }, day] }))
+      .toContain('Tariff codes must be unique');
+  });
+
+  it('should reject tariff rules with half a time window', () => {
+    const [night, , day] = pricingConfig.tariffs;
+
+    expect(configProblem({ tariffs: [{ ...night, when: [{ from: '22:00' }] }, day] }))
+      .toContain('from and to must be set together');
+  });
+
+  it('should reject surge curves that go down or exceed the maximum', () => {
+    expect(configProblem({
+      surgeCurve: [
+        { demandRatio: 1, multiplier: 1.5 },
+        { demandRatio: 2, multiplier: 1.2 },
+      ],
+    })).toContain('surgeCurve.1');
+    expect(configProblem({
+      surgeCurve: [{ demandRatio: 1, multiplier: 3 }],
+      maxSurgeMultiplier: 2,
+    })).toContain('Surge curve exceeds maxSurgeMultiplier');
+  });
+});
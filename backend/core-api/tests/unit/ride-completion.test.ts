@@ -0,0 +1,130 @@
+/**
+ * Ride Completion Tests
+ *
+ * Which fare a completed ride is charged: a verified taximeter receipt,
+ * then the locked quoted price unless it was voided, then the fare priced
+ * on the measured trip.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { dispatchService, type FareEstimate } from '../../src/services/dispatch.service.js';
+import { taximeterService } from '../../src/services/taximeter.service.js';
+import { pricingService } from '../../src/services/pricing.service.js';
+import { locationHistoryService } from '../../src/services/location-history.service.js';
+import { rideLifecycleService, type RideTransitionInput } from '../../src/services/ride-lifecycle.service.js';
+import { rideTrackingService } from '../../src/services/ride-tracking.service.js';
+import { driverAvailabilityService } from '../../src/services/driver-availability.service.js';
+import { db } from '../../src/db/index.js';
+
+const PRICED_FARE = 31.4;
+
+const ride = {
+  id: 'ride-1',
+  tenantId: 'tenant-1',
+  riderId: 'rider-1',
+  driverId: 'driver-1',
+  status: 'in_progress',
+  paymentMethod: 'card',
+  pickupLatitude: '60.1699000',
+  pickupLongitude: '24.9384000',
+  dropoffLatitude: '60.2055000',
+  dropoffLongitude: '24.6559000',
+  vehicleTypeRequested: 'standard',
+  surgeMutiplier: '1.00',
+  pricingConfigVersionId: 'pricing-1',
+  numberOfPassengers: 1,
+  estimatedDistanceMeters: 16000,
+  lockedFare: '28.00',
+  lockedFareVoidReason: null,
+  requestedAt: new Date('2026-03-02T09:40:00Z'),
+  rideStartedAt: new Date('2026-03-02T10:00:00Z'),
+  tenant: { id: 'tenant-1' },
+};
+
+const pricingVersion = {
+  id: 'pricing-1',
+  version: 1,
+  config: {
+    vatRate: 0.135,
+    upfrontPricing: { voidOnExtraStop: true, maxRouteDeviationPercent: 20 },
+  },
+};
+
+describe('Ride completion fare', () => {
+  beforeEach(() => {
+    vi.spyOn(db.query.rides, 'findFirst').mockResolvedValue(ride as never);
+    vi.spyOn(db, 'transaction').mockImplementation(((callback: (tx: unknown) => unknown) => callback({})) as never);
+    vi.spyOn(pricingService, 'getVersionById').mockResolvedValue(pricingVersion as never);
+    vi.spyOn(locationHistoryService, 'measureRideTrip').mockResolvedValue({
+      distanceMeters: 16500,
+      durationSeconds: 1500,
+      interpolatedMeters: 0,
+    });
+    vi.spyOn(dispatchService, 'calculateFare').mockResolvedValue({
+      total: PRICED_FARE,
+      distanceFare: 20,
+      timeFare: 6,
+      passengerSurcharge: 0,
+      airportFee: 0,
+      tariffCode: 'day',
+      pricingConfigVersionId: 'pricing-1',
+    } as FareEstimate);
+    vi.spyOn(rideLifecycleService, 'transition').mockImplementation(async (input: RideTransitionInput) => (
+      { ...ride, ...input.updates, status: input.to }
+    ) as never);
+    vi.spyOn(rideTrackingService, 'publishRideStatus').mockResolvedValue();
+    vi.spyOn(driverAvailabilityService, 'sync').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function complete(reportedDistanceMeters = 16500, stopsAdded = 0) {
+    return dispatchService.completeRide(ride.id, ride.tenantId, { type: 'driver', id: 'driver-1' }, reportedDistanceMeters, 1500, stopsAdded);
+  }
+
+  it('should charge the locked price when there is no verified meter receipt', async () => {
+    vi.spyOn(taximeterService, 'getVerifiedFare').mockResolvedValue(undefined);
+
+    const completed = await complete();
+
+    expect(completed.finalFare).toBe('28');
+    expect(completed.taximeterFare).toBeUndefined();
+  });
+
+  it('should charge a verified meter receipt over the locked price', async () => {
+    vi.spyOn(taximeterService, 'getVerifiedFare').mockResolvedValue(29.9);
+
+    const completed = await complete();
+
+    expect(completed.finalFare).toBe('29.9');
+    expect(completed.taximeterFare).toBe('29.9');
+  });
+
+  it('should charge a verified meter receipt of zero', async () => {
+    vi.spyOn(taximeterService, 'getVerifiedFare').mockResolvedValue(0);
+
+    const completed = await complete();
+
+    expect(completed.finalFare).toBe('0');
+  });
+
+  it('should charge the priced fare when the locked price is void', async () => {
+    vi.spyOn(taximeterService, 'getVerifiedFare').mockResolvedValue(undefined);
+
+    const completed = await complete(16500, 1);
+
+    expect(completed.finalFare).toBe(String(PRICED_FARE));
+    expect(completed.lockedFareVoidReason).toBe('extra_stop');
+  });
+
+  it('should charge the priced fare for a ride booked without a quote', async () => {
+    vi.mocked(db.query.rides.findFirst).mockResolvedValue({ ...ride, lockedFare: null } as never);
+    vi.spyOn(taximeterService, 'getVerifiedFare').mockResolvedValue(undefined);
+
+    const completed = await complete();
+
+    expect(completed.finalFare).toBe(String(PRICED_FARE));
+  });
+});
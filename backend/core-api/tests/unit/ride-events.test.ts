@@ -0,0 +1,176 @@
+/**
+ * Ride Event Tests
+ *
+ * Each ride status change emits its typed event on mobility.rides, keyed
+ * by ride id, through the outbox in the transaction that makes the change.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  kafkaService,
+  buildRideRequestedEvent,
+  buildRideStatusEvent,
+  EventType,
+  type MobilityEvent,
+} from '../../src/services/kafka.service.js';
+import { rideLifecycleService } from '../../src/services/ride-lifecycle.service.js';
+import { outboxService } from '../../src/services/outbox.service.js';
+
+const ride = {
+  id: 'ride-1',
+  tenantId: 'tenant-1',
+  riderId: 'rider-1',
+  driverId: 'driver-1',
+  vehicleId: 'vehicle-1',
+  status: 'driver_arriving',
+  pickupLatitude: '60.1699000',
+  pickupLongitude: '24.9384000',
+  pickupAddress: 'Rautatientori, Helsinki',
+  dropoffLatitude: '60.2055000',
+  dropoffLongitude: '24.6559000',
+  dropoffAddress: 'Tapiola, Espoo',
+  vehicleTypeRequested: 'comfort',
+  estimatedFare: '28.50',
+  finalFare: null as string | null,
+  cancelledBy: null as string | null,
+  cancellationReason: null as string | null,
+  scheduledPickupTime: null,
+};
+
+describe('Ride event builders', () => {
+  it('should build the requested event from the new ride', () => {
+    const event = buildRideRequestedEvent({ ...ride, status: 'searching', driverId: null, vehicleId: null });
+
+    expect(event).toMatchObject({
+      type: EventType.RIDE_REQUESTED,
+      correlationId: 'ride-1',
+      payload: { rideId: 'ride-1', pickupLatitude: 60.1699, vehicleType: 'comfort', estimatedFare: 28.5 },
+    });
+  });
+
+  it('should build the assigned event with the driver, vehicle and ETA', () => {
+    const event = buildRideStatusEvent({ ...ride, status: 'driver_assigned' }, 'searching', 240);
+
+    expect(event).toMatchObject({
+      type: EventType.RIDE_ASSIGNED,
+      payload: { rideId: 'ride-1', driverId: 'driver-1', vehicleId: 'vehicle-1', eta: 240 },
+    });
+  });
+
+  it('should map each status to its event type', () => {
+    const types = ['searching', 'no_drivers_available', 'driver_arriving', 'arrived', 'in_progress', 'completed']
+      .map((status) => buildRideStatusEvent({ ...ride, status })?.type);
+
+    expect(types).toEqual([
+      EventType.RIDE_SEARCHING,
+      EventType.RIDE_NO_DRIVERS_AVAILABLE,
+      EventType.RIDE_DRIVER_ARRIVING,
+      EventType.RIDE_DRIVER_ARRIVED,
+      EventType.RIDE_STARTED,
+      EventType.RIDE_COMPLETED,
+    ]);
+  });
+
+  it('should carry who cancelled and why on cancellations only', () => {
+    const cancelled = buildRideStatusEvent({
+      ...ride,
+      status: 'cancelled_by_rider',
+      cancelledBy: 'rider',
+      cancellationReason: 'Plans changed',
+    }, 'driver_arriving');
+    const completed = buildRideStatusEvent({ ...ride, status: 'completed', finalFare: '31.40', cancelledBy: 'rider' });
+
+    expect(cancelled).toMatchObject({
+      type: EventType.RIDE_CANCELLED,
+      payload: { status: 'cancelled_by_rider', previousStatus: 'driver_arriving', cancelledBy: 'rider', cancellationReason: 'Plans changed' },
+    });
+    expect(completed?.payload).toMatchObject({ finalFare: 31.4, cancelledBy: undefined });
+  });
+
+  it('should build no event for statuses without one', () => {
+    expect(buildRideStatusEvent({ ...ride, status: 'requested' })).toBeNull();
+  });
+
+  it('should key ride events by ride id', () => {
+    const event = buildRideStatusEvent({ ...ride, status: 'in_progress' }) as MobilityEvent;
+
+    expect(kafkaService.getKeyForEvent(event)).toBe('ride-1');
+  });
+});
+
+describe('Ride lifecycle events', () => {
+  let stored: typeof ride;
+  let enqueued: MobilityEvent[];
+
+  // Transaction holding the one ride row
+  const tx = {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          for: async () => [{ ...stored }],
+        }),
+      }),
+    }),
+    update: () => ({
+      set: (values: Partial<typeof ride>) => ({
+        where: () => ({
+          returning: async () => {
+            stored = { ...stored, ...values };
+            return [{ ...stored }];
+          },
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: async () => undefined,
+    }),
+  };
+
+  beforeEach(() => {
+    stored = { ...ride };
+    enqueued = [];
+
+    vi.spyOn(outboxService, 'enqueue').mockImplementation(async (_tx, event) => {
+      enqueued.push(event);
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should enqueue the status event in the transition transaction', async () => {
+    await rideLifecycleService.transition({
+      rideId: 'ride-1',
+      tenantId: 'tenant-1',
+      to: 'arrived',
+      actor: { type: 'driver', id: 'driver-1' },
+    }, tx as never);
+
+    expect(outboxService.enqueue).toHaveBeenCalledWith(tx, expect.anything());
+    expect(enqueued).toMatchObject([{
+      type: EventType.RIDE_DRIVER_ARRIVED,
+      payload: { rideId: 'ride-1', status: 'arrived', previousStatus: 'driver_arriving' },
+    }]);
+  });
+
+  it('should enqueue the requested event when a ride is created', async () => {
+    await rideLifecycleService.recordCreated(tx as never, { ...stored, status: 'searching' } as never, {
+      type: 'rider',
+      id: 'rider-1',
+    });
+
+    expect(enqueued.map((event) => event.type)).toEqual([EventType.RIDE_REQUESTED]);
+  });
+
+  it('should enqueue nothing for a refused transition', async () => {
+    await expect(rideLifecycleService.transition({
+      rideId: 'ride-1',
+      tenantId: 'tenant-1',
+      to: 'completed',
+      actor: { type: 'driver', id: 'driver-1' },
+    }, tx as never)).rejects.toMatchObject({ code: 'INVALID_STATUS_TRANSITION' });
+
+    expect(enqueued).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Ride Quote Booking Tests
+ *
+ * A quote books one ride: a quote already booked is refused, including
+ * when two bookings of it race past the check and the second insert hits
+ * the unique quote index.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { dispatchService, type RideRequest } from '../../src/services/dispatch.service.js';
+import { quoteService } from '../../src/services/quote.service.js';
+import { db } from '../../src/db/index.js';
+
+const request: RideRequest = {
+  tenantId: 'tenant-1',
+  riderId: 'rider-1',
+  pickupLatitude: 60.1699,
+  pickupLongitude: 24.9384,
+  pickupAddress: 'Rautatientori, Helsinki',
+  dropoffLatitude: 60.2055,
+  dropoffLongitude: 24.6559,
+  dropoffAddress: 'Tapiola, Espoo',
+  quoteToken: 'quote-token',
+};
+
+describe('Booking with a quote', () => {
+  beforeEach(() => {
+    vi.spyOn(db.query.tenants, 'findFirst').mockResolvedValue({ id: 'tenant-1', isActive: true, isLive: true } as never);
+    vi.spyOn(quoteService, 'verifyQuote').mockReturnValue({ quoteId: 'quote-1', fare: { total: 28 } } as never);
+    vi.spyOn(db.query.rides, 'findFirst').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refuse a quote that already booked a ride', async () => {
+    vi.mocked(db.query.rides.findFirst).mockResolvedValue({ id: 'ride-1' } as never);
+    const transaction = vi.spyOn(db, 'transaction');
+
+    await expect(dispatchService.createRideRequest(request)).rejects.toMatchObject({ code: 'QUOTE_USED' });
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a quote booked concurrently, once the insert hits the quote index', async () => {
+    vi.spyOn(db, 'transaction').mockRejectedValue(Object.assign(new Error('duplicate key value'), {
+      code: '23505',
+      constraint: 'rides_quote_idx',
+    }));
+
+    await expect(dispatchService.createRideRequest(request)).rejects.toMatchObject({ code: 'QUOTE_USED' });
+  });
+
+  it('should pass other database errors through', async () => {
+    vi.spyOn(db, 'transaction').mockRejectedValue(new Error('connection terminated'));
+
+    await expect(dispatchService.createRideRequest(request)).rejects.toThrow('connection terminated');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Ride Scheduler Tests
+ *
+ * Rides left searching with no matching run, after a crash or a failed
+ * run, are matched again on the next scheduler pass.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { rideSchedulerService } from '../../src/services/ride-scheduler.service.js';
+import { dispatchService } from '../../src/services/dispatch.service.js';
+import { db } from '../../src/db/index.js';
+
+function searchingRides(rows: Array<{ id: string; tenantId: string }>) {
+  const query = {
+    from: () => query,
+    where: () => query,
+    orderBy: () => query,
+    limit: async () => rows,
+  };
+  vi.spyOn(db, 'select').mockReturnValue(query as never);
+}
+
+describe('Stalled ride matching', () => {
+  // Rides a matching run holds the lease for
+  const matching = new Set<string>();
+
+  beforeEach(() => {
+    matching.clear();
+    vi.spyOn(dispatchService, 'isMatching').mockImplementation(async (rideId) => matching.has(rideId));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should restart matching only for rides no run is matching', async () => {
+    matching.add('ride-1');
+    searchingRides([{ id: 'ride-1', tenantId: 'tenant-1' }, { id: 'ride-2', tenantId: 'tenant-1' }]);
+    vi.spyOn(dispatchService, 'startDriverMatching').mockResolvedValue();
+
+    const redriven = await rideSchedulerService.redriveStalledRides();
+
+    expect(redriven).toBe(1);
+    expect(dispatchService.startDriverMatching).toHaveBeenCalledTimes(1);
+    expect(dispatchService.startDriverMatching).toHaveBeenCalledWith('ride-2');
+  });
+
+  it('should retry a ride whose matching failed on the next pass', async () => {
+    searchingRides([{ id: 'ride-1', tenantId: 'tenant-1' }]);
+    vi.spyOn(dispatchService, 'startDriverMatching')
+      .mockRejectedValueOnce(new Error('Location service unavailable'))
+      .mockResolvedValueOnce();
+
+    await rideSchedulerService.redriveStalledRides();
+    await rideSchedulerService.redriveStalledRides();
+
+    expect(dispatchService.startDriverMatching).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Stripe Webhook Tests
+ *
+ * Events are accepted only with a valid signature, each event id is
+ * processed once, and each handled event type updates its payment, ride or
+ * tenant in the transaction that records the event.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import Stripe from 'stripe';
+import { webhooksRouter } from '../../src/routes/webhooks.routes.js';
+import { paymentService } from '../../src/services/payment.service.js';
+import { stripePaymentProvider } from '../../src/services/payment-providers/index.js';
+import { outboxService } from '../../src/services/outbox.service.js';
+import { driverLedgerService } from '../../src/services/driver-ledger.service.js';
+import { veroReportService } from '../../src/services/vero-report.service.js';
+import { EventType } from '../../src/services/kafka.service.js';
+import { config } from '../../src/config/index.js';
+import { db, payments, rides, tenants } from '../../src/db/index.js';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+const stripe = new Stripe('sk_test_webhooks', { apiVersion: '2023-10-16' });
+
+const storedPayment = {
+  id: 'payment-1',
+  tenantId: 'tenant-1',
+  rideId: 'ride-1',
+  riderId: 'rider-1',
+  driverId: 'driver-1',
+  amount: '30.00',
+  currency: 'EUR',
+  status: 'processing',
+  stripePaymentIntentId: 'pi_1',
+  stripeRefundId: null as string | null,
+  refundAmount: null as string | null,
+  receiptNumber: null as string | null,
+};
+
+function stripeEvent(id: string, type: string, object: Record<string, unknown>): Stripe.Event {
+  return { id, type, data: { object } } as unknown as Stripe.Event;
+}
+
+describe('Stripe webhook events', () => {
+  let payment: typeof storedPayment;
+  let recordedEventIds: Set<string>;
+  let updates: { table: unknown; values: Record<string, unknown> }[];
+
+  // Transaction recording event ids and the updates the event causes
+  const tx = {
+    insert: () => ({
+      values: (values: { id: string }) => ({
+        onConflictDoNothing: () => ({
+          returning: async () => {
+            if (recordedEventIds.has(values.id)) return [];
+            recordedEventIds.add(values.id);
+            return [values];
+          },
+        }),
+      }),
+    }),
+    query: {
+      payments: { findFirst: async () => ({ ...payment }) },
+    },
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          for: async () => [{ ...payment }],
+        }),
+      }),
+    }),
+    update: (table: unknown) => ({
+      set: (values: Record<string, unknown>) => {
+        updates.push({ table, values });
+        const updated = table === payments ? [{ ...payment, ...values }] : [{ id: 'tenant-1' }];
+        const where = () => Object.assign(Promise.resolve(), { returning: async () => updated });
+        return { where };
+      },
+    }),
+  };
+
+  function updatesOf(table: unknown): Record<string, unknown>[] {
+    return updates.filter((update) => update.table === table).map((update) => update.values);
+  }
+
+  function enqueuedTypes(): string[] {
+    return vi.mocked(outboxService.enqueue).mock.calls.map(([, event]) => event.type);
+  }
+
+  beforeEach(() => {
+    payment = { ...storedPayment };
+    recordedEventIds = new Set();
+    updates = [];
+
+    vi.spyOn(db, 'transaction').mockImplementation(async (fn) => fn(tx as never));
+    vi.spyOn(outboxService, 'enqueue').mockResolvedValue();
+    vi.spyOn(driverLedgerService, 'recordPayment').mockResolvedValue();
+    vi.spyOn(driverLedgerService, 'recordRefund').mockResolvedValue();
+    vi.spyOn(veroReportService, 'enqueue').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should process an event once and report redeliveries as duplicates', async () => {
+    const event = stripeEvent('evt_1', 'payment_intent.succeeded', { id: 'pi_1', latest_charge: 'ch_1' });
+
+    expect(await paymentService.handleWebhookEvent(event)).toBe(true);
+    expect(await paymentService.handleWebhookEvent(event)).toBe(false);
+    expect(enqueuedTypes()).toEqual([EventType.PAYMENT_COMPLETED]);
+  });
+
+  it('should complete the payment, link it to the ride and credit the driver on payment_intent.succeeded', async () => {
+    await paymentService.handleWebhookEvent(
+      stripeEvent('evt_1', 'payment_intent.succeeded', { id: 'pi_1', latest_charge: 'ch_1' })
+    );
+
+    expect(updatesOf(payments)).toMatchObject([{ status: 'completed', stripeChargeId: 'ch_1' }]);
+    expect(updatesOf(rides)).toMatchObject([{ paymentId: 'payment-1' }]);
+    expect(driverLedgerService.recordPayment).toHaveBeenCalledTimes(1);
+    expect(veroReportService.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the payment on payment_intent.payment_failed', async () => {
+    await paymentService.handleWebhookEvent(stripeEvent('evt_1', 'payment_intent.payment_failed', {
+      id: 'pi_1',
+      last_payment_error: { code: 'card_declined', message: 'Your card was declined.' },
+    }));
+
+    expect(updatesOf(payments)).toMatchObject([{ status: 'failed', failureCode: 'card_declined' }]);
+    expect(enqueuedTypes()).toEqual([EventType.PAYMENT_FAILED]);
+  });
+
+  it('should record a partial refund on charge.refunded and keep the payment completed', async () => {
+    payment.status = 'completed';
+
+    await paymentService.handleWebhookEvent(stripeEvent('evt_1', 'charge.refunded', {
+      id: 'ch_1',
+      payment_intent: 'pi_1',
+      amount_refunded: 1000,
+      refunded: false,
+      refunds: { data: [{ id: 're_1' }] },
+    }));
+
+    expect(updatesOf(payments)).toMatchObject([{ status: 'completed', refundAmount: '10', stripeRefundId: 're_1' }]);
+    expect(driverLedgerService.recordRefund).toHaveBeenCalledWith(tx, expect.anything(), 10);
+    expect(enqueuedTypes()).toEqual([EventType.PAYMENT_REFUNDED]);
+  });
+
+  it('should ignore a charge.refunded for a refund already recorded', async () => {
+    payment = { ...payment, status: 'refunded', refundAmount: '30.00' };
+
+    await paymentService.handleWebhookEvent(stripeEvent('evt_1', 'charge.refunded', {
+      id: 'ch_1',
+      payment_intent: 'pi_1',
+      amount_refunded: 3000,
+      refunded: true,
+    }));
+
+    expect(updates).toEqual([]);
+    expect(driverLedgerService.recordRefund).not.toHaveBeenCalled();
+  });
+
+  it('should record the dispute on charge.dispute.created', async () => {
+    await paymentService.handleWebhookEvent(stripeEvent('evt_1', 'charge.dispute.created', {
+      id: 'dp_1',
+      charge: 'ch_1',
+      status: 'needs_response',
+      reason: 'fraudulent',
+      created: 1792400000,
+    }));
+
+    expect(updatesOf(payments)).toMatchObject([{
+      stripeDisputeId: 'dp_1',
+      disputeStatus: 'needs_response',
+      disputeReason: 'fraudulent',
+    }]);
+  });
+
+  it('should update tenant onboarding on account.updated', async () => {
+    await paymentService.handleWebhookEvent(stripeEvent('evt_1', 'account.updated', {
+      id: 'acct_1',
+      details_submitted: true,
+      charges_enabled: true,
+      payouts_enabled: true,
+    }));
+
+    expect(updatesOf(tenants)).toMatchObject([{ stripeOnboardingComplete: true }]);
+  });
+});
+
+describe('Stripe webhook route', () => {
+  let server: Server;
+  let url: string;
+  const stripeConfig = config.stripe as { webhookSecret: string };
+  const webhookSecret = stripeConfig.webhookSecret;
+
+  function post(body: string, signature?: string): Promise<globalThis.Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(signature ? { 'stripe-signature': signature } : {}),
+      },
+      body,
+    });
+  }
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/webhooks', webhooksRouter);
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/stripe`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    stripeConfig.webhookSecret = WEBHOOK_SECRET;
+    Object.assign(stripePaymentProvider, { client: stripe });
+  });
+
+  afterEach(() => {
+    stripeConfig.webhookSecret = webhookSecret;
+    Object.assign(stripePaymentProvider, { client: null });
+    vi.restoreAllMocks();
+  });
+
+  it('should refuse a request without a signature', async () => {
+    const response = await post('{}');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+  });
+
+  it('should refuse an event whose signature does not match', async () => {
+    const handle = vi.spyOn(paymentService, 'handleWebhookEvent');
+    const payload = JSON.stringify({ id: 'evt_1', type: 'account.updated', data: { object: {} } });
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: 'whsec_other_secret' });
+
+    const response = await post(payload, signature);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_SIGNATURE' });
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('should process a signed event and flag redeliveries', async () => {
+    const handle = vi.spyOn(paymentService, 'handleWebhookEvent')
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    const payload = JSON.stringify({ id: 'evt_1', type: 'account.updated', data: { object: {} } });
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+    const first = await post(payload, signature);
+    const second = await post(payload, signature);
+
+    expect(await first.json()).toEqual({ received: true, duplicate: false });
+    expect(await second.json()).toEqual({ received: true, duplicate: true });
+    expect(handle).toHaveBeenCalledWith(expect.objectContaining({ id: 'evt_1' }));
+  });
+
+  it('should answer 500 so Stripe redelivers when processing fails', async () => {
+    vi.spyOn(paymentService, 'handleWebhookEvent').mockRejectedValue(new Error('connection terminated'));
+    const payload = JSON.stringify({ id: 'evt_1', type: 'account.updated', data: { object: {} } });
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+    const response = await post(payload, signature);
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Surge Pricing Tests
+ *
+ * Geohash zones, the demand/supply curve, and smoothing of a zone's
+ * multiplier between refreshes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { encodeGeohash, decodeGeohash } from '../../src/utils/geohash.js';
+import { surgeService } from '../../src/services/surge.service.js';
+import { locationService, type DriverPosition } from '../../src/services/location.service.js';
+import { redis } from '../../src/db/redis.js';
+
+const HELSINKI = { latitude: 60.1699, longitude: 24.9384 };
+const ESPOO = { latitude: 60.2055, longitude: 24.6559 };
+
+describe('Geohash', () => {
+  it('should encode a coordinate to its known geohash', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+  });
+
+  it('should give nearby points a common prefix', () => {
+    const a = encodeGeohash(HELSINKI.latitude, HELSINKI.longitude, 6);
+    const b = encodeGeohash(HELSINKI.latitude + 0.0005, HELSINKI.longitude + 0.0005, 6);
+
+    expect(a).toHaveLength(6);
+    expect(b).toBe(a);
+    expect(encodeGeohash(ESPOO.latitude, ESPOO.longitude, 6)).not.toBe(a);
+  });
+
+  it('should decode to a cell containing the encoded point', () => {
+    const cell = decodeGeohash(encodeGeohash(HELSINKI.latitude, HELSINKI.longitude, 7));
+
+    expect(cell.minLatitude).toBeLessThanOrEqual(HELSINKI.latitude);
+    expect(cell.maxLatitude).toBeGreaterThan(HELSINKI.latitude);
+    expect(cell.minLongitude).toBeLessThanOrEqual(HELSINKI.longitude);
+    expect(cell.maxLongitude).toBeGreaterThan(HELSINKI.longitude);
+    expect(cell.latitude).toBeCloseTo(HELSINKI.latitude, 2);
+    expect(cell.longitude).toBeCloseTo(HELSINKI.longitude, 2);
+  });
+
+  it('should reject characters outside the geohash alphabet', () => {
+    expect(() => decodeGeohash('u4pa')).toThrow('Invalid geohash character: a');
+  });
+});
+
+describe('Surge curve', () => {
+  it('should not surge while demand is at or below supply', () => {
+    expect(surgeService.applyCurve(0)).toBe(1.0);
+    expect(surgeService.applyCurve(1)).toBe(1.0);
+  });
+
+  it('should interpolate between curve points', () => {
+    expect(surgeService.applyCurve(1.5)).toBeCloseTo(1.2);
+    expect(surgeService.applyCurve(2.5)).toBeCloseTo(1.75);
+  });
+
+  it('should hold the last multiplier beyond the curve', () => {
+    expect(surgeService.applyCurve(10)).toBe(2.0);
+  });
+
+  it('should use the tenant curve in ratio order, capped by the tenant and platform maximum', () => {
+    const settings = {
+      surgeCurve: [
+        { demandRatio: 4, multiplier: 5 },
+        { demandRatio: 1, multiplier: 1 },
+      ],
+    };
+
+    expect(surgeService.applyCurve(2.5, settings)).toBeCloseTo(3.0);
+    expect(surgeService.applyCurve(4, settings)).toBe(3.0); // Platform maximum
+    expect(surgeService.applyCurve(4, { ...settings, maxSurgeMultiplier: 2.5 })).toBe(2.5);
+  });
+});
+
+describe('Zone surge', () => {
+  let state: Record<string, string>;
+  let demand: number;
+  let drivers: DriverPosition[];
+
+  function driverAt(driverId: string, position: { latitude: number; longitude: number }, isAvailable = true): DriverPosition {
+    return {
+      driverId,
+      ...position,
+      heading: 0,
+      speed: 0,
+      distance: 0,
+      eta: 0,
+      isAvailable,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  beforeEach(() => {
+    state = {};
+    demand = 0;
+    drivers = [];
+
+    const transaction = {
+      hset: (_key: string, values: Record<string, string>) => {
+        state = values;
+        return transaction;
+      },
+      expire: () => transaction,
+      exec: async () => [],
+    };
+
+    vi.spyOn(redis, 'hgetall').mockImplementation((async () => state) as never);
+    vi.spyOn(redis, 'zremrangebyscore').mockResolvedValue(0 as never);
+    vi.spyOn(redis, 'zcount').mockImplementation((async () => demand) as never);
+    vi.spyOn(redis, 'multi').mockReturnValue(transaction as never);
+    vi.spyOn(locationService, 'findNearbyDrivers').mockImplementation(async () => drivers);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should move part of the way towards the curve multiplier', async () => {
+    demand = 4;
+    drivers = [driverAt('driver-1', HELSINKI), driverAt('driver-2', HELSINKI)];
+
+    const surge = await surgeService.getSurge('tenant-1', HELSINKI.latitude, HELSINKI.longitude);
+
+    // Target 1.5 at two requests per driver, 30% of the way from 1.0
+    expect(surge).toMatchObject({ multiplier: 1.15, demand: 4, supply: 2 });
+    expect(state.multiplier).toBe('1.15');
+  });
+
+  it('should only count available drivers inside the zone as supply', async () => {
+    demand = 3;
+    drivers = [
+      driverAt('driver-1', HELSINKI),
+      driverAt('driver-2', HELSINKI, false),
+      driverAt('driver-3', ESPOO),
+    ];
+
+    const surge = await surgeService.getSurge('tenant-1', HELSINKI.latitude, HELSINKI.longitude);
+
+    expect(surge.supply).toBe(1);
+    expect(surge.multiplier).toBe(1.3);
+  });
+
+  it('should reuse the stored multiplier until the refresh interval has passed', async () => {
+    state = { multiplier: '1.4', demand: '6', supply: '3', updatedAt: Date.now().toString() };
+
+    const surge = await surgeService.getSurge('tenant-1', HELSINKI.latitude, HELSINKI.longitude);
+
+    expect(surge).toMatchObject({ multiplier: 1.4, demand: 6, supply: 3 });
+    expect(locationService.findNearbyDrivers).not.toHaveBeenCalled();
+  });
+
+  it('should snap back to no surge once demand has eased', async () => {
+    state = { multiplier: '1.06', updatedAt: '0' };
+    demand = 1;
+    drivers = [driverAt('driver-1', HELSINKI)];
+
+    const surge = await surgeService.getSurge('tenant-1', HELSINKI.latitude, HELSINKI.longitude);
+
+    expect(surge.multiplier).toBe(1.0);
+  });
+
+  it('should fall back to no surge when Redis is unavailable', async () => {
+    vi.mocked(redis.hgetall).mockRejectedValue(new Error('Connection refused'));
+
+    const surge = await surgeService.getSurge('tenant-1', HELSINKI.latitude, HELSINKI.longitude);
+
+    expect(surge.multiplier).toBe(1.0);
+  });
+});
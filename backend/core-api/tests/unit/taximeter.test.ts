@@ -0,0 +1,196 @@
+/**
+ * Taximeter Tests
+ *
+ * Meter receipts verify against the public key of the taximeter registered
+ * on the vehicle; only verified receipts set the ride's meter fare. The
+ * reconciliation report flags fares that diverge beyond the tolerance and
+ * rides with missing or unverified readings.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { taximeterService, type TaximeterReceipt } from '../../src/services/taximeter.service.js';
+import { db, rides } from '../../src/db/index.js';
+
+const unsignedReceipt: Omit<TaximeterReceipt, 'digitalSignature'> = {
+  taximeterSerialNumber: 'MID-0001',
+  receiptNumber: 'R-1001',
+  startTime: new Date('2026-10-19T09:00:00Z'),
+  endTime: new Date('2026-10-19T09:25:00Z'),
+  distanceMeters: 16000,
+  durationSeconds: 1500,
+  baseFare: 5.9,
+  distanceFare: 19.2,
+  timeFare: 6.3,
+  totalFare: 31.4,
+  vatAmount: 3.73,
+  tariffCode: 'standard',
+};
+
+function signReceipt(privateKey: KeyObject, algorithm: string | null): TaximeterReceipt {
+  const signature = sign(algorithm, Buffer.from(taximeterService.buildSignedPayload(unsignedReceipt)), privateKey);
+  return { ...unsignedReceipt, digitalSignature: signature.toString('base64') };
+}
+
+const ed25519 = generateKeyPairSync('ed25519');
+const ed25519PublicKey = ed25519.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+describe('Taximeter signatures', () => {
+  it('should verify Ed25519 and ECDSA signatures over the canonical payload', () => {
+    const ecdsa = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const ecdsaPublicKey = ecdsa.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+    expect(taximeterService.verifySignature(ed25519PublicKey, signReceipt(ed25519.privateKey, null))).toBe(true);
+    expect(taximeterService.verifySignature(ecdsaPublicKey, signReceipt(ecdsa.privateKey, 'sha256'))).toBe(true);
+  });
+
+  it('should refuse a receipt changed after signing', () => {
+    const receipt = { ...signReceipt(ed25519.privateKey, null), totalFare: 21.4 };
+
+    expect(taximeterService.verifySignature(ed25519PublicKey, receipt)).toBe(false);
+  });
+
+  it('should refuse receipts from meters without a usable key', () => {
+    const receipt = signReceipt(ed25519.privateKey, null);
+
+    expect(taximeterService.verifySignature(null, receipt)).toBe(false);
+    expect(taximeterService.verifySignature('not a key', receipt)).toBe(false);
+  });
+});
+
+describe('Taximeter reading upload', () => {
+  const ride = {
+    id: 'ride-1',
+    tenantId: 'tenant-1',
+    driverId: 'driver-1',
+    vehicleId: 'vehicle-1',
+    status: 'completed',
+  };
+  const vehicle = { id: 'vehicle-1', taximeterPublicKey: ed25519PublicKey };
+
+  let inserted: boolean;
+  let rideUpdates: Record<string, unknown>[];
+
+  // Transaction inserting the reading (once per receipt number) and updating the ride
+  const tx = {
+    insert: () => ({
+      values: (values: Record<string, unknown>) => ({
+        onConflictDoNothing: () => ({
+          returning: async () => {
+            if (inserted) return [];
+            inserted = true;
+            return [{ id: 'reading-1', ...values }];
+          },
+        }),
+      }),
+    }),
+    update: (table: unknown) => ({
+      set: (values: Record<string, unknown>) => ({
+        where: async () => {
+          if (table === rides) rideUpdates.push(values);
+        },
+      }),
+    }),
+  };
+
+  function upload(receipt: TaximeterReceipt, driverId = 'driver-1') {
+    return taximeterService.ingestReading({ rideId: 'ride-1', tenantId: 'tenant-1', driverId, receipt });
+  }
+
+  beforeEach(() => {
+    inserted = false;
+    rideUpdates = [];
+
+    vi.spyOn(db.query.rides, 'findFirst').mockResolvedValue(ride as never);
+    vi.spyOn(db.query.vehicles, 'findFirst').mockResolvedValue(vehicle as never);
+    vi.spyOn(db, 'transaction').mockImplementation(async (fn) => fn(tx as never));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should link a verified receipt to the ride as its meter fare', async () => {
+    const reading = await upload(signReceipt(ed25519.privateKey, null));
+
+    expect(reading).toMatchObject({ signatureValid: true, totalFare: '31.40' });
+    expect(rideUpdates).toEqual([{ vehicleId: 'vehicle-1', taximeterFare: '31.40', taximeterReceiptNumber: 'R-1001' }]);
+  });
+
+  it('should store a receipt whose signature fails without touching the ride', async () => {
+    const reading = await upload({ ...signReceipt(ed25519.privateKey, null), totalFare: 21.4 });
+
+    expect(reading).toMatchObject({ signatureValid: false });
+    expect(rideUpdates).toEqual([]);
+  });
+
+  it('should refuse a receipt number uploaded before', async () => {
+    await upload(signReceipt(ed25519.privateKey, null));
+
+    await expect(upload(signReceipt(ed25519.privateKey, null))).rejects.toMatchObject({ code: 'DUPLICATE_RECEIPT' });
+  });
+
+  it('should refuse meters not registered on the driver\'s vehicle', async () => {
+    vi.mocked(db.query.vehicles.findFirst).mockResolvedValue(undefined);
+
+    await expect(upload(signReceipt(ed25519.privateKey, null))).rejects.toMatchObject({ code: 'TAXIMETER_NOT_REGISTERED' });
+  });
+
+  it('should refuse uploads by another driver or before the ride started', async () => {
+    await expect(upload(signReceipt(ed25519.privateKey, null), 'driver-2')).rejects.toMatchObject({ code: 'NOT_RIDE_DRIVER' });
+
+    vi.mocked(db.query.rides.findFirst).mockResolvedValue({ ...ride, status: 'driver_arriving' } as never);
+    await expect(upload(signReceipt(ed25519.privateKey, null))).rejects.toMatchObject({ code: 'INVALID_RIDE_STATUS' });
+  });
+});
+
+describe('Taximeter reconciliation', () => {
+  function completedRide(id: string, finalFare: string) {
+    return { id, driverId: 'driver-1', finalFare, rideCompletedAt: new Date('2026-10-19T10:00:00Z') };
+  }
+
+  function reading(rideId: string, totalFare: string, signatureValid = true) {
+    return { rideId, totalFare, signatureValid, receiptNumber: `R-${rideId}` };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(db.query.tenants, 'findFirst').mockResolvedValue({ id: 'tenant-1', enableTaximeterIntegration: true } as never);
+    vi.spyOn(db.query.rides, 'findMany').mockResolvedValue([
+      completedRide('ride-1', '30.00'), // Within 5% of the meter
+      completedRide('ride-2', '36.00'), // 20% over the meter
+      completedRide('ride-3', '8.40'), // 0.40 over on a short trip, under the minimum tolerance
+      completedRide('ride-4', '25.00'), // No reading
+      completedRide('ride-5', '25.00'), // Reading that didn't verify
+    ] as never);
+    vi.spyOn(db.query.taximeterReadings, 'findMany').mockResolvedValue([
+      reading('ride-1', '29.00'),
+      reading('ride-2', '30.00'),
+      reading('ride-3', '8.00'),
+      reading('ride-5', '25.00', false),
+    ] as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should flag fare mismatches beyond the tolerance and missing or unverified readings', async () => {
+    const report = await taximeterService.getReconciliationReport('tenant-1', new Date('2026-10-19'), new Date('2026-10-20'), 5);
+
+    expect(report.ridesChecked).toBe(5);
+    expect(report.flagged.map((item) => [item.rideId, item.flags])).toEqual([
+      ['ride-2', ['fare_mismatch']],
+      ['ride-4', ['missing_reading']],
+      ['ride-5', ['invalid_signature']],
+    ]);
+    expect(report.flagged[0]).toMatchObject({ finalFare: 36, meterFare: 30, difference: 6 });
+  });
+
+  it('should not expect readings from tenants without taximeter integration', async () => {
+    vi.mocked(db.query.tenants.findFirst).mockResolvedValue({ id: 'tenant-1', enableTaximeterIntegration: false } as never);
+
+    const report = await taximeterService.getReconciliationReport('tenant-1', new Date('2026-10-19'), new Date('2026-10-20'), 5);
+
+    expect(report.flagged.map((item) => item.rideId)).toEqual(['ride-2', 'ride-5']);
+  });
+});
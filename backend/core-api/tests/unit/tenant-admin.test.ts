@@ -0,0 +1,196 @@
+/**
+ * Tenant Administration Tests
+ *
+ * Tenants go live only with a complete onboarding checklist, a live tenant
+ * can't undo a completed checklist item, and tenants that aren't live take
+ * no rides. Deactivated tenants refuse sign-in and their users are signed
+ * out.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tenantService } from '../../src/services/tenant.service.js';
+import { pricingService } from '../../src/services/pricing.service.js';
+import { authService } from '../../src/services/auth.service.js';
+import { dispatchService, type RideRequest } from '../../src/services/dispatch.service.js';
+import { isValidBusinessId, isValidVatNumber } from '../../src/utils/business-id.js';
+import { db } from '../../src/db/index.js';
+
+const pricingConfig = pricingService.parseConfig({
+  tariffs: [{ code: 'standard', baseFare: 5.9, perKmRate: 1.6, perMinuteRate: 0.8 }],
+  minimumFare: 8,
+  bookingFee: 1,
+  surgePricingEnabled: false,
+  vatRate: 0.135,
+});
+
+// A tenant with every onboarding item complete
+const onboardedTenant = {
+  id: 'tenant-1',
+  slug: 'helsinki-taxi',
+  name: 'Helsinki Taxi',
+  legalName: 'Helsinki Taxi Oy',
+  businessId: '1234567-1',
+  vatNumber: 'FI12345671',
+  traficomLicenseNumber: 'TAXI-12345',
+  pricingConfig,
+  paymentProvider: null as string | null,
+  stripeAccountId: 'acct_1' as string | null,
+  stripeOnboardingComplete: true,
+  isActive: true,
+  isLive: false,
+};
+
+function missingItems(tenant: Partial<typeof onboardedTenant>): Record<string, string[]> {
+  const checklist = tenantService.getOnboardingChecklist({ ...onboardedTenant, ...tenant } as never);
+  return Object.fromEntries(checklist.items.filter((item) => !item.complete).map((item) => [item.key, item.missing]));
+}
+
+describe('Finnish business identifiers', () => {
+  it('should check the business ID format and check digit', () => {
+    expect(isValidBusinessId('1234567-1')).toBe(true);
+    expect(isValidBusinessId('1234567-2')).toBe(false);
+    expect(isValidBusinessId('12345671')).toBe(false);
+  });
+
+  it('should match the VAT number to the business ID', () => {
+    expect(isValidVatNumber('FI12345671', '1234567-1')).toBe(true);
+    expect(isValidVatNumber('FI23456780', '1234567-1')).toBe(false);
+    expect(isValidVatNumber('12345671', '1234567-1')).toBe(false);
+  });
+});
+
+describe('Onboarding checklist', () => {
+  it('should be complete for a fully onboarded tenant', () => {
+    expect(tenantService.getOnboardingChecklist(onboardedTenant as never).complete).toBe(true);
+  });
+
+  it('should list the missing fields of each incomplete item', () => {
+    expect(missingItems({
+      legalName: null as never,
+      businessId: '1234567-2',
+      traficomLicenseNumber: null as never,
+      pricingConfig: { tariffs: [] } as never,
+      stripeAccountId: null,
+    })).toEqual({
+      legal_details: ['legalName', 'businessId', 'vatNumber'],
+      traficom_license: ['traficomLicenseNumber'],
+      pricing: ['pricingConfig'],
+      payments: ['stripeAccountId'],
+    });
+  });
+
+  it('should need a Stripe account to finish onboarding, but not other providers\' accounts', () => {
+    expect(missingItems({ stripeOnboardingComplete: false })).toEqual({ payments: ['stripeOnboardingComplete'] });
+    expect(missingItems({ paymentProvider: 'fake', stripeOnboardingComplete: false })).toEqual({});
+    expect(missingItems({ paymentProvider: 'paytrail' })).toEqual({ payments: ['paymentProvider'] });
+  });
+});
+
+describe('Tenant lifecycle', () => {
+  let updates: Record<string, unknown>[];
+
+  beforeEach(() => {
+    updates = [];
+
+    vi.spyOn(db.query.tenants, 'findFirst').mockResolvedValue({ ...onboardedTenant } as never);
+    vi.spyOn(db, 'update').mockImplementation((() => ({
+      set: (values: Record<string, unknown>) => {
+        updates.push(values);
+        const returning = async () => [{ ...onboardedTenant, ...values }];
+        return { where: () => Object.assign(Promise.resolve(), { returning }) };
+      },
+    })) as never);
+    vi.spyOn(authService, 'revokeTenantSessions').mockResolvedValue(3);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should take a tenant with a complete checklist live', async () => {
+    const tenant = await tenantService.goLive('tenant-1');
+
+    expect(tenant).toMatchObject({ isLive: true, onboarding: { complete: true } });
+    expect(updates).toMatchObject([{ isLive: true, liveAt: expect.any(Date) }]);
+  });
+
+  it('should refuse to take a tenant live before onboarding is complete', async () => {
+    vi.mocked(db.query.tenants.findFirst).mockResolvedValue({ ...onboardedTenant, traficomLicenseNumber: null } as never);
+
+    await expect(tenantService.goLive('tenant-1')).rejects.toMatchObject({
+      code: 'ONBOARDING_INCOMPLETE',
+      message: 'Onboarding incomplete, missing: traficomLicenseNumber',
+    });
+    expect(updates).toEqual([]);
+  });
+
+  it('should refuse tenants already live or deactivated', async () => {
+    vi.mocked(db.query.tenants.findFirst).mockResolvedValue({ ...onboardedTenant, isLive: true } as never);
+    await expect(tenantService.goLive('tenant-1')).rejects.toMatchObject({ code: 'TENANT_ALREADY_LIVE' });
+
+    vi.mocked(db.query.tenants.findFirst).mockResolvedValue({ ...onboardedTenant, isActive: false } as never);
+    await expect(tenantService.goLive('tenant-1')).rejects.toMatchObject({ code: 'TENANT_INACTIVE' });
+  });
+
+  it('should refuse changes that undo a live tenant\'s completed checklist item', async () => {
+    vi.mocked(db.query.tenants.findFirst).mockResolvedValue({ ...onboardedTenant, isLive: true } as never);
+
+    await expect(tenantService.updateTenant('tenant-1', { traficomLicenseNumber: null }))
+      .rejects.toMatchObject({ code: 'ONBOARDING_INCOMPLETE' });
+    expect(updates).toEqual([]);
+  });
+
+  it('should let a live tenant with items never completed change other settings', async () => {
+    vi.mocked(db.query.tenants.findFirst).mockResolvedValue({ ...onboardedTenant, isLive: true, legalName: null } as never);
+
+    await tenantService.updateTenant('tenant-1', { name: 'Helsingin Taksi' });
+
+    expect(updates).toMatchObject([{ name: 'Helsingin Taksi' }]);
+  });
+
+  it('should refuse a VAT number that doesn\'t match the business ID', async () => {
+    await expect(tenantService.updateTenant('tenant-1', { vatNumber: 'FI23456780' }))
+      .rejects.toMatchObject({ code: 'INVALID_VAT_NUMBER' });
+  });
+
+  it('should sign out every user of a deactivated tenant', async () => {
+    const tenant = await tenantService.deactivateTenant('tenant-1');
+
+    expect(tenant.isActive).toBe(false);
+    expect(authService.revokeTenantSessions).toHaveBeenCalledWith('tenant-1', 'tenant_deactivated');
+  });
+});
+
+describe('Tenants that are not live', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should take no rides for tenants in onboarding or deactivated', async () => {
+    const findTenant = vi.spyOn(db.query.tenants, 'findFirst').mockResolvedValue({ ...onboardedTenant } as never);
+    const request: RideRequest = {
+      tenantId: 'tenant-1',
+      riderId: 'rider-1',
+      pickupLatitude: 60.1699,
+      pickupLongitude: 24.9384,
+      pickupAddress: 'Rautatientori, Helsinki',
+      dropoffLatitude: 60.2055,
+      dropoffLongitude: 24.6559,
+      dropoffAddress: 'Tapiola, Espoo',
+    };
+
+    await expect(dispatchService.createRideRequest(request)).rejects.toMatchObject({ code: 'TENANT_NOT_LIVE' });
+
+    findTenant.mockResolvedValue({ ...onboardedTenant, isLive: true, isActive: false } as never);
+    await expect(dispatchService.createRideRequest(request)).rejects.toMatchObject({ code: 'TENANT_NOT_LIVE' });
+  });
+
+  it('should refuse sign-in to a deactivated tenant', async () => {
+    vi.spyOn(db.query.tenants, 'findFirst').mockResolvedValue({ ...onboardedTenant, isActive: false } as never);
+    const findUser = vi.spyOn(db.query.users, 'findFirst');
+
+    await expect(authService.login({ tenantId: 'tenant-1', email: 'rider@example.com', password: 'secret-password' }))
+      .rejects.toMatchObject({ code: 'INVALID_TENANT' });
+    expect(findUser).not.toHaveBeenCalled();
+  });
+});
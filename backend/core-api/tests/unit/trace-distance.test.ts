@@ -0,0 +1,133 @@
+/**
+ * Trace Distance Tests
+ *
+ * The distance driven along a GPS trace, with inaccurate fixes, outliers
+ * and standstill jitter left out and gaps bridged, and when a ride's trace
+ * covers enough of the trip to be charged on.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { measureTraceDistance, type TraceFix } from '../../src/utils/trace-distance.js';
+import { locationHistoryService } from '../../src/services/location-history.service.js';
+
+const START = { latitude: 60.1699, longitude: 24.9384 };
+const METERS_PER_DEGREE = 6371000 * Math.PI / 180;
+const STARTED_AT = new Date('2026-10-19T09:00:00Z');
+
+// A fix some meters due north of the start, some seconds into the trace
+function fixAt(metersNorth: number, seconds: number, accuracy: number | null = 5): TraceFix {
+  return {
+    latitude: START.latitude + metersNorth / METERS_PER_DEGREE,
+    longitude: START.longitude,
+    accuracy,
+    recordedAt: new Date(STARTED_AT.getTime() + seconds * 1000),
+  };
+}
+
+// Driving north at 20 m/s with a fix every 5 seconds
+function drive(meters: number, fromMeters = 0, fromSeconds = 0): TraceFix[] {
+  const fixes: TraceFix[] = [];
+
+  for (let driven = 0; driven <= meters; driven += 100) {
+    fixes.push(fixAt(fromMeters + driven, fromSeconds + driven / 20));
+  }
+
+  return fixes;
+}
+
+describe('Trace distance', () => {
+  it('should add up the distance between fixes', () => {
+    const distance = measureTraceDistance(drive(600));
+
+    expect(distance).toEqual({
+      distanceMeters: 600,
+      interpolatedMeters: 0,
+      usedFixes: 7,
+      discardedFixes: 0,
+      firstFixAt: STARTED_AT,
+      lastFixAt: new Date(STARTED_AT.getTime() + 30 * 1000),
+    });
+  });
+
+  it('should measure nothing on an empty or single-fix trace', () => {
+    expect(measureTraceDistance([])).toMatchObject({ distanceMeters: 0, usedFixes: 0, firstFixAt: null });
+    expect(measureTraceDistance([fixAt(0, 0)])).toMatchObject({ distanceMeters: 0, usedFixes: 1 });
+  });
+
+  it('should drop inaccurate fixes and fixes out of time order', () => {
+    const fixes = drive(300);
+    fixes.splice(2, 0, fixAt(400, 7, 80)); // Accuracy beyond 50 m
+    fixes.push(fixAt(350, 10)); // Older than the last fix
+
+    expect(measureTraceDistance(fixes)).toMatchObject({ distanceMeters: 300, usedFixes: 4, discardedFixes: 2 });
+  });
+
+  it('should keep fixes without a reported accuracy', () => {
+    const fixes = drive(200).map((fix) => ({ ...fix, accuracy: null }));
+
+    expect(measureTraceDistance(fixes).distanceMeters).toBe(200);
+  });
+
+  it('should ignore jitter while standing, without taking it for a gap', () => {
+    const waiting = Array.from({ length: 12 }, (_, i) => fixAt(100 + (i % 2 === 0 ? 2 : -2), 5 + (i + 1) * 5));
+    const fixes = [...drive(100), ...waiting, ...drive(100, 100, 70)];
+
+    expect(measureTraceDistance(fixes)).toMatchObject({ distanceMeters: 200, interpolatedMeters: 0 });
+  });
+
+  it('should drop a fix that would need an implausible speed', () => {
+    const fixes = drive(300);
+    fixes.splice(2, 0, fixAt(2100, 7)); // 2 km in 2 seconds
+
+    expect(measureTraceDistance(fixes)).toMatchObject({ distanceMeters: 300, discardedFixes: 1 });
+  });
+
+  it('should move on from a first fix that was itself the outlier', () => {
+    // Every real fix is too far from the first one; the third in a row becomes the anchor
+    const fixes = [fixAt(5000, 0), ...drive(500, 0, 5)];
+
+    expect(measureTraceDistance(fixes)).toMatchObject({ distanceMeters: 300, discardedFixes: 2 });
+  });
+
+  it('should stretch the straight line across a gap by the detour factor', () => {
+    const fixes = [...drive(100), fixAt(1100, 65), fixAt(1200, 70)];
+
+    expect(measureTraceDistance(fixes)).toMatchObject({ distanceMeters: 1500, interpolatedMeters: 1300 });
+  });
+});
+
+describe('Ride trip measurement', () => {
+  const completedAt = new Date(STARTED_AT.getTime() + 50 * 1000);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function recordedTrace(fixes: TraceFix[]) {
+    vi.spyOn(locationHistoryService, 'getRideTrace').mockResolvedValue(
+      fixes.map((fix) => ({ ...fix, heading: null, speed: null }))
+    );
+  }
+
+  it('should take the distance from the trace and the duration from the ride', async () => {
+    // Points from before pickup are left out
+    recordedTrace([fixAt(-500, -25), ...drive(900, 0, 0)]);
+
+    await expect(locationHistoryService.measureRideTrip('ride-1', 'tenant-1', STARTED_AT, completedAt))
+      .resolves.toEqual({ distanceMeters: 900, durationSeconds: 50, interpolatedMeters: 0 });
+  });
+
+  it('should not measure a trace covering too little of the trip', async () => {
+    recordedTrace(drive(600));
+
+    await expect(locationHistoryService.measureRideTrip('ride-1', 'tenant-1', STARTED_AT, completedAt))
+      .resolves.toBeNull();
+  });
+
+  it('should not measure a trip that has no duration', async () => {
+    recordedTrace(drive(600));
+
+    await expect(locationHistoryService.measureRideTrip('ride-1', 'tenant-1', STARTED_AT, STARTED_AT))
+      .resolves.toBeNull();
+  });
+});
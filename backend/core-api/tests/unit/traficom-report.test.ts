@@ -0,0 +1,166 @@
+/**
+ * Traficom Report Tests
+ *
+ * Verified, unreported meter trips are aggregated per vehicle, submitted
+ * through the transport and stamped with the report; a failed submission
+ * is recorded and leaves its trips unreported.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { traficomReportService } from '../../src/services/traficom-report.service.js';
+import {
+  fileTraficomTransport,
+  FileTraficomTransport,
+  TraficomSubmission,
+} from '../../src/services/traficom-transports/index.js';
+import { db } from '../../src/db/index.js';
+
+const tenant = {
+  id: 'tenant-1',
+  name: 'Helsinki Taxi',
+  businessId: '1234567-8',
+  traficomLicenseNumber: 'TAXI-12345',
+};
+
+const vehicleA = { id: 'vehicle-a', registrationNumber: 'ABC-123', taxiLicensePlate: 'ABC-123', traficomVehicleId: 'TV-1' };
+const vehicleB = { id: 'vehicle-b', registrationNumber: 'XYZ-789', taxiLicensePlate: null, traficomVehicleId: null };
+
+function reading(id: string, serial: string, distanceMeters: number, totalFare: string, vatAmount: string) {
+  return {
+    reading: {
+      id,
+      taximeterSerialNumber: serial,
+      receiptNumber: `R-${id}`,
+      startTime: new Date('2026-10-19T09:00:00Z'),
+      endTime: new Date('2026-10-19T09:20:00Z'),
+      distanceMeters,
+      durationSeconds: 1200,
+      totalFare,
+      vatAmount,
+      tariffCode: 'standard',
+    },
+  };
+}
+
+const period = { tenantId: 'tenant-1', from: new Date('2026-10-01T00:00:00Z'), to: new Date('2026-11-01T00:00:00Z') };
+
+describe('Traficom reports', () => {
+  let rows: unknown[];
+  let reports: Record<string, unknown>[];
+  let stamped: Record<string, unknown>[];
+
+  // Transaction selecting the unreported readings and recording the report
+  const tx = {
+    select: () => ({
+      from: () => ({
+        innerJoin: () => ({
+          where: () => ({
+            orderBy: () => ({
+              for: async () => rows,
+            }),
+          }),
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: (values: Record<string, unknown>) => ({
+        returning: async () => {
+          reports.push(values);
+          return [values];
+        },
+      }),
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => ({
+        where: async () => {
+          stamped.push(values);
+        },
+      }),
+    }),
+  };
+
+  beforeEach(() => {
+    rows = [
+      { ...reading('1', 'MID-A', 12000, '24.50', '2.91'), vehicle: vehicleA },
+      { ...reading('2', 'MID-A', 3500, '11.20', '1.33'), vehicle: vehicleA },
+      { ...reading('3', 'MID-B', 8000, '18.00', '2.14'), vehicle: vehicleB },
+    ];
+    reports = [];
+    stamped = [];
+
+    vi.spyOn(db.query.tenants, 'findFirst').mockResolvedValue(tenant as never);
+    vi.spyOn(db, 'transaction').mockImplementation(async (fn) => fn(tx as never));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should aggregate trips per vehicle and stamp them with the submitted report', async () => {
+    const submit = vi.spyOn(fileTraficomTransport, 'submit').mockResolvedValue({ externalReportId: 'TRAFICOM-1' });
+
+    const report = await traficomReportService.createReport(period);
+
+    const submission = submit.mock.calls[0][0];
+    expect(submission.operator).toEqual({ licenseNumber: 'TAXI-12345', businessId: '1234567-8', name: 'Helsinki Taxi' });
+    expect(submission.period).toEqual({ start: '2026-10-01', end: '2026-11-01' });
+    expect(submission.vehicles.map((vehicle) => [vehicle.registrationNumber, vehicle.tripCount, vehicle.totalDistanceKm, vehicle.totalFare]))
+      .toEqual([['ABC-123', 2, 15.5, 35.7], ['XYZ-789', 1, 8, 18]]);
+    expect(submission.totals).toEqual({ vehicleCount: 2, tripCount: 3, totalDistanceKm: 23.5, totalFare: 53.7, totalVat: 6.38 });
+
+    expect(report).toMatchObject({ status: 'submitted', externalReportId: 'TRAFICOM-1', tripCount: 3, transport: 'file' });
+    expect(stamped).toEqual([{ traficomReportedAt: report.submittedAt, traficomReportId: submission.reportId }]);
+  });
+
+  it('should record a failed submission and leave its trips unreported', async () => {
+    vi.spyOn(fileTraficomTransport, 'submit').mockRejectedValue(new Error('Service unavailable'));
+
+    await expect(traficomReportService.createReport(period)).rejects.toMatchObject({ code: 'TRAFICOM_SUBMISSION_FAILED' });
+
+    expect(reports).toMatchObject([{ status: 'failed', error: 'Service unavailable', tripCount: 3 }]);
+    expect(stamped).toEqual([]);
+  });
+
+  it('should refuse to report without trips, a licence number or a valid period', async () => {
+    rows = [];
+    await expect(traficomReportService.createReport(period)).rejects.toMatchObject({ code: 'NO_TRIPS_TO_REPORT' });
+
+    await expect(traficomReportService.createReport({ ...period, to: period.from }))
+      .rejects.toMatchObject({ code: 'INVALID_PERIOD' });
+
+    vi.mocked(db.query.tenants.findFirst).mockResolvedValue({ ...tenant, traficomLicenseNumber: null } as never);
+    await expect(traficomReportService.createReport(period)).rejects.toMatchObject({ code: 'TRAFICOM_LICENSE_MISSING' });
+  });
+});
+
+describe('Traficom file transport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'traficom-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the submission as JSON named by licence, period and report', async () => {
+    const submission = {
+      schemaVersion: '1.0',
+      reportId: 'report-1',
+      operator: { licenseNumber: 'TAXI-12345', businessId: null, name: 'Helsinki Taxi' },
+      period: { start: '2026-10-01', end: '2026-11-01' },
+      vehicles: [],
+      totals: { vehicleCount: 0, tripCount: 0, totalDistanceKm: 0, totalFare: 0, totalVat: 0 },
+    } satisfies TraficomSubmission;
+
+    const result = await new FileTraficomTransport(directory).submit(submission);
+
+    const fileName = 'TAXI-12345_2026-10-01_report-1.json';
+    expect(result).toEqual({ externalReportId: `FILE-${fileName}` });
+    expect(JSON.parse(await readFile(join(directory, fileName), 'utf8'))).toEqual(submission);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Vero Report Tests
+ *
+ * Only validation errors count as Vero rejecting a report; other errors are
+ * retried, and reports Vero answers pending are polled until it decides.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AxiosError } from 'axios';
+import { VeroService, VeroError, veroService, IncomeType, IncomeReport } from '../../src/services/vero.service.js';
+import { veroReportService } from '../../src/services/vero-report.service.js';
+import { db } from '../../src/db/index.js';
+
+const report: IncomeReport = {
+  transactionId: 'payment-1',
+  tenantId: 'tenant-1',
+  tenantBusinessId: '1234567-8',
+  driverId: 'driver-1',
+  driverBusinessId: '',
+  driverTaxNumber: '',
+  timestamp: new Date('2026-10-19T09:00:00Z'),
+  incomeType: IncomeType.TAXI_FARE,
+  grossAmount: 30,
+  netAmount: 26.43,
+  vatAmount: 3.57,
+  vatRate: 0.135,
+  currency: 'EUR',
+  paymentMethod: 'card',
+};
+
+describe('Vero income reports', () => {
+  // A configured service whose API answers every report with the given HTTP status
+  function serviceAnswering(status: number): VeroService {
+    const service = new VeroService();
+    const error = new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+      status,
+      data: { message: 'Missing payee tax number' },
+    } as never);
+
+    Object.assign(service, {
+      isConfigured: true,
+      client: { post: vi.fn().mockRejectedValue(error) },
+    });
+
+    return service;
+  }
+
+  it('should return a rejection when Vero refuses the report as invalid', async () => {
+    for (const status of [400, 422]) {
+      const response = await serviceAnswering(status).reportIncome(report);
+
+      expect(response).toMatchObject({ status: 'rejected', message: 'Missing payee tax number' });
+    }
+  });
+
+  it('should throw for auth, throttling, timeout and server errors so the report is retried', async () => {
+    for (const status of [401, 403, 408, 429, 503]) {
+      await expect(serviceAnswering(status).reportIncome(report)).rejects.toBeInstanceOf(VeroError);
+    }
+  });
+});
+
+describe('Vero report worker', () => {
+  let claimed: Record<string, unknown>[];
+  let updates: { table: unknown; values: Record<string, unknown> }[];
+
+  const update = (table: unknown) => ({
+    set: (values: Record<string, unknown>) => ({
+      where: async () => {
+        updates.push({ table, values });
+      },
+    }),
+  });
+
+  // Transaction claiming the due reports, then recording what happened to them
+  const tx = {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          orderBy: () => ({
+            limit: () => ({
+              for: async () => claimed,
+            }),
+          }),
+        }),
+      }),
+    }),
+    update,
+  };
+
+  function reportUpdates(): Record<string, unknown>[] {
+    // The claim itself is the first update
+    return updates.slice(1).filter((entry) => 'nextAttemptAt' in entry.values).map((entry) => entry.values);
+  }
+
+  const pendingRow = {
+    id: 'report-1',
+    tenantId: 'tenant-1',
+    paymentId: 'payment-1',
+    driverId: 'driver-1',
+    report,
+    status: 'pending',
+    attempts: 1,
+    veroReportId: 'VERO-1',
+    submittedAt: new Date('2026-10-19T09:00:05Z'),
+  };
+
+  beforeEach(() => {
+    claimed = [];
+    updates = [];
+
+    vi.spyOn(veroService, 'isEnabled').mockReturnValue(true);
+    vi.spyOn(db, 'transaction').mockImplementation(async (fn) => fn(tx as never));
+    vi.spyOn(db, 'update').mockImplementation(update as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should schedule a report Vero answers pending to be polled', async () => {
+    claimed = [{ ...pendingRow, status: 'queued', attempts: 0, veroReportId: null, submittedAt: null }];
+    vi.spyOn(veroService, 'reportIncome').mockResolvedValue({
+      reportId: 'VERO-1',
+      status: 'pending',
+      timestamp: new Date().toISOString(),
+    });
+
+    await veroReportService.processQueue();
+
+    const [stored] = reportUpdates();
+    expect(stored).toMatchObject({ status: 'pending', attempts: 1, veroReportId: 'VERO-1' });
+    expect((stored.nextAttemptAt as Date).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should poll a pending report instead of submitting it again, and store the verdict', async () => {
+    claimed = [pendingRow];
+    const submit = vi.spyOn(veroService, 'reportIncome');
+    const poll = vi.spyOn(veroService, 'getReportStatus').mockResolvedValue({
+      reportId: 'VERO-1',
+      status: 'accepted',
+      timestamp: new Date().toISOString(),
+    });
+
+    await veroReportService.processQueue();
+
+    expect(submit).not.toHaveBeenCalled();
+    expect(poll).toHaveBeenCalledWith('VERO-1');
+    expect(updates.map((entry) => entry.values)).toContainEqual(expect.objectContaining({
+      veroReportStatus: 'accepted',
+      veroReportedAt: pendingRow.submittedAt,
+    }));
+  });
+
+  it('should keep a pending report pending when Vero cannot be reached', async () => {
+    claimed = [pendingRow];
+    vi.spyOn(veroService, 'getReportStatus').mockRejectedValue(new VeroError('timeout', 'VERO_UNAVAILABLE'));
+
+    await veroReportService.processQueue();
+
+    const [stored] = reportUpdates();
+    expect(stored).toMatchObject({ lastError: 'timeout' });
+    expect(stored).not.toHaveProperty('status');
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // Keep Vite from picking up the web app's PostCSS setup
+  css: { postcss: {} },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    // Integration tests share one database
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});
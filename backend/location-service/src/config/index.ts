@@ -32,8 +32,17 @@ const configSchema = z.object({
     path: z.string().default('/location'),
     pingInterval: z.coerce.number().default(30000),
     pingTimeout: z.coerce.number().default(5000),
+    authTimeout: z.coerce.number().default(10000), // To authenticate after connecting
+    tokenExpiryWarning: z.coerce.number().default(60000), // Before the access token expires
   }),
 
+  // Authentication (core-api access tokens)
+  auth: z.object({
+    jwtSecret: z.string().min(1).optional(), // Shared with core-api (HS256)
+    jwksUrl: z.string().url().optional(), // Or public keys for asymmetric tokens
+    jwksCacheTtlMs: z.coerce.number().default(600000),
+  }).refine((auth) => auth.jwtSecret || auth.jwksUrl, 'JWT_SECRET or JWKS_URL is required'),
+
   // Location
   location: z.object({
     updateIntervalMs: z.coerce.number().default(5000),
@@ -82,6 +91,15 @@ const rawConfig = {
     path: process.env.WS_PATH,
     pingInterval: process.env.WS_PING_INTERVAL,
     pingTimeout: process.env.WS_PING_TIMEOUT,
+    authTimeout: process.env.WS_AUTH_TIMEOUT,
+    tokenExpiryWarning: process.env.WS_TOKEN_EXPIRY_WARNING,
+  },
+  auth: {
+    // Same development fallback as core-api; production must set it
+    jwtSecret: process.env.JWT_SECRET ||
+      (process.env.NODE_ENV === 'production' || process.env.JWKS_URL ? undefined : 'dev-secret-change-in-production'),
+    jwksUrl: process.env.JWKS_URL || undefined,
+    jwksCacheTtlMs: process.env.JWKS_CACHE_TTL_MS,
   },
   location: {
     updateIntervalMs: process.env.LOCATION_UPDATE_INTERVAL_MS,
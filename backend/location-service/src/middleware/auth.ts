@@ -0,0 +1,105 @@
+/**
+ * REST Authentication
+ *
+ * Bearer token checks for the REST API, as on WebSocket connections:
+ * - Users present their core-api access token; identity and tenant come
+ *   from its claims only
+ * - core-api calls with a service token and may act for any tenant
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  authService,
+  AuthError,
+  type AccessTokenClaims,
+  type ServiceTokenClaims,
+} from '../services/auth.service.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { UserType } from '../models/location.js';
+
+// Extend Express Request type
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AccessTokenClaims | ServiceTokenClaims;
+    }
+  }
+}
+
+export type Caller = UserType | 'service';
+
+/**
+ * Whether a request was made by a service rather than a user
+ */
+export function isService(auth: AccessTokenClaims | ServiceTokenClaims): auth is ServiceTokenClaims {
+  return 'service' in auth;
+}
+
+/**
+ * Verify the bearer token of a request
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    res.status(401).json({
+      success: false,
+      error: 'Missing or invalid authorization header',
+      code: 'MISSING_TOKEN',
+    });
+    return;
+  }
+
+  authService.verifyRequestToken(authHeader.substring(7)).then(
+    (claims) => {
+      req.auth = claims;
+      next();
+    },
+    (error) => {
+      if (!(error instanceof AuthError)) {
+        logger.error({ error }, 'Authentication error');
+      }
+
+      res.status(401).json({
+        success: false,
+        error: error instanceof AuthError ? error.message : 'Invalid token',
+        code: error instanceof AuthError ? error.code : 'INVALID_TOKEN',
+      });
+    }
+  );
+}
+
+/**
+ * Only let the given kinds of caller through
+ */
+export function requireCaller(...callers: Caller[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const auth = req.auth;
+    const caller = auth && (isService(auth) ? 'service' : auth.userType);
+
+    if (!caller || !callers.includes(caller)) {
+      res.status(403).json({
+        success: false,
+        error: 'Not allowed',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Whether the caller may act on a tenant's data: services on any tenant,
+ * users on their own
+ */
+export function canAccessTenant(req: Request, tenantId: string): boolean {
+  const auth = req.auth;
+
+  if (!auth) return false;
+  if (isService(auth)) return true;
+
+  return !config.tenant.enableIsolation || auth.tenantId === tenantId;
+}
@@ -57,6 +57,66 @@ export const NearbyDriversRequestSchema = z.object({
 
 export type NearbyDriversRequest = z.infer<typeof NearbyDriversRequestSchema>;
 
+/**
+ * Access token, sent as the first message when the handshake had no
+ * Authorization header, or later to refresh an expiring token
+ */
+export const AuthenticateSchema = z.object({
+  token: z.string().min(1),
+});
+
+export type Authenticate = z.infer<typeof AuthenticateSchema>;
+
+/**
+ * Driver response to a ride offer
+ */
+export const RideOfferResponseSchema = z.object({
+  rideId: z.string().min(1),
+  accepted: z.boolean(),
+  reason: z.string().max(500).optional(),
+});
+
+export type RideOfferResponse = z.infer<typeof RideOfferResponseSchema>;
+
+/**
+ * Ride offer message published by core-api for delivery to a driver
+ */
+export interface DriverOfferMessage {
+  type: MessageType.RIDE_OFFER | MessageType.RIDE_OFFER_CANCELLED;
+  tenantId: string;
+  driverId: string;
+  payload: unknown;
+}
+
+/**
+ * Driver location subscription request
+ */
+export const SubscribeDriverSchema = z.object({
+  driverId: z.string().min(1),
+});
+
+export type SubscribeDriver = z.infer<typeof SubscribeDriverSchema>;
+
+/**
+ * Ride status change published by core-api; a rider may track the driver
+ * of a ride from driver_assigned until it completes or is cancelled
+ */
+export interface RideTrackingMessage {
+  tenantId: string;
+  rideId: string;
+  riderId: string;
+  driverId: string | null;
+  status: string;
+}
+
+/**
+ * Sessions core-api has ended, published on the session-revocations channel
+ */
+export interface SessionRevocationMessage {
+  sessionIds: string[];
+  userIds: string[]; // Suspended users: all their connections end
+}
+
 /**
  * Vehicle types for Finnish taxi market
  */
@@ -73,18 +133,37 @@ export enum VehicleType {
  */
 export enum MessageType {
   // Client -> Server
+  AUTHENTICATE = 'authenticate',
+  REFRESH_TOKEN = 'refresh_token',
   LOCATION_UPDATE = 'location_update',
   NEARBY_DRIVERS = 'nearby_drivers',
   SUBSCRIBE_DRIVER = 'subscribe_driver',
   UNSUBSCRIBE_DRIVER = 'unsubscribe_driver',
+  RIDE_OFFER_RESPONSE = 'ride_offer_response',
   PING = 'ping',
   
   // Server -> Client
   NEARBY_DRIVERS_RESPONSE = 'nearby_drivers',
   DRIVER_LOCATION = 'driver_location',
+  RIDE_OFFER = 'ride_offer',
+  RIDE_OFFER_CANCELLED = 'ride_offer_cancelled',
+  SUBSCRIBED = 'subscribed',
+  SUBSCRIPTION_REVOKED = 'subscription_revoked',
   PONG = 'pong',
   ERROR = 'error',
   CONNECTED = 'connected',
+  TOKEN_EXPIRING = 'token_expiring',
+  TOKEN_REFRESHED = 'token_refreshed',
+}
+
+/**
+ * WebSocket close codes for authentication failures
+ */
+export enum WsCloseCode {
+  AUTHENTICATION_REQUIRED = 4001, // No token in time, or another message came first
+  INVALID_TOKEN = 4002,
+  TOKEN_EXPIRED = 4003, // Reconnect with a fresh token
+  SESSION_REVOKED = 4004, // Signed out or suspended; don't reconnect
 }
 
 /**
@@ -98,12 +177,19 @@ export interface WebSocketMessage<T = unknown> {
 }
 
 /**
- * WebSocket client info
+ * Core-api user types
+ */
+export type UserType = 'driver' | 'rider' | 'admin' | 'dispatcher';
+
+/**
+ * WebSocket client info, from the verified access token
  */
 export interface ClientInfo {
   userId: string;
-  userType: 'driver' | 'rider' | 'admin';
+  userType: UserType;
   tenantId: string;
+  sessionId?: string;
+  tokenExpiresAt: Date;
   connectedAt: Date;
   lastPing?: Date;
   subscriptions: Set<string>;
@@ -6,16 +6,29 @@
  * - Initial driver discovery before WebSocket connection
  * - Admin dashboard queries
  * - Service-to-service communication
+ *
+ * Every route needs a core-api access token, or core-api's service token
+ * (see middleware/auth). Availability is set by core-api only.
  */
 
 import { Router, Request, Response } from 'express';
 import { redisGeoService } from '../services/redis-geo.service.js';
 import { logger } from '../utils/logger.js';
 import { LocationUpdateSchema, NearbyDriversRequestSchema } from '../models/location.js';
-import { config } from '../config/index.js';
+import { authenticate, requireCaller, canAccessTenant, isService } from '../middleware/auth.js';
 
 export const locationRouter = Router();
 
+locationRouter.use(authenticate);
+
+function sendTenantMismatch(res: Response): void {
+  res.status(403).json({
+    success: false,
+    error: 'Tenant mismatch',
+    code: 'FORBIDDEN',
+  });
+}
+
 /**
  * Get nearby drivers
  * GET /api/v1/location/nearby?lat=60.1699&lon=24.9384&radius=5000&tenantId=helsinki_001
@@ -34,6 +47,11 @@ locationRouter.get('/nearby', async (req: Request, res: Response) => {
       limit: limit ? parseInt(limit as string) : undefined,
     });
 
+    if (!canAccessTenant(req, request.tenantId)) {
+      sendTenantMismatch(res);
+      return;
+    }
+
     // Find nearby drivers
     const drivers = await redisGeoService.findNearbyDrivers(
       request.tenantId,
@@ -43,10 +61,12 @@ locationRouter.get('/nearby', async (req: Request, res: Response) => {
       request.limit
     );
 
-    // Filter by vehicle type if specified
-    const filteredDrivers = request.vehicleType
-      ? drivers.filter((d) => d.vehicleType === request.vehicleType)
-      : drivers;
+    // Filter by availability and optionally by vehicle type
+    const filteredDrivers = drivers.filter((d) => {
+      if (!d.isAvailable) return false;
+      if (request.vehicleType && d.vehicleType !== request.vehicleType) return false;
+      return true;
+    });
 
     res.status(200).json({
       success: true,
@@ -70,7 +90,7 @@ locationRouter.get('/nearby', async (req: Request, res: Response) => {
  * Get specific driver location
  * GET /api/v1/location/driver/:driverId?tenantId=helsinki_001
  */
-locationRouter.get('/driver/:driverId', async (req: Request, res: Response) => {
+locationRouter.get('/driver/:driverId', requireCaller('service', 'admin', 'dispatcher', 'driver'), async (req: Request, res: Response) => {
   try {
     const { driverId } = req.params;
     const { tenantId } = req.query;
@@ -83,6 +103,22 @@ locationRouter.get('/driver/:driverId', async (req: Request, res: Response) => {
       return;
     }
 
+    if (!canAccessTenant(req, tenantId as string)) {
+      sendTenantMismatch(res);
+      return;
+    }
+
+    // Drivers may only look up themselves
+    const auth = req.auth!;
+    if (!isService(auth) && auth.userType === 'driver' && auth.userId !== driverId) {
+      res.status(403).json({
+        success: false,
+        error: 'Driver mismatch',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
     const location = await redisGeoService.getDriverLocation(
       tenantId as string,
       driverId
@@ -113,15 +149,34 @@ locationRouter.get('/driver/:driverId', async (req: Request, res: Response) => {
  * Update driver location (REST fallback)
  * POST /api/v1/location/update
  */
-locationRouter.post('/update', async (req: Request, res: Response) => {
+locationRouter.post('/update', requireCaller('driver'), async (req: Request, res: Response) => {
   try {
     const locationData = LocationUpdateSchema.parse(req.body);
 
-    await redisGeoService.updateDriverLocation({
+    if (!canAccessTenant(req, locationData.tenantId)) {
+      sendTenantMismatch(res);
+      return;
+    }
+
+    // Drivers only report their own position
+    const auth = req.auth!;
+    if (isService(auth) || locationData.driverId !== auth.userId) {
+      res.status(403).json({
+        success: false,
+        error: 'Driver mismatch',
+        code: 'FORBIDDEN',
+      });
+      return;
+    }
+
+    // Availability is left as core-api set it
+    const driverLocation = {
       ...locationData,
       timestamp: new Date(locationData.timestamp),
-      isAvailable: true,
-    });
+    };
+
+    await redisGeoService.updateDriverLocation(driverLocation);
+    await redisGeoService.publishDriverLocation(driverLocation);
 
     res.status(200).json({
       success: true,
@@ -137,10 +192,10 @@ locationRouter.post('/update', async (req: Request, res: Response) => {
 });
 
 /**
- * Set driver availability
+ * Set driver availability (core-api only)
  * PATCH /api/v1/location/driver/:driverId/availability
  */
-locationRouter.patch('/driver/:driverId/availability', async (req: Request, res: Response) => {
+locationRouter.patch('/driver/:driverId/availability', requireCaller('service'), async (req: Request, res: Response) => {
   try {
     const { driverId } = req.params;
     const { tenantId, isAvailable } = req.body;
@@ -172,7 +227,7 @@ locationRouter.patch('/driver/:driverId/availability', async (req: Request, res:
  * Remove driver from tracking
  * DELETE /api/v1/location/driver/:driverId?tenantId=helsinki_001
  */
-locationRouter.delete('/driver/:driverId', async (req: Request, res: Response) => {
+locationRouter.delete('/driver/:driverId', requireCaller('service', 'admin', 'dispatcher'), async (req: Request, res: Response) => {
   try {
     const { driverId } = req.params;
     const { tenantId } = req.query;
@@ -185,6 +240,11 @@ locationRouter.delete('/driver/:driverId', async (req: Request, res: Response) =
       return;
     }
 
+    if (!canAccessTenant(req, tenantId as string)) {
+      sendTenantMismatch(res);
+      return;
+    }
+
     await redisGeoService.removeDriver(tenantId as string, driverId);
 
     res.status(200).json({
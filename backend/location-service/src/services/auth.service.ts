@@ -0,0 +1,242 @@
+/**
+ * Auth Service
+ *
+ * Verifies core-api access tokens for WebSocket connections and REST
+ * requests, and the service tokens core-api signs for its own REST calls:
+ * - HS256 tokens with the secret shared with core-api (JWT_SECRET)
+ * - Asymmetric tokens (RS256, ES256) with keys from a JWKS endpoint,
+ *   cached and refetched when a token names an unknown key
+ *
+ * Identity and tenant come from the verified claims only. Access tokens of
+ * sessions core-api has revoked, or of users it has suspended, are refused
+ * even before they expire.
+ */
+
+import jwt, { JwtHeader, JwtPayload, Secret } from 'jsonwebtoken';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { redisGeoService } from './redis-geo.service.js';
+import type { UserType } from '../models/location.js';
+
+/**
+ * Verified access token claims
+ */
+export interface AccessTokenClaims {
+  userId: string;
+  tenantId: string;
+  userType: UserType;
+  sessionId?: string;
+  expiresAt: Date;
+}
+
+/**
+ * Verified service token claims
+ */
+export interface ServiceTokenClaims {
+  service: string;
+  expiresAt: Date;
+}
+
+// Claims core-api puts in access tokens
+const AccessTokenSchema = z.object({
+  type: z.literal('access'),
+  userId: z.string().min(1),
+  tenantId: z.string().min(1),
+  userType: z.enum(['rider', 'driver', 'admin', 'dispatcher']),
+  sessionId: z.string().optional(),
+  exp: z.number(),
+});
+
+// Claims core-api puts in service tokens
+const ServiceTokenSchema = z.object({
+  type: z.literal('service'),
+  service: z.string().min(1),
+  exp: z.number(),
+});
+
+const SYMMETRIC_ALGORITHMS: jwt.Algorithm[] = ['HS256'];
+const ASYMMETRIC_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+const JWKS_MIN_REFETCH_MS = 30000; // Unknown key ids don't trigger a fetch more often
+
+export class AuthService {
+  private jwks: Map<string, KeyObject> = new Map();
+  private jwksFetchedAt = 0;
+
+  /**
+   * Verify an access token and return its claims
+   */
+  async verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+    return this.toActiveAccessTokenClaims(await this.verifyPayload(token));
+  }
+
+  /**
+   * Verify the token of a REST request: a user's access token, or a
+   * service token
+   */
+  async verifyRequestToken(token: string): Promise<AccessTokenClaims | ServiceTokenClaims> {
+    const payload = await this.verifyPayload(token);
+
+    if (payload.type !== 'service') {
+      return this.toActiveAccessTokenClaims(payload);
+    }
+
+    const claims = ServiceTokenSchema.safeParse(payload);
+
+    if (!claims.success) {
+      throw new AuthError('Invalid token', 'INVALID_TOKEN');
+    }
+
+    return {
+      service: claims.data.service,
+      expiresAt: new Date(claims.data.exp * 1000),
+    };
+  }
+
+  /**
+   * Access token claims, unless core-api has since revoked the session or
+   * suspended the user
+   */
+  private async toActiveAccessTokenClaims(payload: JwtPayload): Promise<AccessTokenClaims> {
+    const claims = this.toAccessTokenClaims(payload);
+
+    if (await redisGeoService.isAccessRevoked(claims.userId, claims.sessionId)) {
+      throw new AuthError('Session revoked', 'SESSION_REVOKED');
+    }
+
+    return claims;
+  }
+
+  private toAccessTokenClaims(payload: JwtPayload): AccessTokenClaims {
+    const claims = AccessTokenSchema.safeParse(payload);
+
+    if (!claims.success) {
+      throw new AuthError('Invalid token', 'INVALID_TOKEN');
+    }
+
+    return {
+      userId: claims.data.userId,
+      tenantId: claims.data.tenantId,
+      userType: claims.data.userType,
+      sessionId: claims.data.sessionId,
+      expiresAt: new Date(claims.data.exp * 1000),
+    };
+  }
+
+  private async verifyPayload(token: string): Promise<JwtPayload> {
+    try {
+      return await this.verify(token);
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthError('Token expired', 'TOKEN_EXPIRED');
+      }
+      throw new AuthError('Invalid token', 'INVALID_TOKEN');
+    }
+  }
+
+  private verify(token: string): Promise<JwtPayload> {
+    const algorithms = [
+      ...(config.auth.jwtSecret ? SYMMETRIC_ALGORITHMS : []),
+      ...(config.auth.jwksUrl ? ASYMMETRIC_ALGORITHMS : []),
+    ];
+
+    return new Promise((resolve, reject) => {
+      jwt.verify(
+        token,
+        (header, callback) => {
+          this.getKey(header).then(
+            (key) => callback(null, key),
+            (error) => callback(error)
+          );
+        },
+        { algorithms },
+        (error, decoded) => {
+          if (error || !decoded || typeof decoded === 'string') {
+            reject(error ?? new Error('Unexpected token payload'));
+            return;
+          }
+          resolve(decoded);
+        }
+      );
+    });
+  }
+
+  /**
+   * The key a token must be signed with, by its algorithm: the shared
+   * secret for HMAC, never for public-key algorithms
+   */
+  private async getKey(header: JwtHeader): Promise<Secret> {
+    if (SYMMETRIC_ALGORITHMS.includes(header.alg as jwt.Algorithm)) {
+      if (!config.auth.jwtSecret) {
+        throw new Error('Shared secret tokens are not accepted');
+      }
+      return config.auth.jwtSecret;
+    }
+
+    if (!header.kid) {
+      throw new Error('Token has no key id');
+    }
+
+    const stale = Date.now() - this.jwksFetchedAt > config.auth.jwksCacheTtlMs;
+    const unknown = !this.jwks.has(header.kid) && Date.now() - this.jwksFetchedAt > JWKS_MIN_REFETCH_MS;
+
+    if (stale || unknown) {
+      await this.loadJwks();
+    }
+
+    const key = this.jwks.get(header.kid);
+
+    if (!key) {
+      throw new Error(`Unknown key id: ${header.kid}`);
+    }
+
+    return key;
+  }
+
+  private async loadJwks(): Promise<void> {
+    if (!config.auth.jwksUrl) {
+      throw new Error('JWKS_URL is not configured');
+    }
+
+    const response = await fetch(config.auth.jwksUrl);
+
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with status ${response.status}`);
+    }
+
+    const { keys } = await response.json() as { keys: Array<JsonWebKey & { kid?: string; use?: string }> };
+    const jwks = new Map<string, KeyObject>();
+
+    for (const jwk of keys) {
+      if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+
+      try {
+        jwks.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        logger.warn({ error, kid: jwk.kid }, 'Skipping unusable JWKS key');
+      }
+    }
+
+    this.jwks = jwks;
+    this.jwksFetchedAt = Date.now();
+
+    logger.debug({ keys: jwks.size }, 'JWKS loaded');
+  }
+}
+
+/**
+ * Custom error class for authentication errors
+ */
+export class AuthError extends Error {
+  code: 'TOKEN_EXPIRED' | 'INVALID_TOKEN' | 'SESSION_REVOKED';
+
+  constructor(message: string, code: 'TOKEN_EXPIRED' | 'INVALID_TOKEN' | 'SESSION_REVOKED') {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -5,17 +5,25 @@
  * - Storing driver locations with GEOADD
  * - Finding nearby drivers with GEORADIUS/GEOSEARCH
  * - Multi-tenant data isolation via key prefixes
+ * - Appending every position to the location-history stream, which
+ *   core-api persists as driver location history and ride traces
+ * - Keeping driver availability (set by core-api) apart from positions,
+ *   so location pings never change it
  * 
  * Redis GEO uses Geohashing internally for efficient proximity searches.
  */
 
-import { createClient, RedisClientType } from 'redis';
+import { createClient, GeoReplyWith, RedisClientType } from 'redis';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import type { DriverLocation, GeoMember } from '../models/location.js';
+import type { DriverLocation } from '../models/location.js';
+
+const LOCATION_HISTORY_STREAM = 'location-history';
+const LOCATION_HISTORY_MAX_LENGTH = 1_000_000; // Bounds the stream if core-api stops draining it
 
 export class RedisGeoService {
   private client: RedisClientType;
+  private subscriber: Promise<RedisClientType> | null = null;
   private isConnected: boolean = false;
   private readonly keyPrefix: string;
 
@@ -58,11 +66,84 @@ export class RedisGeoService {
    * Disconnect from Redis
    */
   async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      const subscriber = await this.subscriber;
+      this.subscriber = null;
+      await subscriber.quit();
+    }
+
     if (this.isConnected) {
       await this.client.quit();
     }
   }
 
+  /**
+   * Publish a message on a (prefixed) pub/sub channel
+   */
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(`${this.keyPrefix}${channel}`, message);
+  }
+
+  /**
+   * Subscribe to a (prefixed) pub/sub channel
+   *
+   * Uses a dedicated connection, since a subscribed client cannot issue
+   * regular commands.
+   */
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    const subscriber = await this.getSubscriber();
+
+    await subscriber.subscribe(`${this.keyPrefix}${channel}`, listener);
+    logger.debug({ channel }, 'Subscribed to Redis channel');
+  }
+
+  /**
+   * Unsubscribe from a (prefixed) pub/sub channel
+   */
+  async unsubscribe(channel: string): Promise<void> {
+    if (!this.subscriber) return;
+
+    const subscriber = await this.subscriber;
+
+    await subscriber.unsubscribe(`${this.keyPrefix}${channel}`);
+    logger.debug({ channel }, 'Unsubscribed from Redis channel');
+  }
+
+  /**
+   * Publish a driver's position on the driver's own channel, for every
+   * instance holding subscribers to it
+   */
+  async publishDriverLocation(location: DriverLocation): Promise<void> {
+    await this.publish(this.getDriverLocationChannel(location.tenantId, location.driverId), JSON.stringify(location));
+  }
+
+  /**
+   * Get the pub/sub channel carrying a driver's position updates
+   */
+  getDriverLocationChannel(tenantId: string, driverId: string): string {
+    return `driver-locations:${tenantId}:${driverId}`;
+  }
+
+  /**
+   * The connection used for SUBSCRIBE, created on first use (shared by
+   * concurrent callers)
+   */
+  private getSubscriber(): Promise<RedisClientType> {
+    if (!this.subscriber) {
+      const subscriber = this.client.duplicate();
+      subscriber.on('error', (err) => {
+        logger.error({ err }, 'Redis subscriber error');
+      });
+
+      this.subscriber = subscriber.connect().then(() => subscriber);
+      this.subscriber.catch(() => {
+        this.subscriber = null;
+      });
+    }
+
+    return this.subscriber;
+  }
+
   /**
    * Get the Redis key for driver locations (tenant-isolated)
    */
@@ -77,6 +158,35 @@ export class RedisGeoService {
     return `${this.keyPrefix}drivers:${tenantId}:meta:${driverId}`;
   }
 
+  /**
+   * Get the Redis key for driver availability (written by core-api).
+   * Drivers missing from the hash are not available.
+   */
+  private getDriverAvailabilityKey(tenantId: string): string {
+    return `${this.keyPrefix}drivers:${tenantId}:availability`;
+  }
+
+  /**
+   * Get the Redis key for a rider's trackable rides (written by core-api)
+   */
+  private getRideTrackingKey(tenantId: string, riderId: string): string {
+    return `${this.keyPrefix}rides:${tenantId}:tracking:${riderId}`;
+  }
+
+  /**
+   * Get the Redis key marking a revoked session (written by core-api)
+   */
+  private getRevokedSessionKey(sessionId: string): string {
+    return `${this.keyPrefix}auth:revoked-session:${sessionId}`;
+  }
+
+  /**
+   * Get the Redis key marking a suspended user (written by core-api)
+   */
+  private getSuspendedUserKey(userId: string): string {
+    return `${this.keyPrefix}auth:suspended-user:${userId}`;
+  }
+
   /**
    * Update driver location using GEOADD
    * 
@@ -99,21 +209,34 @@ export class RedisGeoService {
         member: location.driverId,
       });
 
-      // Store driver metadata with TTL
-      const metadata = {
+      // Store driver metadata with TTL (hash values are strings)
+      const metadata: Record<string, string> = {
         driverId: location.driverId,
-        heading: location.heading,
-        speed: location.speed,
-        accuracy: location.accuracy,
+        heading: String(location.heading),
+        speed: String(location.speed),
+        accuracy: String(location.accuracy),
         timestamp: location.timestamp.toISOString(),
         vehicleType: location.vehicleType || 'standard',
-        rating: location.rating || 0,
-        isAvailable: location.isAvailable ?? true,
+        rating: String(location.rating || 0),
       };
 
-      multi.hSet(metaKey, metadata as Record<string, string>);
+      multi.hSet(metaKey, metadata);
       multi.expire(metaKey, config.location.driverTtlSeconds);
 
+      // Keep the point for history; core-api drains the stream in batches
+      multi.xAdd(`${this.keyPrefix}${LOCATION_HISTORY_STREAM}`, '*', {
+        tenantId: location.tenantId,
+        driverId: location.driverId,
+        latitude: String(location.latitude),
+        longitude: String(location.longitude),
+        heading: String(location.heading),
+        speed: String(location.speed),
+        accuracy: String(location.accuracy),
+        timestamp: location.timestamp.toISOString(),
+      }, {
+        TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: LOCATION_HISTORY_MAX_LENGTH },
+      });
+
       await multi.exec();
 
       logger.debug(
@@ -147,7 +270,7 @@ export class RedisGeoService {
         key,
         { longitude, latitude },
         { radius: radiusMeters, unit: 'm' },
-        ['WITHDIST', 'WITHCOORD'],
+        [GeoReplyWith.DISTANCE, GeoReplyWith.COORDINATES],
         { SORT: 'ASC', COUNT: limit }
       );
 
@@ -155,10 +278,15 @@ export class RedisGeoService {
         return [];
       }
 
+      const availability = await this.client.hmGet(
+        this.getDriverAvailabilityKey(tenantId),
+        results.map((result) => result.member)
+      );
+
       // Enrich results with driver metadata
       const drivers: DriverLocation[] = [];
 
-      for (const result of results) {
+      for (const [index, result] of results.entries()) {
         const driverId = result.member;
         const metaKey = this.getDriverMetaKey(tenantId, driverId);
         const metadata = await this.client.hGetAll(metaKey);
@@ -166,17 +294,17 @@ export class RedisGeoService {
         if (metadata && Object.keys(metadata).length > 0) {
           drivers.push({
             driverId,
-            latitude: result.coordinates?.latitude || 0,
-            longitude: result.coordinates?.longitude || 0,
+            latitude: Number(result.coordinates?.latitude) || 0,
+            longitude: Number(result.coordinates?.longitude) || 0,
             heading: parseFloat(metadata.heading) || 0,
             speed: parseFloat(metadata.speed) || 0,
             accuracy: parseFloat(metadata.accuracy) || 0,
             timestamp: new Date(metadata.timestamp || Date.now()),
             tenantId,
-            distance: result.distance || 0,
+            distance: Number(result.distance) || 0,
             vehicleType: metadata.vehicleType as DriverLocation['vehicleType'],
             rating: parseFloat(metadata.rating) || 0,
-            isAvailable: metadata.isAvailable === 'true',
+            isAvailable: availability[index] === 'true',
             // ETA will be calculated separately with routing API
             eta: this.estimateETA(result.distance || 0),
           });
@@ -214,11 +342,12 @@ export class RedisGeoService {
       
       // Get metadata
       const metadata = await this.client.hGetAll(metaKey);
+      const isAvailable = await this.client.hGet(this.getDriverAvailabilityKey(tenantId), driverId);
 
       return {
         driverId,
-        latitude: position.latitude,
-        longitude: position.longitude,
+        latitude: Number(position.latitude),
+        longitude: Number(position.longitude),
         heading: parseFloat(metadata.heading) || 0,
         speed: parseFloat(metadata.speed) || 0,
         accuracy: parseFloat(metadata.accuracy) || 0,
@@ -226,7 +355,7 @@ export class RedisGeoService {
         tenantId,
         vehicleType: metadata.vehicleType as DriverLocation['vehicleType'],
         rating: parseFloat(metadata.rating) || 0,
-        isAvailable: metadata.isAvailable === 'true',
+        isAvailable: isAvailable === 'true',
       };
     } catch (err) {
       logger.error({ err, tenantId, driverId }, 'Failed to get driver location');
@@ -236,6 +365,9 @@ export class RedisGeoService {
 
   /**
    * Remove driver from location tracking
+   *
+   * Availability is left alone: it belongs to core-api, and a driver who
+   * reconnects after a dropped socket is still online there.
    */
   async removeDriver(tenantId: string, driverId: string): Promise<void> {
     const key = this.getDriversKey(tenantId);
@@ -256,22 +388,53 @@ export class RedisGeoService {
 
   /**
    * Set driver availability status
+   *
+   * Kept outside the expiring metadata hash, so it survives gaps in
+   * location updates and is only changed by an explicit call.
    */
   async setDriverAvailability(
     tenantId: string,
     driverId: string,
     isAvailable: boolean
   ): Promise<void> {
-    const metaKey = this.getDriverMetaKey(tenantId, driverId);
-
     try {
-      await this.client.hSet(metaKey, 'isAvailable', isAvailable.toString());
+      await this.client.hSet(this.getDriverAvailabilityKey(tenantId), driverId, isAvailable.toString());
     } catch (err) {
       logger.error({ err, tenantId, driverId, isAvailable }, 'Failed to set driver availability');
       throw err;
     }
   }
 
+  /**
+   * Get the drivers assigned to a rider's active rides
+   */
+  async getAssignedDrivers(tenantId: string, riderId: string): Promise<string[]> {
+    try {
+      return await this.client.hVals(this.getRideTrackingKey(tenantId, riderId));
+    } catch (err) {
+      logger.error({ err, tenantId, riderId }, 'Failed to get assigned drivers');
+      throw err;
+    }
+  }
+
+  /**
+   * Whether core-api has revoked a token's session or suspended its user
+   */
+  async isAccessRevoked(userId: string, sessionId?: string): Promise<boolean> {
+    const keys = [this.getSuspendedUserKey(userId)];
+
+    if (sessionId) {
+      keys.push(this.getRevokedSessionKey(sessionId));
+    }
+
+    try {
+      return await this.client.exists(keys) > 0;
+    } catch (err) {
+      logger.error({ err, userId, sessionId }, 'Failed to check access revocation');
+      throw err;
+    }
+  }
+
   /**
    * Calculate distance between two points using Redis GEODIST
    */
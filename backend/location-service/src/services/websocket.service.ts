@@ -4,22 +4,44 @@
  * Handles real-time bidirectional communication for:
  * - Driver location streaming
  * - Rider nearby driver queries
- * - Live driver tracking during rides
+ * - Live driver tracking during rides: riders may follow the driver of
+ *   their current ride, dispatchers any driver of their tenant
+ * - Ride offers to drivers and their accept/decline responses
+ * 
+ * Connections authenticate with a core-api access token, in the handshake's
+ * Authorization header or as the first message. Identity and tenant come
+ * from the token; clients refresh it in-band before it expires, or are
+ * closed with WsCloseCode.TOKEN_EXPIRED. Connections of sessions core-api
+ * revokes, or of users it suspends, are closed with
+ * WsCloseCode.SESSION_REVOKED.
  * 
  * Supports multi-tenant isolation and connection state management.
+ *
+ * Runs as several replicas. Positions are published on a Redis channel per
+ * driver; an instance subscribes to a driver's channel while it holds local
+ * subscribers to that driver and delivers only to them. Ride offers and
+ * ride tracking updates reach every instance, which acts on its own
+ * connections.
  */
 
 import { WebSocket, WebSocketServer, RawData } from 'ws';
 import { IncomingMessage } from 'http';
-import { URL } from 'url';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { redisGeoService } from './redis-geo.service.js';
+import { redisGeoService, RedisGeoService } from './redis-geo.service.js';
+import { authService, AuthError } from './auth.service.js';
 import {
+  AuthenticateSchema,
   LocationUpdateSchema,
   NearbyDriversRequestSchema,
+  RideOfferResponseSchema,
+  SubscribeDriverSchema,
   MessageType,
+  WsCloseCode,
+  type DriverOfferMessage,
+  type RideTrackingMessage,
+  type SessionRevocationMessage,
   type WebSocketMessage,
   type ClientInfo,
   type DriverLocation,
@@ -28,14 +50,30 @@ import {
 interface ExtendedWebSocket extends WebSocket {
   clientInfo?: ClientInfo;
   isAlive?: boolean;
+  authenticating?: Promise<void>; // Header token being verified
+  authTimer?: NodeJS.Timeout;
+  tokenTimers?: NodeJS.Timeout[];
 }
 
+// Pub/sub channels shared with core-api (prefixed with the Redis key prefix)
+const RIDE_OFFERS_CHANNEL = 'ride-offers';
+const RIDE_OFFER_RESPONSES_CHANNEL = 'ride-offer-responses';
+const RIDE_TRACKING_CHANNEL = 'ride-tracking';
+const SESSION_REVOCATIONS_CHANNEL = 'session-revocations';
+
+// User types that may track any driver of their tenant
+const TENANT_WIDE_TRACKING: ClientInfo['userType'][] = ['dispatcher', 'admin'];
+
+const MAX_TIMER_MS = 2 ** 31 - 1; // setTimeout limit
+
 export class WebSocketService {
   private wss: WebSocketServer | null = null;
   private clients: Map<string, ExtendedWebSocket> = new Map();
-  private driverSubscriptions: Map<string, Set<string>> = new Map(); // driverId -> Set<clientId>
+  private driverSubscriptions: Map<string, Set<string>> = new Map(); // tenantId:driverId -> Set<clientId>
   private pingInterval: NodeJS.Timeout | null = null;
 
+  constructor(private readonly geo: RedisGeoService = redisGeoService) {}
+
   /**
    * Initialize WebSocket server
    */
@@ -53,42 +91,97 @@ export class WebSocketService {
     // Start ping/pong heartbeat
     this.startHeartbeat();
 
+    // Relay ride offers from core-api to connected drivers
+    this.geo
+      .subscribe(RIDE_OFFERS_CHANNEL, (message) => this.handleDriverOffer(message))
+      .catch((error) => {
+        logger.error({ error }, 'Failed to subscribe to ride offers');
+      });
+
+    // Revoke driver tracking when rides end, driven by core-api
+    this.geo
+      .subscribe(RIDE_TRACKING_CHANNEL, (message) => {
+        void this.handleRideTracking(message);
+      })
+      .catch((error) => {
+        logger.error({ error }, 'Failed to subscribe to ride tracking updates');
+      });
+
+    // Close connections of sessions core-api revokes
+    this.geo
+      .subscribe(SESSION_REVOCATIONS_CHANNEL, (message) => this.handleSessionRevocation(message))
+      .catch((error) => {
+        logger.error({ error }, 'Failed to subscribe to session revocations');
+      });
+
     logger.info({ path: config.ws.path }, 'WebSocket server initialized');
   }
 
   /**
    * Handle new WebSocket connection
+   *
+   * The client is tracked right away but can't do anything until it has
+   * authenticated.
    */
   private handleConnection(ws: ExtendedWebSocket, req: IncomingMessage): void {
-    // Parse query parameters for authentication
-    const url = new URL(req.url || '', `http://${req.headers.host}`);
-    const userId = url.searchParams.get('userId');
-    const userType = url.searchParams.get('userType') as 'driver' | 'rider' | 'admin';
-    const tenantId = url.searchParams.get('tenantId') || config.tenant.defaultTenantId;
-
-    if (!userId || !userType) {
-      logger.warn('Connection rejected: missing userId or userType');
-      ws.close(4001, 'Missing required parameters');
-      return;
-    }
-
     // Generate unique client ID
     const clientId = uuidv4();
 
-    // Store client info
-    ws.clientInfo = {
-      userId,
-      userType,
-      tenantId,
-      connectedAt: new Date(),
-      subscriptions: new Set(),
-    };
     ws.isAlive = true;
-
     this.clients.set(clientId, ws);
 
+    // Set up event handlers
+    ws.on('message', (data) => this.handleMessage(ws, clientId, data));
+    ws.on('pong', () => this.handlePong(ws));
+    ws.on('close', () => this.handleClose(clientId, ws));
+    ws.on('error', (error) => this.handleError(clientId, error));
+
+    const authorization = req.headers.authorization;
+
+    if (authorization?.startsWith('Bearer ')) {
+      ws.authenticating = this.authenticate(ws, clientId, authorization.slice(7));
+      return;
+    }
+
+    // Otherwise the first message must carry the token
+    ws.authTimer = setTimeout(() => {
+      if (!ws.clientInfo) {
+        logger.warn({ clientId }, 'Connection closed: not authenticated in time');
+        ws.close(WsCloseCode.AUTHENTICATION_REQUIRED, 'Authentication required');
+      }
+    }, config.ws.authTimeout);
+  }
+
+  /**
+   * Verify the access token and take the client's identity from it
+   */
+  private async authenticate(ws: ExtendedWebSocket, clientId: string, token: string): Promise<void> {
+    clearTimeout(ws.authTimer);
+
+    try {
+      const claims = await authService.verifyAccessToken(token);
+
+      ws.clientInfo = {
+        userId: claims.userId,
+        userType: claims.userType,
+        tenantId: claims.tenantId,
+        sessionId: claims.sessionId,
+        tokenExpiresAt: claims.expiresAt,
+        connectedAt: new Date(),
+        subscriptions: new Set(),
+      };
+    } catch (error) {
+      this.closeUnauthenticated(ws, clientId, error);
+      return;
+    } finally {
+      ws.authenticating = undefined;
+    }
+
+    const { clientInfo } = ws;
+    this.scheduleTokenExpiry(ws, clientId);
+
     logger.info(
-      { clientId, userId, userType, tenantId },
+      { clientId, userId: clientInfo.userId, userType: clientInfo.userType, tenantId: clientInfo.tenantId },
       'Client connected'
     );
 
@@ -97,16 +190,122 @@ export class WebSocketService {
       type: MessageType.CONNECTED,
       payload: {
         clientId,
-        tenantId,
+        userId: clientInfo.userId,
+        tenantId: clientInfo.tenantId,
+        tokenExpiresAt: clientInfo.tokenExpiresAt.toISOString(),
         serverTime: new Date().toISOString(),
       },
     });
+  }
 
-    // Set up event handlers
-    ws.on('message', (data) => this.handleMessage(ws, clientId, data));
-    ws.on('pong', () => this.handlePong(ws));
-    ws.on('close', () => this.handleClose(clientId, ws));
-    ws.on('error', (error) => this.handleError(clientId, error));
+  /**
+   * Replace an authenticated client's access token before it expires.
+   * The new token must be for the same user and tenant.
+   */
+  private async handleRefreshToken(
+    ws: ExtendedWebSocket,
+    clientId: string,
+    clientInfo: ClientInfo,
+    payload: unknown
+  ): Promise<void> {
+    const parsed = AuthenticateSchema.safeParse(payload);
+
+    if (!parsed.success) {
+      this.sendError(ws, 'Token required');
+      return;
+    }
+
+    try {
+      const claims = await authService.verifyAccessToken(parsed.data.token);
+
+      if (claims.userId !== clientInfo.userId || claims.tenantId !== clientInfo.tenantId) {
+        logger.warn({ clientId, userId: clientInfo.userId }, 'Token refresh for another user rejected');
+        ws.close(WsCloseCode.INVALID_TOKEN, 'Token is for another user');
+        return;
+      }
+
+      clientInfo.userType = claims.userType;
+      clientInfo.sessionId = claims.sessionId;
+      clientInfo.tokenExpiresAt = claims.expiresAt;
+    } catch (error) {
+      this.closeUnauthenticated(ws, clientId, error);
+      return;
+    }
+
+    this.scheduleTokenExpiry(ws, clientId);
+
+    this.sendMessage(ws, {
+      type: MessageType.TOKEN_REFRESHED,
+      payload: { tokenExpiresAt: clientInfo.tokenExpiresAt.toISOString() },
+    });
+
+    logger.debug({ clientId, userId: clientInfo.userId }, 'Client token refreshed');
+  }
+
+  /**
+   * Warn the client ahead of its token's expiry and close the connection
+   * when it expires
+   */
+  private scheduleTokenExpiry(ws: ExtendedWebSocket, clientId: string): void {
+    this.clearTokenTimers(ws);
+
+    const expiresAt = ws.clientInfo!.tokenExpiresAt.getTime();
+    const untilExpiry = expiresAt - Date.now();
+    const untilWarning = untilExpiry - config.ws.tokenExpiryWarning;
+
+    const timers: NodeJS.Timeout[] = [];
+
+    if (untilWarning > 0 && untilWarning <= MAX_TIMER_MS) {
+      timers.push(setTimeout(() => {
+        this.sendMessage(ws, {
+          type: MessageType.TOKEN_EXPIRING,
+          payload: { tokenExpiresAt: new Date(expiresAt).toISOString() },
+        });
+      }, untilWarning));
+    }
+
+    timers.push(setTimeout(() => {
+      // Tokens valid beyond the timer limit are checked again later
+      if (Date.now() < expiresAt) {
+        this.scheduleTokenExpiry(ws, clientId);
+        return;
+      }
+
+      logger.info({ clientId, userId: ws.clientInfo?.userId }, 'Connection closed: token expired');
+      ws.close(WsCloseCode.TOKEN_EXPIRED, 'Token expired');
+    }, Math.min(Math.max(untilExpiry, 0), MAX_TIMER_MS)));
+
+    ws.tokenTimers = timers;
+  }
+
+  private clearTokenTimers(ws: ExtendedWebSocket): void {
+    ws.tokenTimers?.forEach((timer) => clearTimeout(timer));
+    ws.tokenTimers = undefined;
+  }
+
+  /**
+   * Close a connection whose token was rejected, with a code telling an
+   * expired token from an invalid one
+   */
+  private closeUnauthenticated(ws: ExtendedWebSocket, clientId: string, error: unknown): void {
+    if (error instanceof AuthError && error.code === 'TOKEN_EXPIRED') {
+      logger.info({ clientId }, 'Connection closed: token expired');
+      ws.close(WsCloseCode.TOKEN_EXPIRED, 'Token expired');
+      return;
+    }
+
+    if (error instanceof AuthError && error.code === 'SESSION_REVOKED') {
+      logger.info({ clientId }, 'Connection closed: session revoked');
+      ws.close(WsCloseCode.SESSION_REVOKED, 'Session revoked');
+      return;
+    }
+
+    if (!(error instanceof AuthError)) {
+      logger.error({ error, clientId }, 'Token verification failed');
+    }
+
+    logger.warn({ clientId }, 'Connection closed: invalid token');
+    ws.close(WsCloseCode.INVALID_TOKEN, 'Invalid token');
   }
 
   /**
@@ -119,10 +318,26 @@ export class WebSocketService {
   ): Promise<void> {
     try {
       const message: WebSocketMessage = JSON.parse(data.toString());
+
+      // Messages sent right after the handshake wait for its token
+      if (ws.authenticating) {
+        await ws.authenticating;
+      }
+
       const { clientInfo } = ws;
 
       if (!clientInfo) {
-        this.sendError(ws, 'Client not authenticated');
+        if (message.type === MessageType.AUTHENTICATE && !ws.authenticating) {
+          const parsed = AuthenticateSchema.safeParse(message.payload);
+
+          if (parsed.success) {
+            ws.authenticating = this.authenticate(ws, clientId, parsed.data.token);
+            await ws.authenticating;
+            return;
+          }
+        }
+
+        ws.close(WsCloseCode.AUTHENTICATION_REQUIRED, 'Authentication required');
         return;
       }
 
@@ -138,11 +353,23 @@ export class WebSocketService {
           break;
 
         case MessageType.SUBSCRIBE_DRIVER:
-          this.handleSubscribeDriver(ws, clientId, clientInfo, message.payload);
+          await this.handleSubscribeDriver(ws, clientId, clientInfo, message.payload);
           break;
 
         case MessageType.UNSUBSCRIBE_DRIVER:
-          this.handleUnsubscribeDriver(clientId, clientInfo, message.payload);
+          this.handleUnsubscribeDriver(clientId, clientInfo, message.payload as { driverId: string });
+          break;
+
+        case MessageType.RIDE_OFFER_RESPONSE:
+          await this.handleRideOfferResponse(ws, clientInfo, message.payload);
+          break;
+
+        case MessageType.REFRESH_TOKEN:
+          await this.handleRefreshToken(ws, clientId, clientInfo, message.payload);
+          break;
+
+        case MessageType.AUTHENTICATE:
+          this.sendError(ws, 'Already authenticated; use refresh_token');
           break;
 
         case MessageType.PING:
@@ -183,17 +410,22 @@ export class WebSocketService {
         return;
       }
 
-      // Update location in Redis GEO
+      // Drivers only report their own position
+      if (locationData.driverId !== clientInfo.userId) {
+        this.sendError(ws, 'Driver mismatch');
+        return;
+      }
+
+      // Update location in Redis GEO; availability is left as core-api set it
       const driverLocation: DriverLocation = {
         ...locationData,
         timestamp: new Date(locationData.timestamp),
-        isAvailable: true,
       };
 
-      await redisGeoService.updateDriverLocation(driverLocation);
+      await this.geo.updateDriverLocation(driverLocation);
 
-      // Broadcast to subscribers
-      this.broadcastDriverLocation(driverLocation);
+      // Fan out to subscribers on every instance
+      await this.geo.publishDriverLocation(driverLocation);
 
       logger.debug(
         { driverId: locationData.driverId, tenantId: locationData.tenantId },
@@ -224,7 +456,7 @@ export class WebSocketService {
       }
 
       // Find nearby drivers
-      const drivers = await redisGeoService.findNearbyDrivers(
+      const drivers = await this.geo.findNearbyDrivers(
         request.tenantId,
         request.latitude,
         request.longitude,
@@ -258,29 +490,77 @@ export class WebSocketService {
   /**
    * Handle driver subscription (for tracking assigned driver)
    */
-  private handleSubscribeDriver(
+  private async handleSubscribeDriver(
     ws: ExtendedWebSocket,
     clientId: string,
     clientInfo: ClientInfo,
-    payload: { driverId: string }
-  ): void {
-    const { driverId } = payload;
+    payload: unknown
+  ): Promise<void> {
+    const parsed = SubscribeDriverSchema.safeParse(payload);
 
-    if (!driverId) {
+    if (!parsed.success) {
       this.sendError(ws, 'Driver ID required');
       return;
     }
 
-    // Add subscription
-    if (!this.driverSubscriptions.has(driverId)) {
-      this.driverSubscriptions.set(driverId, new Set());
+    const { driverId } = parsed.data;
+
+    if (!(await this.canTrackDriver(clientInfo, driverId))) {
+      logger.warn({ clientId, userId: clientInfo.userId, driverId }, 'Driver subscription denied');
+      this.sendError(ws, 'Not allowed to track this driver');
+      return;
     }
-    this.driverSubscriptions.get(driverId)!.add(clientId);
+
+    // The client may have gone while its access was checked
+    if (!this.clients.has(clientId)) return;
+
+    // Add subscription, listening on the driver's channel for the first one
+    const key = this.getSubscriptionKey(clientInfo.tenantId, driverId);
+    const subscribers = this.driverSubscriptions.get(key) ?? new Set<string>();
+    const isFirst = !this.driverSubscriptions.has(key);
+
+    this.driverSubscriptions.set(key, subscribers.add(clientId));
     clientInfo.subscriptions.add(driverId);
 
+    if (isFirst) {
+      try {
+        await this.geo.subscribe(
+          this.geo.getDriverLocationChannel(clientInfo.tenantId, driverId),
+          (message) => this.broadcastDriverLocation(key, message)
+        );
+      } catch (error) {
+        logger.error({ error, driverId }, 'Failed to subscribe to driver locations');
+        this.removeSubscription(clientId, clientInfo, driverId);
+        this.sendError(ws, 'Subscription failed');
+        return;
+      }
+    }
+
+    this.sendMessage(ws, {
+      type: MessageType.SUBSCRIBED,
+      payload: { driverId },
+    });
+
     logger.debug({ clientId, driverId }, 'Client subscribed to driver');
   }
 
+  /**
+   * Riders may track the driver of a ride they have in progress (per
+   * core-api); dispatchers and admins any driver of their own tenant
+   */
+  private async canTrackDriver(clientInfo: ClientInfo, driverId: string): Promise<boolean> {
+    if (TENANT_WIDE_TRACKING.includes(clientInfo.userType)) {
+      return true;
+    }
+
+    if (clientInfo.userType !== 'rider') {
+      return false;
+    }
+
+    const assignedDrivers = await this.geo.getAssignedDrivers(clientInfo.tenantId, clientInfo.userId);
+    return assignedDrivers.includes(driverId);
+  }
+
   /**
    * Handle driver unsubscription
    */
@@ -294,20 +574,121 @@ export class WebSocketService {
     if (!driverId) return;
 
     // Remove subscription
-    this.driverSubscriptions.get(driverId)?.delete(clientId);
-    clientInfo.subscriptions.delete(driverId);
+    this.removeSubscription(clientId, clientInfo, driverId);
 
     logger.debug({ clientId, driverId }, 'Client unsubscribed from driver');
   }
 
   /**
-   * Broadcast driver location to all subscribers
+   * Drop a rider's subscriptions to drivers of rides that ended or were
+   * reassigned, on a ride status change from core-api
+   */
+  private async handleRideTracking(rawMessage: string): Promise<void> {
+    try {
+      const update: RideTrackingMessage = JSON.parse(rawMessage);
+
+      const riderClients = [...this.clients].filter(([, client]) =>
+        client.clientInfo?.userId === update.riderId &&
+        client.clientInfo.tenantId === update.tenantId &&
+        client.clientInfo.subscriptions.size > 0
+      );
+
+      // Every instance receives every update; most don't hold the rider
+      if (riderClients.length === 0) return;
+
+      // The rider may have other rides in progress; keep their drivers
+      const assignedDrivers = new Set(
+        await this.geo.getAssignedDrivers(update.tenantId, update.riderId)
+      );
+
+      for (const [clientId, client] of riderClients) {
+        const clientInfo = client.clientInfo!;
+
+        for (const driverId of [...clientInfo.subscriptions]) {
+          if (assignedDrivers.has(driverId)) continue;
+
+          this.removeSubscription(clientId, clientInfo, driverId);
+
+          this.sendMessage(client, {
+            type: MessageType.SUBSCRIPTION_REVOKED,
+            payload: { driverId, rideId: update.rideId, status: update.status },
+          });
+
+          logger.debug({ clientId, driverId, rideId: update.rideId }, 'Driver subscription revoked');
+        }
+      }
+    } catch (error) {
+      logger.error({ error }, 'Invalid ride tracking message');
+    }
+  }
+
+  /**
+   * Close the connections of sessions core-api revoked and of users it
+   * suspended
+   */
+  private handleSessionRevocation(rawMessage: string): void {
+    try {
+      const revocation: SessionRevocationMessage = JSON.parse(rawMessage);
+      const sessionIds = new Set(revocation.sessionIds);
+      const userIds = new Set(revocation.userIds);
+
+      for (const [clientId, client] of this.clients) {
+        const { clientInfo } = client;
+        if (!clientInfo) continue;
+
+        const revoked = userIds.has(clientInfo.userId) ||
+          (clientInfo.sessionId !== undefined && sessionIds.has(clientInfo.sessionId));
+        if (!revoked) continue;
+
+        logger.info({ clientId, userId: clientInfo.userId }, 'Connection closed: session revoked');
+        client.close(WsCloseCode.SESSION_REVOKED, 'Session revoked');
+      }
+    } catch (error) {
+      logger.error({ error }, 'Invalid session revocation message');
+    }
+  }
+
+  /**
+   * Remove a client's subscription, and stop listening on the driver's
+   * channel once no local client follows the driver
+   */
+  private removeSubscription(clientId: string, clientInfo: ClientInfo, driverId: string): void {
+    const key = this.getSubscriptionKey(clientInfo.tenantId, driverId);
+    const subscribers = this.driverSubscriptions.get(key);
+
+    clientInfo.subscriptions.delete(driverId);
+
+    if (!subscribers?.delete(clientId) || subscribers.size > 0) return;
+
+    this.driverSubscriptions.delete(key);
+
+    this.geo.unsubscribe(this.geo.getDriverLocationChannel(clientInfo.tenantId, driverId)).catch((error) => {
+      logger.error({ error, driverId }, 'Failed to unsubscribe from driver locations');
+    });
+  }
+
+  private getSubscriptionKey(tenantId: string, driverId: string): string {
+    return `${tenantId}:${driverId}`;
+  }
+
+  /**
+   * Broadcast a driver location from the driver's channel to this
+   * instance's subscribers
    */
-  private broadcastDriverLocation(location: DriverLocation): void {
-    const subscribers = this.driverSubscriptions.get(location.driverId);
+  private broadcastDriverLocation(key: string, rawMessage: string): void {
+    const subscribers = this.driverSubscriptions.get(key);
 
     if (!subscribers || subscribers.size === 0) return;
 
+    let location: DriverLocation;
+
+    try {
+      location = JSON.parse(rawMessage);
+    } catch (error) {
+      logger.error({ error }, 'Invalid driver location message');
+      return;
+    }
+
     const message: WebSocketMessage = {
       type: MessageType.DRIVER_LOCATION,
       payload: location,
@@ -321,6 +702,86 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Deliver a ride offer (or its withdrawal) from core-api to the driver
+   */
+  private handleDriverOffer(rawMessage: string): void {
+    try {
+      const offer: DriverOfferMessage = JSON.parse(rawMessage);
+
+      const delivered = this.sendToUser(offer.tenantId, offer.driverId, {
+        type: offer.type,
+        payload: offer.payload,
+      });
+
+      // Another instance may hold the driver's connection
+      if (delivered) {
+        logger.debug(
+          { driverId: offer.driverId, tenantId: offer.tenantId, type: offer.type },
+          'Ride offer delivered'
+        );
+      }
+    } catch (error) {
+      logger.error({ error }, 'Invalid ride offer message');
+    }
+  }
+
+  /**
+   * Handle a driver's accept/decline for a ride offer
+   */
+  private async handleRideOfferResponse(
+    ws: ExtendedWebSocket,
+    clientInfo: ClientInfo,
+    payload: unknown
+  ): Promise<void> {
+    if (clientInfo.userType !== 'driver') {
+      this.sendError(ws, 'Only drivers can respond to ride offers');
+      return;
+    }
+
+    try {
+      const response = RideOfferResponseSchema.parse(payload);
+
+      // Identity comes from the connection, never from the payload
+      await this.geo.publish(
+        RIDE_OFFER_RESPONSES_CHANNEL,
+        JSON.stringify({
+          ...response,
+          tenantId: clientInfo.tenantId,
+          driverId: clientInfo.userId,
+        })
+      );
+
+      logger.debug(
+        { driverId: clientInfo.userId, rideId: response.rideId, accepted: response.accepted },
+        'Ride offer response relayed'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Invalid ride offer response');
+      this.sendError(ws, 'Invalid ride offer response');
+    }
+  }
+
+  /**
+   * Send a message to every local connection of a user
+   */
+  private sendToUser(tenantId: string, userId: string, message: WebSocketMessage): boolean {
+    let delivered = false;
+
+    this.clients.forEach((client) => {
+      if (
+        client.clientInfo?.userId === userId &&
+        client.clientInfo.tenantId === tenantId &&
+        client.readyState === WebSocket.OPEN
+      ) {
+        this.sendMessage(client, message);
+        delivered = true;
+      }
+    });
+
+    return delivered;
+  }
+
   /**
    * Handle pong response (heartbeat)
    */
@@ -337,15 +798,18 @@ export class WebSocketService {
   private handleClose(clientId: string, ws: ExtendedWebSocket): void {
     const { clientInfo } = ws;
 
+    clearTimeout(ws.authTimer);
+    this.clearTokenTimers(ws);
+
     // Clean up subscriptions
     if (clientInfo) {
-      for (const driverId of clientInfo.subscriptions) {
-        this.driverSubscriptions.get(driverId)?.delete(clientId);
+      for (const driverId of [...clientInfo.subscriptions]) {
+        this.removeSubscription(clientId, clientInfo, driverId);
       }
 
       // If driver disconnected, remove from location tracking
       if (clientInfo.userType === 'driver') {
-        redisGeoService.removeDriver(clientInfo.tenantId, clientInfo.userId).catch((err) => {
+        this.geo.removeDriver(clientInfo.tenantId, clientInfo.userId).catch((err) => {
           logger.error({ err }, 'Failed to remove driver on disconnect');
         });
       }
@@ -0,0 +1,171 @@
+/**
+ * Auth Service Tests
+ *
+ * Verification of core-api access tokens for WebSocket connections and
+ * REST requests, and of core-api's service tokens
+ */
+
+import { describe, it, expect, beforeAll, afterEach, jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
+
+process.env.NODE_ENV = 'development';
+process.env.JWT_SECRET = 'test-secret';
+process.env.JWKS_URL = 'https://auth.example.com/.well-known/jwks.json';
+
+type AuthModule = typeof import('../src/services/auth.service.js');
+
+let authService: AuthModule['authService'];
+let AuthError: AuthModule['AuthError'];
+
+// Sessions and users core-api has revoked or suspended
+const revoked = new Set<string>();
+
+beforeAll(async () => {
+  // Imported once the environment above is set, since config is read on import
+  ({ authService, AuthError } = await import('../src/services/auth.service.js'));
+  const { redisGeoService } = await import('../src/services/redis-geo.service.js');
+
+  jest.spyOn(redisGeoService, 'isAccessRevoked').mockImplementation(async (userId, sessionId) =>
+    revoked.has(userId) || (sessionId !== undefined && revoked.has(sessionId))
+  );
+});
+
+afterEach(() => {
+  revoked.clear();
+});
+
+const claims = {
+  userId: 'driver-1',
+  tenantId: 'tenant-1',
+  userType: 'driver',
+  email: null,
+  sessionId: 'session-1',
+  platformAdmin: false,
+  type: 'access',
+};
+
+function sign(payload: object = claims, secret: string = 'test-secret', expiresIn: number = 900): string {
+  return jwt.sign(payload, secret, { expiresIn });
+}
+
+async function verifyError(token: string): Promise<unknown> {
+  try {
+    await authService.verifyAccessToken(token);
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Token was accepted');
+}
+
+describe('Access token verification', () => {
+  it('should take identity and tenant from a shared secret token', async () => {
+    const verified = await authService.verifyAccessToken(sign());
+
+    expect(verified.userId).toBe('driver-1');
+    expect(verified.tenantId).toBe('tenant-1');
+    expect(verified.userType).toBe('driver');
+    expect(verified.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should tell expired tokens from invalid ones', async () => {
+    const expired = await verifyError(sign(claims, 'test-secret', -10));
+    const forged = await verifyError(sign(claims, 'another-secret'));
+
+    expect(expired).toBeInstanceOf(AuthError);
+    expect((expired as InstanceType<typeof AuthError>).code).toBe('TOKEN_EXPIRED');
+    expect((forged as InstanceType<typeof AuthError>).code).toBe('INVALID_TOKEN');
+  });
+
+  it('should reject refresh tokens and tokens without an identity', async () => {
+    const refresh = await verifyError(sign({ ...claims, type: 'refresh' }));
+    const anonymous = await verifyError(sign({ type: 'access', tenantId: 'tenant-1' }));
+
+    expect((refresh as InstanceType<typeof AuthError>).code).toBe('INVALID_TOKEN');
+    expect((anonymous as InstanceType<typeof AuthError>).code).toBe('INVALID_TOKEN');
+  });
+
+  it('should reject tokens of sessions core-api has revoked', async () => {
+    revoked.add('session-1');
+
+    const error = await verifyError(sign());
+
+    expect((error as InstanceType<typeof AuthError>).code).toBe('SESSION_REVOKED');
+    await expect(authService.verifyAccessToken(sign({ ...claims, sessionId: 'session-2' }))).resolves.toMatchObject({
+      sessionId: 'session-2',
+    });
+  });
+
+  it('should reject tokens of users core-api has suspended', async () => {
+    revoked.add('driver-1');
+
+    await expect(authService.verifyRequestToken(sign())).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+  });
+});
+
+describe('Request token verification', () => {
+  it('should accept core-api service tokens', async () => {
+    const verified = await authService.verifyRequestToken(sign({ type: 'service', service: 'core-api' }));
+
+    expect(verified).toMatchObject({ service: 'core-api' });
+  });
+
+  it('should still verify user access tokens', async () => {
+    const verified = await authService.verifyRequestToken(sign());
+
+    expect(verified).toMatchObject({ userId: 'driver-1', tenantId: 'tenant-1' });
+  });
+
+  it('should not accept service tokens as access tokens', async () => {
+    const error = await verifyError(sign({ type: 'service', service: 'core-api' }));
+
+    expect((error as InstanceType<typeof AuthError>).code).toBe('INVALID_TOKEN');
+  });
+
+  it('should reject service tokens without a service name', async () => {
+    await expect(authService.verifyRequestToken(sign({ type: 'service' }))).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+  });
+});
+
+describe('JWKS verification', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const fetchMock = jest.fn<typeof fetch>();
+
+  beforeAll(() => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }],
+    })));
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    fetchMock.mockClear();
+  });
+
+  it('should verify tokens signed with a published key', async () => {
+    const token = jwt.sign(claims, privateKey, { algorithm: 'RS256', keyid: 'key-1', expiresIn: 900 });
+    const verified = await authService.verifyAccessToken(token);
+
+    expect(verified.userId).toBe('driver-1');
+  });
+
+  it('should reject tokens signed with an unknown key', async () => {
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const token = jwt.sign(claims, otherKey, { algorithm: 'RS256', keyid: 'key-2', expiresIn: 900 });
+
+    const error = await verifyError(token);
+
+    expect((error as InstanceType<typeof AuthError>).code).toBe('INVALID_TOKEN');
+  });
+
+  it('should not accept the public key as an HMAC secret', async () => {
+    const publicPem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+    const token = jwt.sign(claims, publicPem, { algorithm: 'HS256', keyid: 'key-1', expiresIn: 900 });
+
+    const error = await verifyError(token);
+
+    expect((error as InstanceType<typeof AuthError>).code).toBe('INVALID_TOKEN');
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Driver Tracking Tests
+ *
+ * Riders may subscribe to the driver of a ride they have in progress,
+ * dispatchers and admins to any driver of their tenant. A rider's
+ * subscription is revoked when core-api reports the ride ended or was
+ * reassigned.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import jwt from 'jsonwebtoken';
+
+process.env.NODE_ENV = 'development';
+process.env.JWT_SECRET = 'test-secret';
+process.env.LOG_LEVEL = 'warn';
+
+type GeoModule = typeof import('../src/services/redis-geo.service.js');
+type WebSocketModule = typeof import('../src/services/websocket.service.js');
+
+const TENANT_ID = 'tenant-1';
+const MESSAGE_TIMEOUT_MS = 2000;
+
+interface TestClient {
+  ws: WebSocket;
+  received: Array<{ type: string; payload: any }>;
+  send(type: string, payload: unknown): void;
+  next(type: string): Promise<{ type: string; payload: any }>;
+}
+
+// Channel listeners and rider assignments behind the mocked Redis service
+const listeners = new Map<string, (message: string) => void>();
+const assignments = new Map<string, Record<string, string>>(); // riderId -> rideId -> driverId
+
+let geo: InstanceType<GeoModule['RedisGeoService']>;
+let service: InstanceType<WebSocketModule['WebSocketService']>;
+let server: Server;
+let url: string;
+const clients: TestClient[] = [];
+
+beforeAll(async () => {
+  // Imported once the environment above is set, since config is read on import
+  const { RedisGeoService, redisGeoService } = await import('../src/services/redis-geo.service.js');
+  const { WebSocketService } = await import('../src/services/websocket.service.js');
+  const { config } = await import('../src/config/index.js');
+
+  jest.spyOn(redisGeoService, 'isAccessRevoked').mockResolvedValue(false);
+
+  geo = new RedisGeoService();
+  jest.spyOn(geo, 'subscribe').mockImplementation(async (channel, listener) => {
+    listeners.set(channel, listener);
+  });
+  jest.spyOn(geo, 'unsubscribe').mockImplementation(async (channel) => {
+    listeners.delete(channel);
+  });
+  jest.spyOn(geo, 'publish').mockImplementation(async (channel, message) => {
+    listeners.get(channel)?.(message);
+  });
+  jest.spyOn(geo, 'getAssignedDrivers').mockImplementation(async (_tenantId, riderId) =>
+    Object.values(assignments.get(riderId) ?? {})
+  );
+  jest.spyOn(geo, 'updateDriverLocation').mockResolvedValue(undefined as never);
+  jest.spyOn(geo, 'removeDriver').mockResolvedValue(undefined as never);
+
+  service = new WebSocketService(geo);
+  server = createServer();
+  service.initialize(server);
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${config.ws.path}`;
+});
+
+afterAll(async () => {
+  await service.shutdown();
+  server.close();
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  assignments.clear();
+});
+
+afterEach(async () => {
+  // Let the server drop each client's subscriptions before the next test
+  await Promise.all(clients.splice(0).map((client) => new Promise<void>((resolve) => {
+    client.ws.once('close', () => setImmediate(resolve));
+    client.ws.close();
+  })));
+});
+
+/**
+ * Connect and wait for the connection to be confirmed. Messages are queued
+ * so none is missed between awaits.
+ */
+async function connect(userId: string, userType: string, tenantId: string = TENANT_ID): Promise<TestClient> {
+  const token = jwt.sign({ type: 'access', userId, tenantId, userType }, 'test-secret', { expiresIn: 900 });
+  const ws = new WebSocket(url, { headers: { Authorization: `Bearer ${token}` } });
+
+  const received: TestClient['received'] = [];
+  const waiters: Array<() => void> = [];
+
+  ws.on('message', (data) => {
+    received.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach((wake) => wake());
+  });
+
+  const client: TestClient = {
+    ws,
+    received,
+    send(type, payload) {
+      ws.send(JSON.stringify({ type, payload }));
+    },
+    async next(type) {
+      const deadline = Date.now() + MESSAGE_TIMEOUT_MS;
+
+      for (;;) {
+        const index = received.findIndex((message) => message.type === type);
+        if (index >= 0) {
+          return received.splice(index, 1)[0];
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new Error(`No ${type} message for ${userId}`);
+        }
+
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, remaining);
+          waiters.push(() => {
+            clearTimeout(timer);
+            resolve();
+          });
+        });
+      }
+    },
+  };
+
+  clients.push(client);
+  await client.next('connected');
+  return client;
+}
+
+// What core-api publishes on a ride status change
+function publishRideStatus(rideId: string, riderId: string, driverId: string, status: string): void {
+  listeners.get('ride-tracking')?.(JSON.stringify({ tenantId: TENANT_ID, rideId, riderId, driverId, status }));
+}
+
+function locationUpdate(driverId: string) {
+  return {
+    driverId,
+    latitude: 60.1699,
+    longitude: 24.9384,
+    timestamp: new Date().toISOString(),
+    tenantId: TENANT_ID,
+  };
+}
+
+describe('Driver subscriptions', () => {
+  it('should let a rider track the driver of their ride', async () => {
+    assignments.set('rider-1', { 'ride-1': 'driver-1' });
+    const driver = await connect('driver-1', 'driver');
+    const rider = await connect('rider-1', 'rider');
+
+    rider.send('subscribe_driver', { driverId: 'driver-1' });
+    expect((await rider.next('subscribed')).payload).toEqual({ driverId: 'driver-1' });
+
+    driver.send('location_update', locationUpdate('driver-1'));
+    expect((await rider.next('driver_location')).payload).toMatchObject({ driverId: 'driver-1', latitude: 60.1699 });
+  });
+
+  it('should not let a rider track a driver of someone else\'s ride', async () => {
+    assignments.set('rider-2', { 'ride-2': 'driver-2' });
+    const rider = await connect('rider-1', 'rider');
+
+    rider.send('subscribe_driver', { driverId: 'driver-2' });
+
+    expect((await rider.next('error')).payload.message).toBe('Not allowed to track this driver');
+  });
+
+  it('should let dispatchers and admins track any driver, and drivers none', async () => {
+    const dispatcher = await connect('dispatcher-1', 'dispatcher');
+    const admin = await connect('admin-1', 'admin');
+    const driver = await connect('driver-2', 'driver');
+
+    dispatcher.send('subscribe_driver', { driverId: 'driver-1' });
+    admin.send('subscribe_driver', { driverId: 'driver-1' });
+    driver.send('subscribe_driver', { driverId: 'driver-1' });
+
+    await dispatcher.next('subscribed');
+    await admin.next('subscribed');
+    expect((await driver.next('error')).payload.message).toBe('Not allowed to track this driver');
+  });
+
+  it('should not deliver positions to dispatchers of another tenant', async () => {
+    const driver = await connect('driver-1', 'driver');
+    const ownDispatcher = await connect('dispatcher-1', 'dispatcher');
+    const otherDispatcher = await connect('dispatcher-2', 'dispatcher', 'tenant-2');
+
+    ownDispatcher.send('subscribe_driver', { driverId: 'driver-1' });
+    otherDispatcher.send('subscribe_driver', { driverId: 'driver-1' });
+    await ownDispatcher.next('subscribed');
+    await otherDispatcher.next('subscribed');
+
+    driver.send('location_update', locationUpdate('driver-1'));
+    await ownDispatcher.next('driver_location');
+
+    otherDispatcher.send('ping', {});
+    await otherDispatcher.next('pong');
+    expect(otherDispatcher.received.map((message) => message.type)).not.toContain('driver_location');
+  });
+
+  it('should refuse a subscription without a driver ID', async () => {
+    const dispatcher = await connect('dispatcher-1', 'dispatcher');
+
+    dispatcher.send('subscribe_driver', {});
+
+    expect((await dispatcher.next('error')).payload.message).toBe('Driver ID required');
+  });
+});
+
+describe('Ride tracking updates', () => {
+  it('should revoke the rider\'s subscription when the ride ends', async () => {
+    assignments.set('rider-1', { 'ride-1': 'driver-1' });
+    const rider = await connect('rider-1', 'rider');
+
+    rider.send('subscribe_driver', { driverId: 'driver-1' });
+    await rider.next('subscribed');
+
+    assignments.delete('rider-1');
+    publishRideStatus('ride-1', 'rider-1', 'driver-1', 'completed');
+
+    expect((await rider.next('subscription_revoked')).payload).toEqual({
+      driverId: 'driver-1',
+      rideId: 'ride-1',
+      status: 'completed',
+    });
+    expect(listeners.has(geo.getDriverLocationChannel(TENANT_ID, 'driver-1'))).toBe(false);
+  });
+
+  it('should keep tracking the driver of the rider\'s other ride', async () => {
+    assignments.set('rider-1', { 'ride-1': 'driver-1', 'ride-2': 'driver-2' });
+    const rider = await connect('rider-1', 'rider');
+
+    rider.send('subscribe_driver', { driverId: 'driver-1' });
+    rider.send('subscribe_driver', { driverId: 'driver-2' });
+    await rider.next('subscribed');
+    await rider.next('subscribed');
+
+    assignments.set('rider-1', { 'ride-2': 'driver-2' });
+    publishRideStatus('ride-1', 'rider-1', 'driver-1', 'cancelled_by_rider');
+
+    expect((await rider.next('subscription_revoked')).payload.driverId).toBe('driver-1');
+
+    rider.send('ping', {});
+    await rider.next('pong');
+    expect(rider.received.map((message) => message.type)).not.toContain('subscription_revoked');
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Multi-Instance Integration Tests
+ *
+ * Run against a real Redis:
+ *
+ *   TEST_REDIS_HOST=localhost npm test
+ *
+ * Starts two location-service instances in one process, each with its own
+ * Redis connections and WebSocket server, and checks that driver positions
+ * and ride tracking updates reach clients connected to the other instance,
+ * and that revoked sessions are closed on every instance.
+ * Skipped when TEST_REDIS_HOST is not set.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { createClient } from 'redis';
+import jwt from 'jsonwebtoken';
+
+const TEST_REDIS_HOST = process.env.TEST_REDIS_HOST;
+const KEY_PREFIX = `test-${randomUUID()}:`;
+const TENANT_ID = 'tenant-1';
+const JWT_SECRET = 'test-secret';
+const MESSAGE_TIMEOUT_MS = 5000;
+
+const describeWithRedis = TEST_REDIS_HOST ? describe : describe.skip;
+
+type GeoModule = typeof import('../../src/services/redis-geo.service.js');
+type WebSocketModule = typeof import('../../src/services/websocket.service.js');
+
+interface Instance {
+  geo: InstanceType<GeoModule['RedisGeoService']>;
+  service: InstanceType<WebSocketModule['WebSocketService']>;
+  server: Server;
+  url: string;
+}
+
+interface TestClient {
+  ws: WebSocket;
+  send(type: string, payload: unknown): void;
+  next(type: string): Promise<{ type: string; payload: any }>;
+}
+
+function token(userId: string, userType: string): string {
+  return jwt.sign(
+    { type: 'access', userId, tenantId: TENANT_ID, userType },
+    JWT_SECRET,
+    { expiresIn: 900 }
+  );
+}
+
+/**
+ * Connect and wait for the connection to be confirmed. Messages are queued
+ * so none is missed between awaits.
+ */
+async function connect(instance: Instance, userId: string, userType: string): Promise<TestClient> {
+  const ws = new WebSocket(instance.url, {
+    headers: { Authorization: `Bearer ${token(userId, userType)}` },
+  });
+
+  const received: Array<{ type: string; payload: any }> = [];
+  const waiters: Array<() => void> = [];
+
+  ws.on('message', (data) => {
+    received.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach((wake) => wake());
+  });
+
+  const client: TestClient = {
+    ws,
+    send(type, payload) {
+      ws.send(JSON.stringify({ type, payload }));
+    },
+    async next(type) {
+      const deadline = Date.now() + MESSAGE_TIMEOUT_MS;
+
+      for (;;) {
+        const index = received.findIndex((message) => message.type === type);
+        if (index >= 0) {
+          return received.splice(index, 1)[0];
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new Error(`No ${type} message for ${userId}`);
+        }
+
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, remaining);
+          waiters.push(() => {
+            clearTimeout(timer);
+            resolve();
+          });
+        });
+      }
+    },
+  };
+
+  await client.next('connected');
+  return client;
+}
+
+describeWithRedis('Multiple location-service instances', () => {
+  const instances: Instance[] = [];
+  const clients: TestClient[] = [];
+  let redis: ReturnType<typeof createClient>;
+  let sharedGeo: GeoModule['redisGeoService'] | undefined;
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'development';
+    process.env.REDIS_HOST = TEST_REDIS_HOST;
+    process.env.REDIS_KEY_PREFIX = KEY_PREFIX;
+    process.env.JWT_SECRET = JWT_SECRET;
+    process.env.LOG_LEVEL = 'warn';
+
+    const { RedisGeoService } = await import('../../src/services/redis-geo.service.js');
+    const { WebSocketService } = await import('../../src/services/websocket.service.js');
+    const { config } = await import('../../src/config/index.js');
+
+    // Token revocation checks go through the shared client
+    ({ redisGeoService: sharedGeo } = await import('../../src/services/redis-geo.service.js'));
+    await sharedGeo.connect();
+
+    redis = createClient({ socket: { host: TEST_REDIS_HOST, port: config.redis.port } });
+    await redis.connect();
+
+    for (let i = 0; i < 2; i++) {
+      const geo = new RedisGeoService();
+      await geo.connect();
+
+      const service = new WebSocketService(geo);
+      const server = createServer();
+      service.initialize(server);
+
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      instances.push({ geo, service, server, url: `ws://127.0.0.1:${port}${config.ws.path}` });
+    }
+
+    // Let both instances finish subscribing to the shared channels
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }, 30000);
+
+  afterAll(async () => {
+    clients.forEach((client) => client.ws.terminate());
+
+    for (const { geo, service, server } of instances) {
+      await service.shutdown();
+      await geo.disconnect();
+      server.close();
+    }
+
+    await sharedGeo?.disconnect();
+
+    if (redis) {
+      const keys = await redis.keys(`${KEY_PREFIX}*`);
+      if (keys.length > 0) {
+        await redis.del(keys);
+      }
+      await redis.quit();
+    }
+  });
+
+  async function connectTracked(index: number, userId: string, userType: string): Promise<TestClient> {
+    const client = await connect(instances[index], userId, userType);
+    clients.push(client);
+    return client;
+  }
+
+  function locationUpdate(driverId: string, latitude: number) {
+    return {
+      driverId,
+      latitude,
+      longitude: 24.9384,
+      timestamp: new Date().toISOString(),
+      tenantId: TENANT_ID,
+    };
+  }
+
+  it('should deliver a driver position to a dispatcher on the other instance', async () => {
+    const driver = await connectTracked(0, 'driver-1', 'driver');
+    const dispatcher = await connectTracked(1, 'dispatcher-1', 'dispatcher');
+
+    dispatcher.send('subscribe_driver', { driverId: 'driver-1' });
+    await dispatcher.next('subscribed');
+
+    driver.send('location_update', locationUpdate('driver-1', 60.1699));
+    const { payload } = await dispatcher.next('driver_location');
+
+    expect(payload.driverId).toBe('driver-1');
+    expect(payload.latitude).toBe(60.1699);
+  });
+
+  it('should stop listening on a driver channel once its last subscriber leaves', async () => {
+    const dispatcher = await connectTracked(1, 'dispatcher-2', 'dispatcher');
+    const channel = `${KEY_PREFIX}${instances[1].geo.getDriverLocationChannel(TENANT_ID, 'driver-2')}`;
+
+    dispatcher.send('subscribe_driver', { driverId: 'driver-2' });
+    await dispatcher.next('subscribed');
+    expect((await redis.pubSubNumSub(channel))[channel]).toBe(1);
+
+    dispatcher.send('unsubscribe_driver', { driverId: 'driver-2' });
+    dispatcher.send('ping', {});
+    await dispatcher.next('pong');
+
+    // The UNSUBSCRIBE is sent without waiting for Redis to confirm it
+    const deadline = Date.now() + MESSAGE_TIMEOUT_MS;
+    let listeners = (await redis.pubSubNumSub(channel))[channel];
+
+    while (listeners > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      listeners = (await redis.pubSubNumSub(channel))[channel];
+    }
+
+    expect(listeners).toBe(0);
+  });
+
+  it('should let a rider track the assigned driver and revoke it when the ride ends', async () => {
+    const rideId = randomUUID();
+    const trackingKey = `${KEY_PREFIX}rides:${TENANT_ID}:tracking:rider-1`;
+    await redis.hSet(trackingKey, rideId, 'driver-3');
+
+    const driver = await connectTracked(0, 'driver-3', 'driver');
+    const rider = await connectTracked(1, 'rider-1', 'rider');
+
+    rider.send('subscribe_driver', { driverId: 'driver-3' });
+    await rider.next('subscribed');
+
+    driver.send('location_update', locationUpdate('driver-3', 60.2));
+    expect((await rider.next('driver_location')).payload.driverId).toBe('driver-3');
+
+    // What core-api does when the ride completes
+    await redis.hDel(trackingKey, rideId);
+    await redis.publish(`${KEY_PREFIX}ride-tracking`, JSON.stringify({
+      tenantId: TENANT_ID,
+      rideId,
+      riderId: 'rider-1',
+      driverId: 'driver-3',
+      status: 'completed',
+    }));
+
+    const { payload } = await rider.next('subscription_revoked');
+    expect(payload).toMatchObject({ driverId: 'driver-3', rideId, status: 'completed' });
+  });
+
+  it('should not let a rider track a driver of someone else\'s ride', async () => {
+    const rider = await connectTracked(1, 'rider-2', 'rider');
+
+    rider.send('subscribe_driver', { driverId: 'driver-1' });
+    const { payload } = await rider.next('error');
+
+    expect(payload.message).toBe('Not allowed to track this driver');
+  });
+
+  it('should close a suspended user\'s connections and refuse new ones', async () => {
+    const driver = await connectTracked(0, 'driver-9', 'driver');
+    const closed = new Promise<number>((resolve) => driver.ws.once('close', resolve));
+
+    // What core-api does when it suspends a user
+    await redis.set(`${KEY_PREFIX}auth:suspended-user:driver-9`, '1', { EX: 900 });
+    await redis.publish(`${KEY_PREFIX}session-revocations`, JSON.stringify({
+      sessionIds: [],
+      userIds: ['driver-9'],
+    }));
+
+    expect(await closed).toBe(4004);
+
+    const reconnect = new WebSocket(instances[1].url, {
+      headers: { Authorization: `Bearer ${token('driver-9', 'driver')}` },
+    });
+    expect(await new Promise<number>((resolve) => reconnect.once('close', resolve))).toBe(4004);
+  });
+});
@@ -5,38 +5,72 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+// In-memory hashes behind the mocked Redis client
+const mockHashes = new Map<string, Record<string, string>>();
+
+function mockHSet(key: string, fieldOrValues: string | Record<string, string>, value?: string): number {
+  const values = typeof fieldOrValues === 'string' ? { [fieldOrValues]: value as string } : fieldOrValues;
+  mockHashes.set(key, { ...mockHashes.get(key), ...values });
+  return Object.keys(values).length;
+}
 
 // Mock Redis client for testing
 const mockRedisClient = {
   geoAdd: jest.fn(),
   geoSearchWith: jest.fn(),
   geoPos: jest.fn(),
-  hSet: jest.fn(),
-  hGetAll: jest.fn(),
+  hSet: jest.fn(async (key: string, field: string, value: string) => mockHSet(key, field, value)),
+  hGet: jest.fn(async (key: string, field: string) => mockHashes.get(key)?.[field]),
+  hmGet: jest.fn(async (key: string, fields: string[]) => fields.map((field) => mockHashes.get(key)?.[field] ?? null)),
+  hGetAll: jest.fn(async (key: string) => mockHashes.get(key) ?? {}),
   expire: jest.fn(),
+  exists: jest.fn(async () => 0),
   zRem: jest.fn(),
   del: jest.fn(),
   zCard: jest.fn(),
   multi: jest.fn(() => ({
     geoAdd: jest.fn().mockReturnThis(),
-    hSet: jest.fn().mockReturnThis(),
+    hSet: jest.fn(function (this: unknown, key: string, values: Record<string, string>) {
+      mockHSet(key, values);
+      return this;
+    }),
     expire: jest.fn().mockReturnThis(),
+    xAdd: jest.fn().mockReturnThis(),
     zRem: jest.fn().mockReturnThis(),
-    del: jest.fn().mockReturnThis(),
+    del: jest.fn(function (this: unknown, key: string) {
+      mockHashes.delete(key);
+      return this;
+    }),
+    hDel: jest.fn(function (this: unknown, key: string, field: string) {
+      delete mockHashes.get(key)?.[field];
+      return this;
+    }),
     exec: jest.fn().mockResolvedValue([]),
   })),
   set: jest.fn(),
+  publish: jest.fn(),
   eval: jest.fn(),
+  on: jest.fn(),
   connect: jest.fn(),
   quit: jest.fn(),
 };
 
+jest.mock('redis', () => ({
+  createClient: () => mockRedisClient,
+  GeoReplyWith: { DISTANCE: 'WITHDIST', COORDINATES: 'WITHCOORD' },
+}));
+
 // Import after mocking
 import { haversineDistance, boundingBox, isWithinRadius } from '../src/utils/haversine.js';
 
 describe('Haversine Distance Calculations', () => {
   it('should calculate distance between two points correctly', () => {
-    // Helsinki to Tampere (approximately 179 km)
+    // Helsinki to Tampere (approximately 161 km as the crow flies; 179 km by road)
     const lat1 = 60.1699; // Helsinki
     const lon1 = 24.9384;
     const lat2 = 61.4978; // Tampere
@@ -44,9 +78,9 @@ describe('Haversine Distance Calculations', () => {
 
     const distance = haversineDistance(lat1, lon1, lat2, lon2);
     
-    // Should be approximately 179 km (179000 meters)
-    expect(distance).toBeGreaterThan(170000);
-    expect(distance).toBeLessThan(190000);
+    // Should be approximately 161 km (161000 meters)
+    expect(distance).toBeGreaterThan(155000);
+    expect(distance).toBeLessThan(165000);
   });
 
   it('should return 0 for same coordinates', () => {
@@ -168,3 +202,158 @@ describe('Location Update Model', () => {
     expect(invalidUpdate.latitude).toBeGreaterThan(90);
   });
 });
+
+describe('Driver availability', () => {
+  const tenantId = 'helsinki_001';
+  let service: typeof import('../src/services/redis-geo.service.js')['redisGeoService'];
+  let server: Server;
+  let baseUrl: string;
+
+  function ping(driverId: string) {
+    return service.updateDriverLocation({
+      driverId,
+      latitude: 60.1699,
+      longitude: 24.9384,
+      heading: 0,
+      speed: 0,
+      accuracy: 5,
+      timestamp: new Date(),
+      tenantId,
+    });
+  }
+
+  const driverToken = token({ type: 'access', userId: 'driver-free', tenantId, userType: 'driver' });
+  const riderToken = token({ type: 'access', userId: 'rider-1', tenantId, userType: 'rider' });
+  const serviceToken = token({ type: 'service', service: 'core-api' });
+
+  function token(payload: object): string {
+    return jwt.sign(payload, 'test-secret', { expiresIn: 900 });
+  }
+
+  function request(path: string, bearer?: string, init: RequestInit = {}) {
+    return fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(bearer ? { Authorization: `Bearer ${bearer}` } : {}),
+      },
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'development';
+    process.env.LOG_LEVEL = 'warn';
+    process.env.JWT_SECRET = 'test-secret';
+
+    // Imported here so the mocked client exists when the singleton is built
+    ({ redisGeoService: service } = await import('../src/services/redis-geo.service.js'));
+    const { locationRouter } = await import('../src/routes/location.js');
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1/location', locationRouter);
+
+    server = createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/location`;
+  });
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  beforeEach(() => {
+    mockHashes.clear();
+    mockRedisClient.geoSearchWith.mockResolvedValue([
+      { member: 'driver-busy', distance: '120', coordinates: { latitude: '60.17', longitude: '24.94' } },
+      { member: 'driver-free', distance: '250', coordinates: { latitude: '60.17', longitude: '24.94' } },
+    ] as never);
+  });
+
+  it('should keep a busy driver unavailable when they send a location update', async () => {
+    await service.setDriverAvailability(tenantId, 'driver-busy', false);
+    await service.setDriverAvailability(tenantId, 'driver-free', true);
+    await ping('driver-busy');
+    await ping('driver-free');
+
+    const drivers = await service.findNearbyDrivers(tenantId, 60.1699, 24.9384, 5000);
+
+    expect(drivers.map((d) => [d.driverId, d.isAvailable])).toEqual([
+      ['driver-busy', false],
+      ['driver-free', true],
+    ]);
+  });
+
+  it('should keep a driver available when they reconnect after a dropped socket', async () => {
+    await service.setDriverAvailability(tenantId, 'driver-free', true);
+    await ping('driver-free');
+
+    // What the WebSocket server does when the driver's socket closes
+    await service.removeDriver(tenantId, 'driver-free');
+    await ping('driver-free');
+
+    const drivers = await service.findNearbyDrivers(tenantId, 60.1699, 24.9384, 5000);
+
+    expect(drivers.find((d) => d.driverId === 'driver-free')?.isAvailable).toBe(true);
+  });
+
+  it('should treat a driver core-api never made available as unavailable', async () => {
+    await ping('driver-busy');
+
+    const drivers = await service.findNearbyDrivers(tenantId, 60.1699, 24.9384, 5000);
+
+    expect(drivers[0].isAvailable).toBe(false);
+  });
+
+  it('should exclude busy drivers from nearby results', async () => {
+    await service.setDriverAvailability(tenantId, 'driver-busy', false);
+    await service.setDriverAvailability(tenantId, 'driver-free', true);
+    await ping('driver-busy');
+    await ping('driver-free');
+
+    const response = await request(`/nearby?lat=60.1699&lon=24.9384&tenantId=${tenantId}`, riderToken);
+    const body = await response.json() as { data: Array<{ driverId: string }> };
+
+    expect(response.status).toBe(200);
+    expect(body.data.map((d) => d.driverId)).toEqual(['driver-free']);
+  });
+
+  it('should require a token on REST routes', async () => {
+    const response = await request(`/nearby?lat=60.1699&lon=24.9384&tenantId=${tenantId}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should refuse nearby queries for another tenant', async () => {
+    const response = await request('/nearby?lat=60.1699&lon=24.9384&tenantId=tampere_001', riderToken);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should only let core-api set availability', async () => {
+    const body = JSON.stringify({ tenantId, isAvailable: true });
+
+    const asDriver = await request('/driver/driver-free/availability', driverToken, { method: 'PATCH', body });
+    const asService = await request('/driver/driver-free/availability', serviceToken, { method: 'PATCH', body });
+
+    expect(asDriver.status).toBe(403);
+    expect(asService.status).toBe(200);
+    expect(mockRedisClient.hSet).toHaveBeenLastCalledWith(expect.stringContaining('availability'), 'driver-free', 'true');
+  });
+
+  it('should refuse location updates for another driver', async () => {
+    const update = (driverId: string) => JSON.stringify({
+      driverId,
+      latitude: 60.1699,
+      longitude: 24.9384,
+      timestamp: new Date().toISOString(),
+      tenantId,
+    });
+
+    const forOther = await request('/update', driverToken, { method: 'POST', body: update('driver-busy') });
+    const forSelf = await request('/update', driverToken, { method: 'POST', body: update('driver-free') });
+
+    expect(forOther.status).toBe(403);
+    expect(forSelf.status).toBe(200);
+  });
+});
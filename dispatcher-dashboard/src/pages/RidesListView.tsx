@@ -212,6 +212,7 @@ function StatusBadge({ status }: { status: string }) {
         return { color: 'bg-green-100 text-green-800', icon: CheckCircle };
       case 'cancelled_by_rider':
       case 'cancelled_by_driver':
+      case 'cancelled_by_operator':
         return { color: 'bg-red-100 text-red-800', icon: XCircle };
       default:
         return { color: 'bg-gray-100 text-gray-800', icon: Clock };
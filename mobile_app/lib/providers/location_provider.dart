@@ -103,9 +103,9 @@ class LocationNotifier extends StateNotifier<LocationState> {
     }
   }
 
-  /// Connect to WebSocket
-  Future<void> connect({required String userId, required String userType}) async {
-    await _locationService.connect(userId: userId, userType: userType);
+  /// Connect to WebSocket with the signed-in user's access token
+  Future<void> connect({required String accessToken}) async {
+    await _locationService.connect(accessToken: accessToken);
   }
 
   /// Start continuous location updates (for drivers)
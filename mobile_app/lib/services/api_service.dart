@@ -153,7 +153,6 @@ class ApiService {
     required String rideId,
     required int actualDistanceMeters,
     required int actualDurationSeconds,
-    double? taximeterFare,
   }) async {
     final response = await http.post(
       Uri.parse('$baseUrl/api/v1/rides/$rideId/complete'),
@@ -161,7 +160,6 @@ class ApiService {
       body: jsonEncode({
         'actualDistanceMeters': actualDistanceMeters,
         'actualDurationSeconds': actualDurationSeconds,
-        'taximeterFare': taximeterFare,
       }),
     );
 
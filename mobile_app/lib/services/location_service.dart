@@ -41,10 +41,12 @@ class LocationService {
   final _connectionStateController = StreamController<bool>.broadcast();
   final _locationUpdateController = StreamController<Position>.broadcast();
   final _driverLocationsController = StreamController<List<DriverLocation>>.broadcast();
+  final _tokenExpiringController = StreamController<DateTime>.broadcast();
   
   // Reconnection
   Timer? _reconnectTimer;
   int _reconnectAttempts = 0;
+  String? _accessToken; // Latest token, from connect or refreshAccessToken
   static const int _maxReconnectAttempts = 5;
   
   /// Stream of connection state changes
@@ -56,6 +58,9 @@ class LocationService {
   /// Stream of nearby driver locations
   Stream<List<DriverLocation>> get driverLocations => _driverLocationsController.stream;
   
+  /// Stream of access token expiry warnings; answer with [refreshAccessToken]
+  Stream<DateTime> get tokenExpiring => _tokenExpiringController.stream;
+  
   /// Current connection status
   bool get isConnected => _isConnected;
   
@@ -110,12 +115,13 @@ class LocationService {
     return true;
   }
 
-  /// Connect to the WebSocket location server
-  Future<void> connect({required String userId, required String userType}) async {
+  /// Connect to the WebSocket location server, authenticating with the
+  /// core-api access token (identity and tenant are taken from it)
+  Future<void> connect({required String accessToken}) async {
+    _accessToken = accessToken;
     if (_isConnected) return;
     
-    final config = FlavorConfig.instance;
-    final wsUrl = '${config.wsEndpoint}/location?userId=$userId&userType=$userType&tenantId=${config.tenantId}';
+    final wsUrl = '${FlavorConfig.instance.wsEndpoint}/location';
     
     try {
       debugPrint('LocationService: Connecting to $wsUrl');
@@ -128,6 +134,11 @@ class LocationService {
         onDone: _handleWebSocketDone,
       );
       
+      _channel!.sink.add(jsonEncode({
+        'type': 'authenticate',
+        'payload': {'token': accessToken},
+      }));
+      
       _isConnected = true;
       _reconnectAttempts = 0;
       _connectionStateController.add(true);
@@ -138,13 +149,26 @@ class LocationService {
       _startPingTimer();
     } catch (e) {
       debugPrint('LocationService: Connection error - $e');
-      _scheduleReconnect(userId: userId, userType: userType);
+      _scheduleReconnect();
     }
   }
 
+  /// Hand the server a refreshed access token before the current one expires.
+  /// Reconnects use the latest token.
+  void refreshAccessToken(String accessToken) {
+    _accessToken = accessToken;
+    if (!_isConnected || _channel == null) return;
+    
+    _channel!.sink.add(jsonEncode({
+      'type': 'refresh_token',
+      'payload': {'token': accessToken},
+    }));
+  }
+
   /// Disconnect from the WebSocket server
   Future<void> disconnect() async {
     _reconnectTimer?.cancel();
+    _accessToken = null;
     _wsSubscription?.cancel();
     await _channel?.sink.close();
     
@@ -293,6 +317,20 @@ class LocationService {
           _driverLocationsController.add([driver]);
           break;
           
+        case 'subscription_revoked':
+          // The tracked ride ended or its driver was reassigned
+          debugPrint('LocationService: Stopped tracking driver ${payload['driverId']}');
+          break;
+          
+        case 'connected':
+        case 'token_refreshed':
+          debugPrint('LocationService: Token valid until ${payload['tokenExpiresAt']}');
+          break;
+          
+        case 'token_expiring':
+          _tokenExpiringController.add(DateTime.parse(payload['tokenExpiresAt'] as String));
+          break;
+          
         case 'pong':
           // Connection alive confirmation
           break;
@@ -324,7 +362,7 @@ class LocationService {
   }
 
   /// Schedule reconnection attempt
-  void _scheduleReconnect({required String userId, required String userType}) {
+  void _scheduleReconnect() {
     if (_reconnectAttempts >= _maxReconnectAttempts) {
       debugPrint('LocationService: Max reconnect attempts reached');
       return;
@@ -336,7 +374,10 @@ class LocationService {
     debugPrint('LocationService: Scheduling reconnect in ${delay.inSeconds}s (attempt $_reconnectAttempts)');
     
     _reconnectTimer = Timer(delay, () {
-      connect(userId: userId, userType: userType);
+      final accessToken = _accessToken;
+      if (accessToken != null) {
+        connect(accessToken: accessToken);
+      }
     });
   }
 
@@ -360,6 +401,7 @@ class LocationService {
     _connectionStateController.close();
     _locationUpdateController.close();
     _driverLocationsController.close();
+    _tokenExpiringController.close();
   }
 }
 